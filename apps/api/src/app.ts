@@ -1,16 +1,31 @@
 import { Hono } from 'hono';
 
 import type { KeyCache } from './cache/types';
+import type { Summarizer } from './domain/summarizer';
+import type { ContextEventSource } from './events/types';
 import { registerAuthMiddleware } from './middleware/auth';
 import { corsMiddleware } from './middleware/cors';
 import { databaseMiddleware } from './middleware/database';
+import { registerIdempotencyMiddleware } from './middleware/idempotency';
+import { registerRateLimitMiddleware } from './middleware/rate-limit';
+import { registerScopeMiddleware } from './middleware/scopes';
+import { registerAuditRoutes } from './routes/audit';
+import { registerBackupRoutes } from './routes/backups';
 import { registerContextRoutes } from './routes/contexts';
+import { registerEventRoutes } from './routes/events';
 import { registerKeyRoutes } from './routes/keys';
 import { registerMcpRoutes } from './routes/mcp';
+import { registerProjectRoutes } from './routes/projects';
+import { registerRetentionRoutes } from './routes/retention';
 import { registerRootRoutes } from './routes/root';
+import { registerSearchRoutes } from './routes/search';
+import { registerTokenRoutes } from './routes/tokens';
+import { registerWebhookRoutes } from './routes/webhooks';
+import type { RateLimitCounter } from './ratelimit/types';
 import type { StorageAdapter } from './storage/types';
 import type { ApiConfig } from './types/api';
 import type { AppEnv } from './types/http';
+import { WebhookDispatcher } from './webhooks/dispatcher';
 
 // -- app factory --------------------------------------------------------------
 
@@ -18,19 +33,37 @@ export type AppOptions = {
     config: ApiConfig;
     storage: StorageAdapter;
     keyCache?: KeyCache;
+    // no rate limiting without one
+    rateLimiter?: RateLimitCounter;
+    summarizer?: Summarizer;
+    events?: ContextEventSource;
+    // defaults to a dispatcher retrying on in-process timers
+    webhooks?: WebhookDispatcher;
 };
 
 export function createApp(options: AppOptions) {
     const app = new Hono<AppEnv>();
+    const webhooks = options.webhooks ?? new WebhookDispatcher();
 
     app.use('*', corsMiddleware);
     app.use('*', databaseMiddleware(options.storage, options.config));
 
     registerAuthMiddleware(app, { keyCache: options.keyCache });
+    registerRateLimitMiddleware(app, { counter: options.rateLimiter });
+    registerScopeMiddleware(app);
+    registerIdempotencyMiddleware(app);
     registerRootRoutes(app);
-    registerKeyRoutes(app);
-    registerContextRoutes(app);
+    registerKeyRoutes(app, { keyCache: options.keyCache });
+    registerAuditRoutes(app);
+    registerProjectRoutes(app, { keyCache: options.keyCache });
+    registerBackupRoutes(app);
+    registerContextRoutes(app, { summarizer: options.summarizer, events: options.events, webhooks });
+    registerEventRoutes(app, { events: options.events });
+    registerSearchRoutes(app);
+    registerWebhookRoutes(app, { webhooks });
+    registerRetentionRoutes(app);
     registerMcpRoutes(app);
+    registerTokenRoutes(app);
 
     return app;
 }
@@ -20,4 +20,9 @@ export class KvKeyCache implements KeyCache {
             expirationTtl: ttlSeconds,
         });
     }
+
+    // KV is eventually consistent: other locations may serve the old entry for up to a minute
+    async delete(prefix: string): Promise<void> {
+        await this.kv.delete(`key:${prefix}`);
+    }
 }
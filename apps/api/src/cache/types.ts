@@ -6,9 +6,16 @@ export type CachedKey = {
     keyHash: string;
     apiKeyId: number;
     projectId: number;
+    // rotated keys only
+    expiresAt?: string | null;
+    // absent in entries cached before keys had scopes, which grant everything
+    scopes?: string[] | null;
+    contextIds?: string[] | null;
+    metadataFilter?: Record<string, unknown> | null;
 };
 
 export interface KeyCache {
     get(prefix: string): Promise<CachedKey | null>;
     put(prefix: string, value: CachedKey, ttlSeconds?: number): Promise<void>;
+    delete(prefix: string): Promise<void>;
 }
@@ -1,4 +1,5 @@
-import type { ApiConfig, DatabaseProvider } from './types';
+import { RATE_LIMIT_GROUPS } from './ratelimit/types';
+import type { ApiConfig, DatabaseProvider, RateLimitOverrides } from './types';
 
 // =============================================================================
 // buildApiConfig — runtime-agnostic, no Node.js deps
@@ -10,6 +11,44 @@ function requireFrom(env: Record<string, string | undefined>, name: string): str
     return value;
 }
 
+function optionalFrom(env: Record<string, string | undefined>, name: string): string | undefined {
+    return env[name] || undefined;
+}
+
+function optionalPositiveInt(env: Record<string, string | undefined>, name: string): number | undefined {
+    const raw = env[name];
+    if (raw === undefined || raw === '') return undefined;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value <= 0) throw new Error(`Invalid env var: ${name} (expected a positive integer)`);
+    return value;
+}
+
+// JSON object of per-group { key, project } limits
+function optionalRateLimits(env: Record<string, string | undefined>, name: string): RateLimitOverrides | undefined {
+    const raw = env[name];
+    if (raw === undefined || raw === '') return undefined;
+
+    const invalid = () => new Error(`Invalid env var: ${name} (expected JSON like {"deletes":{"key":10,"project":50}})`);
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        throw invalid();
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) throw invalid();
+
+    const overrides: RateLimitOverrides = {};
+    for (const [group, rule] of Object.entries(parsed)) {
+        if (!(RATE_LIMIT_GROUPS as readonly string[]).includes(group)) throw invalid();
+        if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) throw invalid();
+        for (const [scope, limit] of Object.entries(rule)) {
+            if ((scope !== 'key' && scope !== 'project') || !Number.isInteger(limit) || (limit as number) <= 0) throw invalid();
+        }
+        overrides[group as keyof RateLimitOverrides] = rule;
+    }
+    return overrides;
+}
+
 function resolveProvider(env: Record<string, string | undefined>): DatabaseProvider {
     const value = String(env.DATABASE_PROVIDER ?? '').trim().toLowerCase();
     if (value === 'postgres' || value === 'supabase') return value;
@@ -19,12 +58,22 @@ function resolveProvider(env: Record<string, string | undefined>): DatabaseProvi
 export function buildApiConfig(env: Record<string, string | undefined>): ApiConfig {
     const provider = resolveProvider(env);
     const adminKey = requireFrom(env, 'ULTRACONTEXT_ADMIN_KEY');
+    const idempotencyWindow = optionalPositiveInt(env, 'IDEMPOTENCY_WINDOW_SECONDS');
+    const trashWindow = optionalPositiveInt(env, 'TRASH_WINDOW_SECONDS');
+    const rateLimitWindow = optionalPositiveInt(env, 'RATE_LIMIT_WINDOW_SECONDS');
+    const rateLimits = optionalRateLimits(env, 'RATE_LIMITS');
+    const tokenSigningKey = optionalFrom(env, 'ULTRACONTEXT_TOKEN_SIGNING_KEY');
 
     if (provider === 'postgres') {
         return {
             DATABASE_PROVIDER: 'postgres',
             DATABASE_URL: requireFrom(env, 'DATABASE_URL'),
             ULTRACONTEXT_ADMIN_KEY: adminKey,
+            IDEMPOTENCY_WINDOW_SECONDS: idempotencyWindow,
+            TRASH_WINDOW_SECONDS: trashWindow,
+            RATE_LIMIT_WINDOW_SECONDS: rateLimitWindow,
+            RATE_LIMITS: rateLimits,
+            ULTRACONTEXT_TOKEN_SIGNING_KEY: tokenSigningKey,
         };
     }
 
@@ -33,5 +82,10 @@ export function buildApiConfig(env: Record<string, string | undefined>): ApiConf
         SUPABASE_URL: requireFrom(env, 'SUPABASE_URL'),
         SUPABASE_SERVICE_ROLE_KEY: requireFrom(env, 'SUPABASE_SERVICE_ROLE_KEY'),
         ULTRACONTEXT_ADMIN_KEY: adminKey,
+        IDEMPOTENCY_WINDOW_SECONDS: idempotencyWindow,
+        TRASH_WINDOW_SECONDS: trashWindow,
+        RATE_LIMIT_WINDOW_SECONDS: rateLimitWindow,
+        RATE_LIMITS: rateLimits,
+        ULTRACONTEXT_TOKEN_SIGNING_KEY: tokenSigningKey,
     };
 }
@@ -1,3 +1,91 @@
+import type { RateLimits } from './ratelimit/types';
+
 export const KEY_PREFIX_LEN = 12;
 
+// how long a rotated key keeps working
+export const DEFAULT_KEY_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+
+export const MAX_KEY_ROTATION_GRACE_SECONDS = 30 * 24 * 60 * 60;
+
+export const MAX_KEY_CONTEXT_IDS = 100;
+
+export const DEFAULT_DELEGATED_TOKEN_TTL_SECONDS = 15 * 60;
+
+// tokens outlive a revoke of their key by up to this much
+export const MAX_DELEGATED_TOKEN_TTL_SECONDS = 60 * 60;
+
 export const MAX_BATCH_DELETE = 100;
+
+// a version is stored as a snapshot at least every this many versions...
+export const SNAPSHOT_INTERVAL = 16;
+
+// ...or once the delta heads since the last one hold this many rows
+export const SNAPSHOT_REPLAY_ROWS = 1000;
+
+// tries a versioned write gets when concurrent transactions keep aborting it
+export const VERSIONED_WRITE_ATTEMPTS = 3;
+
+export const MAX_SEARCH_LIMIT = 100;
+
+export const MAX_METADATA_FILTERS = 20;
+
+// keeps idle SSE connections open through proxies
+export const EVENT_HEARTBEAT_MS = 15_000;
+
+// how often an open event stream checks its API key hasn't been revoked
+export const EVENT_AUTH_RECHECK_MS = 60_000;
+
+export const DEFAULT_IDEMPOTENCY_WINDOW_SECONDS = 24 * 60 * 60;
+
+// how long an in-flight request holds its Idempotency-Key; an older claim with
+// no response was abandoned (e.g. the instance died) and can be taken over
+export const IDEMPOTENCY_CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+// how long a deleted context stays restorable before it's purged
+export const DEFAULT_TRASH_WINDOW_SECONDS = 30 * 24 * 60 * 60;
+
+// trashed contexts purged per sweep
+export const TRASH_PURGE_LIMIT = 500;
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// how long past the request timeout a claimed delivery stays hidden from other
+// senders; a sender that dies mid-attempt leaves it due again after that
+export const WEBHOOK_CLAIM_MS = 60_000;
+
+// due deliveries sent per retryDue() call
+export const WEBHOOK_RETRY_BATCH = 100;
+
+// batches per Node.js sweep, which runs hourly
+export const WEBHOOK_RETRY_MAX_BATCHES = 20;
+
+export const MAX_WEBHOOK_DELIVERIES_LIMIT = 100;
+
+export const MAX_AUDIT_LIMIT = 100;
+
+export const MAX_PROJECTS_LIMIT = 100;
+
+// days of GET /v1/projects/:id/usage when no range is given, and the most one range may span
+export const DEFAULT_USAGE_DAYS = 30;
+
+export const MAX_USAGE_DAYS = 366;
+
+// contexts of each kind (expired, over the version limit) handled per project per sweep
+export const RETENTION_SWEEP_LIMIT = 100;
+
+export const RETENTION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+export const DEFAULT_RATE_LIMIT_WINDOW_SECONDS = 60;
+
+// per window; RATE_LIMITS overrides any of these
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+    reads: { key: 600, project: 3000 },
+    appends: { key: 600, project: 3000 },
+    writes: { key: 120, project: 600 },
+    deletes: { key: 60, project: 300 },
+    mcp: { key: 300, project: 1500 },
+};
@@ -1,6 +1,6 @@
 import { sql } from 'drizzle-orm';
 import { drizzle, type PostgresJsDatabase } from 'drizzle-orm/postgres-js';
-import { bigint, bigserial, jsonb, pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+import { bigint, bigserial, boolean, integer, jsonb, pgTable, pgView, text, timestamp, unique } from 'drizzle-orm/pg-core';
 import postgres, { type Sql } from 'postgres';
 
 const GLOBAL_DB_REGISTRY_KEY = '__ultracontextPgRegistry';
@@ -20,6 +20,11 @@ export const api_keys = pgTable('api_keys', {
     name: text('name'),
     last_used_at: timestamp('last_used_at', { withTimezone: true, mode: 'string' }),
     created_at: timestamp('created_at', { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
+    expires_at: timestamp('expires_at', { withTimezone: true, mode: 'string' }),
+    revoked_at: timestamp('revoked_at', { withTimezone: true, mode: 'string' }),
+    scopes: text('scopes').array(),
+    context_ids: text('context_ids').array(),
+    metadata_filter: jsonb('metadata_filter').$type<Record<string, unknown>>(),
 });
 
 export const nodes = pgTable('nodes', {
@@ -33,12 +38,95 @@ export const nodes = pgTable('nodes', {
     parent_id: text('parent_id'),
     prev_id: text('prev_id'),
     context_id: text('context_id'),
+    deleted_at: timestamp('deleted_at', { withTimezone: true, mode: 'string' }),
 });
 
+export const idempotency_keys = pgTable(
+    'idempotency_keys',
+    {
+        id: bigserial('id', { mode: 'number' }).primaryKey(),
+        project_id: bigint('project_id', { mode: 'number' }).notNull(),
+        scope: text('scope').notNull(),
+        key: text('key').notNull(),
+        fingerprint: text('fingerprint').notNull(),
+        status_code: integer('status_code'),
+        response: jsonb('response'),
+        created_at: timestamp('created_at', { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
+    },
+    (table) => [unique().on(table.project_id, table.scope, table.key)],
+);
+
+export const webhooks = pgTable('webhooks', {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    public_id: text('public_id').notNull(),
+    project_id: bigint('project_id', { mode: 'number' }).notNull(),
+    url: text('url').notNull(),
+    secret: text('secret').notNull(),
+    events: text('events').array().notNull(),
+    active: boolean('active').notNull().default(true),
+    created_at: timestamp('created_at', { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
+});
+
+export const webhook_deliveries = pgTable('webhook_deliveries', {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    public_id: text('public_id').notNull(),
+    webhook_id: bigint('webhook_id', { mode: 'number' }).notNull(),
+    event_id: text('event_id').notNull(),
+    event_type: text('event_type').notNull(),
+    payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+    status: text('status').notNull().default('pending'),
+    attempts: integer('attempts').notNull().default(0),
+    response_status: integer('response_status'),
+    last_error: text('last_error'),
+    next_attempt_at: timestamp('next_attempt_at', { withTimezone: true, mode: 'string' }),
+    created_at: timestamp('created_at', { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
+    updated_at: timestamp('updated_at', { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
+});
+
+export const retention_policies = pgTable('retention_policies', {
+    project_id: bigint('project_id', { mode: 'number' }).primaryKey(),
+    max_age_days: integer('max_age_days'),
+    metadata: jsonb('metadata').$type<Record<string, string>>(),
+    max_versions: integer('max_versions'),
+    created_at: timestamp('created_at', { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
+    updated_at: timestamp('updated_at', { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
+});
+
+export const audit_events = pgTable('audit_events', {
+    id: bigserial('id', { mode: 'number' }).primaryKey(),
+    project_id: bigint('project_id', { mode: 'number' }),
+    api_key_id: bigint('api_key_id', { mode: 'number' }),
+    actor: text('actor').notNull(),
+    action: text('action').notNull(),
+    target_id: text('target_id'),
+    metadata: jsonb('metadata').$type<Record<string, unknown>>(),
+    details: jsonb('details').$type<Record<string, unknown>>().notNull().default(sql`'{}'::jsonb`),
+    created_at: timestamp('created_at', { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
+});
+
+// defined in init.sql; read-only
+export const project_activity_daily = pgView('project_activity_daily', {
+    project_id: bigint('project_id', { mode: 'number' }).notNull(),
+    project_name: text('project_name').notNull(),
+    activity_day: timestamp('activity_day', { withTimezone: true, mode: 'string' }).notNull(),
+    source: text('source').notNull(),
+    node_count: bigint('node_count', { mode: 'number' }).notNull(),
+    message_count: bigint('message_count', { mode: 'number' }).notNull(),
+    context_count: bigint('context_count', { mode: 'number' }).notNull(),
+    root_context_count: bigint('root_context_count', { mode: 'number' }).notNull(),
+    first_event_at: timestamp('first_event_at', { withTimezone: true, mode: 'string' }).notNull(),
+    last_event_at: timestamp('last_event_at', { withTimezone: true, mode: 'string' }).notNull(),
+}).existing();
+
 export const schema = {
     projects,
     api_keys,
     nodes,
+    idempotency_keys,
+    webhooks,
+    webhook_deliveries,
+    retention_policies,
+    audit_events,
 };
 
 export type ApiDb = PostgresJsDatabase<typeof schema>;
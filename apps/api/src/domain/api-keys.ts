@@ -1,3 +1,10 @@
+import { KEY_PREFIX_LEN } from '../constants';
+import type { ApiKeyAccess, ApiKeyMetadataRow, ApiKeyRow, StorageAdapter } from '../storage/types';
+
+export const API_KEY_SCOPES = ['contexts:read', 'contexts:write', 'contexts:delete', 'mcp'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
 const BASE62 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
 
 export function toBase62(bytes: Uint8Array): string {
@@ -21,3 +28,41 @@ export async function hashKey(key: string): Promise<string> {
     const hashArray = Array.from(new Uint8Array(hashBuffer));
     return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
 }
+
+// -- lifecycle ----------------------------------------------------------------
+
+// revoked keys, and rotated keys past their grace period, no longer authenticate
+export function isApiKeyActive(key: Pick<ApiKeyRow, 'expires_at' | 'revoked_at'>, now = Date.now()): boolean {
+    if (key.revoked_at) return false;
+    return !key.expires_at || Date.parse(key.expires_at) > now;
+}
+
+// the raw key is only ever returned here, at creation
+export async function createApiKey(storage: StorageAdapter, projectId: number, name: string | null, access?: Partial<ApiKeyAccess>) {
+    const key = generateKey();
+    const row = await storage.insertApiKey({
+        ...access,
+        project_id: projectId,
+        key_prefix: key.slice(0, KEY_PREFIX_LEN),
+        key_hash: await hashKey(key),
+        name,
+    });
+    return { key, row };
+}
+
+export function formatApiKey(row: ApiKeyMetadataRow) {
+    return {
+        id: row.id,
+        prefix: row.key_prefix,
+        project_id: row.project_id,
+        name: row.name,
+        active: isApiKeyActive(row),
+        created_at: row.created_at,
+        last_used_at: row.last_used_at,
+        expires_at: row.expires_at,
+        revoked_at: row.revoked_at,
+        scopes: row.scopes,
+        context_ids: row.context_ids,
+        metadata_filter: row.metadata_filter,
+    };
+}
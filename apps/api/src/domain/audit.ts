@@ -0,0 +1,107 @@
+import type { AuditEventQuery, AuditEventRow, StorageAdapter } from '../storage/types';
+import { decodeAuditCursor, encodeAuditCursor } from './cursors';
+
+// =============================================================================
+// AUDIT LOG — who deleted, edited or administered what, and when
+// =============================================================================
+// Entries are written once the change has committed. Like change events, a
+// failed write is logged instead of failing a request whose change already
+// happened. Rows carry no foreign keys, so they outlive what they describe.
+
+export const AUDIT_ACTIONS = [
+    // whole contexts
+    'context.trash',
+    'context.restore',
+    'context.purge',
+    'context.prune',
+    // version-creating edits
+    'context.update',
+    'context.delete_messages',
+    'context.splice',
+    'context.compact',
+    'context.revert',
+    'context.metadata',
+    // api keys
+    'key.create',
+    'key.rename',
+    'key.rotate',
+    'key.revoke',
+    // projects
+    'project.rename',
+    'project.delete',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditActorRef = Pick<AuditEventRow, 'actor' | 'api_key_id'>;
+
+export const ADMIN_ACTOR: AuditActorRef = { actor: 'admin', api_key_id: null };
+
+// the retention and trash sweepers
+export const SYSTEM_ACTOR: AuditActorRef = { actor: 'system', api_key_id: null };
+
+export function apiKeyActor(apiKeyId: number): AuditActorRef {
+    return { actor: 'api_key', api_key_id: apiKeyId };
+}
+
+export type AuditEntry = {
+    action: AuditAction;
+    projectId: number | null;
+    targetId: string | null;
+    // user-supplied, stored as sent
+    metadata?: Record<string, unknown> | null;
+    details?: Record<string, unknown>;
+};
+
+export async function recordAudit(storage: StorageAdapter, actor: AuditActorRef, entries: AuditEntry | AuditEntry[]): Promise<void> {
+    const list = Array.isArray(entries) ? entries : [entries];
+    try {
+        await storage.insertAuditEvents(
+            list.map((e) => ({
+                ...actor,
+                project_id: e.projectId,
+                action: e.action,
+                target_id: e.targetId,
+                metadata: e.metadata ?? null,
+                details: e.details ?? {},
+            })),
+        );
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to record audit events (${list.map((e) => e.action).join(', ')}): ${message}`);
+    }
+}
+
+// -- listing ------------------------------------------------------------------
+
+export type ListAuditEventsQuery = Omit<AuditEventQuery, 'before_id'> & { cursor?: string };
+
+export function formatAuditEvent(row: AuditEventRow) {
+    return {
+        id: row.id,
+        action: row.action,
+        actor: row.actor,
+        api_key_id: row.api_key_id,
+        project_id: row.project_id,
+        target_id: row.target_id,
+        metadata: row.metadata,
+        details: row.details,
+        created_at: row.created_at,
+    };
+}
+
+export async function listAuditEvents(storage: StorageAdapter, query: ListAuditEventsQuery) {
+    const { cursor: rawCursor, limit, ...filters } = query;
+    const beforeId = rawCursor ? decodeAuditCursor(rawCursor) : undefined;
+    if (beforeId === null) throw new Error('Invalid cursor');
+
+    // fetch one extra row to learn whether another page exists
+    const rows = await storage.findAuditEvents({ ...filters, before_id: beforeId, limit: limit + 1 });
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+        data: page.map(formatAuditEvent),
+        next_cursor: rows.length > limit && last ? encodeAuditCursor(last.id) : null,
+    };
+}
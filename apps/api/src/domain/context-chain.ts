@@ -1,4 +1,5 @@
-import type { StorageAdapter } from '../storage/types';
+import { SNAPSHOT_INTERVAL, SNAPSHOT_REPLAY_ROWS } from '../constants';
+import type { StorageAdapter, NodeRow } from '../storage/types';
 import { generatePublicId } from './public-ids';
 
 export type NodeInsertInput = {
@@ -8,16 +9,60 @@ export type NodeInsertInput = {
     parent_id?: string | null;
 };
 
+export type VersionOperation = 'create' | 'update' | 'delete' | 'revert' | 'splice' | 'compact' | 'metadata';
+
 export type VersionInfo = {
     version: number;
     head_id: string;
     created_at: string;
-    operation: 'create' | 'update' | 'delete';
+    operation: VersionOperation;
     affected: string[] | null;
+    source_version?: number;
+    // root metadata changes recorded by a 'metadata' version
+    metadata_changes?: Record<string, { from?: unknown; to?: unknown }>;
     metadata?: Record<string, unknown>;
 };
 
-type BranchNode = { public_id: string; prev_id: string | null; created_at: string };
+// offset/limit page forward from the start (or from_id); tail takes the last N
+export type MessageWindow = {
+    offset?: number;
+    limit?: number;
+    tail?: number;
+    from_id?: string;
+    to_id?: string;
+};
+
+export type WindowedNodes<T> = { nodes: T[]; start: number; total: number } | { missing: string };
+
+type BranchNode = Pick<NodeRow, 'public_id' | 'prev_id' | 'created_at' | 'content'>;
+
+// -- copy-on-write versions ---------------------------------------------------
+// A delta head (content.delta) stores only what its edit changed: replacement
+// messages whose parent_id is the node they supersede, and tombstones whose
+// parent_id is the node they remove. Everything else resolves through prev_id,
+// or through content.base when set (revert heads replay on top of the version
+// they restore). Heads without the marker (initial heads, pre-migration data)
+// are snapshots.
+//
+// Only a snapshot head can be read a window at a time in storage; a delta head
+// is replayed in full from the nearest snapshot. So once SNAPSHOT_INTERVAL
+// versions or SNAPSHOT_REPLAY_ROWS delta rows pile up, the next version is
+// written as a snapshot instead (see writeSnapshot), marked content.snapshot
+// so the copy-on-write migration can tell it from a pre-migration head.
+
+export const TOMBSTONE_TYPE = 'tombstone';
+
+export const DELTA_HEAD_CONTENT = { delta: true };
+
+export const SNAPSHOT_HEAD_CONTENT = { snapshot: true };
+
+export function isDeltaHead(head: { content?: Record<string, unknown> | null }): boolean {
+    return head.content?.delta === true;
+}
+
+export function deltaBase(head: { prev_id: string | null; content?: Record<string, unknown> | null }): string | null {
+    return typeof head.content?.base === 'string' ? head.content.base : head.prev_id;
+}
 
 // -- pure functions (no DB) ---------------------------------------------------
 
@@ -45,6 +90,107 @@ export function orderNodes<T extends { public_id: string; prev_id: string | null
     return ordered;
 }
 
+// replays one delta head on top of the resolved list of the head before it
+export function applyDelta<T extends { id: number; public_id: string; type: string; parent_id: string | null; prev_id: string | null }>(
+    ordered: T[],
+    delta: T[],
+): T[] {
+    const present = new Set(ordered.map((n) => n.public_id));
+    const removed = new Set<string>();
+    const replaced = new Map<string, T>();
+    const inserted: T[] = [];
+
+    for (const node of delta) {
+        if (node.type === TOMBSTONE_TYPE) {
+            if (node.parent_id) removed.add(node.parent_id);
+        } else if (node.parent_id && present.has(node.parent_id)) {
+            replaced.set(node.parent_id, node);
+        } else {
+            inserted.push(node);
+        }
+    }
+
+    const result = ordered.filter((n) => !removed.has(n.public_id)).map((n) => replaced.get(n.public_id) ?? n);
+
+    const place = (node: T) => {
+        const last = result[result.length - 1];
+        if (node.prev_id && last?.public_id === node.prev_id) {
+            result.push(node);
+            return;
+        }
+        const prevIdx = node.prev_id ? result.findIndex((n) => n.public_id === node.prev_id) : -1;
+        if (node.prev_id && prevIdx === -1) {
+            result.push(node);
+        } else {
+            result.splice(prevIdx + 1, 0, node);
+        }
+    };
+
+    // new messages in write order, each right after its prev_id (null = front).
+    // One whose prev_id is a new message not placed yet waits for it: snapshot
+    // copies are written later than the rows they sit between.
+    const unplaced = new Set(inserted.map((n) => n.public_id));
+    const waiting = new Map<string, T[]>();
+    for (const node of inserted.sort((a, b) => a.id - b.id)) {
+        if (node.prev_id && node.prev_id !== node.public_id && unplaced.has(node.prev_id)) {
+            waiting.set(node.prev_id, [...(waiting.get(node.prev_id) ?? []), node]);
+            continue;
+        }
+        const ready = [node];
+        for (let next = ready.pop(); next; next = ready.pop()) {
+            place(next);
+            unplaced.delete(next.public_id);
+            ready.push(...(waiting.get(next.public_id) ?? []).reverse());
+            waiting.delete(next.public_id);
+        }
+    }
+    // a prev_id cycle never resolves; those go last
+    for (const node of [...waiting.values()].flat().sort((a, b) => a.id - b.id)) place(node);
+
+    return result;
+}
+
+export function buildTombstoneRecords(removedIds: string[], projectId: number, headId: string) {
+    return removedIds.map((id) => ({
+        public_id: generatePublicId('msg'),
+        project_id: projectId,
+        type: TOMBSTONE_TYPE,
+        context_id: headId,
+        parent_id: id,
+        prev_id: null,
+        content: {},
+        metadata: {},
+    }));
+}
+
+export function hasWindow(window: MessageWindow): boolean {
+    return Object.values(window).some((value) => value !== undefined);
+}
+
+// from/to are inclusive positions of from_id/to_id; returns an end-exclusive range
+function windowBounds(total: number, window: MessageWindow, from?: number, to?: number) {
+    let start = from ?? 0;
+    let end = to !== undefined ? to + 1 : total;
+
+    if (window.tail !== undefined) start = Math.max(start, end - window.tail);
+    if (window.offset !== undefined) start += window.offset;
+    if (window.limit !== undefined) end = Math.min(end, start + window.limit);
+
+    return { start: Math.min(start, total), end: Math.max(Math.min(end, total), 0) };
+}
+
+export function sliceWindow<T extends { public_id: string }>(ordered: T[], window: MessageWindow): WindowedNodes<T> {
+    const position = (id?: string) => (id === undefined ? undefined : ordered.findIndex((n) => n.public_id === id));
+
+    const from = position(window.from_id);
+    if (from === -1) return { missing: window.from_id! };
+    const to = position(window.to_id);
+    if (to === -1) return { missing: window.to_id! };
+
+    const { start, end } = windowBounds(ordered.length, window, from, to);
+    return { nodes: start < end ? ordered.slice(start, end) : [], start, total: ordered.length };
+}
+
 export function buildNodeInsertRecords(nodesToInsert: NodeInsertInput[], projectId: number, contextId: string, startingPrevId: string | null = null) {
     const publicIds = nodesToInsert.map((n) => (n.type === 'context' ? generatePublicId('context') : generatePublicId('msg')));
 
@@ -62,17 +208,6 @@ export function buildNodeInsertRecords(nodesToInsert: NodeInsertInput[], project
 
 // -- storage-backed functions -------------------------------------------------
 
-export async function findTail(storage: StorageAdapter, contextPublicId: string): Promise<string | null> {
-    const contextNodes = await storage.findNodesByContextId(contextPublicId);
-
-    if (contextNodes.length === 0) return null;
-
-    const pointedTo = new Set(contextNodes.map((n) => n.prev_id).filter(Boolean));
-    const tail = contextNodes.find((n) => !pointedTo.has(n.public_id));
-
-    return tail?.public_id ?? null;
-}
-
 export async function findHead(storage: StorageAdapter, rootId: string): Promise<BranchNode | null> {
     const branches = await storage.findContextBranches(rootId);
 
@@ -84,26 +219,155 @@ export async function findHead(storage: StorageAdapter, rootId: string): Promise
     return heads.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0] ?? null;
 }
 
-export async function getOrderedNodes(storage: StorageAdapter, headId: string) {
+// head ids from the nearest snapshot up to (and including) the given delta head
+async function findDeltaChain(storage: StorageAdapter, head: NodeRow): Promise<string[]> {
+    const branches = await storage.findContextBranches(head.context_id ?? '');
+    const byId = new Map(branches.map((b) => [b.public_id, b]));
+
+    const chain = [head.public_id];
+    let current: Pick<NodeRow, 'public_id' | 'prev_id' | 'content'> | undefined = head;
+    while (current && isDeltaHead(current)) {
+        const base = deltaBase(current);
+        if (!base || chain.includes(base)) break;
+        chain.unshift(base);
+        current = byId.get(base);
+    }
+
+    return chain;
+}
+
+// whether the version written on top of headId should be a snapshot
+export async function isSnapshotDue(storage: StorageAdapter, headId: string): Promise<boolean> {
+    const head = await storage.findNodeByPublicId(headId);
+    if (!head || !isDeltaHead(head)) return false;
+
+    // the snapshot, then every delta since; the new version would be one more
+    const chain = await findDeltaChain(storage, head);
+    if (chain.length >= SNAPSHOT_INTERVAL) return true;
+
+    let rows = 0;
+    for (const deltaId of chain.slice(1)) rows += await storage.countNonContextNodes(deltaId);
+    return rows >= SNAPSHOT_REPLAY_ROWS;
+}
+
+type SnapshotNode = Pick<NodeRow, 'public_id' | 'type' | 'context_id' | 'content' | 'metadata'> & {
+    parent_id?: string | null;
+    prev_id?: string | null;
+    created_at?: string;
+};
+
+// Writes a version's messages, in order, as the rows of snapshot head headId
+// without changing any message id. Rows the write itself creates for headId
+// are inserted; the rest move under headId, each leaving a copy behind (same
+// content and created_at, references in other heads pointed at it) so older
+// versions read exactly as before. Must run in the transaction that inserts
+// headId; moving the rows comes last, as the step a rollback can't undo.
+export async function writeSnapshot(storage: StorageAdapter, projectId: number, rootId: string, headId: string, ordered: SnapshotNode[]) {
+    const created = ordered.filter((n) => n.context_id === headId);
+    const moved = ordered.filter((n) => n.context_id !== headId);
+    const copyIds = new Map(moved.map((n) => [n.public_id, generatePublicId('msg')]));
+    const copyOf = (id: string | null | undefined) => (id ? (copyIds.get(id) ?? id) : null);
+
+    const copies = moved.map((n) => ({
+        public_id: copyIds.get(n.public_id)!,
+        project_id: projectId,
+        type: n.type,
+        context_id: n.context_id,
+        // an unedited copy traces its lineage to the message it stands in for
+        parent_id: n.parent_id ? copyOf(n.parent_id) : n.public_id,
+        prev_id: copyOf(n.prev_id),
+        content: n.content,
+        metadata: n.metadata,
+        created_at: n.created_at,
+    }));
+
+    if (created.length > 0) {
+        await storage.insertNodes(
+            created.map((n) => ({
+                public_id: n.public_id,
+                project_id: projectId,
+                type: n.type,
+                context_id: headId,
+                parent_id: n.parent_id ?? null,
+                content: n.content,
+                metadata: n.metadata,
+            })),
+        );
+    }
+    if (copies.length > 0) {
+        const otherHeads = (await storage.findContextBranches(rootId)).map((b) => b.public_id).filter((id) => id !== headId);
+        await storage.replaceNodeReferences(projectId, otherHeads, Object.fromEntries(copyIds));
+        await storage.insertNodes(copies);
+    }
+    await storage.rechainNodes(projectId, headId, ordered.map((n) => n.public_id));
+}
+
+async function resolveHeadNodes(storage: StorageAdapter, head: NodeRow): Promise<NodeRow[]> {
+    const chain = await findDeltaChain(storage, head);
+    const chainNodes = await storage.findNonContextNodesBulk(chain);
+
+    const byHead = new Map<string, NodeRow[]>(chain.map((id) => [id, []]));
+    for (const node of chainNodes) byHead.get(node.context_id ?? '')?.push(node);
+
+    let ordered = orderNodes(byHead.get(chain[0]) ?? []);
+    for (const headId of chain.slice(1)) {
+        ordered = applyDelta(ordered, byHead.get(headId) ?? []);
+    }
+    return ordered;
+}
+
+export async function getOrderedNodes(storage: StorageAdapter, headId: string): Promise<NodeRow[]> {
+    const head = await storage.findNodeByPublicId(headId);
+    if (head && isDeltaHead(head)) return resolveHeadNodes(storage, head);
+
     const contextNodes = await storage.findNonContextNodes(headId);
 
     if (contextNodes.length === 0) return [];
     return orderNodes(contextNodes);
 }
 
+// storage-side slicing: only the requested range of a snapshot head is loaded
+export async function getNodeWindow(storage: StorageAdapter, headId: string, window: MessageWindow): Promise<WindowedNodes<NodeRow>> {
+    // delta heads only make sense after replay, which happens in memory
+    const head = await storage.findNodeByPublicId(headId);
+    if (head && isDeltaHead(head)) return sliceWindow(await resolveHeadNodes(storage, head), window);
+
+    const total = await storage.countNonContextNodes(headId);
+
+    const position = async (id?: string) => (id === undefined ? undefined : await storage.findNodePosition(headId, id));
+    const from = await position(window.from_id);
+    if (from === null) return { missing: window.from_id! };
+    const to = await position(window.to_id);
+    if (to === null) return { missing: window.to_id! };
+
+    const { start, end } = windowBounds(total, window, from, to);
+    if (start >= end) return { nodes: [], start, total };
+
+    const nodes = await storage.findNodeRange(headId, start, end);
+
+    // broken linked list: the chain walk comes up short, so fall back to in-memory ordering
+    if (nodes.length !== end - start) return sliceWindow(await getOrderedNodes(storage, headId), window);
+
+    return { nodes, start, total };
+}
+
 export async function getVersions(storage: StorageAdapter, rootId: string): Promise<VersionInfo[]> {
     const versions = await storage.findVersions(rootId);
 
     return versions.map((head, index: number) => {
         const meta = (head.metadata as Record<string, unknown>) ?? {};
-        const { operation, affected, ...userMetadata } = meta;
+        const { operation, affected, source_version, metadata_changes, ...userMetadata } = meta;
 
         return {
             version: index,
             head_id: head.public_id,
             created_at: head.created_at,
-            operation: (operation as 'create' | 'update' | 'delete') ?? 'create',
+            operation: (operation as VersionOperation) ?? 'create',
             affected: (affected as string[]) ?? null,
+            ...(typeof source_version === 'number' && { source_version }),
+            ...(typeof metadata_changes === 'object' && metadata_changes !== null && {
+                metadata_changes: metadata_changes as VersionInfo['metadata_changes'],
+            }),
             metadata: Object.keys(userMetadata).length > 0 ? userMetadata : undefined,
         };
     });
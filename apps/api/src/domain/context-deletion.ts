@@ -0,0 +1,166 @@
+import { DEFAULT_TRASH_WINDOW_SECONDS, TRASH_PURGE_LIMIT } from '../constants';
+import type { NodeRow, StorageAdapter } from '../storage/types';
+import type { ApiConfig } from '../types/api';
+import { recordAudit, SYSTEM_ACTOR } from './audit';
+import { getOrderedNodes } from './context-chain';
+import { loadEventContext, publishContextEvent, type SweepEventOptions } from './context-events';
+import { getCurrentVersion, writeVersioned } from './version-guard';
+
+// -- permanent delete ---------------------------------------------------------
+
+export async function permanentlyDelete(storage: StorageAdapter, projectId: number, rootPublicId: string) {
+    const branches = await storage.findContextBranches(rootPublicId);
+
+    // Per branch: batch-clear parent refs for its messages, then delete them
+    for (const branch of branches) {
+        await deleteHead(storage, projectId, branch.public_id);
+    }
+
+    // Clear parent refs pointing to root (forked contexts)
+    await storage.clearParentReferences(projectId, rootPublicId);
+
+    // Delete version head nodes
+    await storage.deleteNodesByContextId(projectId, rootPublicId);
+
+    // Delete the root node itself
+    await storage.deleteNodeByPublicId(projectId, rootPublicId);
+}
+
+// a head's messages go with it; anything pointing at them via parent_id is unlinked
+async function deleteHead(storage: StorageAdapter, projectId: number, headId: string) {
+    const messages = await storage.findNonContextNodes(headId);
+    const msgIds = messages.map((m) => m.public_id);
+    await storage.clearParentReferencesBulk(projectId, msgIds);
+    await storage.clearParentReferences(projectId, headId);
+    await storage.deleteNodesByContextId(projectId, headId);
+}
+
+// -- trash --------------------------------------------------------------------
+// Deleting a context only sets deleted_at on its root, which hides it from every
+// lookup. It can be restored until the window passes; then purgeExpiredTrash
+// (run by the same sweeper as retention) deletes it for good, publishing a
+// delete event as a permanent DELETE would.
+
+export function trashWindowMs(config: ApiConfig): number {
+    return (config.TRASH_WINDOW_SECONDS ?? DEFAULT_TRASH_WINDOW_SECONDS) * 1000;
+}
+
+export function restorableUntil(deletedAt: string, windowMs: number): string {
+    return new Date(Date.parse(deletedAt) + windowMs).toISOString();
+}
+
+export function isRestorable(deletedAt: string, windowMs: number, now = Date.now()): boolean {
+    return now - Date.parse(deletedAt) < windowMs;
+}
+
+// returns how many contexts were purged; one failing doesn't stop the rest
+export async function purgeExpiredTrash(
+    storage: StorageAdapter,
+    windowMs: number,
+    options: SweepEventOptions & { now?: Date; limit?: number } = {},
+): Promise<number> {
+    const now = options.now ?? new Date();
+    const expired = await storage.findExpiredTrash(new Date(now.getTime() - windowMs).toISOString(), options.limit ?? TRASH_PURGE_LIMIT);
+
+    let purged = 0;
+    for (const context of expired) {
+        try {
+            const eventContext = await loadEventContext(storage, context.public_id);
+            await storage.transaction((tx) => permanentlyDelete(tx, context.project_id, context.public_id), { isolationLevel: 'serializable' });
+            await publishContextEvent(
+                options.sinks ?? {},
+                storage,
+                {
+                    type: 'delete',
+                    projectId: context.project_id,
+                    rootId: context.public_id,
+                    version: null,
+                    data: { permanent: true, reason: 'trash_expired' },
+                    context: eventContext,
+                },
+                options.background,
+            );
+            await recordAudit(storage, SYSTEM_ACTOR, {
+                action: 'context.purge',
+                projectId: context.project_id,
+                targetId: context.public_id,
+                details: { reason: 'trash_expired' },
+            });
+            purged++;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`Failed to purge trashed context ${context.public_id}: ${message}`);
+        }
+    }
+    return purged;
+}
+
+// -- version pruning ----------------------------------------------------------
+// Dropping the oldest versions turns the oldest kept head into a snapshot: the
+// messages it resolves to move under it (same ids, re-chained by prev_id), so
+// later delta heads still replay on top of it. Only then are the older heads
+// deleted, with whatever no kept version reaches any more.
+
+type PrunableHead = Pick<NodeRow, 'public_id' | 'content'>;
+
+// how many of the oldest versions can go so that `keep` remain; a kept revert
+// restoring an older version keeps that version (and everything since) too
+export function prunableVersionCount(heads: PrunableHead[], keep: number): number {
+    const index = new Map(heads.map((h, i) => [h.public_id, i]));
+    let cutoff = Math.max(heads.length - keep, 0);
+
+    for (let changed = true; changed && cutoff > 0; ) {
+        changed = false;
+        // heads[cutoff] becomes a snapshot, so only the heads after it need their base
+        for (const head of heads.slice(cutoff + 1)) {
+            const base = typeof head.content?.base === 'string' ? index.get(head.content.base) : undefined;
+            if (base !== undefined && base < cutoff) {
+                cutoff = base;
+                changed = true;
+            }
+        }
+    }
+    return cutoff;
+}
+
+// versions in history order, with each head's content (delta marker, base)
+export async function findPrunableHeads(storage: StorageAdapter, rootPublicId: string): Promise<PrunableHead[]> {
+    const versions = await storage.findVersions(rootPublicId);
+    const branches = new Map((await storage.findContextBranches(rootPublicId)).map((b) => [b.public_id, b]));
+    return versions.map((v) => ({ public_id: v.public_id, content: branches.get(v.public_id)?.content ?? {} }));
+}
+
+// drops the oldest versions beyond `keep`; returns how many were removed. Runs
+// under the same serializable guard as other versioned writes, expecting the
+// version it starts from, so losing a race with a write removes nothing this time.
+export async function pruneVersions(storage: StorageAdapter, projectId: number, rootPublicId: string, keep: number): Promise<number> {
+    let removed = 0;
+    const expected = await getCurrentVersion(storage, rootPublicId);
+    const conflict = await writeVersioned(storage, rootPublicId, expected, async (tx) => {
+        removed = await pruneOldestVersions(tx, projectId, rootPublicId, keep);
+    });
+    return conflict === null ? removed : 0;
+}
+
+async function pruneOldestVersions(storage: StorageAdapter, projectId: number, rootPublicId: string, keep: number): Promise<number> {
+    const heads = await findPrunableHeads(storage, rootPublicId);
+    const cutoff = prunableVersionCount(heads, keep);
+    if (cutoff === 0) return 0;
+
+    const oldest = heads[cutoff];
+    const resolved = await getOrderedNodes(storage, oldest.public_id);
+    const kept = new Set(resolved.map((n) => n.public_id));
+    await storage.rechainNodes(projectId, oldest.public_id, resolved.map((n) => n.public_id));
+
+    // its own tombstones mean nothing in a snapshot
+    const leftovers = (await storage.findNonContextNodes(oldest.public_id)).filter((n) => !kept.has(n.public_id));
+    await storage.clearParentReferencesBulk(projectId, leftovers.map((n) => n.public_id));
+    for (const node of leftovers) await storage.deleteNodeByPublicId(projectId, node.public_id);
+    await storage.updateNode(projectId, oldest.public_id, { prev_id: null, content: {} });
+
+    for (const head of heads.slice(0, cutoff)) {
+        await deleteHead(storage, projectId, head.public_id);
+        await storage.deleteNodeByPublicId(projectId, head.public_id);
+    }
+    return cutoff;
+}
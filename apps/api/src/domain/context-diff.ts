@@ -0,0 +1,107 @@
+import type { StorageAdapter, NodeRow } from '../storage/types';
+import { getOrderedNodes, TOMBSTONE_TYPE, type VersionInfo } from './context-chain';
+
+export type FieldChange = { from?: unknown; to?: unknown };
+
+export type MessageDiff = {
+    from: number;
+    to: number;
+    added: Array<Record<string, unknown>>;
+    removed: Array<Record<string, unknown>>;
+    modified: Array<{
+        from_id: string;
+        to_id: string;
+        from_index: number;
+        to_index: number;
+        changes: { content?: Record<string, FieldChange>; metadata?: Record<string, FieldChange> };
+    }>;
+};
+
+// -- pure functions (no DB) ---------------------------------------------------
+
+// Lineage key: follow parent_id while it stays inside this context. Edited copies
+// (delta replacements or legacy full copies) share the key of the message they came from.
+export function lineageResolver(contextNodes: Pick<NodeRow, 'public_id' | 'parent_id'>[]) {
+    const parentOf = new Map(contextNodes.map((n) => [n.public_id, n.parent_id]));
+    const cache = new Map<string, string>();
+
+    return function lineageOf(publicId: string): string {
+        const cached = cache.get(publicId);
+        if (cached) return cached;
+
+        const seen = new Set<string>();
+        let current = publicId;
+        let parent = parentOf.get(current);
+        while (parent && parentOf.has(parent) && !seen.has(parent)) {
+            seen.add(current);
+            current = parent;
+            parent = parentOf.get(current);
+        }
+
+        cache.set(publicId, current);
+        return current;
+    };
+}
+
+export function diffFields(before: Record<string, unknown>, after: Record<string, unknown>): Record<string, FieldChange> | undefined {
+    const changes: Record<string, FieldChange> = {};
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        if (JSON.stringify(before[key]) === JSON.stringify(after[key])) continue;
+        changes[key] = { from: before[key], to: after[key] };
+    }
+    return Object.keys(changes).length > 0 ? changes : undefined;
+}
+
+function toMessage(n: NodeRow, index: number) {
+    return { ...n.content, id: n.public_id, index, metadata: n.metadata };
+}
+
+export function diffNodes(fromNodes: NodeRow[], toNodes: NodeRow[], lineageOf: (publicId: string) => string) {
+    const fromByLineage = new Map(fromNodes.map((n, index) => [lineageOf(n.public_id), { n, index }]));
+    const matched = new Set<string>();
+
+    const added: MessageDiff['added'] = [];
+    const modified: MessageDiff['modified'] = [];
+
+    toNodes.forEach((n, index) => {
+        const key = lineageOf(n.public_id);
+        const previous = fromByLineage.get(key);
+        if (!previous) {
+            added.push(toMessage(n, index));
+            return;
+        }
+
+        matched.add(key);
+        const content = diffFields(previous.n.content, n.content);
+        const metadata = diffFields(previous.n.metadata, n.metadata);
+        if (!content && !metadata) return;
+
+        modified.push({
+            from_id: previous.n.public_id,
+            to_id: n.public_id,
+            from_index: previous.index,
+            to_index: index,
+            changes: { ...(content && { content }), ...(metadata && { metadata }) },
+        });
+    });
+
+    const removed = fromNodes
+        .map((n, index) => ({ n, index }))
+        .filter(({ n }) => !matched.has(lineageOf(n.public_id)))
+        .map(({ n, index }) => toMessage(n, index));
+
+    return { added, removed, modified };
+}
+
+// -- storage-backed functions -------------------------------------------------
+
+export async function getVersionDiff(storage: StorageAdapter, versions: VersionInfo[], from: number, to: number): Promise<MessageDiff> {
+    const [fromNodes, toNodes, contextNodes] = await Promise.all([
+        getOrderedNodes(storage, versions[from].head_id),
+        getOrderedNodes(storage, versions[to].head_id),
+        storage.findNonContextNodesBulk(versions.map((v) => v.head_id)),
+    ]);
+
+    const lineageOf = lineageResolver(contextNodes.filter((n) => n.type !== TOMBSTONE_TYPE));
+    return { from, to, ...diffNodes(fromNodes, toNodes, lineageOf) };
+}
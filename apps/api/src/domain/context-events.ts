@@ -0,0 +1,81 @@
+import type { ContextEvent, ContextEventInput, ContextEventSource, ContextEventType } from '../events/types';
+import type { StorageAdapter } from '../storage/types';
+import type { WebhookDispatcher } from '../webhooks/dispatcher';
+import { generatePublicId } from './public-ids';
+
+// -- change events ------------------------------------------------------------
+// Publishing is best-effort: a failed publish is logged, never surfaced to the
+// writer whose change already committed.
+
+export type EventContext = ContextEventInput['context'];
+
+export type ContextEventSinks = {
+    events?: ContextEventSource;
+    webhooks?: WebhookDispatcher;
+};
+
+// for the background sweeps, which publish outside any request
+export type SweepEventOptions = {
+    sinks?: ContextEventSinks;
+    // keeps webhook sends alive (Workers waitUntil); they run unawaited otherwise
+    background?: (task: Promise<unknown>) => void;
+};
+
+export async function loadEventContext(storage: StorageAdapter, rootId: string): Promise<EventContext | null> {
+    const root = await storage.findNodeByPublicId(rootId);
+    return root ? { id: root.public_id, metadata: root.metadata, created_at: root.created_at } : null;
+}
+
+export type PublishContextEventInput = {
+    type: ContextEventType;
+    projectId: number;
+    rootId: string;
+    version: number | null;
+    data: Record<string, unknown>;
+    // required once the root is gone (permanent deletes load it up front)
+    context?: EventContext | null;
+};
+
+function logPublishError(type: ContextEventType, rootId: string, target: string, error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to publish ${type} event for ${rootId} to ${target}: ${message}`);
+}
+
+// Webhook deliveries are recorded before this resolves; sending them is handed
+// to `background` so the response doesn't wait on receivers.
+export async function publishContextEvent(
+    sinks: ContextEventSinks,
+    storage: StorageAdapter,
+    input: PublishContextEventInput,
+    background: (task: Promise<unknown>) => void = () => undefined,
+): Promise<void> {
+    if (!sinks.events && !sinks.webhooks) return;
+
+    let event: ContextEventInput;
+    try {
+        const context = input.context ?? (await loadEventContext(storage, input.rootId));
+        if (!context) return;
+        event = { type: input.type, project_id: input.projectId, context, version: input.version, data: input.data };
+    } catch (error) {
+        logPublishError(input.type, input.rootId, 'subscribers', error);
+        return;
+    }
+
+    if (sinks.events) {
+        try {
+            await sinks.events.publish(event);
+        } catch (error) {
+            logPublishError(input.type, input.rootId, 'the event source', error);
+        }
+    }
+
+    if (sinks.webhooks) {
+        try {
+            const webhookEvent: ContextEvent = { ...event, id: generatePublicId('event'), created_at: new Date().toISOString() };
+            const deliveries = await sinks.webhooks.enqueue(storage, webhookEvent);
+            if (deliveries.length > 0) background(sinks.webhooks.deliver(storage, deliveries));
+        } catch (error) {
+            logPublishError(input.type, input.rootId, 'webhooks', error);
+        }
+    }
+}
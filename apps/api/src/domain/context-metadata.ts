@@ -0,0 +1,83 @@
+import type { StorageAdapter } from '../storage/types';
+import { DELTA_HEAD_CONTENT, findHead, getOrderedNodes, isSnapshotDue, SNAPSHOT_HEAD_CONTENT, writeSnapshot } from './context-chain';
+import { diffFields, type FieldChange } from './context-diff';
+import { generatePublicId } from './public-ids';
+import { getCurrentVersion, writeVersioned } from './version-guard';
+
+// -- merge patch --------------------------------------------------------------
+// Root metadata is patched with JSON merge-patch (RFC 7386): null removes a
+// key, objects merge recursively, anything else replaces the old value.
+
+// keys listRootContexts filters on by string containment
+export const FILTERABLE_METADATA_KEYS = ['source', 'user_id', 'host', 'project_path', 'session_id'] as const;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function applyMergePatch(target: Record<string, unknown>, patch: Record<string, unknown>): Record<string, unknown> {
+    const result = { ...target };
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === null) delete result[key];
+        else if (isObject(value)) result[key] = applyMergePatch(isObject(result[key]) ? result[key] : {}, value);
+        else result[key] = value;
+    }
+    return result;
+}
+
+// a non-string filter key would silently drop out of filtered listings
+export function findInvalidFilterKey(patch: Record<string, unknown>): string | null {
+    return FILTERABLE_METADATA_KEYS.find((key) => patch[key] !== undefined && patch[key] !== null && typeof patch[key] !== 'string') ?? null;
+}
+
+// -- storage-backed functions -------------------------------------------------
+
+export type MetadataUpdate =
+    | { metadata: Record<string, unknown>; changes: Record<string, FieldChange>; version: number }
+    | { conflict: number };
+
+// Every effective change gets its own 'metadata' version carrying the
+// per-key from/to values, so ?history=true shows what changed and when.
+// A patch that changes nothing writes nothing.
+export async function updateContextMetadata(
+    storage: StorageAdapter,
+    projectId: number,
+    rootId: string,
+    patch: Record<string, unknown>,
+    expected?: number,
+): Promise<MetadataUpdate> {
+    let update: Exclude<MetadataUpdate, { conflict: number }> | undefined;
+
+    const conflict = await writeVersioned(storage, rootId, expected, async (tx) => {
+        const root = await tx.findNodeByPublicId(rootId);
+        const before = root?.metadata ?? {};
+        const metadata = applyMergePatch(before, patch);
+        const changes = diffFields(before, metadata);
+        const version = await getCurrentVersion(tx, rootId);
+
+        if (!changes) {
+            update = { metadata, changes: {}, version };
+            return;
+        }
+
+        // history first: a failed root update must not lose the record
+        const head = await findHead(tx, rootId);
+        const headId = generatePublicId('context');
+        const snapshot = head !== null && (await isSnapshotDue(tx, head.public_id));
+        await tx.insertNodes({
+            public_id: headId,
+            project_id: projectId,
+            type: 'context',
+            context_id: rootId,
+            prev_id: head?.public_id ?? null,
+            content: snapshot ? SNAPSHOT_HEAD_CONTENT : { ...DELTA_HEAD_CONTENT },
+            metadata: { operation: 'metadata', metadata_changes: changes },
+        });
+        if (snapshot) await writeSnapshot(tx, projectId, rootId, headId, await getOrderedNodes(tx, head.public_id));
+        await tx.updateRootContextMetadata(projectId, rootId, metadata);
+        update = { metadata, changes, version: version + 1 };
+    });
+
+    if (conflict !== null) return { conflict };
+    return update!;
+}
@@ -1,22 +1,42 @@
 import type { StorageAdapter, ContextFilters } from '../storage/types';
-import { findHead, getOrderedNodes } from './context-chain';
+import { findHead, getNodeWindow, getOrderedNodes, hasWindow, sliceWindow, type MessageWindow } from './context-chain';
+import { decodeContextCursor, encodeContextCursor } from './cursors';
 
 // -- list contexts ------------------------------------------------------------
 
+export type ListContextsQuery = ContextFilters & {
+    limit?: number;
+    cursor?: string;
+    order?: 'asc' | 'desc';
+    total?: boolean;
+};
+
 export async function listContexts(
     storage: StorageAdapter,
     projectId: number,
-    filters: ContextFilters & { limit?: number },
+    query: ListContextsQuery,
 ) {
-    const limit = filters.limit ?? 20;
-    const data = await storage.listRootContexts(projectId, limit, filters);
+    const { limit: rawLimit, cursor: rawCursor, order, total, ...filters } = query;
+    const limit = rawLimit ?? 20;
+
+    const cursor = rawCursor ? decodeContextCursor(rawCursor) : undefined;
+    if (cursor === null) throw new Error('Invalid cursor');
+
+    // fetch one extra row to learn whether another page exists
+    const rows = await storage.listRootContexts(projectId, limit + 1, filters, { cursor, order });
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor = rows.length > limit && last ? encodeContextCursor({ created_at: last.created_at, id: last.id }) : null;
 
     return {
-        data: data.map(n => ({
+        data: page.map(n => ({
             id: n.public_id,
             metadata: n.metadata,
             created_at: n.created_at,
+            ...(n.deleted_at ? { deleted_at: n.deleted_at } : {}),
         })),
+        next_cursor: nextCursor,
+        ...(total ? { total: await storage.countRootContexts(projectId, filters) } : {}),
     };
 }
 
@@ -26,21 +46,26 @@ export async function getContextMessages(
     storage: StorageAdapter,
     projectId: number,
     contextId: string,
+    window: MessageWindow = {},
 ) {
     const root = await storage.findRootContext(projectId, contextId);
     if (!root) return null;
 
     const head = await findHead(storage, root.public_id);
-    if (!head) return { data: [] };
+    if (!head) return { data: [], total: 0 };
 
-    const orderedNodes = await getOrderedNodes(storage, head.public_id);
+    const windowed = hasWindow(window)
+        ? await getNodeWindow(storage, head.public_id, window)
+        : sliceWindow(await getOrderedNodes(storage, head.public_id), window);
+    if ('missing' in windowed) return null;
 
     return {
-        data: orderedNodes.map((n: any, index: number) => ({
+        data: windowed.nodes.map((n: any, i: number) => ({
             ...n.content,
             id: n.public_id,
-            index,
+            index: windowed.start + i,
             metadata: n.metadata,
         })),
+        total: windowed.total,
     };
 }
@@ -0,0 +1,305 @@
+import type { NodeInsertRow, NodeRow, StorageAdapter } from '../storage/types';
+import { findHead, getOrderedNodes, TOMBSTONE_TYPE } from './context-chain';
+import { permanentlyDelete } from './context-deletion';
+import { generatePublicId } from './public-ids';
+
+// =============================================================================
+// CONTEXT BUNDLES — NDJSON export/import of one context with its history
+// =============================================================================
+// One `context` line (the root), then each version head in order, each
+// followed by the message and tombstone nodes it owns, in write order. Ids are
+// the source deployment's; import mints new ones and rewrites every internal
+// reference, so a bundle can be imported any number of times.
+
+export const BUNDLE_FORMAT_VERSION = 1;
+
+// heads whose nodes are loaded per query while streaming
+const EXPORT_HEAD_BATCH = 20;
+
+// rows per insert on import
+const IMPORT_INSERT_BATCH = 500;
+
+export type BundleContextLine = {
+    kind: 'context';
+    format_version: number;
+    id: string;
+    metadata: Record<string, unknown>;
+    created_at: string;
+    exported_at: string;
+    // only the current head, flattened into a single snapshot version
+    head_only: boolean;
+};
+
+export type BundleVersionLine = {
+    kind: 'version';
+    id: string;
+    prev_id: string | null;
+    content: Record<string, unknown>;
+    metadata: Record<string, unknown>;
+    created_at: string;
+};
+
+export type BundleNodeLine = {
+    kind: 'node';
+    id: string;
+    type: string;
+    // the version head that owns the node
+    context_id: string;
+    prev_id: string | null;
+    parent_id: string | null;
+    content: Record<string, unknown>;
+    metadata: Record<string, unknown>;
+    created_at: string;
+};
+
+export type BundleLine = BundleContextLine | BundleVersionLine | BundleNodeLine;
+
+export type ContextBundle = {
+    context: BundleContextLine;
+    versions: BundleVersionLine[];
+    nodes: BundleNodeLine[];
+};
+
+// -- export -------------------------------------------------------------------
+
+function nodeLine(node: NodeRow, overrides: Partial<BundleNodeLine> = {}): BundleNodeLine {
+    return {
+        kind: 'node',
+        id: node.public_id,
+        type: node.type,
+        context_id: node.context_id ?? '',
+        prev_id: node.prev_id,
+        parent_id: node.parent_id,
+        content: node.content,
+        metadata: node.metadata,
+        created_at: node.created_at,
+        ...overrides,
+    };
+}
+
+export async function* exportContext(
+    storage: StorageAdapter,
+    rootId: string,
+    options: { headOnly?: boolean } = {},
+): AsyncGenerator<BundleLine> {
+    const root = await storage.findNodeByPublicId(rootId);
+    if (!root) return;
+
+    const headOnly = options.headOnly ?? false;
+    yield {
+        kind: 'context',
+        format_version: BUNDLE_FORMAT_VERSION,
+        id: root.public_id,
+        metadata: root.metadata,
+        created_at: root.created_at,
+        exported_at: new Date().toISOString(),
+        head_only: headOnly,
+    };
+
+    if (headOnly) {
+        const head = await findHead(storage, root.public_id);
+        if (!head) return;
+
+        // the resolved messages become one snapshot chained by prev_id
+        yield { kind: 'version', id: head.public_id, prev_id: null, content: {}, metadata: { operation: 'create' }, created_at: head.created_at };
+        const ordered = await getOrderedNodes(storage, head.public_id);
+        for (const [index, node] of ordered.entries()) {
+            yield nodeLine(node, { context_id: head.public_id, prev_id: index === 0 ? null : ordered[index - 1].public_id, parent_id: null });
+        }
+        return;
+    }
+
+    const versions = await storage.findVersions(root.public_id);
+    const branches = new Map((await storage.findContextBranches(root.public_id)).map((b) => [b.public_id, b]));
+
+    for (let i = 0; i < versions.length; i += EXPORT_HEAD_BATCH) {
+        const batch = versions.slice(i, i + EXPORT_HEAD_BATCH);
+        const owned = await storage.findNonContextNodesBulk(batch.map((v) => v.public_id));
+
+        for (const version of batch) {
+            const branch = branches.get(version.public_id);
+            yield {
+                kind: 'version',
+                id: version.public_id,
+                prev_id: branch?.prev_id ?? null,
+                content: branch?.content ?? {},
+                metadata: version.metadata,
+                created_at: version.created_at,
+            };
+
+            // write order matters: delta replay inserts new messages by it
+            const nodes = owned.filter((n) => n.context_id === version.public_id).sort((a, b) => a.id - b.id);
+            for (const node of nodes) yield nodeLine(node);
+        }
+    }
+}
+
+// -- import -------------------------------------------------------------------
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTimestamp(value: unknown): value is string {
+    return typeof value === 'string' && !isNaN(Date.parse(value));
+}
+
+function isNullableString(value: unknown): value is string | null {
+    return value === null || typeof value === 'string';
+}
+
+function parseLine(raw: unknown, lineNo: number): BundleLine | { error: string } {
+    const invalid = (what: string) => ({ error: `Line ${lineNo}: ${what}` });
+    if (!isObject(raw)) return invalid('expected a JSON object');
+
+    if (raw.kind === 'context') {
+        if (raw.format_version !== BUNDLE_FORMAT_VERSION) return invalid(`unsupported format_version (expected ${BUNDLE_FORMAT_VERSION})`);
+        if (typeof raw.id !== 'string' || !isObject(raw.metadata) || !isTimestamp(raw.created_at)) return invalid('invalid context');
+        return raw as BundleContextLine;
+    }
+    if (raw.kind === 'version') {
+        if (typeof raw.id !== 'string' || !isNullableString(raw.prev_id)) return invalid('invalid version');
+        if (!isObject(raw.content) || !isObject(raw.metadata) || !isTimestamp(raw.created_at)) return invalid('invalid version');
+        return raw as BundleVersionLine;
+    }
+    if (raw.kind === 'node') {
+        if (typeof raw.id !== 'string' || typeof raw.context_id !== 'string') return invalid('invalid node');
+        if (raw.type !== 'message' && raw.type !== TOMBSTONE_TYPE) return invalid(`node type must be message or ${TOMBSTONE_TYPE}`);
+        if (!isNullableString(raw.prev_id) || !isNullableString(raw.parent_id)) return invalid('invalid node');
+        if (!isObject(raw.content) || !isObject(raw.metadata) || !isTimestamp(raw.created_at)) return invalid('invalid node');
+        return raw as BundleNodeLine;
+    }
+    return invalid('kind must be context, version or node');
+}
+
+export function parseContextBundle(text: string): { bundle: ContextBundle } | { error: string } {
+    const lines: BundleLine[] = [];
+    for (const [index, raw] of text.split('\n').entries()) {
+        if (raw.trim() === '') continue;
+        let value: unknown;
+        try {
+            value = JSON.parse(raw);
+        } catch {
+            return { error: `Line ${index + 1}: invalid JSON` };
+        }
+        const line = parseLine(value, index + 1);
+        if ('error' in line) return line;
+        lines.push(line);
+    }
+
+    const [context, ...rest] = lines;
+    if (context?.kind !== 'context') return { error: 'Bundle must start with a context line' };
+
+    const versions: BundleVersionLine[] = [];
+    const nodes: BundleNodeLine[] = [];
+    const versionIds = new Set<string>();
+    const nodeIds = new Set<string>();
+    for (const line of rest) {
+        if (line.kind === 'context') return { error: 'Bundle must contain exactly one context line' };
+        if (line.kind === 'version') {
+            // heads only point back at earlier heads
+            if (line.prev_id !== null && !versionIds.has(line.prev_id)) return { error: `Version ${line.id} has an unknown prev_id` };
+            if (typeof line.content.base === 'string' && !versionIds.has(line.content.base)) {
+                return { error: `Version ${line.id} has an unknown base` };
+            }
+            if (versionIds.has(line.id)) return { error: `Duplicate id ${line.id}` };
+            versionIds.add(line.id);
+            versions.push(line);
+        } else {
+            if (!versionIds.has(line.context_id)) return { error: `Node ${line.id} belongs to an unknown version` };
+            if (nodeIds.has(line.id)) return { error: `Duplicate id ${line.id}` };
+            nodeIds.add(line.id);
+            nodes.push(line);
+        }
+    }
+    if (versions.length === 0) return { error: 'Bundle has no versions' };
+
+    // message chains stay inside the bundle; parent_id may point outside (forks), and is dropped then
+    for (const node of nodes) {
+        if (node.prev_id !== null && !nodeIds.has(node.prev_id)) return { error: `Node ${node.id} has an unknown prev_id` };
+    }
+
+    return { bundle: { context, versions, nodes } };
+}
+
+export type ImportedContext = {
+    root: Pick<NodeRow, 'public_id' | 'metadata' | 'created_at'>;
+    // current version of the imported context
+    version: number;
+};
+
+// recreates the bundle under new public ids; the root is a new, unforked context
+export async function importContextBundle(storage: StorageAdapter, projectId: number, bundle: ContextBundle): Promise<ImportedContext> {
+    const ids = new Map<string, string>();
+    const rootId = generatePublicId('context');
+    for (const version of bundle.versions) ids.set(version.id, generatePublicId('context'));
+    for (const node of bundle.nodes) ids.set(node.id, generatePublicId('msg'));
+
+    const mapId = (id: string | null) => (id === null ? null : (ids.get(id) ?? null));
+
+    const heads: NodeInsertRow[] = bundle.versions.map((version) => {
+        const { affected, ...metadata } = version.metadata;
+        return {
+            public_id: ids.get(version.id)!,
+            project_id: projectId,
+            type: 'context',
+            context_id: rootId,
+            prev_id: mapId(version.prev_id),
+            parent_id: null,
+            content: typeof version.content.base === 'string' ? { ...version.content, base: mapId(version.content.base) } : version.content,
+            metadata: Array.isArray(affected)
+                ? { ...metadata, affected: affected.map((id) => (typeof id === 'string' ? (ids.get(id) ?? id) : id)) }
+                : metadata,
+            created_at: version.created_at,
+        };
+    });
+
+    const nodes: NodeInsertRow[] = bundle.nodes.map((node) => ({
+        public_id: ids.get(node.id)!,
+        project_id: projectId,
+        type: node.type,
+        context_id: ids.get(node.context_id)!,
+        prev_id: mapId(node.prev_id),
+        parent_id: mapId(node.parent_id),
+        content: node.content,
+        metadata: node.metadata,
+        created_at: node.created_at,
+    }));
+
+    const rows: NodeInsertRow[] = [
+        {
+            public_id: rootId,
+            project_id: projectId,
+            type: 'context',
+            context_id: null,
+            parent_id: null,
+            content: {},
+            metadata: bundle.context.metadata,
+            created_at: bundle.context.created_at,
+        },
+        ...heads,
+        ...nodes,
+    ];
+
+    try {
+        await storage.transaction(async (tx) => {
+            for (let i = 0; i < rows.length; i += IMPORT_INSERT_BATCH) {
+                await tx.insertNodes(rows.slice(i, i + IMPORT_INSERT_BATCH));
+            }
+        });
+    } catch (error) {
+        // Supabase has no transactions, so earlier batches may have landed
+        try {
+            await permanentlyDelete(storage, projectId, rootId);
+        } catch (cleanupError) {
+            const message = cleanupError instanceof Error ? cleanupError.message : String(cleanupError);
+            console.error(`Cleanup failed for partially imported context ${rootId}: ${message}`);
+        }
+        throw error;
+    }
+
+    return {
+        root: { public_id: rootId, metadata: bundle.context.metadata, created_at: bundle.context.created_at },
+        version: bundle.versions.length - 1,
+    };
+}
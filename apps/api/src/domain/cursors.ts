@@ -0,0 +1,69 @@
+import type { ContextCursor } from '../storage/types';
+
+// -- opaque keyset cursors (base64url JSON, runtime-agnostic) -----------------
+
+function encodeCursor(value: unknown): string {
+    return btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeCursor(raw: string): unknown {
+    return JSON.parse(atob(raw.replace(/-/g, '+').replace(/_/g, '/')));
+}
+
+export function encodeContextCursor(cursor: ContextCursor): string {
+    return encodeCursor([cursor.created_at, cursor.id]);
+}
+
+export function decodeContextCursor(raw: string): ContextCursor | null {
+    try {
+        const parsed = decodeCursor(raw);
+        if (!Array.isArray(parsed) || parsed.length !== 2) return null;
+
+        const [createdAt, id] = parsed;
+        if (typeof createdAt !== 'string' || isNaN(Date.parse(createdAt))) return null;
+        if (typeof id !== 'number' || !Number.isInteger(id)) return null;
+
+        return { created_at: createdAt, id };
+    } catch {
+        return null;
+    }
+}
+
+function decodeIdCursor(raw: string): number | null {
+    try {
+        const parsed = decodeCursor(raw);
+        if (!Array.isArray(parsed) || parsed.length !== 1) return null;
+        const [id] = parsed;
+        return typeof id === 'number' && Number.isInteger(id) ? id : null;
+    } catch {
+        return null;
+    }
+}
+
+// audit events page by id alone (newest first)
+export function encodeAuditCursor(id: number): string {
+    return encodeCursor([id]);
+}
+
+export function decodeAuditCursor(raw: string): number | null {
+    return decodeIdCursor(raw);
+}
+
+// search pages by how far into the ranked matches the last page scanned
+export function encodeSearchCursor(offset: number): string {
+    return encodeCursor([offset]);
+}
+
+export function decodeSearchCursor(raw: string): number | null {
+    const offset = decodeIdCursor(raw);
+    return offset !== null && offset >= 0 ? offset : null;
+}
+
+// projects page by id alone (oldest first)
+export function encodeProjectCursor(id: number): string {
+    return encodeCursor([id]);
+}
+
+export function decodeProjectCursor(raw: string): number | null {
+    return decodeIdCursor(raw);
+}
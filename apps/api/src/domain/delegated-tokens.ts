@@ -0,0 +1,124 @@
+import type { Auth } from '../types/api';
+import { API_KEY_SCOPES, type ApiKeyScope } from './api-keys';
+
+// =============================================================================
+// DELEGATED TOKENS — short-lived, narrowed stand-ins for an API key
+// =============================================================================
+// `uc_tok_<claims>.<signature>`: base64url JSON claims, HMAC-SHA256 signed with
+// ULTRACONTEXT_TOKEN_SIGNING_KEY. Verifying one needs no storage, so a token is
+// not checked against its key again: revoking or rotating the key leaves it
+// valid until it expires, which MAX_DELEGATED_TOKEN_TTL_SECONDS keeps short.
+
+export const DELEGATED_TOKEN_PREFIX = 'uc_tok_';
+
+const TOKEN_VERSION = 1;
+
+type TokenClaims = {
+    v: number;
+    key_id: number;
+    project_id: number;
+    scopes: ApiKeyScope[] | null;
+    context_ids: string[] | null;
+    metadata_filter: Record<string, unknown> | null;
+    // unix seconds
+    exp: number;
+};
+
+export type DelegatedToken = {
+    token: string;
+    expiresAt: string;
+};
+
+// -- encoding -----------------------------------------------------------------
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(raw: string) {
+    const binary = atob(raw.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+function importSigningKey(secret: string) {
+    return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+        'sign',
+        'verify',
+    ]);
+}
+
+function isStringArrayOrNull(value: unknown): boolean {
+    return value === null || (Array.isArray(value) && value.every((v) => typeof v === 'string'));
+}
+
+function isTokenClaims(value: unknown): value is TokenClaims {
+    if (typeof value !== 'object' || value === null) return false;
+    const claims = value as Record<string, unknown>;
+    return (
+        claims.v === TOKEN_VERSION &&
+        Number.isSafeInteger(claims.key_id) &&
+        Number.isSafeInteger(claims.project_id) &&
+        isStringArrayOrNull(claims.scopes) &&
+        isStringArrayOrNull(claims.context_ids) &&
+        (claims.metadata_filter === null || (typeof claims.metadata_filter === 'object' && !Array.isArray(claims.metadata_filter))) &&
+        typeof claims.exp === 'number'
+    );
+}
+
+// -- sign / verify ------------------------------------------------------------
+
+export async function signDelegatedToken(secret: string, auth: Auth, expiresInSeconds: number, now = Date.now()): Promise<DelegatedToken> {
+    const exp = Math.floor(now / 1000) + expiresInSeconds;
+    const claims: TokenClaims = {
+        v: TOKEN_VERSION,
+        key_id: auth.apiKeyId,
+        project_id: auth.projectId,
+        scopes: auth.scopes,
+        context_ids: auth.contextIds,
+        metadata_filter: auth.metadataFilter,
+        exp,
+    };
+
+    const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)));
+    const key = await importSigningKey(secret);
+    const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload)));
+
+    return {
+        token: `${DELEGATED_TOKEN_PREFIX}${payload}.${toBase64Url(signature)}`,
+        expiresAt: new Date(exp * 1000).toISOString(),
+    };
+}
+
+// null for anything forged, malformed or expired
+export async function verifyDelegatedToken(secret: string, token: string, now = Date.now()): Promise<Auth | null> {
+    if (!token.startsWith(DELEGATED_TOKEN_PREFIX)) return null;
+    const [payload, signature, ...rest] = token.slice(DELEGATED_TOKEN_PREFIX.length).split('.');
+    if (!payload || !signature || rest.length > 0) return null;
+
+    let claims: unknown;
+    try {
+        const key = await importSigningKey(secret);
+        // constant-time, unlike comparing signatures by hand
+        const valid = await crypto.subtle.verify('HMAC', key, fromBase64Url(signature), new TextEncoder().encode(payload));
+        if (!valid) return null;
+        claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    } catch {
+        return null;
+    }
+
+    if (!isTokenClaims(claims) || claims.exp * 1000 <= now) return null;
+
+    return {
+        apiKeyId: claims.key_id,
+        projectId: claims.project_id,
+        scopes: claims.scopes ? claims.scopes.filter((s): s is ApiKeyScope => (API_KEY_SCOPES as readonly string[]).includes(s)) : null,
+        contextIds: claims.context_ids,
+        metadataFilter: claims.metadata_filter,
+        delegated: true,
+        expiresAt: new Date(claims.exp * 1000).toISOString(),
+    };
+}
@@ -0,0 +1,30 @@
+import { DEFAULT_IDEMPOTENCY_WINDOW_SECONDS, IDEMPOTENCY_CLAIM_LEASE_MS, MAX_IDEMPOTENCY_KEY_LENGTH } from '../constants';
+import type { IdempotencyKeyRow } from '../storage/types';
+import type { ApiConfig } from '../types/api';
+import { hashKey } from './api-keys';
+
+// -- replay window ------------------------------------------------------------
+// Keys are stored with the response they produced and replayed while younger
+// than the window. Expired rows are replaced on the next use of the same key,
+// and so are claims still waiting for a response past their lease.
+
+export function idempotencyWindowMs(config: ApiConfig): number {
+    return (config.IDEMPOTENCY_WINDOW_SECONDS ?? DEFAULT_IDEMPOTENCY_WINDOW_SECONDS) * 1000;
+}
+
+export function isLiveIdempotencyKey(row: Pick<IdempotencyKeyRow, 'created_at'>, windowMs: number, now = Date.now()): boolean {
+    return now - Date.parse(row.created_at) < windowMs;
+}
+
+export function isStaleIdempotencyClaim(row: Pick<IdempotencyKeyRow, 'status_code' | 'created_at'>, now = Date.now()): boolean {
+    return row.status_code === null && now - Date.parse(row.created_at) >= IDEMPOTENCY_CLAIM_LEASE_MS;
+}
+
+export function isValidIdempotencyKey(key: unknown): key is string {
+    return typeof key === 'string' && key.length > 0 && key.length <= MAX_IDEMPOTENCY_KEY_LENGTH;
+}
+
+// what a key is bound to: a retry must repeat the method, path and body byte for byte
+export async function requestFingerprint(method: string, path: string, body: string): Promise<string> {
+    return `${method} ${path} ${await hashKey(body)}`;
+}
@@ -0,0 +1,72 @@
+import type { ApiKeyAccess, ContextFilters, NodeRow, StorageAdapter } from '../storage/types';
+import type { Auth } from '../types/api';
+import type { ApiKeyScope } from './api-keys';
+import { matchesMetadataFilters } from './metadata-filters';
+
+// =============================================================================
+// KEY ACCESS — what a scoped API key may do, and to which contexts
+// =============================================================================
+// Contexts outside a key's restriction read as not found, the same as ids
+// from another project, so a restricted key can't probe for them.
+
+export function hasScope(auth: Auth, scope: ApiKeyScope): boolean {
+    return auth.scopes === null || auth.scopes.includes(scope);
+}
+
+export function isContextRestricted(auth: Auth): boolean {
+    return auth.contextIds !== null || auth.metadataFilter !== null;
+}
+
+// project-wide settings (webhooks, retention) reach every context
+export function isUnrestricted(auth: Auth): boolean {
+    return auth.scopes === null && !isContextRestricted(auth);
+}
+
+function matchesMetadataRestriction(auth: Auth, metadata: Record<string, unknown>): boolean {
+    return !auth.metadataFilter || matchesMetadataFilters(metadata, [{ op: 'contains', value: auth.metadataFilter }]);
+}
+
+export function matchesKeyRestriction(auth: Auth, context: Pick<NodeRow, 'public_id' | 'metadata'>): boolean {
+    if (auth.contextIds && !auth.contextIds.includes(context.public_id)) return false;
+    return matchesMetadataRestriction(auth, context.metadata);
+}
+
+// a new context has to stay within reach of the key creating it
+export function canCreateContext(auth: Auth, metadata: Record<string, unknown>): boolean {
+    return auth.contextIds === null && matchesMetadataRestriction(auth, metadata);
+}
+
+// root contexts only, live or trashed; the caller still checks which
+export async function canAccessContext(storage: StorageAdapter, auth: Auth, publicId: string): Promise<boolean> {
+    if (!isContextRestricted(auth)) return true;
+    if (auth.contextIds && !auth.contextIds.includes(publicId)) return false;
+
+    const root = await storage.findNodeByPublicId(publicId);
+    return !!root && root.project_id === auth.projectId && matchesKeyRestriction(auth, root);
+}
+
+// list and search filters narrowed to what the key can see
+export function restrictFilters<T extends ContextFilters>(auth: Auth, filters: T): T {
+    if (!isContextRestricted(auth)) return filters;
+    return {
+        ...filters,
+        ...(auth.contextIds ? { ids: auth.contextIds } : {}),
+        ...(auth.metadataFilter ? { metadata: [...(filters.metadata ?? []), { op: 'contains', value: auth.metadataFilter }] } : {}),
+    };
+}
+
+// what a delegated token minted from this key may do; omitted fields keep the
+// key's own, and null means the request asks for more than the key has
+export function narrowAccess(auth: Auth, requested: Partial<ApiKeyAccess>): Auth | null {
+    const { scopes: keyScopes, contextIds: keyIds, metadataFilter: keyFilter } = auth;
+    const scopes = (requested.scopes as ApiKeyScope[] | undefined) ?? keyScopes;
+    const contextIds = requested.context_ids ?? keyIds;
+    const metadataFilter = requested.metadata_filter ?? keyFilter;
+
+    if (keyScopes && !scopes?.every((s) => keyScopes.includes(s))) return null;
+    if (keyIds && !contextIds?.every((id) => keyIds.includes(id))) return null;
+    // a filter containing the key's matches only contexts the key's matches
+    if (keyFilter && !(metadataFilter && matchesMetadataFilters(metadataFilter, [{ op: 'contains', value: keyFilter }]))) return null;
+
+    return { ...auth, scopes, contextIds, metadataFilter };
+}
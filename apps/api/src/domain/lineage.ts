@@ -0,0 +1,91 @@
+import type { NodeRow, StorageAdapter } from '../storage/types';
+
+// -- fork points --------------------------------------------------------------
+// A fork's root keeps its source in parent_id and the fork point in
+// content.fork. permanentlyDelete clears parent_id on forks of the deleted
+// context, so content.fork is what still names the (deleted) source.
+
+export type ForkPoint = {
+    from: string;
+    // source version the messages were copied from, and the last copied index
+    version: number | null;
+    index: number | null;
+};
+
+export type ForkSource = { id: string; version: number | null; index: number | null; deleted?: true };
+
+export type LineageEntry = {
+    id: string;
+    created_at: string;
+    metadata: Record<string, unknown>;
+    forked_from: ForkSource | null;
+    depth?: number;
+};
+
+type RootNode = Pick<NodeRow, 'public_id' | 'parent_id' | 'content' | 'metadata' | 'created_at'>;
+
+export function buildForkContent(fork: ForkPoint | null): Record<string, unknown> {
+    return fork ? { fork } : {};
+}
+
+function readForkPoint(root: RootNode): Partial<ForkPoint> {
+    const fork = root.content?.fork;
+    return typeof fork === 'object' && fork !== null ? (fork as Partial<ForkPoint>) : {};
+}
+
+// pre-lineage forks only have parent_id, so version/index come back null
+export function forkSource(root: RootNode): ForkSource | null {
+    const fork = readForkPoint(root);
+    const id = root.parent_id ?? (typeof fork.from === 'string' ? fork.from : null);
+    if (!id) return null;
+
+    return {
+        id,
+        version: fork.version ?? null,
+        index: fork.index ?? null,
+        ...(root.parent_id === null && { deleted: true as const }),
+    };
+}
+
+function toEntry(root: RootNode, depth?: number): LineageEntry {
+    return {
+        id: root.public_id,
+        created_at: root.created_at,
+        metadata: root.metadata,
+        forked_from: forkSource(root),
+        ...(depth !== undefined && { depth }),
+    };
+}
+
+// -- storage-backed functions -------------------------------------------------
+
+// ancestors nearest-first; descendants breadth-first with depth (1 = direct fork)
+export async function getLineage(storage: StorageAdapter, projectId: number, rootId: string) {
+    const root = await storage.findNodeByPublicId(rootId);
+    if (!root) return null;
+
+    const seen = new Set([rootId]);
+
+    const ancestors: LineageEntry[] = [];
+    let current: NodeRow = root;
+    while (current.parent_id && !seen.has(current.parent_id)) {
+        const parent = await storage.findNodeByPublicId(current.parent_id);
+        if (!parent || parent.project_id !== projectId || parent.type !== 'context' || parent.context_id !== null) break;
+        seen.add(parent.public_id);
+        ancestors.push(toEntry(parent));
+        current = parent;
+    }
+
+    const descendants: LineageEntry[] = [];
+    let frontier = [rootId];
+    for (let depth = 1; frontier.length > 0; depth++) {
+        const forks = (await storage.findForks(projectId, frontier)).filter((f) => !seen.has(f.public_id));
+        for (const fork of forks) {
+            seen.add(fork.public_id);
+            descendants.push(toEntry(fork, depth));
+        }
+        frontier = forks.map((f) => f.public_id);
+    }
+
+    return { ...toEntry(root), ancestors, descendants };
+}
@@ -0,0 +1,55 @@
+import type { ContextFilters, MetadataFilter } from '../storage/types';
+import { FILTERABLE_METADATA_KEYS } from './context-metadata';
+
+// -- metadata filters ---------------------------------------------------------
+// The named list filters (source, host, ...) are plain eq filters; adapters
+// apply everything through one list. eq/in match by JSON containment so the
+// GIN index on nodes.metadata applies.
+
+export function metadataFilters(filters?: ContextFilters): MetadataFilter[] {
+    const named: MetadataFilter[] = [];
+    for (const key of FILTERABLE_METADATA_KEYS) {
+        const value = filters?.[key];
+        if (value) named.push({ op: 'eq', key, value });
+    }
+    return [...named, ...(filters?.metadata ?? [])];
+}
+
+export function metadataKeyPath(key: string): string[] {
+    return key.split('.');
+}
+
+// "a.b" + value -> { a: { b: value } }
+export function nestedMetadata(key: string, value: unknown): Record<string, unknown> {
+    return metadataKeyPath(key).reduceRight<unknown>((inner, part) => ({ [part]: inner }), value) as Record<string, unknown>;
+}
+
+// LIKE pattern matching values that start with `prefix`
+export function likePrefix(prefix: string): string {
+    return `${prefix.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+// -- in-process matching ------------------------------------------------------
+// Same semantics as the adapters, for streams that filter without a query.
+
+function containsJson(target: unknown, value: unknown): boolean {
+    if (typeof value !== 'object' || value === null) return target === value;
+    if (typeof target !== 'object' || target === null) return false;
+    return Object.entries(value).every(([key, inner]) => containsJson((target as Record<string, unknown>)[key], inner));
+}
+
+function matchesMetadataFilter(metadata: Record<string, unknown>, filter: MetadataFilter): boolean {
+    if (filter.op === 'contains') return containsJson(metadata, filter.value);
+
+    const value = metadataKeyPath(filter.key).reduce<unknown>(
+        (inner, part) => (typeof inner === 'object' && inner !== null ? (inner as Record<string, unknown>)[part] : undefined),
+        metadata,
+    );
+    if (filter.op === 'eq') return value === filter.value;
+    if (filter.op === 'in') return typeof value === 'string' && filter.values.includes(value);
+    return value !== undefined && value !== null && String(value).startsWith(filter.value);
+}
+
+export function matchesMetadataFilters(metadata: Record<string, unknown>, filters: MetadataFilter[]): boolean {
+    return filters.every((f) => matchesMetadataFilter(metadata, f) !== (f.negate ?? false));
+}
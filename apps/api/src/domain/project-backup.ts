@@ -0,0 +1,227 @@
+import type { ApiKeyMetadataRow, NodeInsertRow, NodeRow, ProjectDetailsRow, StorageAdapter } from '../storage/types';
+
+// =============================================================================
+// PROJECT BACKUPS — NDJSON snapshot of a whole project, and restore
+// =============================================================================
+// One `backup` line with the counts, then `api_key` lines (metadata only, never
+// hashes), then every node of the project in id order: roots, forks, version
+// heads and messages. Public ids are kept, so a backup restores into a project
+// in a deployment where those ids are free. Keys can't be restored without
+// their secrets; issue new ones for the restored project.
+
+export const BACKUP_FORMAT_VERSION = 1;
+
+// nodes read per query while streaming, and inserted per query on restore
+const BACKUP_PAGE_SIZE = 500;
+
+export type BackupHeaderLine = {
+    kind: 'backup';
+    format_version: number;
+    project: { id: number; name: string; created_at: string };
+    exported_at: string;
+    counts: { nodes: number; api_keys: number };
+};
+
+export type BackupApiKeyLine = {
+    kind: 'api_key';
+    prefix: string;
+    name: string | null;
+    created_at: string;
+    last_used_at: string | null;
+};
+
+export type BackupNodeLine = {
+    kind: 'node';
+    id: string;
+    type: string;
+    context_id: string | null;
+    parent_id: string | null;
+    prev_id: string | null;
+    content: Record<string, unknown>;
+    metadata: Record<string, unknown>;
+    created_at: string;
+    // trashed root contexts; absent in backups from before the trash existed
+    deleted_at?: string | null;
+};
+
+export type BackupLine = BackupHeaderLine | BackupApiKeyLine | BackupNodeLine;
+
+// -- backup -------------------------------------------------------------------
+
+function apiKeyLine(key: ApiKeyMetadataRow): BackupApiKeyLine {
+    return { kind: 'api_key', prefix: key.key_prefix, name: key.name, created_at: key.created_at, last_used_at: key.last_used_at };
+}
+
+function nodeLine(node: NodeRow): BackupNodeLine {
+    return {
+        kind: 'node',
+        id: node.public_id,
+        type: node.type,
+        context_id: node.context_id,
+        parent_id: node.parent_id,
+        prev_id: node.prev_id,
+        content: node.content,
+        metadata: node.metadata,
+        created_at: node.created_at,
+        deleted_at: node.deleted_at,
+    };
+}
+
+// run inside a 'repeatable read' transaction so every page comes from one snapshot
+export async function* backupProject(storage: StorageAdapter, project: ProjectDetailsRow): AsyncGenerator<BackupLine> {
+    const keys = await storage.findApiKeys(project.id);
+    yield {
+        kind: 'backup',
+        format_version: BACKUP_FORMAT_VERSION,
+        project: { id: project.id, name: project.name, created_at: project.created_at },
+        exported_at: new Date().toISOString(),
+        counts: { nodes: await storage.countProjectNodes(project.id), api_keys: keys.length },
+    };
+
+    for (const key of keys) yield apiKeyLine(key);
+
+    let afterId = 0;
+    while (true) {
+        const page = await storage.findProjectNodes(project.id, afterId, BACKUP_PAGE_SIZE);
+        for (const node of page) yield nodeLine(node);
+        if (page.length < BACKUP_PAGE_SIZE) return;
+        afterId = page[page.length - 1].id;
+    }
+}
+
+// -- restore ------------------------------------------------------------------
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNullableString(value: unknown): value is string | null {
+    return value === null || typeof value === 'string';
+}
+
+function isTimestamp(value: unknown): value is string {
+    return typeof value === 'string' && !isNaN(Date.parse(value));
+}
+
+function parseLine(text: string, lineNo: number): BackupLine | { error: string } {
+    const invalid = (what: string) => ({ error: `Line ${lineNo}: ${what}` });
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        return invalid('invalid JSON');
+    }
+    if (!isObject(raw)) return invalid('expected a JSON object');
+
+    if (raw.kind === 'backup') {
+        if (raw.format_version !== BACKUP_FORMAT_VERSION) return invalid(`unsupported format_version (expected ${BACKUP_FORMAT_VERSION})`);
+        if (!isObject(raw.counts) || typeof raw.counts.nodes !== 'number') return invalid('invalid backup header');
+        return raw as BackupHeaderLine;
+    }
+    if (raw.kind === 'api_key') return raw as BackupApiKeyLine;
+    if (raw.kind === 'node') {
+        if (typeof raw.id !== 'string' || typeof raw.type !== 'string') return invalid('invalid node');
+        if (!isNullableString(raw.context_id) || !isNullableString(raw.parent_id) || !isNullableString(raw.prev_id)) return invalid('invalid node');
+        if (!isObject(raw.content) || !isObject(raw.metadata) || !isTimestamp(raw.created_at)) return invalid('invalid node');
+        if (raw.deleted_at !== undefined && raw.deleted_at !== null && !isTimestamp(raw.deleted_at)) return invalid('invalid node');
+        return raw as BackupNodeLine;
+    }
+    return invalid('kind must be backup, api_key or node');
+}
+
+export type RestoreProgress = {
+    nodes: number;
+    // from the backup header
+    total: number;
+};
+
+export type RestoreResult = {
+    nodes: number;
+    // listed in the backup, not recreated (no secrets)
+    api_keys_skipped: number;
+};
+
+// inserts a backup into projectId (expected empty) in one transaction, calling
+// onProgress after every batch; an invalid or truncated backup restores nothing,
+// and a failed one is removed again where the adapter has no transactions
+export async function restoreProject(
+    storage: StorageAdapter,
+    projectId: number,
+    lines: AsyncIterable<string>,
+    onProgress: (progress: RestoreProgress) => Promise<void>,
+): Promise<RestoreResult | { error: string }> {
+    let invalid: string | null = null;
+    const fail = (error: string) => {
+        invalid = error;
+        return new Error(error);
+    };
+
+    try {
+        return await storage.transaction(async (tx) => {
+            let header: BackupHeaderLine | null = null;
+            let batch: NodeInsertRow[] = [];
+            let restored = 0;
+            let apiKeys = 0;
+            let lineNo = 0;
+
+            const flush = async () => {
+                if (batch.length === 0) return;
+                await tx.insertNodes(batch);
+                restored += batch.length;
+                batch = [];
+                await onProgress({ nodes: restored, total: header!.counts.nodes });
+            };
+
+            for await (const text of lines) {
+                lineNo++;
+                if (text.trim() === '') continue;
+                const line = parseLine(text, lineNo);
+                if ('error' in line) throw fail(line.error);
+
+                if (!header) {
+                    if (line.kind !== 'backup') throw fail('Backup must start with a backup line');
+                    header = line;
+                    continue;
+                }
+                if (line.kind === 'backup') throw fail(`Line ${lineNo}: duplicate backup line`);
+                if (line.kind === 'api_key') {
+                    apiKeys++;
+                    continue;
+                }
+
+                batch.push({
+                    public_id: line.id,
+                    project_id: projectId,
+                    type: line.type,
+                    context_id: line.context_id,
+                    parent_id: line.parent_id,
+                    prev_id: line.prev_id,
+                    content: line.content,
+                    metadata: line.metadata,
+                    created_at: line.created_at,
+                    deleted_at: line.deleted_at ?? null,
+                });
+                if (batch.length >= BACKUP_PAGE_SIZE) await flush();
+            }
+
+            if (!header) throw fail('Backup is empty');
+            // checked before the last insert, so a short backup of one batch writes nothing
+            if (restored + batch.length !== header.counts.nodes) {
+                throw fail(`Backup is truncated: expected ${header.counts.nodes} nodes, found ${restored + batch.length}`);
+            }
+            await flush();
+            return { nodes: restored, api_keys_skipped: apiKeys };
+        });
+    } catch (error) {
+        // Supabase has no transactions, so earlier batches may have landed and
+        // would leave the project non-empty, refusing every retry
+        try {
+            await storage.deleteProjectNodes(projectId);
+        } catch (cleanupError) {
+            const message = cleanupError instanceof Error ? cleanupError.message : String(cleanupError);
+            console.error(`Cleanup failed for partially restored project ${projectId}: ${message}`);
+        }
+        if (invalid !== null) return { error: invalid };
+        throw error;
+    }
+}
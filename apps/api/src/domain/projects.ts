@@ -0,0 +1,102 @@
+import type { ProjectActivityRow, ProjectDetailsRow, StorageAdapter } from '../storage/types';
+import { decodeProjectCursor, encodeProjectCursor } from './cursors';
+
+// =============================================================================
+// PROJECTS — admin listing and usage reports
+// =============================================================================
+// Usage comes from the project_activity_daily view: one row per UTC day and
+// metadata.source. Days without activity are left out rather than zero-filled.
+
+export type ListProjectsQuery = {
+    limit: number;
+    cursor?: string;
+};
+
+type UsageCounts = {
+    node_count: number;
+    message_count: number;
+    context_count: number;
+    root_context_count: number;
+};
+
+export function formatProject(row: ProjectDetailsRow) {
+    return {
+        id: row.id,
+        name: row.name,
+        created_at: row.created_at,
+    };
+}
+
+export async function listProjects(storage: StorageAdapter, query: ListProjectsQuery) {
+    const afterId = query.cursor ? decodeProjectCursor(query.cursor) : undefined;
+    if (afterId === null) throw new Error('Invalid cursor');
+
+    // fetch one extra row to learn whether another page exists
+    const rows = await storage.findProjects({ after_id: afterId, limit: query.limit + 1 });
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+
+    return {
+        data: page.map(formatProject),
+        next_cursor: rows.length > query.limit && last ? encodeProjectCursor(last.id) : null,
+    };
+}
+
+// -- usage --------------------------------------------------------------------
+
+function emptyCounts(): UsageCounts {
+    return { node_count: 0, message_count: 0, context_count: 0, root_context_count: 0 };
+}
+
+function addCounts(into: UsageCounts, row: UsageCounts) {
+    into.node_count += row.node_count;
+    into.message_count += row.message_count;
+    into.context_count += row.context_count;
+    into.root_context_count += row.root_context_count;
+}
+
+function countsOf(row: ProjectActivityRow): UsageCounts {
+    return {
+        node_count: Number(row.node_count),
+        message_count: Number(row.message_count),
+        context_count: Number(row.context_count),
+        root_context_count: Number(row.root_context_count),
+    };
+}
+
+// rows in day then source order, as findProjectActivity returns them
+export function summarizeProjectUsage(rows: ProjectActivityRow[]) {
+    const totals = emptyCounts();
+    const sources = new Map<string, UsageCounts & { first_event_at: string; last_event_at: string }>();
+    const daily = new Map<string, UsageCounts & { sources: Record<string, UsageCounts> }>();
+
+    for (const row of rows) {
+        const counts = countsOf(row);
+        addCounts(totals, counts);
+
+        const source = sources.get(row.source);
+        if (source) {
+            addCounts(source, counts);
+            // timestamps as the adapter returns them, so compare them as dates
+            if (Date.parse(row.first_event_at) < Date.parse(source.first_event_at)) source.first_event_at = row.first_event_at;
+            if (Date.parse(row.last_event_at) > Date.parse(source.last_event_at)) source.last_event_at = row.last_event_at;
+        } else {
+            sources.set(row.source, { ...counts, first_event_at: row.first_event_at, last_event_at: row.last_event_at });
+        }
+
+        const date = new Date(row.activity_day).toISOString().slice(0, 10);
+        const day = daily.get(date) ?? { ...emptyCounts(), sources: {} };
+        addCounts(day, counts);
+        day.sources[row.source] = counts;
+        daily.set(date, day);
+    }
+
+    return {
+        totals,
+        // busiest first
+        sources: [...sources.entries()]
+            .map(([source, usage]) => ({ source, ...usage }))
+            .sort((a, b) => b.message_count - a.message_count || a.source.localeCompare(b.source)),
+        daily: [...daily.entries()].map(([date, usage]) => ({ date, ...usage })),
+    };
+}
@@ -0,0 +1,140 @@
+import { RETENTION_SWEEP_LIMIT } from '../constants';
+import type { ContextFilters, RetentionPolicyRow, StorageAdapter } from '../storage/types';
+import { recordAudit, SYSTEM_ACTOR } from './audit';
+import { findPrunableHeads, permanentlyDelete, prunableVersionCount, pruneVersions } from './context-deletion';
+import { loadEventContext, publishContextEvent, type SweepEventOptions } from './context-events';
+
+// =============================================================================
+// RETENTION — per-project limits on context age and version history
+// =============================================================================
+// max_age_days removes whole contexts (by root created_at), only those whose
+// metadata matches every `metadata` entry when one is set. max_versions drops
+// the oldest versions of any context with more, so version numbers restart at
+// 0 for what is kept. Both delete the same way as a permanent DELETE /contexts/:id.
+// The sweeper (server.ts interval, worker.ts cron) works through at most
+// RETENTION_SWEEP_LIMIT contexts of each kind per project per run. Removed
+// contexts publish a delete event (and webhooks) to the sinks, like a DELETE does.
+
+export type RetentionPolicy = Pick<RetentionPolicyRow, 'max_age_days' | 'metadata' | 'max_versions'>;
+
+export function formatRetentionPolicy(row: RetentionPolicyRow) {
+    return {
+        max_age_days: row.max_age_days,
+        metadata: row.metadata,
+        max_versions: row.max_versions,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+// -- planning -----------------------------------------------------------------
+
+export type ExpiredContext = { id: string; created_at: string; metadata: Record<string, unknown> };
+
+export type PrunedContext = { id: string; versions: number; remove: number };
+
+export type RetentionPlan = {
+    expired: { total: number; data: ExpiredContext[] };
+    pruned: { data: PrunedContext[] };
+};
+
+export function retentionFilters(policy: RetentionPolicy, now: Date): ContextFilters | null {
+    if (policy.max_age_days === null) return null;
+    const before = new Date(now.getTime() - policy.max_age_days * 24 * 60 * 60 * 1000).toISOString();
+    const metadata = Object.entries(policy.metadata ?? {}).map(([key, value]) => ({ op: 'eq' as const, key, value }));
+    return { before, metadata };
+}
+
+// what applyRetention would remove right now, writing nothing
+export async function planRetention(
+    storage: StorageAdapter,
+    projectId: number,
+    policy: RetentionPolicy,
+    options: { now?: Date; limit?: number } = {},
+): Promise<RetentionPlan> {
+    const limit = options.limit ?? RETENTION_SWEEP_LIMIT;
+    const plan: RetentionPlan = { expired: { total: 0, data: [] }, pruned: { data: [] } };
+
+    const filters = retentionFilters(policy, options.now ?? new Date());
+    if (filters) {
+        const roots = await storage.listRootContexts(projectId, limit, filters);
+        plan.expired.data = roots.map((r) => ({ id: r.public_id, created_at: r.created_at, metadata: r.metadata }));
+        plan.expired.total = await storage.countRootContexts(projectId, filters);
+    }
+
+    if (policy.max_versions !== null) {
+        // expiring contexts go entirely, so pruning them first is wasted work
+        const expiring = new Set(plan.expired.data.map((c) => c.id));
+        for (const row of await storage.findContextsOverVersionLimit(projectId, policy.max_versions, limit)) {
+            if (expiring.has(row.public_id)) continue;
+            const remove = prunableVersionCount(await findPrunableHeads(storage, row.public_id), policy.max_versions);
+            if (remove > 0) plan.pruned.data.push({ id: row.public_id, versions: row.versions, remove });
+        }
+    }
+
+    return plan;
+}
+
+// -- applying -----------------------------------------------------------------
+
+export type RetentionResult = { contexts_deleted: number; versions_pruned: number };
+
+export type RetentionOptions = SweepEventOptions & { now?: Date; limit?: number };
+
+export async function applyRetention(
+    storage: StorageAdapter,
+    projectId: number,
+    policy: RetentionPolicy,
+    options: RetentionOptions = {},
+): Promise<RetentionResult> {
+    const plan = await planRetention(storage, projectId, policy, options);
+    const result: RetentionResult = { contexts_deleted: 0, versions_pruned: 0 };
+
+    for (const context of plan.expired.data) {
+        const eventContext = await loadEventContext(storage, context.id);
+        await storage.transaction((tx) => permanentlyDelete(tx, projectId, context.id), { isolationLevel: 'serializable' });
+        await publishContextEvent(
+            options.sinks ?? {},
+            storage,
+            { type: 'delete', projectId, rootId: context.id, version: null, data: { permanent: true, reason: 'retention' }, context: eventContext },
+            options.background,
+        );
+        await recordAudit(storage, SYSTEM_ACTOR, { action: 'context.purge', projectId, targetId: context.id, details: { reason: 'retention' } });
+        result.contexts_deleted++;
+    }
+
+    // recounted inside pruneVersions' transaction; versions may have been added since planning
+    for (const context of plan.pruned.data) {
+        const removed = await pruneVersions(storage, projectId, context.id, policy.max_versions!);
+        if (removed > 0) {
+            await recordAudit(storage, SYSTEM_ACTOR, { action: 'context.prune', projectId, targetId: context.id, details: { versions_removed: removed } });
+        }
+        result.versions_pruned += removed;
+    }
+
+    return result;
+}
+
+// -- sweeper ------------------------------------------------------------------
+
+export type SweepResult = RetentionResult & { projects: number; failed: number };
+
+// applies every project's policy; one project failing doesn't stop the rest
+export async function sweepRetention(storage: StorageAdapter, options: RetentionOptions = {}): Promise<SweepResult> {
+    const totals: SweepResult = { projects: 0, failed: 0, contexts_deleted: 0, versions_pruned: 0 };
+
+    for (const policy of await storage.findRetentionPolicies()) {
+        try {
+            const result = await applyRetention(storage, policy.project_id, policy, options);
+            totals.contexts_deleted += result.contexts_deleted;
+            totals.versions_pruned += result.versions_pruned;
+            totals.projects++;
+        } catch (error) {
+            totals.failed++;
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`Retention sweep failed for project ${policy.project_id}: ${message}`);
+        }
+    }
+
+    return totals;
+}
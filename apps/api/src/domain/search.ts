@@ -0,0 +1,75 @@
+import type { ContextFilters, NodeRow, StorageAdapter } from '../storage/types';
+import { findHead, getOrderedNodes, isDeltaHead } from './context-chain';
+import { decodeSearchCursor, encodeSearchCursor } from './cursors';
+
+// -- message search -----------------------------------------------------------
+// The storage query matches messages from every version of a context; only
+// the ones still visible at the current head are returned. A snapshot head
+// holds every message it shows, so a match is current only if it sits under
+// that head and its index is one lookup; only a delta head is replayed. Edited,
+// deleted and compacted-away messages drop out here, so the storage is paged
+// until enough current hits turn up, or the scan limit is reached and the
+// page comes back short with a cursor to scan on from.
+
+const SEARCH_BATCH_SIZE = 50;
+
+// candidates scanned per page before returning what was found
+const SEARCH_SCAN_LIMIT = 1000;
+
+export type SearchMessagesQuery = ContextFilters & {
+    q: string;
+    limit?: number;
+    cursor?: string;
+};
+
+type CurrentHead = { id: string; replayed: Map<string, number> | null } | null;
+
+export async function searchMessages(storage: StorageAdapter, projectId: number, query: SearchMessagesQuery) {
+    const { q, limit: rawLimit, cursor, ...filters } = query;
+    const limit = rawLimit ?? 20;
+    const batchSize = Math.max(limit, SEARCH_BATCH_SIZE);
+    const start = (cursor ? decodeSearchCursor(cursor) : null) ?? 0;
+
+    // root id -> its current head, with the replayed order when it's a delta head
+    const heads = new Map<string, CurrentHead>();
+    async function indexAtHead(rootId: string, message: NodeRow) {
+        if (!heads.has(rootId)) {
+            const head = await findHead(storage, rootId);
+            let replayed: Map<string, number> | null = null;
+            if (head && isDeltaHead(head)) replayed = new Map((await getOrderedNodes(storage, head.public_id)).map((n, i) => [n.public_id, i]));
+            heads.set(rootId, head ? { id: head.public_id, replayed } : null);
+        }
+        const head = heads.get(rootId);
+        if (!head) return undefined;
+        if (head.replayed) return head.replayed.get(message.public_id);
+        if (message.context_id !== head.id) return undefined;
+        return (await storage.findNodePosition(head.id, message.public_id)) ?? undefined;
+    }
+
+    const data = [];
+    let offset = start;
+    let exhausted = false;
+    while (!exhausted && data.length < limit && offset - start < SEARCH_SCAN_LIMIT) {
+        const rows = await storage.searchMessages(projectId, { q, filters, limit: batchSize, offset });
+
+        let scanned = 0;
+        while (scanned < rows.length && data.length < limit) {
+            const row = rows[scanned++];
+            const index = await indexAtHead(row.context.public_id, row.message);
+            if (index === undefined) continue;
+
+            data.push({
+                context: { id: row.context.public_id, metadata: row.context.metadata, created_at: row.context.created_at },
+                message: { ...row.message.content, id: row.message.public_id, index, metadata: row.message.metadata },
+                snippet: row.snippet,
+                rank: row.rank,
+            });
+        }
+
+        offset += scanned;
+        exhausted = rows.length < batchSize && scanned === rows.length;
+    }
+
+    // offsets shift as messages are written, so a later page may repeat or skip a hit
+    return { data, next_cursor: exhausted ? null : encodeSearchCursor(offset) };
+}
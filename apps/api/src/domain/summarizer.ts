@@ -0,0 +1,15 @@
+// -- pluggable summarizer -----------------------------------------------------
+// Used by POST /contexts/:id/compact when the caller doesn't send a summary.
+// Implementations typically call an LLM; none ships by default.
+
+export type SummaryMessage = Record<string, unknown> & { metadata?: Record<string, unknown> };
+
+export type SummarizeInput = {
+    contextId: string;
+    // messages being folded, in order, shaped like GET /contexts/:id data
+    messages: Array<Record<string, unknown> & { id: string; index: number; metadata: Record<string, unknown> }>;
+};
+
+export interface Summarizer {
+    summarize(input: SummarizeInput): Promise<SummaryMessage>;
+}
@@ -0,0 +1,68 @@
+import { VERSIONED_WRITE_ATTEMPTS } from '../constants';
+import type { NodeInsertRow, StorageAdapter } from '../storage/types';
+
+// -- optimistic concurrency ---------------------------------------------------
+// Clients send the version they last saw (If-Match / expected_version). Appends
+// don't create versions, so the guard protects against edits, deletes and
+// reverts landing in between, not against other appends.
+
+export function formatVersionTag(version: number): string {
+    return `"${version}"`;
+}
+
+export async function getCurrentVersion(storage: StorageAdapter, rootId: string): Promise<number> {
+    return (await storage.findVersions(rootId)).length - 1;
+}
+
+// Postgres SSI failure, raw from postgres-js or wrapped by drizzle
+function isSerializationFailure(error: unknown): boolean {
+    const code = (e: unknown) => (typeof e === 'object' && e !== null ? (e as { code?: unknown }).code : undefined);
+    return code(error) === '40001' || code((error as { cause?: unknown } | null)?.cause) === '40001';
+}
+
+// Runs `write` inside a serializable tx, re-checking `expected` first (when
+// given) so a concurrent writer can't slip a version in between the check and
+// the write. Returns the current version on conflict, null once `write` ran.
+// A serialization failure is retried, re-checking `expected` each time; once
+// the attempts run out it counts as a conflict, or is rethrown when the caller
+// never asked for a version.
+export async function writeVersioned(
+    storage: StorageAdapter,
+    rootId: string,
+    expected: number | undefined,
+    write: (tx: StorageAdapter) => Promise<unknown>,
+): Promise<number | null> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await storage.transaction(async (tx) => {
+                const current = await getCurrentVersion(tx, rootId);
+                if (expected !== undefined && current !== expected) return current;
+
+                await write(tx);
+                return null;
+            }, { isolationLevel: 'serializable' });
+        } catch (error) {
+            if (!isSerializationFailure(error)) throw error;
+            if (attempt < VERSIONED_WRITE_ATTEMPTS) continue;
+            if (expected === undefined) throw error;
+            return getCurrentVersion(storage, rootId);
+        }
+    }
+}
+
+// Inserts a version head together with its rows (or a function writing them,
+// as a snapshot does), so no reader or guarded writer ever sees the head
+// before the messages it stands for.
+export async function insertVersion(
+    storage: StorageAdapter,
+    rootId: string,
+    head: NodeInsertRow,
+    rows: NodeInsertRow[] | ((tx: StorageAdapter) => Promise<unknown>),
+    expected?: number,
+): Promise<number | null> {
+    return writeVersioned(storage, rootId, expected, async (tx) => {
+        await tx.insertNodes(head);
+        if (typeof rows === 'function') await rows(tx);
+        else if (rows.length > 0) await tx.insertNodes(rows);
+    });
+}
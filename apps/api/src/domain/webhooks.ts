@@ -0,0 +1,64 @@
+import { toBase62 } from './api-keys';
+import type { ContextEvent } from '../events/types';
+import type { WebhookDeliveryRow, WebhookRow } from '../storage/types';
+
+// -- signing ------------------------------------------------------------------
+// Receivers recompute HMAC-SHA256(secret, `${t}.${body}`) and compare it with
+// v1 from `UltraContext-Signature: t=<unix seconds>,v1=<hex>`; t lets them
+// reject stale replays.
+
+export const WEBHOOK_SIGNATURE_HEADER = 'UltraContext-Signature';
+
+export function generateWebhookSecret(): string {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    return `whsec_${toBase62(bytes)}`;
+}
+
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+    return Array.from(new Uint8Array(signature))
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+export function formatSignatureHeader(timestamp: number, signature: string): string {
+    return `t=${timestamp},v1=${signature}`;
+}
+
+// -- retries ------------------------------------------------------------------
+
+// 30s, 2m, 8m, 32m, ... capped at 6h
+export function webhookBackoffMs(attempt: number): number {
+    return Math.min(30_000 * 4 ** (attempt - 1), 6 * 60 * 60 * 1000);
+}
+
+// -- response shapes ----------------------------------------------------------
+
+export function webhookPayload(event: ContextEvent): Record<string, unknown> {
+    const { project_id: _project, ...payload } = event;
+    return payload;
+}
+
+// the secret is only returned when the webhook is created
+export function formatWebhook(row: WebhookRow) {
+    return { id: row.public_id, url: row.url, events: row.events, active: row.active, created_at: row.created_at };
+}
+
+export function formatWebhookDelivery(row: WebhookDeliveryRow) {
+    return {
+        id: row.public_id,
+        event_id: row.event_id,
+        event_type: row.event_type,
+        status: row.status,
+        attempts: row.attempts,
+        response_status: row.response_status,
+        last_error: row.last_error,
+        next_attempt_at: row.next_attempt_at,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+        payload: row.payload,
+    };
+}
@@ -0,0 +1,79 @@
+import type { ContextEvent, ContextEventInput, ContextEventSource, ContextEventSubscription } from './types';
+
+// =============================================================================
+// IN-PROCESS EVENT SOURCE — single Node server; ids restart with the process
+// =============================================================================
+
+const DEFAULT_RETAIN = 1000;
+
+export class MemoryEventSource implements ContextEventSource {
+    private seq = 0;
+    private retained = new Map<number, ContextEvent[]>();
+    // id of the newest event dropped from each project's buffer
+    private evictedUpTo = new Map<number, number>();
+    private listeners = new Map<number, Set<(event: ContextEvent) => void>>();
+
+    constructor(private retain = DEFAULT_RETAIN) {}
+
+    async publish(input: ContextEventInput): Promise<ContextEvent> {
+        const event: ContextEvent = { ...input, id: String(++this.seq), created_at: new Date().toISOString() };
+
+        const buffer = this.retained.get(input.project_id) ?? [];
+        buffer.push(event);
+        if (buffer.length > this.retain) {
+            const evicted = buffer.shift()!;
+            this.evictedUpTo.set(input.project_id, Number(evicted.id));
+        }
+        this.retained.set(input.project_id, buffer);
+
+        for (const listener of this.listeners.get(input.project_id) ?? []) listener(event);
+        return event;
+    }
+
+    async subscribe(projectId: number, options: { lastEventId?: string; signal: AbortSignal }): Promise<ContextEventSubscription> {
+        const { lastEventId, signal } = options;
+        const queue: ContextEvent[] = [];
+        let wake: (() => void) | null = null;
+
+        let resumed = true;
+        if (lastEventId !== undefined) {
+            const after = Number(lastEventId);
+            resumed = Number.isInteger(after) && after >= (this.evictedUpTo.get(projectId) ?? 0) && after <= this.seq;
+            if (resumed) queue.push(...(this.retained.get(projectId) ?? []).filter((e) => Number(e.id) > after));
+        }
+
+        const listener = (event: ContextEvent) => {
+            queue.push(event);
+            wake?.();
+        };
+        const onAbort = () => wake?.();
+
+        const listeners = this.listeners.get(projectId) ?? new Set();
+        listeners.add(listener);
+        this.listeners.set(projectId, listeners);
+        signal.addEventListener('abort', onAbort);
+
+        const unsubscribe = () => {
+            listeners.delete(listener);
+            if (listeners.size === 0) this.listeners.delete(projectId);
+            signal.removeEventListener('abort', onAbort);
+        };
+
+        async function* events() {
+            try {
+                while (!signal.aborted) {
+                    if (queue.length === 0) {
+                        await new Promise<void>((resolve) => (wake = resolve));
+                        wake = null;
+                        continue;
+                    }
+                    yield queue.shift()!;
+                }
+            } finally {
+                unsubscribe();
+            }
+        }
+
+        return { resumed, events: events() };
+    }
+}
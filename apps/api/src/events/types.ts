@@ -0,0 +1,36 @@
+// =============================================================================
+// EVENT SOURCE — context change events behind GET /contexts/:id/events and webhooks
+// =============================================================================
+
+// splice, compact and metadata edits are 'update' events with an `operation`
+export const CONTEXT_EVENT_TYPES = ['create', 'append', 'update', 'delete', 'revert', 'restore'] as const;
+
+export type ContextEventType = (typeof CONTEXT_EVENT_TYPES)[number];
+
+export type ContextEventInput = {
+    type: ContextEventType;
+    project_id: number;
+    // root context, so project-wide streams can filter on its metadata
+    context: { id: string; metadata: Record<string, unknown>; created_at: string };
+    // version after the change; null once the context is permanently deleted
+    version: number | null;
+    data: Record<string, unknown>;
+};
+
+export type ContextEvent = ContextEventInput & {
+    // ordered per source; sent as the SSE id and read back from Last-Event-ID
+    id: string;
+    created_at: string;
+};
+
+export type ContextEventSubscription = {
+    // false when lastEventId is unknown or older than what the source retains
+    resumed: boolean;
+    events: AsyncIterable<ContextEvent>;
+};
+
+export interface ContextEventSource {
+    publish(event: ContextEventInput): Promise<ContextEvent>;
+    // replays retained events after lastEventId, then yields live ones until signal aborts
+    subscribe(projectId: number, options: { lastEventId?: string; signal: AbortSignal }): Promise<ContextEventSubscription>;
+}
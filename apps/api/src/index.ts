@@ -1,2 +1,12 @@
 export { createApp } from './app';
 export type { AppOptions } from './app';
+export type { Summarizer, SummarizeInput, SummaryMessage } from './domain/summarizer';
+export { MemoryEventSource } from './events/memory';
+export type { ContextEvent, ContextEventInput, ContextEventSource, ContextEventSubscription, ContextEventType } from './events/types';
+export { MemoryRateLimitCounter } from './ratelimit/memory';
+export type { RateLimitCounter, RateLimitGroup, RateLimitHit } from './ratelimit/types';
+export { WebhookDispatcher } from './webhooks/dispatcher';
+export type { WebhookDispatcherOptions } from './webhooks/dispatcher';
+export { purgeExpiredTrash } from './domain/context-deletion';
+export { sweepRetention } from './domain/retention';
+export type { SweepResult } from './domain/retention';
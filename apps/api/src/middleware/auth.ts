@@ -1,6 +1,8 @@
-import type { KeyCache } from '../cache/types';
+import type { CachedKey, KeyCache } from '../cache/types';
 import { KEY_PREFIX_LEN } from '../constants';
-import { hashKey } from '../domain/api-keys';
+import { API_KEY_SCOPES, hashKey, isApiKeyActive, type ApiKeyScope } from '../domain/api-keys';
+import { DELEGATED_TOKEN_PREFIX, verifyDelegatedToken } from '../domain/delegated-tokens';
+import type { Auth } from '../types/api';
 import type { HttpApp, HttpContext, HttpMiddleware } from '../types/http';
 
 // -- helpers ------------------------------------------------------------------
@@ -42,16 +44,43 @@ function bearerAuthMiddleware(verify: (token: string, c: HttpContext) => Promise
 
 // -- token verification -------------------------------------------------------
 
+function authFromCachedKey(key: CachedKey): Auth {
+    return {
+        apiKeyId: key.apiKeyId,
+        projectId: key.projectId,
+        // unknown scopes (say, from a newer deployment) grant nothing here
+        scopes: key.scopes ? key.scopes.filter((s): s is ApiKeyScope => (API_KEY_SCOPES as readonly string[]).includes(s)) : null,
+        contextIds: key.contextIds ?? null,
+        metadataFilter: key.metadataFilter ?? null,
+        delegated: false,
+        expiresAt: key.expiresAt ?? null,
+    };
+}
+
+// stateless: the signature and expiry are all there is to check
+async function verifyDelegated(token: string, c: HttpContext) {
+    const secret = c.get('config').ULTRACONTEXT_TOKEN_SIGNING_KEY;
+    if (!secret) return false;
+
+    const auth = await verifyDelegatedToken(secret, token);
+    if (!auth) return false;
+
+    c.set('auth', auth);
+    return true;
+}
+
 function createTokenVerifier(keyCache?: KeyCache) {
     return async function verifyToken(token: string, c: HttpContext) {
+        if (token.startsWith(DELEGATED_TOKEN_PREFIX)) return verifyDelegated(token, c);
+
         const prefix = token.slice(0, KEY_PREFIX_LEN);
         const hash = await hashKey(token);
 
         // check cache first
         if (keyCache) {
             const cached = await keyCache.get(prefix);
-            if (cached && cached.keyHash === hash) {
-                c.set('auth', { apiKeyId: cached.apiKeyId, projectId: cached.projectId });
+            if (cached && cached.keyHash === hash && isApiKeyActive({ expires_at: cached.expiresAt ?? null, revoked_at: null })) {
+                c.set('auth', authFromCachedKey(cached));
                 await recordApiKeyUse(c, cached.apiKeyId);
                 return true;
             }
@@ -60,18 +89,21 @@ function createTokenVerifier(keyCache?: KeyCache) {
         // fallback to storage
         const storage = c.get('storage');
         const tokenRow = await storage.findApiKeyByPrefix(prefix);
-        if (!tokenRow || hash !== tokenRow.key_hash) return false;
-
-        c.set('auth', { apiKeyId: tokenRow.id, projectId: tokenRow.project_id });
+        if (!tokenRow || hash !== tokenRow.key_hash || !isApiKeyActive(tokenRow)) return false;
+
+        const key: CachedKey = {
+            keyHash: hash,
+            apiKeyId: tokenRow.id,
+            projectId: tokenRow.project_id,
+            expiresAt: tokenRow.expires_at,
+            scopes: tokenRow.scopes,
+            contextIds: tokenRow.context_ids,
+            metadataFilter: tokenRow.metadata_filter,
+        };
+        c.set('auth', authFromCachedKey(key));
 
         // populate cache on success
-        if (keyCache) {
-            await keyCache.put(prefix, {
-                keyHash: hash,
-                apiKeyId: tokenRow.id,
-                projectId: tokenRow.project_id,
-            });
-        }
+        if (keyCache) await keyCache.put(prefix, key);
 
         await recordApiKeyUse(c, tokenRow.id);
 
@@ -96,6 +128,16 @@ export function registerAuthMiddleware(app: HttpApp, options?: AuthOptions) {
 
     app.use('/contexts', bearerAuthMiddleware(verifyToken));
     app.use('/contexts/*', bearerAuthMiddleware(verifyToken));
+    app.use('/search', bearerAuthMiddleware(verifyToken));
+    app.use('/events', bearerAuthMiddleware(verifyToken));
+    app.use('/webhooks', bearerAuthMiddleware(verifyToken));
+    app.use('/webhooks/*', bearerAuthMiddleware(verifyToken));
+    app.use('/retention', bearerAuthMiddleware(verifyToken));
+    app.use('/retention/*', bearerAuthMiddleware(verifyToken));
     app.use('/mcp', bearerAuthMiddleware(verifyToken));
+    app.use('/tokens', bearerAuthMiddleware(verifyToken));
     app.use('/v1/keys', bearerAuthMiddleware(verifyAdminToken));
+    app.use('/v1/keys/*', bearerAuthMiddleware(verifyAdminToken));
+    app.use('/v1/audit', bearerAuthMiddleware(verifyAdminToken));
+    app.use('/v1/projects/*', bearerAuthMiddleware(verifyAdminToken));
 }
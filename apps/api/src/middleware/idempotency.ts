@@ -0,0 +1,80 @@
+import { idempotencyWindowMs, isLiveIdempotencyKey, isStaleIdempotencyClaim, isValidIdempotencyKey, requestFingerprint } from '../domain/idempotency';
+import type { HttpApp, HttpContext, HttpMiddleware } from '../types/http';
+
+// -- helpers ------------------------------------------------------------------
+
+function inProgress(c: HttpContext) {
+    return c.json({ error: 'A request with this Idempotency-Key is still in progress' }, 409);
+}
+
+async function releaseKey(c: HttpContext, projectId: number, key: string) {
+    try {
+        await c.get('storage').deleteIdempotencyKeys(projectId, 'request', [key]);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to release idempotency key ${key}: ${message}`);
+    }
+}
+
+// -- middleware ---------------------------------------------------------------
+// Claims the key before the handler runs (a pending row with no response), so a
+// retry racing the original gets 409 instead of a second insert. Successful
+// responses are stored and replayed; failures release the key for a retry. A
+// claim whose request never finished is taken over once its lease runs out.
+
+const idempotencyMiddleware: HttpMiddleware = async (c, next) => {
+    const key = c.req.header('idempotency-key');
+    if (c.req.method !== 'POST' || key === undefined) return next();
+    if (!isValidIdempotencyKey(key)) return c.json({ error: 'Invalid Idempotency-Key header' }, 400);
+
+    const { projectId } = c.get('auth');
+    const storage = c.get('storage');
+    // the raw body is cached, so the handler can still parse it
+    const fingerprint = await requestFingerprint(c.req.method, c.req.path, await c.req.text());
+
+    const [existing] = await storage.findIdempotencyKeys(projectId, 'request', [key]);
+    const expired = existing !== undefined && (!isLiveIdempotencyKey(existing, idempotencyWindowMs(c.get('config'))) || isStaleIdempotencyClaim(existing));
+    if (existing && !expired) {
+        if (existing.fingerprint !== fingerprint) {
+            return c.json({ error: 'Idempotency-Key was already used for a different request' }, 422);
+        }
+        if (existing.status_code === null) return inProgress(c);
+
+        c.header('Idempotent-Replayed', 'true');
+        return c.json(existing.response as object, existing.status_code as 200 | 201);
+    }
+    if (existing) await storage.deleteIdempotencyKeys(projectId, 'request', [key]);
+
+    try {
+        await storage.insertIdempotencyKeys([{ project_id: projectId, scope: 'request', key, fingerprint }]);
+    } catch (error) {
+        // lost the race to claim it
+        const [claimed] = await storage.findIdempotencyKeys(projectId, 'request', [key]);
+        if (claimed) return inProgress(c);
+        throw error;
+    }
+
+    await next();
+
+    const status = c.res.status;
+    if (status < 200 || status >= 300) {
+        await releaseKey(c, projectId, key);
+        return;
+    }
+
+    try {
+        const body = await c.res.clone().json();
+        await storage.completeIdempotencyKey(projectId, 'request', key, status, body);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to store idempotent response for key ${key}: ${message}`);
+        await releaseKey(c, projectId, key);
+    }
+};
+
+// -- registration -------------------------------------------------------------
+
+export function registerIdempotencyMiddleware(app: HttpApp) {
+    app.use('/contexts', idempotencyMiddleware);
+    app.use('/contexts/:id', idempotencyMiddleware);
+}
@@ -0,0 +1,98 @@
+import { DEFAULT_RATE_LIMIT_WINDOW_SECONDS, DEFAULT_RATE_LIMITS } from '../constants';
+import { MemoryRateLimitCounter } from '../ratelimit/memory';
+import type { RateLimitCounter, RateLimitGroup, RateLimitHit, RateLimits } from '../ratelimit/types';
+import type { ApiConfig } from '../types/api';
+import type { HttpApp, HttpContext, HttpMiddleware } from '../types/http';
+
+// -- helpers ------------------------------------------------------------------
+
+export function rateLimits(config: ApiConfig): RateLimits {
+    const limits = { ...DEFAULT_RATE_LIMITS };
+    for (const [group, rule] of Object.entries(config.RATE_LIMITS ?? {})) {
+        limits[group as RateLimitGroup] = { ...limits[group as RateLimitGroup], ...rule };
+    }
+    return limits;
+}
+
+export function rateLimitGroup(method: string, path: string): RateLimitGroup {
+    if (path === '/mcp') return 'mcp';
+    if (method === 'DELETE' || path === '/contexts/delete-many') return 'deletes';
+    if (method === 'GET' || method === 'HEAD') return 'reads';
+    if (method === 'POST' && /^\/contexts\/[^/]+$/.test(path) && path !== '/contexts/import') return 'appends';
+    return 'writes';
+}
+
+type Usage = RateLimitHit & { limit: number; scope: 'key' | 'project' };
+
+// the counter closest to its limit is the one a client needs to hear about
+function tightest(usages: Usage[]): Usage {
+    return usages.reduce((a, b) => (b.limit - b.count < a.limit - a.count ? b : a));
+}
+
+function setRateLimitHeaders(c: HttpContext, usage: Usage, windowSeconds: number) {
+    const resetSeconds = Math.max(Math.ceil((usage.resetAt - Date.now()) / 1000), 0);
+    c.header('RateLimit-Limit', String(usage.limit));
+    c.header('RateLimit-Remaining', String(Math.max(usage.limit - usage.count, 0)));
+    c.header('RateLimit-Reset', String(resetSeconds));
+    c.header('RateLimit-Policy', `${usage.limit};w=${windowSeconds}`);
+    return resetSeconds;
+}
+
+// -- middleware ---------------------------------------------------------------
+// Counts every authenticated request against its API key and its project, per
+// route group. While the shared counter fails, requests are counted in this
+// process instead: limits then hold per instance rather than not at all, and
+// the limiter doesn't become an outage of its own.
+
+function rateLimitMiddleware(counter: RateLimitCounter, fallback: RateLimitCounter): HttpMiddleware {
+    return async (c, next) => {
+        const { apiKeyId, projectId } = c.get('auth');
+        const config = c.get('config');
+        const windowSeconds = config.RATE_LIMIT_WINDOW_SECONDS ?? DEFAULT_RATE_LIMIT_WINDOW_SECONDS;
+        const group = rateLimitGroup(c.req.method, c.req.path);
+        const rule = rateLimits(config)[group];
+
+        const hit = (from: RateLimitCounter) =>
+            Promise.all([from.hit(`key:${apiKeyId}:${group}`, windowSeconds), from.hit(`project:${projectId}:${group}`, windowSeconds)]);
+
+        let hits: RateLimitHit[];
+        try {
+            hits = await hit(counter);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`Rate limit counter failed for key ${apiKeyId}, counting in process: ${message}`);
+            hits = await hit(fallback);
+        }
+        const [key, project] = hits;
+        const usages: Usage[] = [
+            { ...key, limit: rule.key, scope: 'key' },
+            { ...project, limit: rule.project, scope: 'project' },
+        ];
+
+        const exceeded = usages.find((u) => u.count > u.limit);
+        const resetSeconds = setRateLimitHeaders(c as HttpContext, exceeded ?? tightest(usages), windowSeconds);
+        if (exceeded) {
+            c.header('Retry-After', String(Math.max(resetSeconds, 1)));
+            return c.json({ error: 'Rate limit exceeded', group, scope: exceeded.scope }, 429);
+        }
+
+        await next();
+    };
+}
+
+// -- registration -------------------------------------------------------------
+
+export type RateLimitOptions = {
+    counter?: RateLimitCounter;
+};
+
+// the routes authenticated with a project API key; `/x/*` matches `/x` too,
+// so listing both would count those requests twice
+const RATE_LIMITED_PATHS = ['/contexts/*', '/search', '/events', '/webhooks/*', '/retention/*', '/mcp', '/tokens'];
+
+// must come after registerAuthMiddleware, which sets the key being counted
+export function registerRateLimitMiddleware(app: HttpApp, options?: RateLimitOptions) {
+    if (!options?.counter) return;
+    const middleware = rateLimitMiddleware(options.counter, new MemoryRateLimitCounter());
+    for (const path of RATE_LIMITED_PATHS) app.use(path, middleware);
+}
@@ -0,0 +1,43 @@
+import type { ApiKeyScope } from '../domain/api-keys';
+import { hasScope, isUnrestricted } from '../domain/key-access';
+import type { HttpApp, HttpMiddleware } from '../types/http';
+
+// -- helpers ------------------------------------------------------------------
+
+// null: only an unrestricted key will do
+export function requiredScope(method: string, path: string): ApiKeyScope | null {
+    if (path === '/mcp') return 'mcp';
+    if (path.startsWith('/webhooks') || path.startsWith('/retention')) return null;
+    if (method === 'DELETE' || path === '/contexts/delete-many') return 'contexts:delete';
+    if (method === 'GET' || method === 'HEAD') return 'contexts:read';
+    return 'contexts:write';
+}
+
+// -- middleware ---------------------------------------------------------------
+// Route-level scope checks. Which contexts a restricted key reaches is checked
+// by the routes, which know the context.
+
+const scopeMiddleware: HttpMiddleware = async (c, next) => {
+    const auth = c.get('auth');
+    const scope = requiredScope(c.req.method, c.req.path);
+
+    if (scope === null && !isUnrestricted(auth)) {
+        return c.json({ error: 'This route needs an unrestricted API key' }, 403);
+    }
+    if (scope !== null && !hasScope(auth, scope)) {
+        c.header('WWW-Authenticate', `Bearer error="insufficient_scope", scope="${scope}"`);
+        return c.json({ error: 'Insufficient scope', required_scope: scope }, 403);
+    }
+
+    await next();
+};
+
+// -- registration -------------------------------------------------------------
+
+// `/x/*` matches `/x` too
+const SCOPED_PATHS = ['/contexts/*', '/search', '/events', '/webhooks/*', '/retention/*', '/mcp'];
+
+// must come after registerAuthMiddleware, which sets the key's scopes
+export function registerScopeMiddleware(app: HttpApp) {
+    for (const path of SCOPED_PATHS) app.use(path, scopeMiddleware);
+}
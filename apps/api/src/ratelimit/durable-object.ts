@@ -0,0 +1,39 @@
+import { windowStart, type RateLimitCounter, type RateLimitHit } from './types';
+
+// =============================================================================
+// DURABLE OBJECT RATE LIMIT COUNTER — Cloudflare Workers implementation
+// =============================================================================
+// One object per counted key. An object runs its requests one at a time and
+// its storage is strongly consistent, so each hit is an exact increment that
+// every location agrees on, however fast the hits come.
+
+type StoredWindow = { start: number; count: number };
+
+// bound as ULTRACONTEXT_RATE_LIMITS; see wrangler.jsonc
+export class RateLimitObject {
+    constructor(private state: DurableObjectState) {}
+
+    async fetch(request: Request): Promise<Response> {
+        const windowSeconds = Number(new URL(request.url).searchParams.get('window'));
+        if (!Number.isInteger(windowSeconds) || windowSeconds <= 0) return new Response('Invalid window', { status: 400 });
+
+        const start = windowStart(Date.now(), windowSeconds);
+        const stored = await this.state.storage.get<StoredWindow>('window');
+        const count = stored?.start === start ? stored.count + 1 : 1;
+        await this.state.storage.put('window', { start, count } satisfies StoredWindow);
+
+        const hit: RateLimitHit = { count, resetAt: start + windowSeconds * 1000 };
+        return Response.json(hit);
+    }
+}
+
+export class DurableObjectRateLimitCounter implements RateLimitCounter {
+    constructor(private namespace: DurableObjectNamespace) {}
+
+    async hit(key: string, windowSeconds: number): Promise<RateLimitHit> {
+        const stub = this.namespace.get(this.namespace.idFromName(key));
+        const res = await stub.fetch(`https://rate-limit/hit?window=${windowSeconds}`);
+        if (!res.ok) throw new Error(`Rate limit object answered ${res.status}`);
+        return (await res.json()) as RateLimitHit;
+    }
+}
@@ -0,0 +1,29 @@
+import { windowStart, type RateLimitCounter, type RateLimitHit } from './types';
+
+// past this many tracked keys, a new window first drops the expired ones
+const PRUNE_THRESHOLD = 10_000;
+
+// Single-process counter: exact, but each Node process counts on its own.
+export class MemoryRateLimitCounter implements RateLimitCounter {
+    private windows = new Map<string, RateLimitHit>();
+
+    async hit(key: string, windowSeconds: number): Promise<RateLimitHit> {
+        const now = Date.now();
+        const current = this.windows.get(key);
+        if (current && current.resetAt > now) {
+            current.count++;
+            return { ...current };
+        }
+
+        if (this.windows.size >= PRUNE_THRESHOLD) this.prune(now);
+        const hit = { count: 1, resetAt: windowStart(now, windowSeconds) + windowSeconds * 1000 };
+        this.windows.set(key, hit);
+        return { ...hit };
+    }
+
+    private prune(now: number) {
+        for (const [key, hit] of this.windows) {
+            if (hit.resetAt <= now) this.windows.delete(key);
+        }
+    }
+}
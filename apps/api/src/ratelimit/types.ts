@@ -0,0 +1,30 @@
+// =============================================================================
+// RATE LIMIT COUNTERS — fixed-window hit counts behind a pluggable store
+// =============================================================================
+
+// requests are grouped by what they cost; see middleware/rate-limit.ts
+export const RATE_LIMIT_GROUPS = ['reads', 'appends', 'writes', 'deletes', 'mcp'] as const;
+
+export type RateLimitGroup = (typeof RATE_LIMIT_GROUPS)[number];
+
+// requests allowed per window, per API key and per project (all its keys together)
+export type RateLimitRule = { key: number; project: number };
+
+export type RateLimits = Record<RateLimitGroup, RateLimitRule>;
+
+export type RateLimitHit = {
+    // hits in the current window, this one included
+    count: number;
+    // epoch ms when the window ends
+    resetAt: number;
+};
+
+export interface RateLimitCounter {
+    hit(key: string, windowSeconds: number): Promise<RateLimitHit>;
+}
+
+// windows are aligned to the epoch so every instance agrees on where they start
+export function windowStart(now: number, windowSeconds: number): number {
+    const windowMs = windowSeconds * 1000;
+    return Math.floor(now / windowMs) * windowMs;
+}
@@ -0,0 +1,59 @@
+import { MAX_AUDIT_LIMIT } from '../constants';
+import { AUDIT_ACTIONS, listAuditEvents, type ListAuditEventsQuery } from '../domain/audit';
+import { decodeAuditCursor } from '../domain/cursors';
+import type { HttpApp } from '../types/http';
+
+// -- helpers ------------------------------------------------------------------
+
+function parseId(value: string | undefined, name: string): { id?: number } | { error: string } {
+    if (value === undefined) return {};
+    const id = Number(value);
+    return Number.isSafeInteger(id) && id > 0 ? { id } : { error: `${name} must be a positive integer` };
+}
+
+function parseAuditQuery(query: (name: string) => string | undefined): { query: ListAuditEventsQuery } | { error: string } {
+    const limit = parseInt(query('limit') ?? '20');
+    if (isNaN(limit) || limit < 1 || limit > MAX_AUDIT_LIMIT) return { error: `limit must be between 1 and ${MAX_AUDIT_LIMIT}` };
+
+    const cursor = query('cursor');
+    if (cursor !== undefined && decodeAuditCursor(cursor) === null) return { error: 'Invalid cursor' };
+
+    const project = parseId(query('project_id'), 'project_id');
+    if ('error' in project) return project;
+    const apiKey = parseId(query('api_key_id'), 'api_key_id');
+    if ('error' in apiKey) return apiKey;
+
+    const action = query('action');
+    if (action !== undefined && !(AUDIT_ACTIONS as readonly string[]).includes(action)) {
+        return { error: `action must be one of: ${AUDIT_ACTIONS.join(', ')}` };
+    }
+
+    const after = query('after');
+    if (after !== undefined && isNaN(Date.parse(after))) return { error: 'Invalid after timestamp' };
+    const before = query('before');
+    if (before !== undefined && isNaN(Date.parse(before))) return { error: 'Invalid before timestamp' };
+
+    return {
+        query: {
+            limit,
+            cursor,
+            project_id: project.id,
+            api_key_id: apiKey.id,
+            action,
+            target_id: query('target_id'),
+            after,
+            before,
+        },
+    };
+}
+
+// -- routes (admin) -----------------------------------------------------------
+
+export function registerAuditRoutes(app: HttpApp) {
+    // newest first; filters AND together
+    app.get('/v1/audit', async (c) => {
+        const parsed = parseAuditQuery((name) => c.req.query(name));
+        if ('error' in parsed) return c.json({ error: parsed.error }, 400);
+        return c.json(await listAuditEvents(c.get('storage'), parsed.query));
+    });
+}
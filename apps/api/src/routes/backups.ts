@@ -0,0 +1,70 @@
+import { stream } from 'hono/streaming';
+
+import { backupProject, restoreProject } from '../domain/project-backup';
+import type { HttpApp, HttpContext } from '../types/http';
+import { readLines } from '../utils/ndjson';
+
+// -- helpers ------------------------------------------------------------------
+
+async function findProject(c: HttpContext) {
+    const projectId = Number(c.req.param('id'));
+    if (!Number.isSafeInteger(projectId) || projectId < 1) return null;
+    return c.get('storage').findProject(projectId);
+}
+
+// -- routes (admin) -----------------------------------------------------------
+
+export function registerBackupRoutes(app: HttpApp) {
+    app.get('/v1/projects/:id/backup', async (c) => {
+        const storage = c.get('storage');
+        const project = await findProject(c);
+        if (!project) return c.json({ error: 'Project not found' }, 404);
+
+        c.header('Content-Type', 'application/x-ndjson');
+        c.header('Content-Disposition', `attachment; filename="project-${project.id}.ndjson"`);
+        return stream(c, async (output) => {
+            try {
+                await storage.transaction(
+                    async (tx) => {
+                        for await (const line of backupProject(tx, project)) {
+                            await output.write(`${JSON.stringify(line)}\n`);
+                        }
+                    },
+                    { isolationLevel: 'repeatable read' },
+                );
+            } catch (error) {
+                // the status is already sent; restore rejects the short file by its counts
+                const message = error instanceof Error ? error.message : String(error);
+                console.error(`Backup of project ${project.id} failed: ${message}`);
+            }
+        });
+    });
+
+    // streams progress lines: {type:'progress'} per batch, then {type:'done'} or {type:'error'}
+    app.post('/v1/projects/:id/restore', async (c) => {
+        const storage = c.get('storage');
+        const project = await findProject(c);
+        if (!project) return c.json({ error: 'Project not found' }, 404);
+        if ((await storage.countProjectNodes(project.id)) > 0) {
+            return c.json({ error: 'Project is not empty; restore into a new project' }, 409);
+        }
+
+        const body = c.req.raw.body;
+        if (!body) return c.json({ error: 'Request body must be a backup' }, 400);
+
+        c.header('Content-Type', 'application/x-ndjson');
+        return stream(c, async (output) => {
+            const send = (line: Record<string, unknown>) => output.write(`${JSON.stringify(line)}\n`);
+            try {
+                const result = await restoreProject(storage, project.id, readLines(body), (progress) =>
+                    send({ type: 'progress', ...progress }).then(() => undefined),
+                );
+                await send('error' in result ? { type: 'error', error: result.error } : { type: 'done', ...result });
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.error(`Restore into project ${project.id} failed: ${message}`);
+                await send({ type: 'error', error: 'Restore failed' });
+            }
+        });
+    });
+}
@@ -1,9 +1,40 @@
-import type { StorageAdapter, NodeRow, ContextFilters } from '../storage/types';
-import { buildNodeInsertRecords, findHead, findTail, getOrderedNodes, getVersions } from '../domain/context-chain';
+import { stream } from 'hono/streaming';
+
+import type { StorageAdapter, NodeRow } from '../storage/types';
+import { apiKeyActor, recordAudit, type AuditEntry } from '../domain/audit';
+import {
+    buildNodeInsertRecords,
+    buildTombstoneRecords,
+    DELTA_HEAD_CONTENT,
+    findHead,
+    getNodeWindow,
+    getOrderedNodes,
+    getVersions,
+    hasWindow,
+    isSnapshotDue,
+    sliceWindow,
+    SNAPSHOT_HEAD_CONTENT,
+    writeSnapshot,
+} from '../domain/context-chain';
+import { isRestorable, permanentlyDelete, restorableUntil, trashWindowMs } from '../domain/context-deletion';
+import { getVersionDiff } from '../domain/context-diff';
+import { exportContext, importContextBundle, parseContextBundle } from '../domain/context-transfer';
+import { loadEventContext, publishContextEvent, type PublishContextEventInput } from '../domain/context-events';
+import { applyMergePatch, findInvalidFilterKey, updateContextMetadata } from '../domain/context-metadata';
+import { listContexts } from '../domain/context-ops';
+import { decodeContextCursor } from '../domain/cursors';
+import { idempotencyWindowMs, isLiveIdempotencyKey, isValidIdempotencyKey } from '../domain/idempotency';
+import { canAccessContext, canCreateContext, matchesKeyRestriction, restrictFilters } from '../domain/key-access';
+import { buildForkContent, getLineage, type ForkPoint } from '../domain/lineage';
 import { generatePublicId } from '../domain/public-ids';
-import type { HttpApp } from '../types/http';
+import type { Summarizer } from '../domain/summarizer';
+import { formatVersionTag, getCurrentVersion, insertVersion } from '../domain/version-guard';
+import type { ContextEventSource } from '../events/types';
+import type { HttpApp, HttpContext } from '../types/http';
+import type { WebhookDispatcher } from '../webhooks/dispatcher';
+import { runInBackground } from '../utils/background';
 import { firstRow } from '../utils/first-row';
-import { isPlainObject, parseUpdateRequestBody } from '../utils/request-parsing';
+import { isPlainObject, parseContextFilters, parseExpectedVersion, parseMessageWindow, parseUpdateRequestBody } from '../utils/request-parsing';
 import { MAX_BATCH_DELETE } from '../constants';
 
 // -- rollback helpers ---------------------------------------------------------
@@ -42,40 +73,75 @@ async function rollbackRootContext(storage: StorageAdapter, projectId: number, r
     }
 }
 
-// -- permanent-delete helper --------------------------------------------------
+// -- optimistic concurrency ---------------------------------------------------
 
-async function permanentlyDelete(storage: StorageAdapter, projectId: number, rootPublicId: string) {
-    const branches = await storage.findContextBranches(rootPublicId);
+function versionConflict(c: HttpContext, currentVersion: number) {
+    c.header('ETag', formatVersionTag(currentVersion));
+    return c.json({ error: 'Version conflict', current_version: currentVersion }, 409);
+}
 
-    // Per branch: batch-clear parent refs for its messages, then delete them
-    for (const branch of branches) {
-        const messages = await storage.findNonContextNodes(branch.public_id);
-        const msgIds = messages.map((m) => m.public_id);
-        await storage.clearParentReferencesBulk(projectId, msgIds);
-        await storage.clearParentReferences(projectId, branch.public_id);
-        await storage.deleteNodesByContextId(projectId, branch.public_id);
-    }
+// live or trashed: purging empties the trash too
+async function findPurgeableContext(storage: StorageAdapter, projectId: number, contextId: string) {
+    return (await storage.findRootContext(projectId, contextId)) ?? (await storage.findTrashedContext(projectId, contextId));
+}
 
-    // Clear parent refs pointing to root (forked contexts)
-    await storage.clearParentReferences(projectId, rootPublicId);
+// -- key restrictions ---------------------------------------------------------
 
-    // Delete version head nodes
-    await storage.deleteNodesByContextId(projectId, rootPublicId);
+// a live context the key may reach; any other reads as not found
+async function findAccessibleContext(c: HttpContext, contextId: string) {
+    const auth = c.get('auth');
+    const storage = c.get('storage');
+    const root = await storage.findRootContext(auth.projectId, contextId);
+    return root && (await canAccessContext(storage, auth, contextId)) ? root : null;
+}
+
+// -- message addressing -------------------------------------------------------
 
-    // Delete the root node itself
-    await storage.deleteNodeByPublicId(projectId, rootPublicId);
+// index (negative counts from the end) or message id; `allowEnd` accepts length (the tail)
+function resolvePosition(orderedNodes: NodeRow[], ref: number | string, allowEnd = false): { position: number } | { error: string; status: 400 | 404 } {
+    if (typeof ref === 'string') {
+        const position = orderedNodes.findIndex((n) => n.public_id === ref);
+        return position === -1 ? { error: `Message not found: ${ref}`, status: 404 } : { position };
+    }
+
+    const position = ref < 0 ? orderedNodes.length + ref : ref;
+    const max = allowEnd ? orderedNodes.length : orderedNodes.length - 1;
+    return position < 0 || position > max ? { error: `Index out of range: ${ref}`, status: 400 } : { position };
+}
+
+function isMessageRef(value: unknown): value is number | string {
+    return typeof value === 'string' || (typeof value === 'number' && Number.isInteger(value));
 }
 
 // -- routes -------------------------------------------------------------------
 
-export function registerContextRoutes(app: HttpApp) {
+export type ContextRoutesOptions = {
+    summarizer?: Summarizer;
+    events?: ContextEventSource;
+    webhooks?: WebhookDispatcher;
+};
+
+export function registerContextRoutes(app: HttpApp, options?: ContextRoutesOptions) {
+    const sinks = { events: options?.events, webhooks: options?.webhooks };
+    const publish = (c: HttpContext, input: PublishContextEventInput) =>
+        publishContextEvent(sinks, c.get('storage'), input, (task) => runInBackground(c, task));
+    const audit = (c: HttpContext, entry: Omit<AuditEntry, 'projectId'>) => {
+        const { apiKeyId, projectId } = c.get('auth');
+        return recordAudit(c.get('storage'), apiKeyActor(apiKeyId), { ...entry, projectId });
+    };
+
     app.post('/contexts', async (c) => {
-        const { projectId } = c.get('auth');
+        const auth = c.get('auth');
+        const { projectId } = auth;
         const body = await c.req.json().catch(() => ({}));
         const { from, version, at, before, metadata } = body;
 
         const storage = c.get('storage');
 
+        if (!canCreateContext(auth, isPlainObject(metadata) ? metadata : {})) {
+            return c.json({ error: 'This API key cannot create contexts with this metadata' }, 403);
+        }
+
         let beforeTs: number | undefined;
         if (before !== undefined) {
             beforeTs = Date.parse(before);
@@ -87,12 +153,14 @@ export function registerContextRoutes(app: HttpApp) {
         }
 
         let sourceNodes: NodeRow[] = [];
+        let fork: ForkPoint | null = null;
         if (from) {
             const sourceCtx = await storage.findRootContextByPublicId(from);
-            if (!sourceCtx) return c.json({ error: 'Source context not found' }, 404);
+            if (!sourceCtx || !(await canAccessContext(storage, auth, from))) return c.json({ error: 'Source context not found' }, 404);
 
             let sourceHead;
             const versions = await getVersions(storage, from);
+            let sourceVersion = versions.length - 1;
 
             if (version !== undefined) {
                 const versionNum = parseInt(String(version));
@@ -100,10 +168,12 @@ export function registerContextRoutes(app: HttpApp) {
                     return c.json({ error: 'Version not found' }, 404);
                 }
                 sourceHead = { public_id: versions[versionNum].head_id };
+                sourceVersion = versionNum;
             } else if (beforeTs !== undefined) {
                 const targetVersion = versions.filter((v) => new Date(v.created_at).getTime() <= beforeTs).pop();
                 if (!targetVersion) return c.json({ error: 'No version found before timestamp' }, 404);
                 sourceHead = { public_id: targetVersion.head_id };
+                sourceVersion = targetVersion.version;
             } else {
                 sourceHead = await findHead(storage, from);
             }
@@ -123,6 +193,12 @@ export function registerContextRoutes(app: HttpApp) {
                     sourceNodes = sourceNodes.slice(0, idx + 1);
                 }
             }
+
+            fork = {
+                from,
+                version: sourceHead ? sourceVersion : null,
+                index: sourceNodes.length > 0 ? sourceNodes.length - 1 : null,
+            };
         }
 
         // create root node
@@ -133,7 +209,7 @@ export function registerContextRoutes(app: HttpApp) {
             type: 'context',
             context_id: null,
             parent_id: from ?? null,
-            content: {},
+            content: buildForkContent(fork),
             metadata: (metadata ?? {}) as Record<string, unknown>,
         });
         const root = firstRow(rootRows);
@@ -178,46 +254,63 @@ export function registerContextRoutes(app: HttpApp) {
             }
         }
 
+        await publish(c, { type: 'create', projectId, rootId, version: 0, data: fork ? { fork } : {} });
         return c.json({ id: root.public_id, metadata: root.metadata, created_at: root.created_at }, 201);
     });
 
     app.get('/contexts', async (c) => {
         const { projectId } = c.get('auth');
-        const limit = parseInt(c.req.query('limit') ?? '20');
         const storage = c.get('storage');
 
+        const limit = parseInt(c.req.query('limit') ?? '20');
+        if (isNaN(limit) || limit < 1) return c.json({ error: 'limit must be a positive integer' }, 400);
+
+        // pagination: opaque keyset cursor + sort direction + optional total count
+        const cursor = c.req.query('cursor');
+        if (cursor !== undefined && !decodeContextCursor(cursor)) return c.json({ error: 'Invalid cursor' }, 400);
+        const order = c.req.query('order') ?? 'desc';
+        if (order !== 'asc' && order !== 'desc') return c.json({ error: 'order must be "asc" or "desc"' }, 400);
+        const total = c.req.query('total') === 'true';
+
         // metadata + timestamp filters
-        const filters: ContextFilters = {};
-        const source = c.req.query('source');
-        const userId = c.req.query('user_id');
-        const host = c.req.query('host');
-        const projectPath = c.req.query('project_path');
-        const sessionId = c.req.query('session_id');
-        const after = c.req.query('after');
-        const before = c.req.query('before');
-        if (source) filters.source = source;
-        if (userId) filters.user_id = userId;
-        if (host) filters.host = host;
-        if (projectPath) filters.project_path = projectPath;
-        if (sessionId) filters.session_id = sessionId;
-        if (after) {
-            if (isNaN(Date.parse(after))) return c.json({ error: 'Invalid after timestamp' }, 400);
-            filters.after = after;
-        }
-        if (before) {
-            if (isNaN(Date.parse(before))) return c.json({ error: 'Invalid before timestamp' }, 400);
-            filters.before = before;
+        const parsed = parseContextFilters(c.req.queries());
+        if ('error' in parsed) return c.json({ error: parsed.error }, 400);
+
+        // the trash instead of live contexts
+        const trashed = c.req.query('trashed') === 'true';
+        const filters = restrictFilters(c.get('auth'), { ...parsed.filters, trashed });
+        const result = await listContexts(storage, projectId, { ...filters, limit, cursor, order, total });
+        if (!trashed) return c.json(result);
+
+        const windowMs = trashWindowMs(c.get('config'));
+        const data = result.data.map((ctx) => ({ ...ctx, restorable_until: restorableUntil(ctx.deleted_at!, windowMs) }));
+        return c.json({ ...result, data });
+    });
+
+    // -- import a context bundle (must be registered before :id routes) --------
+
+    app.post('/contexts/import', async (c) => {
+        const { projectId } = c.get('auth');
+        const storage = c.get('storage');
+
+        const parsed = parseContextBundle(await c.req.text());
+        if ('error' in parsed) return c.json({ error: parsed.error }, 400);
+        if (!canCreateContext(c.get('auth'), parsed.bundle.context.metadata)) {
+            return c.json({ error: 'This API key cannot create contexts with this metadata' }, 403);
         }
 
-        const data = await storage.listRootContexts(projectId, limit, filters);
+        let imported;
+        try {
+            imported = await importContextBundle(storage, projectId, parsed.bundle);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`Failed to import context ${parsed.bundle.context.id}: ${message}`);
+            return c.json({ error: 'Failed to import context' }, 500);
+        }
 
-        return c.json({
-            data: data.map((n) => ({
-                id: n.public_id,
-                metadata: n.metadata,
-                created_at: n.created_at,
-            })),
-        });
+        const { root, version } = imported;
+        await publish(c, { type: 'create', projectId, rootId: root.public_id, version, data: { imported_from: parsed.bundle.context.id } });
+        return c.json({ id: root.public_id, metadata: root.metadata, created_at: root.created_at, version }, 201);
     });
 
     // -- delete-many contexts (must be registered before :id routes) -----------
@@ -228,10 +321,11 @@ export function registerContextRoutes(app: HttpApp) {
 
         if (!isPlainObject(body)) return c.json({ error: 'Request body must be a JSON object' }, 400);
 
-        const { ids } = body;
+        const { ids, purge = false } = body;
         if (!Array.isArray(ids) || ids.length === 0) {
             return c.json({ error: 'ids must be a non-empty array of context IDs' }, 400);
         }
+        if (typeof purge !== 'boolean') return c.json({ error: 'purge must be a boolean' }, 400);
         if (ids.length > MAX_BATCH_DELETE) {
             return c.json({ error: `ids must contain at most ${MAX_BATCH_DELETE} items` }, 400);
         }
@@ -241,18 +335,32 @@ export function registerContextRoutes(app: HttpApp) {
         }
 
         const storage = c.get('storage');
-        const results: Array<{ id: string; deleted: boolean; error?: string }> = [];
+        const windowMs = trashWindowMs(c.get('config'));
+        const results: Array<{ id: string; deleted: boolean; restorable_until?: string; error?: string }> = [];
 
         for (const contextId of ids as string[]) {
-            const root = await storage.findRootContext(projectId, contextId);
-            if (!root) {
+            const root = purge ? await findPurgeableContext(storage, projectId, contextId) : await storage.findRootContext(projectId, contextId);
+            if (!root || !(await canAccessContext(storage, c.get('auth'), contextId))) {
                 results.push({ id: contextId, deleted: false, error: 'Not found' });
                 continue;
             }
 
             try {
-                await storage.transaction((tx) => permanentlyDelete(tx, projectId, root.public_id), { isolationLevel: 'serializable' });
-                results.push({ id: contextId, deleted: true });
+                if (purge) {
+                    const context = await loadEventContext(storage, root.public_id);
+                    await storage.transaction((tx) => permanentlyDelete(tx, projectId, root.public_id), { isolationLevel: 'serializable' });
+                    results.push({ id: contextId, deleted: true });
+                    await publish(c, { type: 'delete', projectId, rootId: root.public_id, version: null, data: { permanent: true }, context });
+                    await audit(c, { action: 'context.purge', targetId: root.public_id, details: { bulk: true } });
+                    continue;
+                }
+
+                const deletedAt = new Date().toISOString();
+                await storage.setRootContextDeletedAt(projectId, root.public_id, deletedAt);
+                const until = restorableUntil(deletedAt, windowMs);
+                results.push({ id: contextId, deleted: true, restorable_until: until });
+                await publish(c, { type: 'delete', projectId, rootId: root.public_id, version: null, data: { trashed: true, restorable_until: until } });
+                await audit(c, { action: 'context.trash', targetId: root.public_id, details: { bulk: true, restorable_until: until } });
             } catch (error) {
                 const message = error instanceof Error ? error.message : 'Unknown error';
                 results.push({ id: contextId, deleted: false, error: message });
@@ -273,48 +381,124 @@ export function registerContextRoutes(app: HttpApp) {
         const body = await c.req.json();
         const storage = c.get('storage');
 
+        // the body is the message list, so expected_version rides on the query string
+        const guard = parseExpectedVersion(c.req.header('if-match'), c.req.query('expected_version'));
+        if ('error' in guard) return c.json({ error: guard.error }, 400);
+
+        const messages: unknown[] = Array.isArray(body) ? body : [body];
+        if (!messages.every(isPlainObject)) return c.json({ error: 'Each message must be an object' }, 400);
+        const messageKeys: string[] = [];
+        for (const msg of messages) {
+            if (msg.idempotency_key === undefined) continue;
+            if (!isValidIdempotencyKey(msg.idempotency_key)) return c.json({ error: 'Invalid idempotency_key' }, 400);
+            messageKeys.push(msg.idempotency_key);
+        }
+        const windowMs = idempotencyWindowMs(c.get('config'));
+        if (!(await canAccessContext(storage, c.get('auth'), contextPublicId))) return c.json({ error: 'Context not found' }, 404);
+
         // Serializable tx so concurrent permanent-delete can't race with append
         // (Postgres SSI makes one side fail with 40001; client retries).
-        type AppendResult = { data: object[]; version: number } | { error: string; status: number };
+        type AppendResult = { data: object[]; appended: object[]; version: number } | { error: string; status: number } | { conflict: number };
         let outcome: AppendResult;
         try {
             outcome = await storage.transaction<AppendResult>(async (tx) => {
                 const root = await tx.findRootContext(projectId, contextPublicId);
                 if (!root) return { error: 'Context not found', status: 404 };
 
+                if (guard.expected !== undefined) {
+                    const current = await getCurrentVersion(tx, root.public_id);
+                    if (current !== guard.expected) return { conflict: current };
+                }
+
                 const head = await findHead(tx, root.public_id);
                 if (!head) return { error: 'HEAD not found', status: 500 };
 
-                const messages = Array.isArray(body) ? body : [body];
+                // per-message idempotency keys: messages seen before replay their stored result
+                const replays = new Map<string, Record<string, unknown>>();
+                const expiredKeys: string[] = [];
+                for (const row of await tx.findIdempotencyKeys(projectId, 'message', messageKeys)) {
+                    if (!isLiveIdempotencyKey(row, windowMs)) {
+                        expiredKeys.push(row.key);
+                    } else if (row.fingerprint !== root.public_id) {
+                        return { error: `idempotency_key was already used in another context: ${row.key}`, status: 422 };
+                    } else {
+                        replays.set(row.key, row.response as Record<string, unknown>);
+                    }
+                }
+                await tx.deleteIdempotencyKeys(projectId, 'message', expiredKeys);
+
+                // each message either replays a stored result or maps to a position in `fresh`
+                const fresh: Record<string, unknown>[] = [];
+                const freshByKey = new Map<string, number>();
+                const plan = messages.map((msg): { replay: Record<string, unknown> } | { fresh: number } => {
+                    const key = msg.idempotency_key as string | undefined;
+                    if (key !== undefined && replays.has(key)) return { replay: replays.get(key)! };
+                    if (key !== undefined && freshByKey.has(key)) return { fresh: freshByKey.get(key)! };
+                    if (key !== undefined) freshByKey.set(key, fresh.length);
+                    fresh.push(msg);
+                    return { fresh: fresh.length - 1 };
+                });
+
                 const existingNodes = await getOrderedNodes(tx, head.public_id);
                 const existingCount = existingNodes.length;
-                const tailPublicId = await findTail(tx, head.public_id);
+                const tailPublicId = existingNodes[existingCount - 1]?.public_id ?? null;
 
-                const nodeInputs = messages.map((msg) => {
-                    const { metadata, ...content } = msg;
-                    return { type: 'message', content, metadata: metadata ?? {} };
+                const nodeInputs = fresh.map((msg) => {
+                    const { metadata, idempotency_key: _key, ...content } = msg;
+                    return { type: 'message', content, metadata: (metadata as Record<string, unknown>) ?? {} };
                 });
                 const insertRecords = buildNodeInsertRecords(nodeInputs, projectId, head.public_id, tailPublicId);
+                const freshData = insertRecords.map((record, i: number) => ({
+                    ...record.content,
+                    id: record.public_id,
+                    index: existingCount + i,
+                    metadata: record.metadata,
+                }));
 
-                const createdNodes = await tx.insertNodes(insertRecords);
+                // keys go in first so a racing retry fails on the unique key, not after a second insert
+                const keyRows = [...freshByKey].map(([key, i]) => ({
+                    project_id: projectId,
+                    scope: 'message' as const,
+                    key,
+                    fingerprint: root.public_id,
+                    status_code: 201,
+                    response: freshData[i],
+                }));
+                await tx.insertIdempotencyKeys(keyRows);
+
+                if (insertRecords.length > 0) {
+                    try {
+                        await tx.insertNodes(insertRecords);
+                    } catch (error) {
+                        await tx.deleteIdempotencyKeys(projectId, 'message', [...freshByKey.keys()]).catch(() => {});
+                        throw error;
+                    }
+                }
 
                 const versions = await getVersions(tx, root.public_id);
                 const currentVersion = versions.length - 1;
 
-                const data = createdNodes.map((node, i: number) => ({
-                    ...(node.content as object),
-                    id: node.public_id,
-                    index: existingCount + i,
-                    metadata: node.metadata,
-                }));
+                // replayed messages report where they sit now, if they are still in the head
+                const positions = new Map(existingNodes.map((n, i) => [n.public_id, i]));
+                const data = plan.map((entry) => {
+                    if ('fresh' in entry) return freshData[entry.fresh];
+                    const index = positions.get(entry.replay.id as string);
+                    return index === undefined ? entry.replay : { ...entry.replay, index };
+                });
 
-                return { data, version: currentVersion };
+                return { data, appended: freshData, version: currentVersion };
             }, { isolationLevel: 'serializable' });
         } catch {
             return c.json({ error: 'Failed to append messages' }, 500);
         }
 
-        if ('error' in outcome) return c.json({ error: outcome.error }, outcome.status as 404 | 500);
+        if ('conflict' in outcome) return versionConflict(c, outcome.conflict);
+        if ('error' in outcome) return c.json({ error: outcome.error }, outcome.status as 404 | 422 | 500);
+
+        // replayed messages were announced the first time round
+        if (outcome.appended.length > 0) {
+            await publish(c, { type: 'append', projectId, rootId: contextPublicId, version: outcome.version, data: { messages: outcome.appended } });
+        }
         return c.json({ data: outcome.data, version: outcome.version }, 201);
     });
 
@@ -323,6 +507,10 @@ export function registerContextRoutes(app: HttpApp) {
         const contextPublicId = c.req.param('id');
         const includeHistory = c.req.query('history') === 'true';
 
+        const parsedWindow = parseMessageWindow((name) => c.req.query(name));
+        if ('error' in parsedWindow) return c.json({ error: parsedWindow.error }, 400);
+        const { window } = parsedWindow;
+
         const before = c.req.query('before');
         let beforeTs: number | undefined;
         if (before !== undefined) {
@@ -332,10 +520,13 @@ export function registerContextRoutes(app: HttpApp) {
 
         const storage = c.get('storage');
 
-        const root = await storage.findRootContext(projectId, contextPublicId);
+        const root = await findAccessibleContext(c, contextPublicId);
         if (!root) return c.json({ error: 'Context not found' }, 404);
 
         const versions = await getVersions(storage, root.public_id);
+        // the tag always names the latest version — it's what If-Match is checked against
+        c.header('ETag', formatVersionTag(versions.length - 1));
+
         const versionParam = c.req.query('version');
         let head;
         let currentVersion: number;
@@ -357,46 +548,296 @@ export function registerContextRoutes(app: HttpApp) {
             currentVersion = versions.length - 1;
         }
 
-        if (!head) return c.json({ data: [], version: 0 });
-
-        let orderedNodes = await getOrderedNodes(storage, head.public_id);
-        if (beforeTs !== undefined) {
-            orderedNodes = orderedNodes.filter((n) => new Date(n.created_at).getTime() <= beforeTs);
-        }
+        if (!head) return c.json({ data: [], version: 0, total: 0 });
 
         const versionsResponse = includeHistory
-            ? versions.map(({ version, created_at, operation, affected, metadata }) => ({
+            ? versions.map(({ version, created_at, operation, affected, source_version, metadata_changes, metadata }) => ({
                   version,
                   created_at,
                   operation,
                   affected,
+                  source_version,
+                  metadata_changes,
                   metadata,
               }))
             : undefined;
 
         const at = c.req.query('at');
+        let atIdx: number | undefined;
         if (at !== undefined) {
-            const idx = parseInt(at);
-            if (isNaN(idx) || idx < 0) return c.json({ error: 'Invalid index' }, 400);
-            if (idx >= orderedNodes.length) return c.json({ error: 'Index out of range' }, 404);
-
-            const result = orderedNodes.slice(0, idx + 1).map((n: any, i: number) => ({
-                ...n.content,
-                id: n.public_id,
-                index: i,
-                metadata: n.metadata,
-            }));
-            return c.json({ data: result, version: currentVersion, ...(versionsResponse && { versions: versionsResponse }) });
+            atIdx = parseInt(at);
+            if (isNaN(atIdx) || atIdx < 0) return c.json({ error: 'Invalid index' }, 400);
+        }
+
+        // Plain windows are sliced by storage; `before`/`at` need the whole chain in memory first
+        let windowed;
+        if (hasWindow(window) && beforeTs === undefined && atIdx === undefined) {
+            windowed = await getNodeWindow(storage, head.public_id, window);
+        } else {
+            let orderedNodes = await getOrderedNodes(storage, head.public_id);
+            if (beforeTs !== undefined) {
+                orderedNodes = orderedNodes.filter((n) => new Date(n.created_at).getTime() <= beforeTs);
+            }
+            if (atIdx !== undefined) {
+                if (atIdx >= orderedNodes.length) return c.json({ error: 'Index out of range' }, 404);
+                orderedNodes = orderedNodes.slice(0, atIdx + 1);
+            }
+            windowed = sliceWindow(orderedNodes, window);
         }
 
-        const result = orderedNodes.map((n: any, index: number) => ({
+        if ('missing' in windowed) return c.json({ error: `Message not found: ${windowed.missing}` }, 404);
+
+        const { nodes, start, total } = windowed;
+        const result = nodes.map((n: any, i: number) => ({
             ...n.content,
             id: n.public_id,
+            index: start + i,
+            metadata: n.metadata,
+        }));
+
+        return c.json({ data: result, version: currentVersion, total, ...(versionsResponse && { versions: versionsResponse }) });
+    });
+
+    // -- version diff -----------------------------------------------------------
+
+    app.get('/contexts/:id/diff', async (c) => {
+        const contextPublicId = c.req.param('id');
+        const storage = c.get('storage');
+
+        const fromParam = c.req.query('from');
+        if (fromParam === undefined) return c.json({ error: 'from is required' }, 400);
+
+        const root = await findAccessibleContext(c, contextPublicId);
+        if (!root) return c.json({ error: 'Context not found' }, 404);
+
+        // `to` defaults to the current version
+        const versions = await getVersions(storage, root.public_id);
+        const toParam = c.req.query('to');
+        const from = parseInt(fromParam);
+        const to = toParam === undefined ? versions.length - 1 : parseInt(toParam);
+        for (const v of [from, to]) {
+            if (isNaN(v) || v < 0 || v >= versions.length) return c.json({ error: 'Version not found' }, 404);
+        }
+
+        return c.json(await getVersionDiff(storage, versions, from, to));
+    });
+
+    // -- fork lineage -----------------------------------------------------------
+
+    app.get('/contexts/:id/lineage', async (c) => {
+        const auth = c.get('auth');
+        const contextPublicId = c.req.param('id');
+        const storage = c.get('storage');
+
+        const root = await findAccessibleContext(c, contextPublicId);
+        if (!root) return c.json({ error: 'Context not found' }, 404);
+
+        const lineage = await getLineage(storage, auth.projectId, root.public_id);
+        if (!lineage) return c.json({ error: 'Context not found' }, 404);
+
+        // a restricted key only sees the relatives it could open itself
+        const visible = (entry: { id: string; metadata: Record<string, unknown> }) => matchesKeyRestriction(auth, { public_id: entry.id, metadata: entry.metadata });
+        return c.json({ ...lineage, ancestors: lineage.ancestors.filter(visible), descendants: lineage.descendants.filter(visible) });
+    });
+
+    // -- export as an NDJSON bundle ---------------------------------------------
+
+    app.get('/contexts/:id/export', async (c) => {
+        const { projectId } = c.get('auth');
+        const contextPublicId = c.req.param('id');
+        const storage = c.get('storage');
+        const headOnly = c.req.query('head_only') === 'true';
+
+        const root = await findAccessibleContext(c, contextPublicId);
+        if (!root) return c.json({ error: 'Context not found' }, 404);
+
+        c.header('Content-Type', 'application/x-ndjson');
+        c.header('Content-Disposition', `attachment; filename="${root.public_id}.ndjson"`);
+        return stream(c, async (output) => {
+            for await (const line of exportContext(storage, root.public_id, { headOnly })) {
+                await output.write(`${JSON.stringify(line)}\n`);
+            }
+        });
+    });
+
+    // -- context metadata -------------------------------------------------------
+
+    app.patch('/contexts/:id/metadata', async (c) => {
+        const { projectId } = c.get('auth');
+        const contextPublicId = c.req.param('id');
+        const patch = await c.req.json().catch(() => null);
+
+        // the body is the merge patch itself, so the guard comes from If-Match or the query
+        if (!isPlainObject(patch)) return c.json({ error: 'Request body must be a JSON object' }, 400);
+        const invalidKey = findInvalidFilterKey(patch);
+        if (invalidKey) return c.json({ error: `${invalidKey} must be a string or null` }, 400);
+
+        const guard = parseExpectedVersion(c.req.header('if-match'), c.req.query('expected_version'));
+        if ('error' in guard) return c.json({ error: guard.error }, 400);
+
+        const storage = c.get('storage');
+        const root = await findAccessibleContext(c, contextPublicId);
+        if (!root) return c.json({ error: 'Context not found' }, 404);
+
+        // a metadata-restricted key can't patch a context out of its own reach
+        const auth = c.get('auth');
+        if (auth.metadataFilter) {
+            const current = await storage.findNodeByPublicId(root.public_id);
+            if (current && !matchesKeyRestriction(auth, { public_id: root.public_id, metadata: applyMergePatch(current.metadata, patch) })) {
+                return c.json({ error: 'This API key cannot make the context unreachable to itself' }, 403);
+            }
+        }
+
+        let result;
+        try {
+            result = await updateContextMetadata(storage, projectId, root.public_id, patch, guard.expected);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to update metadata';
+            return c.json({ error: message }, 500);
+        }
+        if ('conflict' in result) return versionConflict(c, result.conflict);
+
+        if (Object.keys(result.changes).length > 0) {
+            await publish(c, {
+                type: 'update',
+                projectId,
+                rootId: root.public_id,
+                version: result.version,
+                data: { operation: 'metadata', changes: result.changes },
+            });
+            await audit(c, { action: 'context.metadata', targetId: root.public_id, details: { version: result.version, changes: result.changes } });
+        }
+
+        c.header('ETag', formatVersionTag(result.version));
+        return c.json({ id: root.public_id, ...result });
+    });
+
+    // -- revert to a previous version -------------------------------------------
+
+    app.post('/contexts/:id/revert', async (c) => {
+        const { projectId } = c.get('auth');
+        const contextPublicId = c.req.param('id');
+        const body = await c.req.json().catch(() => null);
+
+        if (!isPlainObject(body)) return c.json({ error: 'Request body must be a JSON object' }, 400);
+
+        const { version, before, metadata: userMetadata, expected_version } = body;
+        const guard = parseExpectedVersion(c.req.header('if-match'), expected_version);
+        if ('error' in guard) return c.json({ error: guard.error }, 400);
+        if ((version === undefined) === (before === undefined)) {
+            return c.json({ error: 'Exactly one of version or before is required' }, 400);
+        }
+        if (userMetadata !== undefined && !isPlainObject(userMetadata)) {
+            return c.json({ error: 'metadata must be an object' }, 400);
+        }
+
+        let beforeTs: number | undefined;
+        if (before !== undefined) {
+            beforeTs = typeof before === 'string' ? Date.parse(before) : NaN;
+            if (isNaN(beforeTs)) return c.json({ error: 'Invalid timestamp format' }, 400);
+        }
+
+        const storage = c.get('storage');
+        const root = await findAccessibleContext(c, contextPublicId);
+        if (!root) return c.json({ error: 'Context not found' }, 404);
+
+        const currentHead = await findHead(storage, root.public_id);
+        if (!currentHead) return c.json({ error: 'HEAD not found' }, 500);
+
+        const versions = await getVersions(storage, root.public_id);
+        let target;
+        if (beforeTs !== undefined) {
+            target = versions.filter((v) => new Date(v.created_at).getTime() <= beforeTs).pop();
+            if (!target) return c.json({ error: 'No version found before timestamp' }, 404);
+        } else {
+            const versionNum = parseInt(String(version));
+            if (isNaN(versionNum) || versionNum < 0 || versionNum >= versions.length) {
+                return c.json({ error: 'Version not found' }, 404);
+            }
+            target = versions[versionNum];
+        }
+
+        // messages appended to the target head after `before` are not part of that state
+        const targetNodes = await getOrderedNodes(storage, target.head_id);
+        const lateIds =
+            beforeTs !== undefined ? targetNodes.filter((n) => new Date(n.created_at).getTime() > beforeTs).map((n) => n.public_id) : [];
+        const lateSet = new Set(lateIds);
+        const restored = targetNodes.filter((n) => !lateSet.has(n.public_id));
+
+        // the new head replays on top of the target head, or snapshots it when the
+        // chain behind the target is due one; either way every message keeps its id
+        const newHeadId = generatePublicId('context');
+        const snapshot = await isSnapshotDue(storage, target.head_id);
+        try {
+            const conflict = await insertVersion(
+                storage,
+                root.public_id,
+                {
+                    public_id: newHeadId,
+                    project_id: projectId,
+                    type: 'context',
+                    context_id: root.public_id,
+                    prev_id: currentHead.public_id,
+                    content: snapshot ? SNAPSHOT_HEAD_CONTENT : { ...DELTA_HEAD_CONTENT, base: target.head_id },
+                    metadata: { operation: 'revert', source_version: target.version, ...(userMetadata ?? {}) },
+                },
+                snapshot
+                    ? (tx) => writeSnapshot(tx, projectId, root.public_id, newHeadId, restored)
+                    : buildTombstoneRecords(lateIds, projectId, newHeadId),
+                guard.expected,
+            );
+            if (conflict !== null) return versionConflict(c, conflict);
+        } catch {
+            await rollbackHead(storage, projectId, newHeadId);
+            return c.json({ error: 'Failed to revert context' }, 500);
+        }
+
+        const currentVersion = (await getVersions(storage, root.public_id)).length - 1;
+        const result = restored.map((n, index: number) => ({
+            ...(n.content as object),
+            id: n.public_id,
             index,
             metadata: n.metadata,
         }));
 
-        return c.json({ data: result, version: currentVersion, ...(versionsResponse && { versions: versionsResponse }) });
+        await publish(c, {
+            type: 'revert',
+            projectId,
+            rootId: root.public_id,
+            version: currentVersion,
+            data: { source_version: target.version },
+        });
+        await audit(c, {
+            action: 'context.revert',
+            targetId: root.public_id,
+            metadata: userMetadata,
+            details: { version: currentVersion, source_version: target.version },
+        });
+        return c.json({ data: result, version: currentVersion, source_version: target.version });
+    });
+
+    // -- restore from the trash ------------------------------------------------
+
+    app.post('/contexts/:id/restore', async (c) => {
+        const { projectId } = c.get('auth');
+        const contextPublicId = c.req.param('id');
+        const storage = c.get('storage');
+
+        const trashed = await storage.findTrashedContext(projectId, contextPublicId);
+        if (!trashed || !(await canAccessContext(storage, c.get('auth'), contextPublicId))) return c.json({ error: 'Context not found in trash' }, 404);
+        if (!isRestorable(trashed.deleted_at!, trashWindowMs(c.get('config')))) {
+            return c.json({ error: 'Restore window has expired' }, 410);
+        }
+
+        await storage.setRootContextDeletedAt(projectId, contextPublicId, null);
+        // a purge may have won the race
+        const root = await storage.findNodeByPublicId(contextPublicId);
+        if (!root) return c.json({ error: 'Context not found in trash' }, 404);
+
+        const version = await getCurrentVersion(storage, contextPublicId);
+        await publish(c, { type: 'restore', projectId, rootId: contextPublicId, version, data: {} });
+        await audit(c, { action: 'context.restore', targetId: contextPublicId, details: { version } });
+        return c.json({ id: root.public_id, metadata: root.metadata, created_at: root.created_at, version });
     });
 
     app.patch('/contexts/:id', async (c) => {
@@ -410,7 +851,9 @@ export function registerContextRoutes(app: HttpApp) {
         const parsed = parseUpdateRequestBody(body);
         if ('error' in parsed) return c.json({ error: parsed.error }, 400);
 
-        const { userMetadata, updates } = parsed;
+        const { userMetadata, updates, expectedVersion } = parsed;
+        const guard = parseExpectedVersion(c.req.header('if-match'), expectedVersion);
+        if ('error' in guard) return c.json({ error: guard.error }, 400);
 
         for (const u of updates) {
             if (!isPlainObject(u)) return c.json({ error: 'Each update must be an object' }, 400);
@@ -424,7 +867,7 @@ export function registerContextRoutes(app: HttpApp) {
             }
         }
 
-        const root = await storage.findRootContext(projectId, contextPublicId);
+        const root = await findAccessibleContext(c, contextPublicId);
         if (!root) return c.json({ error: 'Context not found' }, 404);
 
         const currentHead = await findHead(storage, root.public_id);
@@ -450,63 +893,315 @@ export function registerContextRoutes(app: HttpApp) {
 
         const updateMap = new Map(resolvedUpdates.map((u) => [u.id, u]));
         const affectedIds = resolvedUpdates.map((u) => u.id);
-
-        // create new version head
         const newHeadId = generatePublicId('context');
-        try {
-            await storage.insertNodes({
-                public_id: newHeadId,
-                project_id: projectId,
-                type: 'context',
-                context_id: root.public_id,
-                prev_id: currentHead.public_id,
-                content: {},
-                metadata: { operation: 'update', affected: affectedIds, ...(userMetadata ?? {}) },
+
+        // copy-on-write: only the edited messages get new nodes, linked back via parent_id
+        const replacements = new Map<string, NodeRow>();
+        const replacementRows = orderedNodes
+            .filter((n) => updateMap.has(n.public_id))
+            .map((n) => {
+                const { id: _id, ...changes } = updateMap.get(n.public_id)!;
+                const row = {
+                    public_id: generatePublicId('msg'),
+                    project_id: projectId,
+                    type: 'message',
+                    context_id: newHeadId,
+                    parent_id: n.public_id,
+                    prev_id: null,
+                    content: { ...n.content, ...changes },
+                    metadata: n.metadata,
+                };
+                replacements.set(n.public_id, { ...n, ...row });
+                return row;
             });
-        } catch (error) {
-            const message = error instanceof Error ? error.message : 'Failed to create version head';
-            return c.json({ error: message }, 500);
+        const edited = orderedNodes.map((n) => replacements.get(n.public_id) ?? n);
+        const snapshot = await isSnapshotDue(storage, currentHead.public_id);
+
+        try {
+            const conflict = await insertVersion(
+                storage,
+                root.public_id,
+                {
+                    public_id: newHeadId,
+                    project_id: projectId,
+                    type: 'context',
+                    context_id: root.public_id,
+                    prev_id: currentHead.public_id,
+                    content: snapshot ? SNAPSHOT_HEAD_CONTENT : DELTA_HEAD_CONTENT,
+                    metadata: { operation: 'update', affected: affectedIds, ...(userMetadata ?? {}) },
+                },
+                snapshot ? (tx) => writeSnapshot(tx, projectId, root.public_id, newHeadId, edited) : replacementRows,
+                guard.expected,
+            );
+            if (conflict !== null) return versionConflict(c, conflict);
+        } catch {
+            await rollbackHead(storage, projectId, newHeadId);
+            return c.json({ error: 'Failed to update messages' }, 500);
         }
 
-        // build updated node copies
-        const newNodes = orderedNodes.map((n) => {
-            const update = updateMap.get(n.public_id);
-            const { id: _id, ...changes } = update ?? { id: null };
-            return {
-                public_id: generatePublicId('msg'),
-                project_id: projectId,
-                type: 'message',
-                context_id: newHeadId,
-                parent_id: n.public_id,
-                prev_id: null as string | null,
-                content: update ? { ...n.content, ...changes } : n.content,
-                metadata: n.metadata,
-            };
+        const versions = await getVersions(storage, root.public_id);
+        const currentVersion = versions.length - 1;
+        const result = edited.map((n, index: number) => ({
+            ...(n.content as object),
+            id: n.public_id,
+            index,
+            metadata: n.metadata,
+        }));
+
+        await publish(c, {
+            type: 'update',
+            projectId,
+            rootId: root.public_id,
+            version: currentVersion,
+            data: { operation: 'update', messages: result.filter((m) => replacements.has(orderedNodes[m.index].public_id)) },
         });
+        await audit(c, {
+            action: 'context.update',
+            targetId: root.public_id,
+            metadata: userMetadata,
+            details: { version: currentVersion, affected: affectedIds },
+        });
+        return c.json({ data: result, version: currentVersion });
+    });
+
+    // -- splice: insert/remove at any position -----------------------------------
+
+    app.post('/contexts/:id/splice', async (c) => {
+        const { projectId } = c.get('auth');
+        const contextPublicId = c.req.param('id');
+        const body = await c.req.json().catch(() => null);
+
+        if (!isPlainObject(body)) return c.json({ error: 'Request body must be a JSON object' }, 400);
 
-        for (let i = 1; i < newNodes.length; i++) {
-            newNodes[i].prev_id = newNodes[i - 1].public_id;
+        const { start, delete_count: deleteCount = 0, insert = [], metadata: userMetadata, expected_version } = body;
+        const guard = parseExpectedVersion(c.req.header('if-match'), expected_version);
+        if ('error' in guard) return c.json({ error: guard.error }, 400);
+
+        if (!isMessageRef(start)) return c.json({ error: 'start must be a message id or an integer index' }, 400);
+        if (typeof deleteCount !== 'number' || !Number.isInteger(deleteCount) || deleteCount < 0) {
+            return c.json({ error: 'delete_count must be a non-negative integer' }, 400);
+        }
+        if (!Array.isArray(insert) || !insert.every(isPlainObject)) {
+            return c.json({ error: 'insert must be an array of messages' }, 400);
         }
+        if (deleteCount === 0 && insert.length === 0) {
+            return c.json({ error: 'Nothing to splice: delete_count and insert are both empty' }, 400);
+        }
+        if (userMetadata !== undefined && !isPlainObject(userMetadata)) {
+            return c.json({ error: 'metadata must be an object' }, 400);
+        }
+
+        const storage = c.get('storage');
+        const root = await findAccessibleContext(c, contextPublicId);
+        if (!root) return c.json({ error: 'Context not found' }, 404);
+
+        const currentHead = await findHead(storage, root.public_id);
+        if (!currentHead) return c.json({ error: 'HEAD not found' }, 500);
 
+        const orderedNodes = await getOrderedNodes(storage, currentHead.public_id);
+
+        // start == length inserts at the tail
+        const resolvedStart = resolvePosition(orderedNodes, start, true);
+        if ('error' in resolvedStart) return c.json({ error: resolvedStart.error }, resolvedStart.status);
+        const startIdx = resolvedStart.position;
+
+        // like Array.prototype.splice, delete_count past the end stops at the end
+        const removed = orderedNodes.slice(startIdx, startIdx + deleteCount);
+        const removedIds = removed.map((n) => n.public_id);
+
+        const newHeadId = generatePublicId('context');
+        const nodeInputs = (insert as Record<string, unknown>[]).map((msg) => {
+            const { metadata, ...content } = msg;
+            return { type: 'message', content, metadata: (metadata as Record<string, unknown>) ?? {} };
+        });
+        const anchorId = startIdx > 0 ? orderedNodes[startIdx - 1].public_id : null;
+        const insertRecords = buildNodeInsertRecords(nodeInputs, projectId, newHeadId, anchorId);
+        const insertedIds = insertRecords.map((r) => r.public_id);
+        const spliced = [
+            ...orderedNodes.slice(0, startIdx),
+            ...insertRecords,
+            ...orderedNodes.slice(startIdx + removed.length),
+        ];
+        const snapshot = await isSnapshotDue(storage, currentHead.public_id);
+
+        // copy-on-write: tombstones for the removed range, new messages chained after the anchor
         try {
-            await storage.insertNodes(newNodes);
+            const conflict = await insertVersion(
+                storage,
+                root.public_id,
+                {
+                    public_id: newHeadId,
+                    project_id: projectId,
+                    type: 'context',
+                    context_id: root.public_id,
+                    prev_id: currentHead.public_id,
+                    content: snapshot ? SNAPSHOT_HEAD_CONTENT : DELTA_HEAD_CONTENT,
+                    metadata: { operation: 'splice', affected: [...removedIds, ...insertedIds], ...(userMetadata ?? {}) },
+                },
+                snapshot
+                    ? (tx) => writeSnapshot(tx, projectId, root.public_id, newHeadId, spliced)
+                    : [...buildTombstoneRecords(removedIds, projectId, newHeadId), ...insertRecords],
+                guard.expected,
+            );
+            if (conflict !== null) return versionConflict(c, conflict);
         } catch {
             await rollbackHead(storage, projectId, newHeadId);
-            return c.json({ error: 'Failed to update messages' }, 500);
+            return c.json({ error: 'Failed to splice messages' }, 500);
         }
 
         const versions = await getVersions(storage, root.public_id);
         const currentVersion = versions.length - 1;
-        const result = newNodes.map((n, index: number) => ({
+        const result = spliced.map((n, index: number) => ({
             ...(n.content as object),
             id: n.public_id,
             index,
             metadata: n.metadata,
         }));
 
+        await publish(c, {
+            type: 'update',
+            projectId,
+            rootId: root.public_id,
+            version: currentVersion,
+            data: { operation: 'splice', removed: removedIds, inserted: result.slice(startIdx, startIdx + insertRecords.length) },
+        });
+        await audit(c, {
+            action: 'context.splice',
+            targetId: root.public_id,
+            metadata: userMetadata,
+            details: { version: currentVersion, removed: removedIds, inserted: insertedIds },
+        });
         return c.json({ data: result, version: currentVersion });
     });
 
+    // -- compact: fold a range into one summary message ---------------------------
+
+    app.post('/contexts/:id/compact', async (c) => {
+        const { projectId } = c.get('auth');
+        const contextPublicId = c.req.param('id');
+        const body = await c.req.json().catch(() => null);
+
+        if (!isPlainObject(body)) return c.json({ error: 'Request body must be a JSON object' }, 400);
+
+        const { from, to, summary, metadata: userMetadata, expected_version } = body;
+        const guard = parseExpectedVersion(c.req.header('if-match'), expected_version);
+        if ('error' in guard) return c.json({ error: guard.error }, 400);
+
+        if (!isMessageRef(from) || !isMessageRef(to)) {
+            return c.json({ error: 'from and to must be message ids or integer indexes' }, 400);
+        }
+        if (summary !== undefined && !isPlainObject(summary)) return c.json({ error: 'summary must be a message object' }, 400);
+        const summarizer = options?.summarizer;
+        if (summary === undefined && !summarizer) {
+            return c.json({ error: 'summary is required (no summarizer is configured)' }, 400);
+        }
+        if (userMetadata !== undefined && !isPlainObject(userMetadata)) {
+            return c.json({ error: 'metadata must be an object' }, 400);
+        }
+
+        const storage = c.get('storage');
+        const root = await findAccessibleContext(c, contextPublicId);
+        if (!root) return c.json({ error: 'Context not found' }, 404);
+
+        const currentHead = await findHead(storage, root.public_id);
+        if (!currentHead) return c.json({ error: 'HEAD not found' }, 500);
+
+        const orderedNodes = await getOrderedNodes(storage, currentHead.public_id);
+
+        const resolvedFrom = resolvePosition(orderedNodes, from);
+        if ('error' in resolvedFrom) return c.json({ error: resolvedFrom.error }, resolvedFrom.status);
+        const resolvedTo = resolvePosition(orderedNodes, to);
+        if ('error' in resolvedTo) return c.json({ error: resolvedTo.error }, resolvedTo.status);
+
+        const fromIdx = resolvedFrom.position;
+        const toIdx = resolvedTo.position;
+        if (fromIdx > toIdx) return c.json({ error: 'from must not come after to' }, 400);
+
+        const folded = orderedNodes.slice(fromIdx, toIdx + 1);
+        const foldedIds = folded.map((n) => n.public_id);
+
+        let summaryMessage: Record<string, unknown>;
+        if (summary !== undefined || !summarizer) {
+            summaryMessage = summary as Record<string, unknown>;
+        } else {
+            try {
+                summaryMessage = await summarizer.summarize({
+                    contextId: root.public_id,
+                    messages: folded.map((n, i) => ({ ...n.content, id: n.public_id, index: fromIdx + i, metadata: n.metadata })),
+                });
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                return c.json({ error: `Summarizer failed: ${message}` }, 502);
+            }
+            if (!isPlainObject(summaryMessage)) return c.json({ error: 'Summarizer returned an invalid message' }, 502);
+        }
+
+        // the summary replaces the first folded message (parent_id links back to it),
+        // the rest get tombstones; the originals stay in the previous version
+        const newHeadId = generatePublicId('context');
+        const { metadata: summaryMetadata, ...summaryContent } = summaryMessage;
+        const summaryRow = {
+            public_id: generatePublicId('msg'),
+            project_id: projectId,
+            type: 'message',
+            context_id: newHeadId,
+            parent_id: foldedIds[0],
+            prev_id: null,
+            content: summaryContent,
+            metadata: isPlainObject(summaryMetadata) ? summaryMetadata : {},
+        };
+        const compacted = [...orderedNodes.slice(0, fromIdx), summaryRow, ...orderedNodes.slice(toIdx + 1)];
+        const snapshot = await isSnapshotDue(storage, currentHead.public_id);
+
+        try {
+            const conflict = await insertVersion(
+                storage,
+                root.public_id,
+                {
+                    public_id: newHeadId,
+                    project_id: projectId,
+                    type: 'context',
+                    context_id: root.public_id,
+                    prev_id: currentHead.public_id,
+                    content: snapshot ? SNAPSHOT_HEAD_CONTENT : DELTA_HEAD_CONTENT,
+                    metadata: { operation: 'compact', affected: foldedIds, ...(userMetadata ?? {}) },
+                },
+                snapshot
+                    ? (tx) => writeSnapshot(tx, projectId, root.public_id, newHeadId, compacted)
+                    : [summaryRow, ...buildTombstoneRecords(foldedIds.slice(1), projectId, newHeadId)],
+                guard.expected,
+            );
+            if (conflict !== null) return versionConflict(c, conflict);
+        } catch {
+            await rollbackHead(storage, projectId, newHeadId);
+            return c.json({ error: 'Failed to compact messages' }, 500);
+        }
+
+        const versions = await getVersions(storage, root.public_id);
+        const currentVersion = versions.length - 1;
+        const result = compacted.map((n, index: number) => ({
+            ...(n.content as object),
+            id: n.public_id,
+            index,
+            metadata: n.metadata,
+        }));
+
+        await publish(c, {
+            type: 'update',
+            projectId,
+            rootId: root.public_id,
+            version: currentVersion,
+            data: { operation: 'compact', folded: foldedIds, summary: result[fromIdx] },
+        });
+        await audit(c, {
+            action: 'context.compact',
+            targetId: root.public_id,
+            metadata: userMetadata,
+            details: { version: currentVersion, folded: foldedIds },
+        });
+        return c.json({ data: result, version: currentVersion, folded: foldedIds });
+    });
+
     // -- delete context or messages -----------------------------------------------
 
     app.delete('/contexts/:id', async (c) => {
@@ -527,30 +1222,67 @@ export function registerContextRoutes(app: HttpApp) {
             }
         }
 
-        // Permanent delete path: no body, OR explicit {permanent: true}. Any other body shape must opt
-        // in explicitly to prevent typos (e.g. `{IDs:[...]}`, `{id:"x"}`) from silently wiping the context.
+        const guard = parseExpectedVersion(c.req.header('if-match'), isPlainObject(body) ? body.expected_version : undefined);
+        if ('error' in guard) return c.json({ error: guard.error }, 400);
+
+        // Whole-context path: no body, OR explicit {permanent: true} / {purge: true}. Any other body shape must
+        // opt in explicitly to prevent typos (e.g. `{IDs:[...]}`, `{id:"x"}`) from silently deleting the context.
         const isEmptyBody = isPlainObject(body) && Object.keys(body).length === 0;
         const isExplicitPermanent = isPlainObject(body) && body.permanent === true;
         const hasIds = isPlainObject(body) && body.ids !== undefined;
+        if (isPlainObject(body) && body.purge !== undefined && typeof body.purge !== 'boolean') {
+            return c.json({ error: 'purge must be a boolean' }, 400);
+        }
+        const purge = isPlainObject(body) && body.purge === true;
 
         // Reject ambiguous bodies that combine both — forces the caller to pick one
-        if (isExplicitPermanent && hasIds) {
-            return c.json({ error: 'Cannot combine "permanent" and "ids" in the same request — pick one' }, 400);
+        if ((isExplicitPermanent || purge) && hasIds) {
+            return c.json({ error: 'Cannot combine "permanent" or "purge" and "ids" in the same request — pick one' }, 400);
         }
 
-        if (!hasJsonBody || isEmptyBody || isExplicitPermanent) {
-            // Optional audit metadata logged at infra level (permanent delete wipes history)
+        if (!hasJsonBody || isEmptyBody || isExplicitPermanent || purge) {
+            // Optional audit metadata, kept in the audit log and echoed back (a purge wipes history)
             const auditMetadata = isPlainObject(body) && isPlainObject(body.metadata) ? body.metadata : undefined;
-            if (auditMetadata) {
-                console.info(JSON.stringify({ op: 'permanent_delete', project_id: projectId, context_id: contextPublicId, metadata: auditMetadata }));
-            }
 
-            const root = await storage.findRootContext(projectId, contextPublicId);
-            if (!root) return c.json({ error: 'Context not found' }, 404);
+            const root = purge
+                ? await findPurgeableContext(storage, projectId, contextPublicId)
+                : await storage.findRootContext(projectId, contextPublicId);
+            if (!root || !(await canAccessContext(storage, c.get('auth'), contextPublicId))) return c.json({ error: 'Context not found' }, 404);
+
+            // trashed contexts have no current version to guard
+            const checkVersion = async (tx: StorageAdapter) => {
+                if (guard.expected === undefined || ('deleted_at' in root && root.deleted_at)) return null;
+                const current = await getCurrentVersion(tx, root.public_id);
+                return current !== guard.expected ? current : null;
+            };
+            const echoed = auditMetadata ? { metadata: auditMetadata } : {};
 
             try {
-                await storage.transaction((tx) => permanentlyDelete(tx, projectId, root.public_id), { isolationLevel: 'serializable' });
-                return c.json({ deleted: true, id: contextPublicId, ...(auditMetadata ? { metadata: auditMetadata } : {}) });
+                if (!purge) {
+                    const deletedAt = new Date().toISOString();
+                    const conflict = await storage.transaction(async (tx) => {
+                        const current = await checkVersion(tx);
+                        if (current === null) await tx.setRootContextDeletedAt(projectId, root.public_id, deletedAt);
+                        return current;
+                    }, { isolationLevel: 'serializable' });
+                    if (conflict !== null) return versionConflict(c, conflict);
+
+                    const until = restorableUntil(deletedAt, trashWindowMs(c.get('config')));
+                    await publish(c, { type: 'delete', projectId, rootId: root.public_id, version: null, data: { trashed: true, restorable_until: until } });
+                    await audit(c, { action: 'context.trash', targetId: root.public_id, metadata: auditMetadata, details: { restorable_until: until } });
+                    return c.json({ deleted: true, id: contextPublicId, restorable_until: until, ...echoed });
+                }
+
+                const context = await loadEventContext(storage, root.public_id);
+                const conflict = await storage.transaction(async (tx) => {
+                    const current = await checkVersion(tx);
+                    if (current === null) await permanentlyDelete(tx, projectId, root.public_id);
+                    return current;
+                }, { isolationLevel: 'serializable' });
+                if (conflict !== null) return versionConflict(c, conflict);
+                await publish(c, { type: 'delete', projectId, rootId: root.public_id, version: null, data: { permanent: true }, context });
+                await audit(c, { action: 'context.purge', targetId: root.public_id, metadata: auditMetadata });
+                return c.json({ deleted: true, id: contextPublicId, purged: true, ...echoed });
             } catch (error) {
                 const message = error instanceof Error ? error.message : 'Failed to delete context';
                 return c.json({ error: message }, 500);
@@ -578,7 +1310,7 @@ export function registerContextRoutes(app: HttpApp) {
             }
         }
 
-        const root = await storage.findRootContext(projectId, contextPublicId);
+        const root = await findAccessibleContext(c, contextPublicId);
         if (!root) return c.json({ error: 'Context not found' }, 404);
 
         const currentHead = await findHead(storage, root.public_id);
@@ -600,59 +1332,53 @@ export function registerContextRoutes(app: HttpApp) {
             }
         }
         const deleteSet = new Set(idsToDelete);
+        const remaining = orderedNodes.filter((n) => !deleteSet.has(n.public_id));
 
-        // create new version head
+        // create new delta version head
         const newHeadId = generatePublicId('context');
-        try {
-            await storage.insertNodes({
-                public_id: newHeadId,
-                project_id: projectId,
-                type: 'context',
-                context_id: root.public_id,
-                prev_id: currentHead.public_id,
-                content: {},
-                metadata: { operation: 'delete', affected: idsToDelete, ...(userMetadata ?? {}) },
-            });
-        } catch (error) {
-            const message = error instanceof Error ? error.message : 'Failed to create version head';
-            return c.json({ error: message }, 500);
-        }
-
-        // build filtered node copies
-        const filtered = orderedNodes.filter((n) => !deleteSet.has(n.public_id));
-        const newNodes = filtered.map((n) => ({
-            public_id: generatePublicId('msg'),
-            project_id: projectId,
-            type: 'message',
-            context_id: newHeadId,
-            parent_id: n.public_id,
-            prev_id: null as string | null,
-            content: n.content,
-            metadata: n.metadata,
-        }));
-
-        for (let i = 1; i < newNodes.length; i++) {
-            newNodes[i].prev_id = newNodes[i - 1].public_id;
-        }
+        const snapshot = await isSnapshotDue(storage, currentHead.public_id);
 
-        if (newNodes.length > 0) {
-            try {
-                await storage.insertNodes(newNodes);
-            } catch {
-                await rollbackHead(storage, projectId, newHeadId);
-                return c.json({ error: 'Failed to delete messages' }, 500);
-            }
+        // copy-on-write: one tombstone per removed message, survivors stay shared
+        try {
+            const conflict = await insertVersion(
+                storage,
+                root.public_id,
+                {
+                    public_id: newHeadId,
+                    project_id: projectId,
+                    type: 'context',
+                    context_id: root.public_id,
+                    prev_id: currentHead.public_id,
+                    content: snapshot ? SNAPSHOT_HEAD_CONTENT : DELTA_HEAD_CONTENT,
+                    metadata: { operation: 'delete', affected: idsToDelete, ...(userMetadata ?? {}) },
+                },
+                snapshot
+                    ? (tx) => writeSnapshot(tx, projectId, root.public_id, newHeadId, remaining)
+                    : buildTombstoneRecords([...deleteSet], projectId, newHeadId),
+                guard.expected,
+            );
+            if (conflict !== null) return versionConflict(c, conflict);
+        } catch {
+            await rollbackHead(storage, projectId, newHeadId);
+            return c.json({ error: 'Failed to delete messages' }, 500);
         }
 
         const versions = await getVersions(storage, root.public_id);
         const currentVersion = versions.length - 1;
-        const result = newNodes.map((n, index: number) => ({
+        const result = remaining.map((n, index: number) => ({
             ...(n.content as object),
             id: n.public_id,
             index,
             metadata: n.metadata,
         }));
 
+        await publish(c, { type: 'delete', projectId, rootId: root.public_id, version: currentVersion, data: { ids: [...deleteSet] } });
+        await audit(c, {
+            action: 'context.delete_messages',
+            targetId: root.public_id,
+            metadata: userMetadata,
+            details: { version: currentVersion, ids: [...deleteSet] },
+        });
         return c.json({ data: result, version: currentVersion });
     });
 }
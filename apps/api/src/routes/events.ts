@@ -0,0 +1,121 @@
+import { streamSSE } from 'hono/streaming';
+
+import { EVENT_AUTH_RECHECK_MS, EVENT_HEARTBEAT_MS } from '../constants';
+import { isApiKeyActive } from '../domain/api-keys';
+import { canAccessContext, matchesKeyRestriction } from '../domain/key-access';
+import { matchesMetadataFilters, metadataFilters } from '../domain/metadata-filters';
+import type { ContextEvent, ContextEventSource } from '../events/types';
+import type { ContextFilters, StorageAdapter } from '../storage/types';
+import type { Auth } from '../types/api';
+import type { HttpApp, HttpContext } from '../types/http';
+import { parseContextFilters } from '../utils/request-parsing';
+
+// -- helpers ------------------------------------------------------------------
+
+function matchesContextFilters(event: ContextEvent, filters: ContextFilters): boolean {
+    const { metadata, created_at } = event.context;
+    if (filters.after && !(created_at > filters.after)) return false;
+    if (filters.before && !(created_at < filters.before)) return false;
+    return matchesMetadataFilters(metadata, metadataFilters(filters));
+}
+
+// EventSource sends Last-Event-ID on reconnect; the query param covers clients
+// that can't set headers
+function readLastEventId(c: HttpContext): string | undefined {
+    return c.req.header('last-event-id') || c.req.query('last_event_id') || undefined;
+}
+
+// setTimeout fires at once past ~24.8 days; later expiries are left to the re-check
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// the key behind a delegated token counts too: revoking it cuts off its tokens
+async function isAuthActive(storage: StorageAdapter, auth: Auth): Promise<boolean> {
+    if (auth.expiresAt !== null && Date.parse(auth.expiresAt) <= Date.now()) return false;
+    const key = (await storage.findApiKeys(auth.projectId)).find((k) => k.id === auth.apiKeyId);
+    return key !== undefined && isApiKeyActive(key);
+}
+
+function streamEvents(c: HttpContext, events: ContextEventSource, accept: (event: ContextEvent) => boolean) {
+    const auth = c.get('auth');
+    const storage = c.get('storage');
+    const { projectId } = auth;
+    const lastEventId = readLastEventId(c);
+
+    return streamSSE(c, async (stream) => {
+        const controller = new AbortController();
+        stream.onAbort(() => controller.abort());
+
+        const subscription = await events.subscribe(projectId, { lastEventId, signal: controller.signal });
+
+        // the requested id fell out of the source's window: the client should
+        // refetch state rather than trust the replay
+        if (!subscription.resumed) {
+            await stream.writeSSE({ event: 'reset', data: JSON.stringify({ last_event_id: lastEventId ?? null }) });
+        }
+
+        const heartbeat = setInterval(() => void stream.write(': ping\n\n'), EVENT_HEARTBEAT_MS);
+
+        // auth ran once, when the stream opened: end it when the credential
+        // expires or its key is revoked, and let the client reconnect
+        const expiresIn = auth.expiresAt === null ? Infinity : Date.parse(auth.expiresAt) - Date.now();
+        const expiry = expiresIn <= MAX_TIMER_MS ? setTimeout(() => controller.abort(), Math.max(expiresIn, 0)) : undefined;
+        const recheck = setInterval(async () => {
+            try {
+                if (!(await isAuthActive(storage, auth))) controller.abort();
+            } catch (error) {
+                // a storage blip shouldn't drop every open stream
+                const message = error instanceof Error ? error.message : String(error);
+                console.error(`Failed to re-check key ${auth.apiKeyId} for an event stream: ${message}`);
+            }
+        }, EVENT_AUTH_RECHECK_MS);
+
+        try {
+            for await (const event of subscription.events) {
+                if (!accept(event)) continue;
+                await stream.writeSSE({ event: event.type, id: event.id, data: JSON.stringify(event) });
+            }
+        } finally {
+            clearInterval(heartbeat);
+            clearTimeout(expiry);
+            clearInterval(recheck);
+        }
+    });
+}
+
+// -- routes -------------------------------------------------------------------
+
+export type EventRoutesOptions = {
+    events?: ContextEventSource;
+};
+
+export function registerEventRoutes(app: HttpApp, options?: EventRoutesOptions) {
+    // one context's changes
+    app.get('/contexts/:id/events', async (c) => {
+        const events = options?.events;
+        if (!events) return c.json({ error: 'Event streams are not enabled' }, 501);
+
+        const auth = c.get('auth');
+        const storage = c.get('storage');
+        const root = await storage.findRootContext(auth.projectId, c.req.param('id'));
+        if (!root || !(await canAccessContext(storage, auth, root.public_id))) return c.json({ error: 'Context not found' }, 404);
+
+        return streamEvents(c, events, (event) => event.context.id === root.public_id);
+    });
+
+    // every context in the project, narrowed by the GET /contexts filters
+    app.get('/events', async (c) => {
+        const events = options?.events;
+        if (!events) return c.json({ error: 'Event streams are not enabled' }, 501);
+
+        const parsed = parseContextFilters(c.req.queries());
+        if ('error' in parsed) return c.json({ error: parsed.error }, 400);
+
+        const { filters } = parsed;
+        const auth = c.get('auth');
+        return streamEvents(
+            c,
+            events,
+            (event) => matchesContextFilters(event, filters) && matchesKeyRestriction(auth, { public_id: event.context.id, metadata: event.context.metadata }),
+        );
+    });
+}
@@ -1,27 +1,63 @@
-import { KEY_PREFIX_LEN } from '../constants';
-import { generateKey, hashKey } from '../domain/api-keys';
-import type { HttpApp } from '../types/http';
+import type { KeyCache } from '../cache/types';
+import { DEFAULT_KEY_ROTATION_GRACE_SECONDS, MAX_KEY_ROTATION_GRACE_SECONDS } from '../constants';
+import { createApiKey, formatApiKey, isApiKeyActive } from '../domain/api-keys';
+import { ADMIN_ACTOR, recordAudit } from '../domain/audit';
+import type { HttpApp, HttpContext } from '../types/http';
+import { parseKeyAccess } from '../utils/request-parsing';
 
-export function registerKeyRoutes(app: HttpApp) {
+// -- helpers ------------------------------------------------------------------
+
+function parseProjectId(value: unknown): number | null {
+    const id = Number(value);
+    return Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+function findKey(c: HttpContext) {
+    return c.get('storage').findApiKeyMetadataByPrefix(c.req.param('prefix') ?? '');
+}
+
+// -- routes (admin) -----------------------------------------------------------
+
+export type KeyRouteOptions = {
+    keyCache?: KeyCache;
+};
+
+export function registerKeyRoutes(app: HttpApp, options?: KeyRouteOptions) {
+    const keyCache = options?.keyCache;
+
+    // without project_id, creates a project named after the key
     app.post('/v1/keys', async (c) => {
         const body = await c.req.json().catch(() => ({}));
-        const { name } = body;
+        const { name, project_id } = body;
 
         if (!name || typeof name !== 'string') {
             return c.json({ error: 'name is required' }, 400);
         }
 
+        const parsed = parseKeyAccess(body);
+        if ('error' in parsed) return c.json({ error: parsed.error }, 400);
+        const { access } = parsed;
+        const details = { name, ...access };
+
         const storage = c.get('storage');
+
+        if (project_id !== undefined) {
+            const projectId = parseProjectId(project_id);
+            if (projectId === null) return c.json({ error: 'project_id must be a positive integer' }, 400);
+            if (!(await storage.findProject(projectId))) return c.json({ error: 'Project not found' }, 404);
+
+            const { key, row } = await createApiKey(storage, projectId, name, access);
+            await recordAudit(storage, ADMIN_ACTOR, { action: 'key.create', projectId, targetId: row.key_prefix, details });
+            return c.json({ key, ...formatApiKey(row) });
+        }
+
         const project = await storage.insertProject(name);
         if (!project) return c.json({ error: 'Failed to create project' }, 500);
 
         try {
-            const raw = generateKey();
-            const prefix = raw.slice(0, KEY_PREFIX_LEN);
-            const hash = await hashKey(raw);
-
-            await storage.insertApiKey({ project_id: project.id, key_prefix: prefix, key_hash: hash });
-            return c.json({ key: raw, prefix, project_id: project.id });
+            const { key, row } = await createApiKey(storage, project.id, name, access);
+            await recordAudit(storage, ADMIN_ACTOR, { action: 'key.create', projectId: project.id, targetId: row.key_prefix, details });
+            return c.json({ key, ...formatApiKey(row) });
         } catch {
             try {
                 await storage.deleteProject(project.id);
@@ -32,4 +68,95 @@ export function registerKeyRoutes(app: HttpApp) {
             return c.json({ error: 'Failed to create key' }, 500);
         }
     });
+
+    app.get('/v1/keys', async (c) => {
+        const projectId = parseProjectId(c.req.query('project_id'));
+        if (projectId === null) return c.json({ error: 'project_id must be a positive integer' }, 400);
+
+        const storage = c.get('storage');
+        if (!(await storage.findProject(projectId))) return c.json({ error: 'Project not found' }, 404);
+
+        const keys = await storage.findApiKeys(projectId);
+        return c.json({ data: keys.map(formatApiKey) });
+    });
+
+    app.get('/v1/keys/:prefix', async (c) => {
+        const key = await findKey(c);
+        if (!key) return c.json({ error: 'Key not found' }, 404);
+        return c.json(formatApiKey(key));
+    });
+
+    app.patch('/v1/keys/:prefix', async (c) => {
+        const body = await c.req.json().catch(() => ({}));
+        const { name } = body;
+
+        if (!name || typeof name !== 'string') {
+            return c.json({ error: 'name is required' }, 400);
+        }
+
+        const storage = c.get('storage');
+        const key = await findKey(c);
+        if (!key) return c.json({ error: 'Key not found' }, 404);
+
+        await storage.updateApiKey(key.id, { name });
+        await recordAudit(storage, ADMIN_ACTOR, {
+            action: 'key.rename',
+            projectId: key.project_id,
+            targetId: key.key_prefix,
+            details: { name, previous_name: key.name },
+        });
+        return c.json(formatApiKey({ ...key, name }));
+    });
+
+    // issues a replacement; the old key keeps working for grace_seconds
+    app.post('/v1/keys/:prefix/rotate', async (c) => {
+        const body = await c.req.json().catch(() => ({}));
+        const grace = body.grace_seconds ?? DEFAULT_KEY_ROTATION_GRACE_SECONDS;
+
+        if (!Number.isInteger(grace) || grace < 0 || grace > MAX_KEY_ROTATION_GRACE_SECONDS) {
+            return c.json({ error: `grace_seconds must be an integer between 0 and ${MAX_KEY_ROTATION_GRACE_SECONDS}` }, 400);
+        }
+
+        const storage = c.get('storage');
+        const old = await findKey(c);
+        if (!old) return c.json({ error: 'Key not found' }, 404);
+        if (!isApiKeyActive(old)) return c.json({ error: 'Key is revoked or expired' }, 409);
+        if (old.expires_at) return c.json({ error: 'Key has already been rotated', expires_at: old.expires_at }, 409);
+
+        // the replacement can do exactly what the old key could
+        const { key, row } = await createApiKey(storage, old.project_id, old.name, {
+            scopes: old.scopes,
+            context_ids: old.context_ids,
+            metadata_filter: old.metadata_filter,
+        });
+        const expiresAt = new Date(Date.now() + grace * 1000).toISOString();
+        await storage.updateApiKey(old.id, { expires_at: expiresAt });
+        // the cached entry has no expiry; the next lookup caches one that does
+        await keyCache?.delete(old.key_prefix);
+
+        await recordAudit(storage, ADMIN_ACTOR, {
+            action: 'key.rotate',
+            projectId: old.project_id,
+            targetId: old.key_prefix,
+            details: { new_prefix: row.key_prefix, expires_at: expiresAt },
+        });
+        return c.json({ key, ...formatApiKey(row), previous: formatApiKey({ ...old, expires_at: expiresAt }) });
+    });
+
+    // repeatable, so a failed cache eviction can be retried
+    app.delete('/v1/keys/:prefix', async (c) => {
+        const storage = c.get('storage');
+        const key = await findKey(c);
+        if (!key) return c.json({ error: 'Key not found' }, 404);
+
+        let revokedAt = key.revoked_at;
+        if (!revokedAt) {
+            revokedAt = new Date().toISOString();
+            await storage.updateApiKey(key.id, { revoked_at: revokedAt });
+            await recordAudit(storage, ADMIN_ACTOR, { action: 'key.revoke', projectId: key.project_id, targetId: key.key_prefix });
+        }
+        await keyCache?.delete(key.key_prefix);
+
+        return c.json(formatApiKey({ ...key, revoked_at: revokedAt }));
+    });
 }
@@ -1,17 +1,23 @@
 import { handleMcpRequest } from 'ultracontext-mcp-server/handler';
 import type { ContextReader } from 'ultracontext-mcp-server/types';
 import { listContexts, getContextMessages } from '../domain/context-ops';
+import { canAccessContext, restrictFilters } from '../domain/key-access';
+import { searchMessages } from '../domain/search';
 import type { HttpApp, HttpContext } from '../types/http';
 
 // -- storage-backed reader (no HTTP loopback) ---------------------------------
+// Narrowed to the contexts the key may reach; the `mcp` scope itself is
+// checked by the scope middleware.
 
 function storageReader(c: HttpContext): ContextReader {
-    const { projectId } = c.get('auth');
+    const auth = c.get('auth');
+    const { projectId } = auth;
     const storage = c.get('storage');
 
     return {
-        listContexts: (input) => listContexts(storage, projectId, input),
-        getMessages: (id) => getContextMessages(storage, projectId, id),
+        listContexts: (input) => listContexts(storage, projectId, restrictFilters(auth, input)),
+        getMessages: async (id, options) => ((await canAccessContext(storage, auth, id)) ? getContextMessages(storage, projectId, id, options) : null),
+        searchMessages: (input) => searchMessages(storage, projectId, restrictFilters(auth, input)),
     };
 }
 
@@ -0,0 +1,126 @@
+import type { KeyCache } from '../cache/types';
+import { DEFAULT_USAGE_DAYS, MAX_PROJECTS_LIMIT, MAX_USAGE_DAYS } from '../constants';
+import { ADMIN_ACTOR, recordAudit } from '../domain/audit';
+import { decodeProjectCursor } from '../domain/cursors';
+import { formatProject, listProjects, summarizeProjectUsage } from '../domain/projects';
+import type { HttpApp, HttpContext } from '../types/http';
+
+// -- helpers ------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function findProject(c: HttpContext) {
+    const projectId = Number(c.req.param('id'));
+    if (!Number.isSafeInteger(projectId) || projectId < 1) return null;
+    return c.get('storage').findProject(projectId);
+}
+
+function parseDate(value: string): number | null {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+    const time = Date.parse(`${value}T00:00:00.000Z`);
+    return isNaN(time) || new Date(time).toISOString().slice(0, 10) !== value ? null : time;
+}
+
+// whole UTC days, both ends included; defaults to the last DEFAULT_USAGE_DAYS
+function parseUsageRange(query: (name: string) => string | undefined): { from: number; to: number } | { error: string } {
+    const rawFrom = query('from');
+    const rawTo = query('to');
+
+    const to = rawTo === undefined ? parseDate(new Date().toISOString().slice(0, 10)) : parseDate(rawTo);
+    if (to === null) return { error: 'to must be a date (YYYY-MM-DD)' };
+    const from = rawFrom === undefined ? to - (DEFAULT_USAGE_DAYS - 1) * DAY_MS : parseDate(rawFrom);
+    if (from === null) return { error: 'from must be a date (YYYY-MM-DD)' };
+
+    if (from > to) return { error: 'from must not be after to' };
+    if ((to - from) / DAY_MS + 1 > MAX_USAGE_DAYS) return { error: `A usage range can span at most ${MAX_USAGE_DAYS} days` };
+    return { from, to };
+}
+
+// -- routes (admin) -----------------------------------------------------------
+
+export type ProjectRouteOptions = {
+    keyCache?: KeyCache;
+};
+
+export function registerProjectRoutes(app: HttpApp, options?: ProjectRouteOptions) {
+    const keyCache = options?.keyCache;
+
+    // oldest first
+    app.get('/v1/projects', async (c) => {
+        const limit = parseInt(c.req.query('limit') ?? '20');
+        if (isNaN(limit) || limit < 1 || limit > MAX_PROJECTS_LIMIT) {
+            return c.json({ error: `limit must be between 1 and ${MAX_PROJECTS_LIMIT}` }, 400);
+        }
+        const cursor = c.req.query('cursor');
+        if (cursor !== undefined && decodeProjectCursor(cursor) === null) return c.json({ error: 'Invalid cursor' }, 400);
+
+        return c.json(await listProjects(c.get('storage'), { limit, cursor }));
+    });
+
+    app.get('/v1/projects/:id', async (c) => {
+        const project = await findProject(c);
+        if (!project) return c.json({ error: 'Project not found' }, 404);
+        return c.json(formatProject(project));
+    });
+
+    app.patch('/v1/projects/:id', async (c) => {
+        const body = await c.req.json().catch(() => ({}));
+        const { name } = body;
+
+        if (!name || typeof name !== 'string') {
+            return c.json({ error: 'name is required' }, 400);
+        }
+
+        const storage = c.get('storage');
+        const project = await findProject(c);
+        if (!project) return c.json({ error: 'Project not found' }, 404);
+
+        await storage.updateProject(project.id, { name });
+        await recordAudit(storage, ADMIN_ACTOR, {
+            action: 'project.rename',
+            projectId: project.id,
+            targetId: String(project.id),
+            details: { name, previous_name: project.name },
+        });
+        return c.json(formatProject({ ...project, name }));
+    });
+
+    // permanent: contexts, keys, webhooks and retention policies go with it
+    app.delete('/v1/projects/:id', async (c) => {
+        const storage = c.get('storage');
+        const project = await findProject(c);
+        if (!project) return c.json({ error: 'Project not found' }, 404);
+
+        const keys = await storage.findApiKeys(project.id);
+        await storage.deleteProject(project.id);
+        // cached keys would otherwise keep authenticating against the deleted project
+        for (const key of keys) await keyCache?.delete(key.key_prefix);
+
+        await recordAudit(storage, ADMIN_ACTOR, {
+            action: 'project.delete',
+            projectId: project.id,
+            targetId: String(project.id),
+            details: { name: project.name, api_keys: keys.length },
+        });
+        return c.json({ ...formatProject(project), deleted: true });
+    });
+
+    app.get('/v1/projects/:id/usage', async (c) => {
+        const range = parseUsageRange((name) => c.req.query(name));
+        if ('error' in range) return c.json({ error: range.error }, 400);
+
+        const project = await findProject(c);
+        if (!project) return c.json({ error: 'Project not found' }, 404);
+
+        const rows = await c
+            .get('storage')
+            .findProjectActivity(project.id, new Date(range.from).toISOString(), new Date(range.to + DAY_MS).toISOString());
+
+        return c.json({
+            project_id: project.id,
+            from: new Date(range.from).toISOString().slice(0, 10),
+            to: new Date(range.to).toISOString().slice(0, 10),
+            ...summarizeProjectUsage(rows),
+        });
+    });
+}
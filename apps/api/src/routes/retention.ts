@@ -0,0 +1,80 @@
+import { MAX_METADATA_FILTERS, RETENTION_SWEEP_LIMIT } from '../constants';
+import { formatRetentionPolicy, planRetention, type RetentionPolicy } from '../domain/retention';
+import type { HttpApp } from '../types/http';
+import { isPlainObject } from '../utils/request-parsing';
+
+// -- helpers ------------------------------------------------------------------
+
+function isNullableInteger(value: unknown, min: number): value is number | null {
+    return value === null || (typeof value === 'number' && Number.isSafeInteger(value) && value >= min);
+}
+
+// omitted fields are unset, so PUT always describes the whole policy
+function parseRetentionPolicy(body: Record<string, unknown>): { policy: RetentionPolicy } | { error: string } {
+    const { max_age_days = null, max_versions = null, metadata = null } = body;
+
+    if (!isNullableInteger(max_age_days, 1)) return { error: 'max_age_days must be a positive integer or null' };
+    if (!isNullableInteger(max_versions, 1)) return { error: 'max_versions must be a positive integer or null' };
+    if (max_age_days === null && max_versions === null) return { error: 'Set max_age_days, max_versions or both' };
+
+    if (metadata !== null) {
+        if (!isPlainObject(metadata) || !Object.values(metadata).every((v) => typeof v === 'string')) {
+            return { error: 'metadata must be an object of string values' };
+        }
+        const size = Object.keys(metadata).length;
+        if (size > MAX_METADATA_FILTERS) return { error: `metadata can have at most ${MAX_METADATA_FILTERS} keys` };
+        // scopes which contexts expire; versions are capped in every context
+        if (size > 0 && max_age_days === null) return { error: 'metadata only scopes max_age_days, which is not set' };
+    }
+
+    const scope = metadata && Object.keys(metadata).length > 0 ? (metadata as Record<string, string>) : null;
+    return { policy: { max_age_days, max_versions, metadata: scope } };
+}
+
+// -- routes -------------------------------------------------------------------
+
+export function registerRetentionRoutes(app: HttpApp) {
+    app.get('/retention', async (c) => {
+        const { projectId } = c.get('auth');
+        const policy = await c.get('storage').findRetentionPolicy(projectId);
+        if (!policy) return c.json({ error: 'No retention policy' }, 404);
+        return c.json(formatRetentionPolicy(policy));
+    });
+
+    app.put('/retention', async (c) => {
+        const { projectId } = c.get('auth');
+        const body = await c.req.json().catch(() => null);
+        if (!isPlainObject(body)) return c.json({ error: 'Request body must be a JSON object' }, 400);
+
+        const parsed = parseRetentionPolicy(body);
+        if ('error' in parsed) return c.json({ error: parsed.error }, 400);
+
+        const policy = await c.get('storage').upsertRetentionPolicy({ project_id: projectId, ...parsed.policy });
+        return c.json(formatRetentionPolicy(policy));
+    });
+
+    app.delete('/retention', async (c) => {
+        const { projectId } = c.get('auth');
+        const deleted = await c.get('storage').deleteRetentionPolicy(projectId);
+        if (!deleted) return c.json({ error: 'No retention policy' }, 404);
+        return c.json({ deleted: true });
+    });
+
+    // dry run: what the next sweep would remove under the stored policy
+    app.get('/retention/preview', async (c) => {
+        const { projectId } = c.get('auth');
+        const storage = c.get('storage');
+
+        const limit = parseInt(c.req.query('limit') ?? String(RETENTION_SWEEP_LIMIT));
+        if (isNaN(limit) || limit < 1 || limit > RETENTION_SWEEP_LIMIT) {
+            return c.json({ error: `limit must be between 1 and ${RETENTION_SWEEP_LIMIT}` }, 400);
+        }
+
+        const policy = await storage.findRetentionPolicy(projectId);
+        if (!policy) return c.json({ error: 'No retention policy' }, 404);
+
+        const now = new Date();
+        const plan = await planRetention(storage, projectId, policy, { now, limit });
+        return c.json({ policy: formatRetentionPolicy(policy), evaluated_at: now.toISOString(), ...plan });
+    });
+}
@@ -0,0 +1,30 @@
+import { MAX_SEARCH_LIMIT } from '../constants';
+import { decodeSearchCursor } from '../domain/cursors';
+import { restrictFilters } from '../domain/key-access';
+import { searchMessages } from '../domain/search';
+import type { HttpApp } from '../types/http';
+import { parseContextFilters } from '../utils/request-parsing';
+
+export function registerSearchRoutes(app: HttpApp) {
+    // full-text search over message content at each context's current head
+    app.get('/search', async (c) => {
+        const { projectId } = c.get('auth');
+        const storage = c.get('storage');
+
+        const q = c.req.query('q')?.trim();
+        if (!q) return c.json({ error: 'q is required' }, 400);
+
+        const limit = parseInt(c.req.query('limit') ?? '20');
+        if (isNaN(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+            return c.json({ error: `limit must be between 1 and ${MAX_SEARCH_LIMIT}` }, 400);
+        }
+
+        const cursor = c.req.query('cursor');
+        if (cursor !== undefined && decodeSearchCursor(cursor) === null) return c.json({ error: 'Invalid cursor' }, 400);
+
+        const parsed = parseContextFilters(c.req.queries());
+        if ('error' in parsed) return c.json({ error: parsed.error }, 400);
+
+        return c.json(await searchMessages(storage, projectId, { ...restrictFilters(c.get('auth'), parsed.filters), q, limit, cursor }));
+    });
+}
@@ -0,0 +1,46 @@
+import { DEFAULT_DELEGATED_TOKEN_TTL_SECONDS, MAX_DELEGATED_TOKEN_TTL_SECONDS } from '../constants';
+import { signDelegatedToken } from '../domain/delegated-tokens';
+import { narrowAccess } from '../domain/key-access';
+import type { HttpApp } from '../types/http';
+import { isPlainObject, parseKeyAccess } from '../utils/request-parsing';
+
+// -- routes -------------------------------------------------------------------
+
+export function registerTokenRoutes(app: HttpApp) {
+    // mints a short-lived token for places a long-lived key can't go (browsers,
+    // sandboxed agents); it can do at most what the calling key can
+    app.post('/tokens', async (c) => {
+        const secret = c.get('config').ULTRACONTEXT_TOKEN_SIGNING_KEY;
+        if (!secret) return c.json({ error: 'Delegated tokens are not enabled' }, 501);
+
+        const auth = c.get('auth');
+        // otherwise a token could renew itself forever
+        if (auth.delegated) return c.json({ error: 'Tokens can only be minted with an API key' }, 403);
+
+        const body = await c.req.json().catch(() => ({}));
+        if (!isPlainObject(body)) return c.json({ error: 'Request body must be a JSON object' }, 400);
+
+        const expiresIn = body.expires_in ?? DEFAULT_DELEGATED_TOKEN_TTL_SECONDS;
+        if (typeof expiresIn !== 'number' || !Number.isInteger(expiresIn) || expiresIn < 1 || expiresIn > MAX_DELEGATED_TOKEN_TTL_SECONDS) {
+            return c.json({ error: `expires_in must be an integer between 1 and ${MAX_DELEGATED_TOKEN_TTL_SECONDS}` }, 400);
+        }
+
+        const parsed = parseKeyAccess(body);
+        if ('error' in parsed) return c.json({ error: parsed.error }, 400);
+
+        const access = narrowAccess(auth, parsed.access);
+        if (!access) return c.json({ error: 'A token cannot have more access than the key minting it' }, 403);
+
+        const { token, expiresAt } = await signDelegatedToken(secret, access, expiresIn);
+        return c.json(
+            {
+                token,
+                expires_at: expiresAt,
+                scopes: access.scopes,
+                context_ids: access.contextIds,
+                metadata_filter: access.metadataFilter,
+            },
+            201,
+        );
+    });
+}
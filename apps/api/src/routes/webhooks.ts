@@ -0,0 +1,134 @@
+import { MAX_WEBHOOK_DELIVERIES_LIMIT } from '../constants';
+import { generatePublicId } from '../domain/public-ids';
+import { formatWebhook, formatWebhookDelivery, generateWebhookSecret } from '../domain/webhooks';
+import { CONTEXT_EVENT_TYPES, type ContextEventType } from '../events/types';
+import type { WebhookUpdate } from '../storage/types';
+import type { HttpApp } from '../types/http';
+import { runInBackground } from '../utils/background';
+import { isPlainObject } from '../utils/request-parsing';
+import type { WebhookDispatcher } from '../webhooks/dispatcher';
+
+// -- helpers ------------------------------------------------------------------
+
+function parseEventTypes(value: unknown): { events: ContextEventType[] } | { error: string } {
+    const allowed: readonly string[] = CONTEXT_EVENT_TYPES;
+    if (!Array.isArray(value) || value.length === 0 || !value.every((e) => typeof e === 'string' && allowed.includes(e))) {
+        return { error: `events must be a non-empty array of: ${CONTEXT_EVENT_TYPES.join(', ')}` };
+    }
+    return { events: [...new Set(value as ContextEventType[])] };
+}
+
+// -- routes -------------------------------------------------------------------
+
+export type WebhookRoutesOptions = {
+    webhooks: WebhookDispatcher;
+};
+
+export function registerWebhookRoutes(app: HttpApp, options: WebhookRoutesOptions) {
+    app.post('/webhooks', async (c) => {
+        const { projectId } = c.get('auth');
+        const body = await c.req.json().catch(() => null);
+        if (!isPlainObject(body)) return c.json({ error: 'Request body must be a JSON object' }, 400);
+
+        if (typeof body.url !== 'string') return c.json({ error: 'url must be an http(s) URL' }, 400);
+        const urlError = await options.webhooks.targetError(body.url);
+        if (urlError) return c.json({ error: urlError }, 400);
+
+        // every event type unless narrowed
+        const parsed = body.events === undefined ? { events: [...CONTEXT_EVENT_TYPES] } : parseEventTypes(body.events);
+        if ('error' in parsed) return c.json({ error: parsed.error }, 400);
+
+        const secret = generateWebhookSecret();
+        const webhook = await c.get('storage').insertWebhook({
+            public_id: generatePublicId('webhook'),
+            project_id: projectId,
+            url: body.url,
+            secret,
+            events: parsed.events,
+        });
+
+        return c.json({ ...formatWebhook(webhook), secret }, 201);
+    });
+
+    app.get('/webhooks', async (c) => {
+        const { projectId } = c.get('auth');
+        const webhooks = await c.get('storage').findWebhooks(projectId);
+        return c.json({ data: webhooks.map(formatWebhook) });
+    });
+
+    app.get('/webhooks/:id', async (c) => {
+        const { projectId } = c.get('auth');
+        const webhook = await c.get('storage').findWebhook(projectId, c.req.param('id'));
+        if (!webhook) return c.json({ error: 'Webhook not found' }, 404);
+        return c.json(formatWebhook(webhook));
+    });
+
+    app.patch('/webhooks/:id', async (c) => {
+        const { projectId } = c.get('auth');
+        const body = await c.req.json().catch(() => null);
+        if (!isPlainObject(body)) return c.json({ error: 'Request body must be a JSON object' }, 400);
+
+        const changes: WebhookUpdate = {};
+        if (body.url !== undefined) {
+            if (typeof body.url !== 'string') return c.json({ error: 'url must be an http(s) URL' }, 400);
+            const urlError = await options.webhooks.targetError(body.url);
+            if (urlError) return c.json({ error: urlError }, 400);
+            changes.url = body.url;
+        }
+        if (body.events !== undefined) {
+            const parsed = parseEventTypes(body.events);
+            if ('error' in parsed) return c.json({ error: parsed.error }, 400);
+            changes.events = parsed.events;
+        }
+        if (body.active !== undefined) {
+            if (typeof body.active !== 'boolean') return c.json({ error: 'active must be a boolean' }, 400);
+            changes.active = body.active;
+        }
+        if (Object.keys(changes).length === 0) return c.json({ error: 'Nothing to update: pass url, events or active' }, 400);
+
+        const webhook = await c.get('storage').updateWebhook(projectId, c.req.param('id'), changes);
+        if (!webhook) return c.json({ error: 'Webhook not found' }, 404);
+        return c.json(formatWebhook(webhook));
+    });
+
+    app.delete('/webhooks/:id', async (c) => {
+        const { projectId } = c.get('auth');
+        const webhookId = c.req.param('id');
+        const deleted = await c.get('storage').deleteWebhook(projectId, webhookId);
+        if (!deleted) return c.json({ error: 'Webhook not found' }, 404);
+        return c.json({ deleted: true, id: webhookId });
+    });
+
+    // -- delivery log ---------------------------------------------------------
+
+    app.get('/webhooks/:id/deliveries', async (c) => {
+        const { projectId } = c.get('auth');
+        const storage = c.get('storage');
+
+        const limit = parseInt(c.req.query('limit') ?? '20');
+        if (isNaN(limit) || limit < 1 || limit > MAX_WEBHOOK_DELIVERIES_LIMIT) {
+            return c.json({ error: `limit must be between 1 and ${MAX_WEBHOOK_DELIVERIES_LIMIT}` }, 400);
+        }
+
+        const webhook = await storage.findWebhook(projectId, c.req.param('id'));
+        if (!webhook) return c.json({ error: 'Webhook not found' }, 404);
+
+        const deliveries = await storage.findWebhookDeliveries(webhook.id, limit);
+        return c.json({ data: deliveries.map(formatWebhookDelivery) });
+    });
+
+    app.post('/webhooks/:id/deliveries/:deliveryId/redeliver', async (c) => {
+        const { projectId } = c.get('auth');
+        const storage = c.get('storage');
+
+        const webhook = await storage.findWebhook(projectId, c.req.param('id'));
+        if (!webhook) return c.json({ error: 'Webhook not found' }, 404);
+
+        const delivery = await storage.findWebhookDelivery(webhook.id, c.req.param('deliveryId'));
+        if (!delivery) return c.json({ error: 'Delivery not found' }, 404);
+
+        const redelivery = await options.webhooks.redeliver(storage, delivery);
+        runInBackground(c, options.webhooks.deliver(storage, [redelivery]));
+        return c.json(formatWebhookDelivery(redelivery), 202);
+    });
+}
@@ -2,15 +2,44 @@ import { serve } from '@hono/node-server';
 
 import { createApp } from './app';
 import { getApiConfig } from './config.node';
+import { RETENTION_SWEEP_INTERVAL_MS, WEBHOOK_RETRY_BATCH, WEBHOOK_RETRY_MAX_BATCHES } from './constants';
+import { purgeExpiredTrash, trashWindowMs } from './domain/context-deletion';
+import { sweepRetention } from './domain/retention';
+import { MemoryEventSource } from './events/memory';
+import { MemoryRateLimitCounter } from './ratelimit/memory';
 import { createStorageAdapter } from './storage';
+import { lookupHostAddresses } from './webhooks/dns.node';
+import { WebhookDispatcher } from './webhooks/dispatcher';
 
 // -- Node.js entrypoint -------------------------------------------------------
 
 const config = getApiConfig();
 const storage = createStorageAdapter(config);
-const app = createApp({ config, storage });
+// deliveries are checked against every address their host resolves to
+const webhooks = new WebhookDispatcher({ resolveHost: lookupHostAddresses });
+// a single process sees every write and request, so events and rate limits can stay in memory
+const events = new MemoryEventSource();
+const app = createApp({ config, storage, events, rateLimiter: new MemoryRateLimitCounter(), webhooks });
 const port = Number(process.env.PORT ?? 8787);
 
 serve({ fetch: app.fetch, port });
 
+// retention policies and the trash are swept in the background, and webhook
+// retries a restart dropped from the in-process timers are sent; failures are logged
+async function sweep() {
+    try {
+        const sinks = { events, webhooks };
+        await sweepRetention(storage, { sinks });
+        await purgeExpiredTrash(storage, trashWindowMs(config), { sinks });
+        // a full batch may mean more are due; bounded, as a delivery that can't be updated stays due
+        for (let batch = 0; batch < WEBHOOK_RETRY_MAX_BATCHES; batch++) {
+            if ((await webhooks.retryDue(storage, WEBHOOK_RETRY_BATCH)) < WEBHOOK_RETRY_BATCH) break;
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Background sweep failed: ${message}`);
+    }
+}
+setInterval(() => void sweep(), RETENTION_SWEEP_INTERVAL_MS).unref();
+
 console.log(`UltraContext API listening on http://127.0.0.1:${port}`);
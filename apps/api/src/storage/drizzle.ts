@@ -1,12 +1,123 @@
-import { and, asc, desc, eq, gt, inArray, isNull, lt, ne, sql } from 'drizzle-orm';
+import { and, asc, desc, eq, getTableColumns, gt, gte, inArray, isNotNull, isNull, lt, lte, ne, sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
 
-import { nodes, api_keys, projects, type ApiDb } from '../db';
-import type { StorageAdapter, NodeRow, NodeInsertRow, ApiKeyRow, ProjectRow, ContextFilters, TransactionOptions } from './types';
+import { nodes, api_keys, audit_events, projects, project_activity_daily, idempotency_keys, retention_policies, webhooks, webhook_deliveries, type ApiDb } from '../db';
+import { likePrefix, metadataFilters, metadataKeyPath, nestedMetadata } from '../domain/metadata-filters';
+import type {
+    StorageAdapter,
+    NodeRow,
+    NodeInsertRow,
+    NodeUpdate,
+    ApiKeyInsertRow,
+    ApiKeyMetadataRow,
+    ApiKeyRow,
+    ApiKeyUpdate,
+    AuditEventInsertRow,
+    AuditEventQuery,
+    AuditEventRow,
+    ProjectActivityRow,
+    ProjectDetailsRow,
+    ProjectQuery,
+    ProjectRow,
+    ProjectUpdate,
+    RetentionPolicyInsertRow,
+    RetentionPolicyRow,
+    VersionCountRow,
+    ContextFilters,
+    ContextPage,
+    MetadataFilter,
+    MessageSearchQuery,
+    MessageSearchRow,
+    IdempotencyKeyInsertRow,
+    IdempotencyKeyRow,
+    IdempotencyScope,
+    TransactionOptions,
+    WebhookDeliveryInsertRow,
+    WebhookDeliveryRow,
+    WebhookDeliveryUpdate,
+    WebhookInsertRow,
+    WebhookRow,
+    WebhookUpdate,
+} from './types';
 
 // =============================================================================
 // DRIZZLE ADAPTER — wraps existing Drizzle/PostgreSQL queries
 // =============================================================================
 
+// everything but key_hash
+const API_KEY_METADATA = {
+    id: api_keys.id,
+    project_id: api_keys.project_id,
+    key_prefix: api_keys.key_prefix,
+    name: api_keys.name,
+    created_at: api_keys.created_at,
+    last_used_at: api_keys.last_used_at,
+    expires_at: api_keys.expires_at,
+    revoked_at: api_keys.revoked_at,
+    scopes: api_keys.scopes,
+    context_ids: api_keys.context_ids,
+    metadata_filter: api_keys.metadata_filter,
+};
+
+// -- shared filter builder (list + count) -------------------------------------
+
+function contains(value: Record<string, unknown>): SQL {
+    return sql`${nodes.metadata} @> ${JSON.stringify(value)}::jsonb`;
+}
+
+function metadataCondition(filter: MetadataFilter): SQL {
+    switch (filter.op) {
+        case 'contains':
+            return contains(filter.value);
+        case 'eq':
+            return contains(nestedMetadata(filter.key, filter.value));
+        case 'in':
+            return sql`(${sql.join(filter.values.map((value) => contains(nestedMetadata(filter.key, value))), sql` OR `)})`;
+        case 'prefix':
+            // keys are [\w-] segments, so the array literal needs no quoting
+            return sql`${nodes.metadata} #>> ${`{${metadataKeyPath(filter.key).join(',')}}`}::text[] LIKE ${likePrefix(filter.value)}`;
+    }
+}
+
+function rootContextConditions(projectId: number, filters?: ContextFilters): SQL[] {
+    const conditions: SQL[] = [
+        eq(nodes.project_id, projectId),
+        eq(nodes.type, 'context'),
+        isNull(nodes.context_id),
+        filters?.trashed ? isNotNull(nodes.deleted_at) : isNull(nodes.deleted_at),
+    ];
+
+    // metadata JSONB filters (eq/in/contains use the GIN index via @> containment)
+    for (const filter of metadataFilters(filters)) {
+        const condition = metadataCondition(filter);
+        conditions.push(filter.negate ? sql`NOT coalesce(${condition}, false)` : condition);
+    }
+
+    if (filters?.ids) conditions.push(inArray(nodes.public_id, filters.ids));
+
+    // timestamp range filters
+    if (filters?.after) conditions.push(gt(nodes.created_at, filters.after));
+    if (filters?.before) conditions.push(lt(nodes.created_at, filters.before));
+
+    return conditions;
+}
+
+// -- full-text search expressions ---------------------------------------------
+// Must match idx_nodes_content_fts (init.sql) for the planner to use the index.
+
+const SEARCH_CONFIG = sql.raw(`'english'`);
+
+function searchDocument(content: AnyColumn): SQL {
+    return sql`jsonb_to_tsvector(${SEARCH_CONFIG}, ${content}, '["string"]')`;
+}
+
+// every string value in the message content, in document order
+function searchText(content: AnyColumn): SQL {
+    return sql`(SELECT string_agg(v #>> '{}', ' ') FROM jsonb_path_query(${content}, 'strict $.** ? (@.type() == "string")') AS v)`;
+}
+
+const SEARCH_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "';
+
 export class DrizzleAdapter implements StorageAdapter {
     constructor(private db: ApiDb) {}
 
@@ -19,9 +130,14 @@ export class DrizzleAdapter implements StorageAdapter {
             .where(eq(nodes.context_id, contextId));
     }
 
+    async findNodeByPublicId(publicId: string): Promise<NodeRow | null> {
+        const rows = await this.db.select().from(nodes).where(eq(nodes.public_id, publicId)).limit(1);
+        return (rows[0] as NodeRow) ?? null;
+    }
+
     async findContextBranches(contextId: string) {
         return this.db
-            .select({ public_id: nodes.public_id, prev_id: nodes.prev_id, created_at: nodes.created_at })
+            .select({ public_id: nodes.public_id, prev_id: nodes.prev_id, created_at: nodes.created_at, content: nodes.content })
             .from(nodes)
             .where(and(eq(nodes.context_id, contextId), eq(nodes.type, 'context')));
     }
@@ -41,11 +157,67 @@ export class DrizzleAdapter implements StorageAdapter {
             .where(and(eq(nodes.context_id, contextId), ne(nodes.type, 'context'))) as Promise<NodeRow[]>;
     }
 
+    async findNonContextNodesBulk(contextIds: string[]): Promise<NodeRow[]> {
+        if (contextIds.length === 0) return [];
+        return this.db
+            .select()
+            .from(nodes)
+            .where(and(inArray(nodes.context_id, contextIds), ne(nodes.type, 'context'))) as Promise<NodeRow[]>;
+    }
+
+    async countNonContextNodes(contextId: string) {
+        const rows = await this.db
+            .select({ count: sql<number>`count(*)::int` })
+            .from(nodes)
+            .where(and(eq(nodes.context_id, contextId), ne(nodes.type, 'context')));
+        return rows[0]?.count ?? 0;
+    }
+
+    async findNodeRange(contextId: string, start: number, end: number): Promise<NodeRow[]> {
+        const positions = await this.chainPositions(contextId, sql`idx >= ${start} AND idx < ${end}`);
+        if (positions.length === 0) return [];
+
+        const rows = (await this.db
+            .select()
+            .from(nodes)
+            .where(inArray(nodes.public_id, positions.map((p) => p.public_id)))) as NodeRow[];
+        const byId = new Map(rows.map((row) => [row.public_id, row]));
+        return positions.map((p) => byId.get(p.public_id)).filter((row): row is NodeRow => row !== undefined);
+    }
+
+    async findNodePosition(contextId: string, publicId: string) {
+        const positions = await this.chainPositions(contextId, sql`public_id = ${publicId}`);
+        return positions[0]?.idx ?? null;
+    }
+
+    // walks the prev_id linked list in SQL so only the requested slice leaves the database
+    private async chainPositions(contextId: string, where: SQL) {
+        const rows = await this.db.execute<{ public_id: string; idx: number }>(sql`
+            WITH RECURSIVE chain AS (
+                SELECT public_id, 0 AS idx FROM nodes
+                WHERE context_id = ${contextId} AND type <> 'context' AND prev_id IS NULL
+                UNION ALL
+                SELECT n.public_id, chain.idx + 1 FROM nodes n
+                JOIN chain ON n.prev_id = chain.public_id
+                WHERE n.context_id = ${contextId} AND n.type <> 'context'
+            )
+            SELECT public_id, idx FROM chain WHERE ${where} ORDER BY idx`);
+        return Array.from(rows);
+    }
+
     async findRootContext(projectId: number, publicId: string) {
         const rows = await this.db
             .select({ public_id: nodes.public_id })
             .from(nodes)
-            .where(and(eq(nodes.project_id, projectId), eq(nodes.public_id, publicId), eq(nodes.type, 'context'), isNull(nodes.context_id)))
+            .where(
+                and(
+                    eq(nodes.project_id, projectId),
+                    eq(nodes.public_id, publicId),
+                    eq(nodes.type, 'context'),
+                    isNull(nodes.context_id),
+                    isNull(nodes.deleted_at),
+                ),
+            )
             .limit(1);
         return rows[0] ?? null;
     }
@@ -54,33 +226,134 @@ export class DrizzleAdapter implements StorageAdapter {
         const rows = await this.db
             .select({ public_id: nodes.public_id })
             .from(nodes)
-            .where(and(eq(nodes.public_id, publicId), eq(nodes.type, 'context'), isNull(nodes.context_id)))
+            .where(and(eq(nodes.public_id, publicId), eq(nodes.type, 'context'), isNull(nodes.context_id), isNull(nodes.deleted_at)))
             .limit(1);
         return rows[0] ?? null;
     }
 
-    async listRootContexts(projectId: number, limit: number, filters?: ContextFilters) {
-        const conditions = [eq(nodes.project_id, projectId), eq(nodes.type, 'context'), isNull(nodes.context_id)];
+    async findTrashedContext(projectId: number, publicId: string) {
+        const rows = await this.db
+            .select({ public_id: nodes.public_id, deleted_at: nodes.deleted_at })
+            .from(nodes)
+            .where(
+                and(
+                    eq(nodes.project_id, projectId),
+                    eq(nodes.public_id, publicId),
+                    eq(nodes.type, 'context'),
+                    isNull(nodes.context_id),
+                    isNotNull(nodes.deleted_at),
+                ),
+            )
+            .limit(1);
+        return rows[0] ?? null;
+    }
 
-        // metadata JSONB filters (uses GIN index via @> containment)
-        if (filters?.source) conditions.push(sql`${nodes.metadata} @> ${JSON.stringify({ source: filters.source })}::jsonb`);
-        if (filters?.user_id) conditions.push(sql`${nodes.metadata} @> ${JSON.stringify({ user_id: filters.user_id })}::jsonb`);
-        if (filters?.host) conditions.push(sql`${nodes.metadata} @> ${JSON.stringify({ host: filters.host })}::jsonb`);
-        if (filters?.project_path) conditions.push(sql`${nodes.metadata} @> ${JSON.stringify({ project_path: filters.project_path })}::jsonb`);
-        if (filters?.session_id) conditions.push(sql`${nodes.metadata} @> ${JSON.stringify({ session_id: filters.session_id })}::jsonb`);
+    async findExpiredTrash(deletedBefore: string, limit: number) {
+        return this.db
+            .select({ project_id: nodes.project_id, public_id: nodes.public_id })
+            .from(nodes)
+            .where(and(eq(nodes.type, 'context'), isNull(nodes.context_id), lt(nodes.deleted_at, deletedBefore)))
+            .orderBy(asc(nodes.deleted_at), asc(nodes.id))
+            .limit(limit);
+    }
+
+    async listRootContexts(projectId: number, limit: number, filters?: ContextFilters, page?: ContextPage) {
+        const conditions = rootContextConditions(projectId, filters);
+        const ascending = page?.order === 'asc';
 
-        // timestamp range filters
-        if (filters?.after) conditions.push(gt(nodes.created_at, filters.after));
-        if (filters?.before) conditions.push(lt(nodes.created_at, filters.before));
+        // keyset: row-value comparison keeps (created_at, id) ties stable across pages
+        if (page?.cursor) {
+            const bound = sql`(${page.cursor.created_at}::timestamptz, ${page.cursor.id}::bigint)`;
+            conditions.push(ascending
+                ? sql`(${nodes.created_at}, ${nodes.id}) > ${bound}`
+                : sql`(${nodes.created_at}, ${nodes.id}) < ${bound}`);
+        }
 
+        const direction = ascending ? asc : desc;
         return this.db
-            .select({ public_id: nodes.public_id, metadata: nodes.metadata, created_at: nodes.created_at })
+            .select({ id: nodes.id, public_id: nodes.public_id, metadata: nodes.metadata, created_at: nodes.created_at, deleted_at: nodes.deleted_at })
             .from(nodes)
             .where(and(...conditions))
-            .orderBy(desc(nodes.created_at))
+            .orderBy(direction(nodes.created_at), direction(nodes.id))
             .limit(limit);
     }
 
+    async countRootContexts(projectId: number, filters?: ContextFilters) {
+        const rows = await this.db
+            .select({ count: sql<number>`count(*)::int` })
+            .from(nodes)
+            .where(and(...rootContextConditions(projectId, filters)));
+        return rows[0]?.count ?? 0;
+    }
+
+    async searchMessages(projectId: number, query: MessageSearchQuery): Promise<MessageSearchRow[]> {
+        // roots keep the unaliased table so the list filters apply unchanged
+        const messages = alias(nodes, 'messages');
+        const heads = alias(nodes, 'heads');
+        const tsquery = sql`websearch_to_tsquery(${SEARCH_CONFIG}, ${query.q})`;
+        const rank = sql<number>`ts_rank_cd(${searchDocument(messages.content)}, ${tsquery})`;
+
+        const rows = await this.db
+            .select({
+                context: { public_id: nodes.public_id, metadata: nodes.metadata, created_at: nodes.created_at },
+                message: getTableColumns(messages),
+                rank,
+                snippet: sql<string>`ts_headline(${SEARCH_CONFIG}, ${searchText(messages.content)}, ${tsquery}, ${SEARCH_HEADLINE_OPTIONS})`,
+            })
+            .from(messages)
+            .innerJoin(heads, and(eq(heads.public_id, messages.context_id), eq(heads.type, 'context')))
+            .innerJoin(nodes, eq(nodes.public_id, heads.context_id))
+            .where(
+                and(
+                    eq(messages.project_id, projectId),
+                    eq(messages.type, 'message'),
+                    sql`${searchDocument(messages.content)} @@ ${tsquery}`,
+                    ...rootContextConditions(projectId, query.filters),
+                ),
+            )
+            .orderBy(desc(rank), desc(messages.created_at), desc(messages.id))
+            .limit(query.limit)
+            .offset(query.offset ?? 0);
+
+        return rows.map((row) => ({ ...row, message: row.message as NodeRow, rank: Number(row.rank) }));
+    }
+
+    async findForks(projectId: number, parentIds: string[]) {
+        if (parentIds.length === 0) return [];
+        return this.db
+            .select({
+                public_id: nodes.public_id,
+                parent_id: nodes.parent_id,
+                content: nodes.content,
+                metadata: nodes.metadata,
+                created_at: nodes.created_at,
+            })
+            .from(nodes)
+            .where(
+                and(
+                    eq(nodes.project_id, projectId),
+                    eq(nodes.type, 'context'),
+                    isNull(nodes.context_id),
+                    isNull(nodes.deleted_at),
+                    inArray(nodes.parent_id, parentIds),
+                ),
+            )
+            .orderBy(asc(nodes.created_at), asc(nodes.id));
+    }
+
+    async findContextsOverVersionLimit(projectId: number, maxVersions: number, limit: number): Promise<VersionCountRow[]> {
+        const versions = sql<number>`count(*)::int`;
+        const rows = await this.db
+            .select({ public_id: nodes.context_id, versions })
+            .from(nodes)
+            .where(and(eq(nodes.project_id, projectId), eq(nodes.type, 'context'), sql`${nodes.context_id} IS NOT NULL`))
+            .groupBy(nodes.context_id)
+            .having(sql`count(*) > ${maxVersions}`)
+            .orderBy(desc(versions), asc(nodes.context_id))
+            .limit(limit);
+        return rows as VersionCountRow[];
+    }
+
     // -- nodes: mutations -----------------------------------------------------
 
     async insertNodes(values: NodeInsertRow | NodeInsertRow[]): Promise<Partial<NodeRow>[]> {
@@ -95,6 +368,41 @@ export class DrizzleAdapter implements StorageAdapter {
             });
     }
 
+    async updateNode(projectId: number, publicId: string, changes: NodeUpdate) {
+        await this.db
+            .update(nodes)
+            .set(changes)
+            .where(and(eq(nodes.project_id, projectId), eq(nodes.public_id, publicId)));
+    }
+
+    async rechainNodes(projectId: number, contextId: string, publicIds: string[]) {
+        if (publicIds.length === 0) return;
+        // one jsonb parameter, however long the chain
+        await this.db.execute(sql`
+            UPDATE nodes SET context_id = ${contextId}, prev_id = chain.prev_id
+            FROM (
+                SELECT value AS public_id, lag(value) OVER (ORDER BY idx) AS prev_id
+                FROM jsonb_array_elements_text(${JSON.stringify(publicIds)}::jsonb) WITH ORDINALITY AS ids(value, idx)
+            ) AS chain
+            WHERE nodes.project_id = ${projectId}
+              AND nodes.public_id = chain.public_id
+              AND (nodes.context_id IS DISTINCT FROM ${contextId} OR nodes.prev_id IS DISTINCT FROM chain.prev_id)
+        `);
+    }
+
+    async replaceNodeReferences(projectId: number, contextIds: string[], replacements: Record<string, string>) {
+        if (contextIds.length === 0 || Object.keys(replacements).length === 0) return;
+        const map = JSON.stringify(replacements);
+        await this.db.execute(sql`
+            UPDATE nodes SET
+                prev_id = COALESCE(${map}::jsonb ->> nodes.prev_id, nodes.prev_id),
+                parent_id = COALESCE(${map}::jsonb ->> nodes.parent_id, nodes.parent_id)
+            WHERE nodes.project_id = ${projectId}
+              AND nodes.context_id IN (SELECT jsonb_array_elements_text(${JSON.stringify(contextIds)}::jsonb))
+              AND (${map}::jsonb ? nodes.prev_id OR ${map}::jsonb ? nodes.parent_id)
+        `);
+    }
+
     async deleteNodesByContextId(projectId: number, contextId: string) {
         await this.db.delete(nodes).where(and(eq(nodes.project_id, projectId), eq(nodes.context_id, contextId)));
     }
@@ -118,19 +426,57 @@ export class DrizzleAdapter implements StorageAdapter {
             .where(and(eq(nodes.project_id, projectId), inArray(nodes.parent_id, parentIds)));
     }
 
+    async updateRootContextMetadata(projectId: number, publicId: string, metadata: Record<string, unknown>) {
+        await this.db
+            .update(nodes)
+            .set({ metadata })
+            .where(
+                and(
+                    eq(nodes.project_id, projectId),
+                    eq(nodes.public_id, publicId),
+                    eq(nodes.type, 'context'),
+                    isNull(nodes.context_id),
+                ),
+            );
+    }
+
+    async setRootContextDeletedAt(projectId: number, publicId: string, deletedAt: string | null) {
+        await this.db
+            .update(nodes)
+            .set({ deleted_at: deletedAt })
+            .where(
+                and(
+                    eq(nodes.project_id, projectId),
+                    eq(nodes.public_id, publicId),
+                    eq(nodes.type, 'context'),
+                    isNull(nodes.context_id),
+                ),
+            );
+    }
+
     // -- api keys -------------------------------------------------------------
 
     async findApiKeyByPrefix(prefix: string): Promise<ApiKeyRow | null> {
         const rows = await this.db
-            .select({ id: api_keys.id, project_id: api_keys.project_id, key_hash: api_keys.key_hash })
+            .select({
+                id: api_keys.id,
+                project_id: api_keys.project_id,
+                key_hash: api_keys.key_hash,
+                expires_at: api_keys.expires_at,
+                revoked_at: api_keys.revoked_at,
+                scopes: api_keys.scopes,
+                context_ids: api_keys.context_ids,
+                metadata_filter: api_keys.metadata_filter,
+            })
             .from(api_keys)
             .where(eq(api_keys.key_prefix, prefix))
             .limit(1);
         return (rows[0] as ApiKeyRow) ?? null;
     }
 
-    async insertApiKey(values: { project_id: number; key_prefix: string; key_hash: string }) {
-        await this.db.insert(api_keys).values(values);
+    async insertApiKey(values: ApiKeyInsertRow): Promise<ApiKeyMetadataRow> {
+        const [row] = await this.db.insert(api_keys).values(values).returning(API_KEY_METADATA);
+        return row;
     }
 
     async updateApiKeyLastUsedAt(id: number, lastUsedAt: string) {
@@ -140,6 +486,214 @@ export class DrizzleAdapter implements StorageAdapter {
             .where(eq(api_keys.id, id));
     }
 
+    async findApiKeys(projectId: number): Promise<ApiKeyMetadataRow[]> {
+        return this.db
+            .select(API_KEY_METADATA)
+            .from(api_keys)
+            .where(eq(api_keys.project_id, projectId))
+            .orderBy(asc(api_keys.id));
+    }
+
+    async findApiKeyMetadataByPrefix(prefix: string): Promise<ApiKeyMetadataRow | null> {
+        const rows = await this.db
+            .select(API_KEY_METADATA)
+            .from(api_keys)
+            .where(eq(api_keys.key_prefix, prefix))
+            .limit(1);
+        return rows[0] ?? null;
+    }
+
+    async updateApiKey(id: number, changes: ApiKeyUpdate) {
+        await this.db
+            .update(api_keys)
+            .set(changes)
+            .where(eq(api_keys.id, id));
+    }
+
+    // -- idempotency keys -----------------------------------------------------
+
+    async findIdempotencyKeys(projectId: number, scope: IdempotencyScope, keys: string[]): Promise<IdempotencyKeyRow[]> {
+        if (keys.length === 0) return [];
+        return this.db
+            .select({
+                key: idempotency_keys.key,
+                scope: idempotency_keys.scope,
+                fingerprint: idempotency_keys.fingerprint,
+                status_code: idempotency_keys.status_code,
+                response: idempotency_keys.response,
+                created_at: idempotency_keys.created_at,
+            })
+            .from(idempotency_keys)
+            .where(
+                and(eq(idempotency_keys.project_id, projectId), eq(idempotency_keys.scope, scope), inArray(idempotency_keys.key, keys)),
+            ) as Promise<IdempotencyKeyRow[]>;
+    }
+
+    async insertIdempotencyKeys(rows: IdempotencyKeyInsertRow[]) {
+        if (rows.length === 0) return;
+        await this.db.insert(idempotency_keys).values(rows);
+    }
+
+    async completeIdempotencyKey(projectId: number, scope: IdempotencyScope, key: string, statusCode: number, response: unknown) {
+        await this.db
+            .update(idempotency_keys)
+            .set({ status_code: statusCode, response })
+            .where(and(eq(idempotency_keys.project_id, projectId), eq(idempotency_keys.scope, scope), eq(idempotency_keys.key, key)));
+    }
+
+    async deleteIdempotencyKeys(projectId: number, scope: IdempotencyScope, keys: string[]) {
+        if (keys.length === 0) return;
+        await this.db
+            .delete(idempotency_keys)
+            .where(and(eq(idempotency_keys.project_id, projectId), eq(idempotency_keys.scope, scope), inArray(idempotency_keys.key, keys)));
+    }
+
+    // -- webhooks -------------------------------------------------------------
+
+    async findWebhooks(projectId: number): Promise<WebhookRow[]> {
+        return this.db.select().from(webhooks).where(eq(webhooks.project_id, projectId)).orderBy(asc(webhooks.id));
+    }
+
+    async findWebhook(projectId: number, publicId: string): Promise<WebhookRow | null> {
+        const rows = await this.db
+            .select()
+            .from(webhooks)
+            .where(and(eq(webhooks.project_id, projectId), eq(webhooks.public_id, publicId)))
+            .limit(1);
+        return rows[0] ?? null;
+    }
+
+    async findWebhookById(id: number): Promise<WebhookRow | null> {
+        const rows = await this.db.select().from(webhooks).where(eq(webhooks.id, id)).limit(1);
+        return rows[0] ?? null;
+    }
+
+    async insertWebhook(values: WebhookInsertRow): Promise<WebhookRow> {
+        const rows = await this.db.insert(webhooks).values(values).returning();
+        return rows[0];
+    }
+
+    async updateWebhook(projectId: number, publicId: string, changes: WebhookUpdate): Promise<WebhookRow | null> {
+        const rows = await this.db
+            .update(webhooks)
+            .set(changes)
+            .where(and(eq(webhooks.project_id, projectId), eq(webhooks.public_id, publicId)))
+            .returning();
+        return rows[0] ?? null;
+    }
+
+    async deleteWebhook(projectId: number, publicId: string): Promise<boolean> {
+        const rows = await this.db
+            .delete(webhooks)
+            .where(and(eq(webhooks.project_id, projectId), eq(webhooks.public_id, publicId)))
+            .returning({ id: webhooks.id });
+        return rows.length > 0;
+    }
+
+    // -- webhook deliveries ---------------------------------------------------
+
+    async findWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDeliveryRow[]> {
+        return this.db
+            .select()
+            .from(webhook_deliveries)
+            .where(eq(webhook_deliveries.webhook_id, webhookId))
+            .orderBy(desc(webhook_deliveries.id))
+            .limit(limit) as Promise<WebhookDeliveryRow[]>;
+    }
+
+    async claimWebhookDelivery(id: number, now: string, leaseUntil: string): Promise<WebhookDeliveryRow | null> {
+        const rows = await this.db
+            .update(webhook_deliveries)
+            .set({ next_attempt_at: leaseUntil, updated_at: sql`NOW()` })
+            .where(and(eq(webhook_deliveries.id, id), eq(webhook_deliveries.status, 'pending'), lte(webhook_deliveries.next_attempt_at, now)))
+            .returning();
+        return (rows[0] as WebhookDeliveryRow | undefined) ?? null;
+    }
+
+    async findWebhookDelivery(webhookId: number, publicId: string): Promise<WebhookDeliveryRow | null> {
+        const rows = await this.db
+            .select()
+            .from(webhook_deliveries)
+            .where(and(eq(webhook_deliveries.webhook_id, webhookId), eq(webhook_deliveries.public_id, publicId)))
+            .limit(1);
+        return (rows[0] as WebhookDeliveryRow) ?? null;
+    }
+
+    async findDueWebhookDeliveries(now: string, limit: number): Promise<WebhookDeliveryRow[]> {
+        return this.db
+            .select()
+            .from(webhook_deliveries)
+            .where(and(eq(webhook_deliveries.status, 'pending'), lte(webhook_deliveries.next_attempt_at, now)))
+            .orderBy(asc(webhook_deliveries.next_attempt_at))
+            .limit(limit) as Promise<WebhookDeliveryRow[]>;
+    }
+
+    async insertWebhookDeliveries(rows: WebhookDeliveryInsertRow[]): Promise<WebhookDeliveryRow[]> {
+        if (rows.length === 0) return [];
+        return this.db.insert(webhook_deliveries).values(rows).returning() as Promise<WebhookDeliveryRow[]>;
+    }
+
+    async updateWebhookDelivery(id: number, changes: WebhookDeliveryUpdate) {
+        await this.db
+            .update(webhook_deliveries)
+            .set({ ...changes, updated_at: sql`NOW()` })
+            .where(eq(webhook_deliveries.id, id));
+    }
+
+    // -- retention policies ---------------------------------------------------
+
+    async findRetentionPolicy(projectId: number): Promise<RetentionPolicyRow | null> {
+        const rows = await this.db.select().from(retention_policies).where(eq(retention_policies.project_id, projectId)).limit(1);
+        return rows[0] ?? null;
+    }
+
+    async findRetentionPolicies(): Promise<RetentionPolicyRow[]> {
+        return this.db.select().from(retention_policies).orderBy(asc(retention_policies.project_id));
+    }
+
+    async upsertRetentionPolicy(values: RetentionPolicyInsertRow): Promise<RetentionPolicyRow> {
+        const { project_id: _projectId, ...changes } = values;
+        const rows = await this.db
+            .insert(retention_policies)
+            .values(values)
+            .onConflictDoUpdate({ target: retention_policies.project_id, set: { ...changes, updated_at: sql`NOW()` } })
+            .returning();
+        return rows[0];
+    }
+
+    async deleteRetentionPolicy(projectId: number): Promise<boolean> {
+        const rows = await this.db
+            .delete(retention_policies)
+            .where(eq(retention_policies.project_id, projectId))
+            .returning({ project_id: retention_policies.project_id });
+        return rows.length > 0;
+    }
+
+    // -- audit log ------------------------------------------------------------
+
+    async insertAuditEvents(rows: AuditEventInsertRow[]) {
+        if (rows.length === 0) return;
+        await this.db.insert(audit_events).values(rows);
+    }
+
+    async findAuditEvents(query: AuditEventQuery): Promise<AuditEventRow[]> {
+        const conditions: SQL[] = [];
+        if (query.project_id !== undefined) conditions.push(eq(audit_events.project_id, query.project_id));
+        if (query.api_key_id !== undefined) conditions.push(eq(audit_events.api_key_id, query.api_key_id));
+        if (query.action !== undefined) conditions.push(eq(audit_events.action, query.action));
+        if (query.target_id !== undefined) conditions.push(eq(audit_events.target_id, query.target_id));
+        if (query.after !== undefined) conditions.push(gt(audit_events.created_at, query.after));
+        if (query.before !== undefined) conditions.push(lt(audit_events.created_at, query.before));
+        if (query.before_id !== undefined) conditions.push(lt(audit_events.id, query.before_id));
+
+        return this.db
+            .select()
+            .from(audit_events)
+            .where(and(...conditions))
+            .orderBy(desc(audit_events.id))
+            .limit(query.limit) as Promise<AuditEventRow[]>;
+    }
+
     // -- projects -------------------------------------------------------------
 
     async insertProject(name: string): Promise<ProjectRow | null> {
@@ -147,10 +701,78 @@ export class DrizzleAdapter implements StorageAdapter {
         return rows[0] ?? null;
     }
 
+    async findProject(id: number): Promise<ProjectDetailsRow | null> {
+        const rows = await this.db
+            .select({ id: projects.id, name: projects.name, created_at: projects.created_at })
+            .from(projects)
+            .where(eq(projects.id, id))
+            .limit(1);
+        return rows[0] ?? null;
+    }
+
+    async findProjects(query: ProjectQuery): Promise<ProjectDetailsRow[]> {
+        return this.db
+            .select({ id: projects.id, name: projects.name, created_at: projects.created_at })
+            .from(projects)
+            .where(query.after_id !== undefined ? gt(projects.id, query.after_id) : undefined)
+            .orderBy(asc(projects.id))
+            .limit(query.limit);
+    }
+
+    async updateProject(id: number, changes: ProjectUpdate) {
+        await this.db.update(projects).set(changes).where(eq(projects.id, id));
+    }
+
+    // the schema's ON DELETE CASCADE takes keys, nodes, webhooks and policies along
     async deleteProject(id: number) {
         await this.db.delete(projects).where(eq(projects.id, id));
     }
 
+    async findProjectActivity(projectId: number, from: string, until: string): Promise<ProjectActivityRow[]> {
+        return this.db
+            .select({
+                activity_day: project_activity_daily.activity_day,
+                source: project_activity_daily.source,
+                node_count: project_activity_daily.node_count,
+                message_count: project_activity_daily.message_count,
+                context_count: project_activity_daily.context_count,
+                root_context_count: project_activity_daily.root_context_count,
+                first_event_at: project_activity_daily.first_event_at,
+                last_event_at: project_activity_daily.last_event_at,
+            })
+            .from(project_activity_daily)
+            .where(
+                and(
+                    eq(project_activity_daily.project_id, projectId),
+                    gte(project_activity_daily.activity_day, from),
+                    lt(project_activity_daily.activity_day, until),
+                ),
+            )
+            .orderBy(asc(project_activity_daily.activity_day), asc(project_activity_daily.source));
+    }
+
+    async countProjectNodes(projectId: number) {
+        const rows = await this.db
+            .select({ count: sql<number>`count(*)::int` })
+            .from(nodes)
+            .where(eq(nodes.project_id, projectId));
+        return rows[0]?.count ?? 0;
+    }
+
+    async findProjectNodes(projectId: number, afterId: number, limit: number): Promise<NodeRow[]> {
+        const rows = await this.db
+            .select()
+            .from(nodes)
+            .where(and(eq(nodes.project_id, projectId), gt(nodes.id, afterId)))
+            .orderBy(asc(nodes.id))
+            .limit(limit);
+        return rows as NodeRow[];
+    }
+
+    async deleteProjectNodes(projectId: number) {
+        await this.db.delete(nodes).where(eq(nodes.project_id, projectId));
+    }
+
     // -- transactions ---------------------------------------------------------
 
     async transaction<T>(fn: (tx: StorageAdapter) => Promise<T>, options?: TransactionOptions): Promise<T> {
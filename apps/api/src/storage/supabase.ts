@@ -1,6 +1,86 @@
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 
-import type { StorageAdapter, NodeRow, NodeInsertRow, ApiKeyRow, ProjectRow, ContextFilters, TransactionOptions } from './types';
+import { orderNodes } from '../domain/context-chain';
+import { likePrefix, metadataFilters, metadataKeyPath, nestedMetadata } from '../domain/metadata-filters';
+import type {
+    StorageAdapter,
+    NodeRow,
+    NodeInsertRow,
+    NodeUpdate,
+    ApiKeyInsertRow,
+    ApiKeyMetadataRow,
+    ApiKeyRow,
+    ApiKeyUpdate,
+    AuditEventInsertRow,
+    AuditEventQuery,
+    AuditEventRow,
+    ProjectActivityRow,
+    ProjectDetailsRow,
+    ProjectQuery,
+    ProjectUpdate,
+    ProjectRow,
+    RetentionPolicyInsertRow,
+    RetentionPolicyRow,
+    VersionCountRow,
+    ContextFilters,
+    ContextPage,
+    MessageSearchQuery,
+    MessageSearchRow,
+    IdempotencyKeyInsertRow,
+    IdempotencyKeyRow,
+    IdempotencyScope,
+    TransactionOptions,
+    WebhookDeliveryInsertRow,
+    WebhookDeliveryRow,
+    WebhookDeliveryUpdate,
+    WebhookInsertRow,
+    WebhookRow,
+    WebhookUpdate,
+} from './types';
+
+// everything but key_hash
+const API_KEY_METADATA = 'id, project_id, key_prefix, name, created_at, last_used_at, expires_at, revoked_at, scopes, context_ids, metadata_filter';
+
+// one row of search_messages() (init.sql); message is the whole node as jsonb
+type SearchMessagesRpcRow = {
+    context_id: string;
+    context_metadata: Record<string, unknown>;
+    context_created_at: string;
+    message: NodeRow;
+    rank: number;
+    snippet: string;
+};
+
+// -- metadata filter helpers --------------------------------------------------
+
+// "a.b" -> metadata->a->>b
+function metadataColumn(key: string): string {
+    const path = metadataKeyPath(key);
+    return ['metadata', ...path.slice(0, -1)].join('->') + `->>${path[path.length - 1]}`;
+}
+
+// PostgREST value inside or()/in lists: quoted so commas and parens are literal
+function quoteFilterValue(value: string): string {
+    return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+// filters as search_messages() (init.sql) evaluates them
+function searchFilterSpec(filters?: ContextFilters) {
+    const spec = metadataFilters(filters).map((filter) => {
+        const negate = filter.negate ?? false;
+        switch (filter.op) {
+            case 'eq':
+                return { op: 'contains', value: nestedMetadata(filter.key, filter.value), negate };
+            case 'contains':
+                return { op: 'contains', value: filter.value, negate };
+            case 'in':
+                return { op: 'in', path: metadataKeyPath(filter.key), values: filter.values, negate };
+            case 'prefix':
+                return { op: 'prefix', path: metadataKeyPath(filter.key), value: filter.value, negate };
+        }
+    });
+    return filters?.ids ? [...spec, { op: 'ids', values: filters.ids, negate: false }] : spec;
+}
 
 // =============================================================================
 // SUPABASE ADAPTER — same interface via Supabase REST client
@@ -24,10 +104,22 @@ export class SupabaseAdapter implements StorageAdapter {
         return data ?? [];
     }
 
+    async findNodeByPublicId(publicId: string): Promise<NodeRow | null> {
+        const { data, error } = await this.client
+            .from('nodes')
+            .select('*')
+            .eq('public_id', publicId)
+            .limit(1)
+            .single();
+        if (error && error.code === 'PGRST116') return null;
+        if (error) throw error;
+        return data as NodeRow;
+    }
+
     async findContextBranches(contextId: string) {
         const { data, error } = await this.client
             .from('nodes')
-            .select('public_id, prev_id, created_at')
+            .select('public_id, prev_id, created_at, content')
             .eq('context_id', contextId)
             .eq('type', 'context');
         if (error) throw error;
@@ -55,6 +147,39 @@ export class SupabaseAdapter implements StorageAdapter {
         return (data ?? []) as NodeRow[];
     }
 
+    async findNonContextNodesBulk(contextIds: string[]): Promise<NodeRow[]> {
+        if (contextIds.length === 0) return [];
+        const { data, error } = await this.client
+            .from('nodes')
+            .select('*')
+            .in('context_id', contextIds)
+            .neq('type', 'context');
+        if (error) throw error;
+        return (data ?? []) as NodeRow[];
+    }
+
+    async countNonContextNodes(contextId: string) {
+        const { count, error } = await this.client
+            .from('nodes')
+            .select('id', { count: 'exact', head: true })
+            .eq('context_id', contextId)
+            .neq('type', 'context');
+        if (error) throw error;
+        return count ?? 0;
+    }
+
+    // PostgREST can't walk the prev_id chain (no recursive CTEs), so order in memory and slice
+    async findNodeRange(contextId: string, start: number, end: number): Promise<NodeRow[]> {
+        const ordered = orderNodes(await this.findNonContextNodes(contextId));
+        return ordered.slice(start, end);
+    }
+
+    async findNodePosition(contextId: string, publicId: string) {
+        const ordered = orderNodes(await this.findNonContextNodes(contextId));
+        const idx = ordered.findIndex((n) => n.public_id === publicId);
+        return idx === -1 ? null : idx;
+    }
+
     async findRootContext(projectId: number, publicId: string) {
         const { data, error } = await this.client
             .from('nodes')
@@ -63,6 +188,7 @@ export class SupabaseAdapter implements StorageAdapter {
             .eq('public_id', publicId)
             .eq('type', 'context')
             .is('context_id', null)
+            .is('deleted_at', null)
             .limit(1)
             .single();
         if (error && error.code === 'PGRST116') return null;
@@ -77,6 +203,7 @@ export class SupabaseAdapter implements StorageAdapter {
             .eq('public_id', publicId)
             .eq('type', 'context')
             .is('context_id', null)
+            .is('deleted_at', null)
             .limit(1)
             .single();
         if (error && error.code === 'PGRST116') return null;
@@ -84,32 +211,143 @@ export class SupabaseAdapter implements StorageAdapter {
         return data;
     }
 
-    async listRootContexts(projectId: number, limit: number, filters?: ContextFilters) {
+    async findTrashedContext(projectId: number, publicId: string) {
+        const { data, error } = await this.client
+            .from('nodes')
+            .select('public_id, deleted_at')
+            .eq('project_id', projectId)
+            .eq('public_id', publicId)
+            .eq('type', 'context')
+            .is('context_id', null)
+            .not('deleted_at', 'is', null)
+            .maybeSingle();
+        if (error) throw error;
+        return data;
+    }
+
+    async findExpiredTrash(deletedBefore: string, limit: number) {
+        const { data, error } = await this.client
+            .from('nodes')
+            .select('project_id, public_id')
+            .eq('type', 'context')
+            .is('context_id', null)
+            .lt('deleted_at', deletedBefore)
+            .order('deleted_at', { ascending: true })
+            .order('id', { ascending: true })
+            .limit(limit);
+        if (error) throw error;
+        return data ?? [];
+    }
+
+    // shared by list + count so both see the exact same filter set
+    private rootContextsQuery(projectId: number, filters?: ContextFilters, options?: { count: 'exact'; head: true }) {
         let query = this.client
             .from('nodes')
-            .select('public_id, metadata, created_at')
+            .select('id, public_id, metadata, created_at, deleted_at', options)
             .eq('project_id', projectId)
             .eq('type', 'context')
             .is('context_id', null);
+        query = filters?.trashed ? query.not('deleted_at', 'is', null) : query.is('deleted_at', null);
+
+        // metadata JSONB filters; negated in/prefix also keep rows missing the key
+        for (const filter of metadataFilters(filters)) {
+            if (filter.op === 'eq' || filter.op === 'contains') {
+                const value = filter.op === 'eq' ? nestedMetadata(filter.key, filter.value) : filter.value;
+                query = filter.negate ? query.not('metadata', 'cs', JSON.stringify(value)) : query.contains('metadata', value);
+            } else if (filter.op === 'in') {
+                const column = metadataColumn(filter.key);
+                query = filter.negate
+                    ? query.or(`${column}.is.null,${column}.not.in.(${filter.values.map(quoteFilterValue).join(',')})`)
+                    : query.in(column, filter.values);
+            } else {
+                const column = metadataColumn(filter.key);
+                const pattern = likePrefix(filter.value);
+                query = filter.negate ? query.or(`${column}.is.null,${column}.not.like.${quoteFilterValue(pattern)}`) : query.like(column, pattern);
+            }
+        }
 
-        // metadata JSONB filters
-        if (filters?.source) query = query.eq('metadata->>source', filters.source);
-        if (filters?.user_id) query = query.eq('metadata->>user_id', filters.user_id);
-        if (filters?.host) query = query.eq('metadata->>host', filters.host);
-        if (filters?.project_path) query = query.eq('metadata->>project_path', filters.project_path);
-        if (filters?.session_id) query = query.eq('metadata->>session_id', filters.session_id);
+        if (filters?.ids) query = query.in('public_id', filters.ids);
 
         // timestamp range filters
         if (filters?.after) query = query.gt('created_at', filters.after);
         if (filters?.before) query = query.lt('created_at', filters.before);
 
+        return query;
+    }
+
+    async listRootContexts(projectId: number, limit: number, filters?: ContextFilters, page?: ContextPage) {
+        const ascending = page?.order === 'asc';
+        let query = this.rootContextsQuery(projectId, filters);
+
+        // keyset: PostgREST has no row-value comparison, so expand it into an or()
+        if (page?.cursor) {
+            const op = ascending ? 'gt' : 'lt';
+            const createdAt = `"${page.cursor.created_at}"`;
+            query = query.or(`created_at.${op}.${createdAt},and(created_at.eq.${createdAt},id.${op}.${page.cursor.id})`);
+        }
+
         const { data, error } = await query
-            .order('created_at', { ascending: false })
+            .order('created_at', { ascending })
+            .order('id', { ascending })
             .limit(limit);
         if (error) throw error;
         return data ?? [];
     }
 
+    async countRootContexts(projectId: number, filters?: ContextFilters) {
+        const { count, error } = await this.rootContextsQuery(projectId, filters, { count: 'exact', head: true });
+        if (error) throw error;
+        return count ?? 0;
+    }
+
+    // PostgREST can't rank or highlight, so this goes through search_messages() (init.sql)
+    async searchMessages(projectId: number, query: MessageSearchQuery): Promise<MessageSearchRow[]> {
+        const { data, error } = await this.client.rpc('search_messages', {
+            p_project_id: projectId,
+            p_query: query.q,
+            p_filters: searchFilterSpec(query.filters),
+            p_after: query.filters?.after ?? null,
+            p_before: query.filters?.before ?? null,
+            p_limit: query.limit,
+            p_offset: query.offset ?? 0,
+        });
+        if (error) throw error;
+
+        return ((data ?? []) as SearchMessagesRpcRow[]).map((row) => ({
+            context: { public_id: row.context_id, metadata: row.context_metadata, created_at: row.context_created_at },
+            message: row.message,
+            rank: row.rank,
+            snippet: row.snippet,
+        }));
+    }
+
+    async findForks(projectId: number, parentIds: string[]) {
+        if (parentIds.length === 0) return [];
+        const { data, error } = await this.client
+            .from('nodes')
+            .select('public_id, parent_id, content, metadata, created_at')
+            .eq('project_id', projectId)
+            .eq('type', 'context')
+            .is('context_id', null)
+            .is('deleted_at', null)
+            .in('parent_id', parentIds)
+            .order('created_at', { ascending: true })
+            .order('id', { ascending: true });
+        if (error) throw error;
+        return data ?? [];
+    }
+
+    // grouping needs SQL, so this goes through contexts_over_version_limit() (init.sql)
+    async findContextsOverVersionLimit(projectId: number, maxVersions: number, limit: number): Promise<VersionCountRow[]> {
+        const { data, error } = await this.client.rpc('contexts_over_version_limit', {
+            p_project_id: projectId,
+            p_max_versions: maxVersions,
+            p_limit: limit,
+        });
+        if (error) throw error;
+        return (data ?? []) as VersionCountRow[];
+    }
+
     // -- nodes: mutations -----------------------------------------------------
 
     async insertNodes(values: NodeInsertRow | NodeInsertRow[]): Promise<Partial<NodeRow>[]> {
@@ -122,6 +360,33 @@ export class SupabaseAdapter implements StorageAdapter {
         return data ?? [];
     }
 
+    async updateNode(projectId: number, publicId: string, changes: NodeUpdate) {
+        const { error } = await this.client.from('nodes').update(changes).eq('project_id', projectId).eq('public_id', publicId);
+        if (error) throw error;
+    }
+
+    // a per-row update needs SQL, so this goes through rechain_nodes() (init.sql)
+    async rechainNodes(projectId: number, contextId: string, publicIds: string[]) {
+        if (publicIds.length === 0) return;
+        const { error } = await this.client.rpc('rechain_nodes', {
+            p_project_id: projectId,
+            p_context_id: contextId,
+            p_public_ids: publicIds,
+        });
+        if (error) throw error;
+    }
+
+    // one UPDATE with per-row values, so also an rpc: replace_node_references() (init.sql)
+    async replaceNodeReferences(projectId: number, contextIds: string[], replacements: Record<string, string>) {
+        if (contextIds.length === 0 || Object.keys(replacements).length === 0) return;
+        const { error } = await this.client.rpc('replace_node_references', {
+            p_project_id: projectId,
+            p_context_ids: contextIds,
+            p_replacements: replacements,
+        });
+        if (error) throw error;
+    }
+
     async deleteNodesByContextId(projectId: number, contextId: string) {
         const { error } = await this.client
             .from('nodes')
@@ -159,12 +424,34 @@ export class SupabaseAdapter implements StorageAdapter {
         if (error) throw error;
     }
 
+    async updateRootContextMetadata(projectId: number, publicId: string, metadata: Record<string, unknown>) {
+        const { error } = await this.client
+            .from('nodes')
+            .update({ metadata })
+            .eq('project_id', projectId)
+            .eq('public_id', publicId)
+            .eq('type', 'context')
+            .is('context_id', null);
+        if (error) throw error;
+    }
+
+    async setRootContextDeletedAt(projectId: number, publicId: string, deletedAt: string | null) {
+        const { error } = await this.client
+            .from('nodes')
+            .update({ deleted_at: deletedAt })
+            .eq('project_id', projectId)
+            .eq('public_id', publicId)
+            .eq('type', 'context')
+            .is('context_id', null);
+        if (error) throw error;
+    }
+
     // -- api keys -------------------------------------------------------------
 
     async findApiKeyByPrefix(prefix: string): Promise<ApiKeyRow | null> {
         const { data, error } = await this.client
             .from('api_keys')
-            .select('id, project_id, key_hash')
+            .select('id, project_id, key_hash, expires_at, revoked_at, scopes, context_ids, metadata_filter')
             .eq('key_prefix', prefix)
             .limit(1)
             .single();
@@ -173,9 +460,10 @@ export class SupabaseAdapter implements StorageAdapter {
         return data;
     }
 
-    async insertApiKey(values: { project_id: number; key_prefix: string; key_hash: string }) {
-        const { error } = await this.client.from('api_keys').insert(values);
+    async insertApiKey(values: ApiKeyInsertRow): Promise<ApiKeyMetadataRow> {
+        const { data, error } = await this.client.from('api_keys').insert(values).select(API_KEY_METADATA).single();
         if (error) throw error;
+        return data;
     }
 
     async updateApiKeyLastUsedAt(id: number, lastUsedAt: string) {
@@ -186,6 +474,252 @@ export class SupabaseAdapter implements StorageAdapter {
         if (error) throw error;
     }
 
+    async findApiKeys(projectId: number): Promise<ApiKeyMetadataRow[]> {
+        const { data, error } = await this.client
+            .from('api_keys')
+            .select(API_KEY_METADATA)
+            .eq('project_id', projectId)
+            .order('id', { ascending: true });
+        if (error) throw error;
+        return data ?? [];
+    }
+
+    async findApiKeyMetadataByPrefix(prefix: string): Promise<ApiKeyMetadataRow | null> {
+        const { data, error } = await this.client
+            .from('api_keys')
+            .select(API_KEY_METADATA)
+            .eq('key_prefix', prefix)
+            .limit(1)
+            .single();
+        if (error && error.code === 'PGRST116') return null;
+        if (error) throw error;
+        return data;
+    }
+
+    async updateApiKey(id: number, changes: ApiKeyUpdate) {
+        const { error } = await this.client
+            .from('api_keys')
+            .update(changes)
+            .eq('id', id);
+        if (error) throw error;
+    }
+
+    // -- idempotency keys -----------------------------------------------------
+
+    async findIdempotencyKeys(projectId: number, scope: IdempotencyScope, keys: string[]): Promise<IdempotencyKeyRow[]> {
+        if (keys.length === 0) return [];
+        const { data, error } = await this.client
+            .from('idempotency_keys')
+            .select('key, scope, fingerprint, status_code, response, created_at')
+            .eq('project_id', projectId)
+            .eq('scope', scope)
+            .in('key', keys);
+        if (error) throw error;
+        return (data ?? []) as IdempotencyKeyRow[];
+    }
+
+    async insertIdempotencyKeys(rows: IdempotencyKeyInsertRow[]) {
+        if (rows.length === 0) return;
+        const { error } = await this.client.from('idempotency_keys').insert(rows);
+        if (error) throw error;
+    }
+
+    async completeIdempotencyKey(projectId: number, scope: IdempotencyScope, key: string, statusCode: number, response: unknown) {
+        const { error } = await this.client
+            .from('idempotency_keys')
+            .update({ status_code: statusCode, response })
+            .eq('project_id', projectId)
+            .eq('scope', scope)
+            .eq('key', key);
+        if (error) throw error;
+    }
+
+    async deleteIdempotencyKeys(projectId: number, scope: IdempotencyScope, keys: string[]) {
+        if (keys.length === 0) return;
+        const { error } = await this.client
+            .from('idempotency_keys')
+            .delete()
+            .eq('project_id', projectId)
+            .eq('scope', scope)
+            .in('key', keys);
+        if (error) throw error;
+    }
+
+    // -- webhooks -------------------------------------------------------------
+
+    async findWebhooks(projectId: number): Promise<WebhookRow[]> {
+        const { data, error } = await this.client
+            .from('webhooks')
+            .select('*')
+            .eq('project_id', projectId)
+            .order('id', { ascending: true });
+        if (error) throw error;
+        return data ?? [];
+    }
+
+    async findWebhook(projectId: number, publicId: string): Promise<WebhookRow | null> {
+        const { data, error } = await this.client
+            .from('webhooks')
+            .select('*')
+            .eq('project_id', projectId)
+            .eq('public_id', publicId)
+            .maybeSingle();
+        if (error) throw error;
+        return data;
+    }
+
+    async findWebhookById(id: number): Promise<WebhookRow | null> {
+        const { data, error } = await this.client.from('webhooks').select('*').eq('id', id).maybeSingle();
+        if (error) throw error;
+        return data;
+    }
+
+    async insertWebhook(values: WebhookInsertRow): Promise<WebhookRow> {
+        const { data, error } = await this.client.from('webhooks').insert(values).select('*').single();
+        if (error) throw error;
+        return data;
+    }
+
+    async updateWebhook(projectId: number, publicId: string, changes: WebhookUpdate): Promise<WebhookRow | null> {
+        const { data, error } = await this.client
+            .from('webhooks')
+            .update(changes)
+            .eq('project_id', projectId)
+            .eq('public_id', publicId)
+            .select('*')
+            .maybeSingle();
+        if (error) throw error;
+        return data;
+    }
+
+    async deleteWebhook(projectId: number, publicId: string): Promise<boolean> {
+        const { data, error } = await this.client
+            .from('webhooks')
+            .delete()
+            .eq('project_id', projectId)
+            .eq('public_id', publicId)
+            .select('id');
+        if (error) throw error;
+        return (data ?? []).length > 0;
+    }
+
+    // -- webhook deliveries ---------------------------------------------------
+
+    async findWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDeliveryRow[]> {
+        const { data, error } = await this.client
+            .from('webhook_deliveries')
+            .select('*')
+            .eq('webhook_id', webhookId)
+            .order('id', { ascending: false })
+            .limit(limit);
+        if (error) throw error;
+        return data ?? [];
+    }
+
+    async findWebhookDelivery(webhookId: number, publicId: string): Promise<WebhookDeliveryRow | null> {
+        const { data, error } = await this.client
+            .from('webhook_deliveries')
+            .select('*')
+            .eq('webhook_id', webhookId)
+            .eq('public_id', publicId)
+            .maybeSingle();
+        if (error) throw error;
+        return data;
+    }
+
+    async findDueWebhookDeliveries(now: string, limit: number): Promise<WebhookDeliveryRow[]> {
+        const { data, error } = await this.client
+            .from('webhook_deliveries')
+            .select('*')
+            .eq('status', 'pending')
+            .lte('next_attempt_at', now)
+            .order('next_attempt_at', { ascending: true })
+            .limit(limit);
+        if (error) throw error;
+        return data ?? [];
+    }
+
+    async claimWebhookDelivery(id: number, now: string, leaseUntil: string): Promise<WebhookDeliveryRow | null> {
+        const { data, error } = await this.client
+            .from('webhook_deliveries')
+            .update({ next_attempt_at: leaseUntil, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .eq('status', 'pending')
+            .lte('next_attempt_at', now)
+            .select('*')
+            .maybeSingle();
+        if (error) throw error;
+        return data;
+    }
+
+    async insertWebhookDeliveries(rows: WebhookDeliveryInsertRow[]): Promise<WebhookDeliveryRow[]> {
+        if (rows.length === 0) return [];
+        const { data, error } = await this.client.from('webhook_deliveries').insert(rows).select('*');
+        if (error) throw error;
+        return data ?? [];
+    }
+
+    async updateWebhookDelivery(id: number, changes: WebhookDeliveryUpdate) {
+        const { error } = await this.client
+            .from('webhook_deliveries')
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq('id', id);
+        if (error) throw error;
+    }
+
+    // -- retention policies ---------------------------------------------------
+
+    async findRetentionPolicy(projectId: number): Promise<RetentionPolicyRow | null> {
+        const { data, error } = await this.client.from('retention_policies').select('*').eq('project_id', projectId).maybeSingle();
+        if (error) throw error;
+        return data;
+    }
+
+    async findRetentionPolicies(): Promise<RetentionPolicyRow[]> {
+        const { data, error } = await this.client.from('retention_policies').select('*').order('project_id', { ascending: true });
+        if (error) throw error;
+        return data ?? [];
+    }
+
+    async upsertRetentionPolicy(values: RetentionPolicyInsertRow): Promise<RetentionPolicyRow> {
+        const { data, error } = await this.client
+            .from('retention_policies')
+            .upsert({ ...values, updated_at: new Date().toISOString() }, { onConflict: 'project_id' })
+            .select('*')
+            .single();
+        if (error) throw error;
+        return data;
+    }
+
+    async deleteRetentionPolicy(projectId: number): Promise<boolean> {
+        const { data, error } = await this.client.from('retention_policies').delete().eq('project_id', projectId).select('project_id');
+        if (error) throw error;
+        return (data ?? []).length > 0;
+    }
+
+    // -- audit log ------------------------------------------------------------
+
+    async insertAuditEvents(rows: AuditEventInsertRow[]) {
+        if (rows.length === 0) return;
+        const { error } = await this.client.from('audit_events').insert(rows);
+        if (error) throw error;
+    }
+
+    async findAuditEvents(filters: AuditEventQuery): Promise<AuditEventRow[]> {
+        let query = this.client.from('audit_events').select('*');
+        if (filters.project_id !== undefined) query = query.eq('project_id', filters.project_id);
+        if (filters.api_key_id !== undefined) query = query.eq('api_key_id', filters.api_key_id);
+        if (filters.action !== undefined) query = query.eq('action', filters.action);
+        if (filters.target_id !== undefined) query = query.eq('target_id', filters.target_id);
+        if (filters.after !== undefined) query = query.gt('created_at', filters.after);
+        if (filters.before !== undefined) query = query.lt('created_at', filters.before);
+        if (filters.before_id !== undefined) query = query.lt('id', filters.before_id);
+
+        const { data, error } = await query.order('id', { ascending: false }).limit(filters.limit);
+        if (error) throw error;
+        return data ?? [];
+    }
+
     // -- projects -------------------------------------------------------------
 
     async insertProject(name: string): Promise<ProjectRow | null> {
@@ -198,11 +732,73 @@ export class SupabaseAdapter implements StorageAdapter {
         return data;
     }
 
+    async findProject(id: number): Promise<ProjectDetailsRow | null> {
+        const { data, error } = await this.client.from('projects').select('id, name, created_at').eq('id', id).maybeSingle();
+        if (error) throw error;
+        return data;
+    }
+
+    async findProjects(query: ProjectQuery): Promise<ProjectDetailsRow[]> {
+        let request = this.client.from('projects').select('id, name, created_at');
+        if (query.after_id !== undefined) request = request.gt('id', query.after_id);
+        const { data, error } = await request.order('id', { ascending: true }).limit(query.limit);
+        if (error) throw error;
+        return data ?? [];
+    }
+
+    async updateProject(id: number, changes: ProjectUpdate) {
+        const { error } = await this.client
+            .from('projects')
+            .update(changes)
+            .eq('id', id);
+        if (error) throw error;
+    }
+
+    // the schema's ON DELETE CASCADE takes keys, nodes, webhooks and policies along
     async deleteProject(id: number) {
         const { error } = await this.client.from('projects').delete().eq('id', id);
         if (error) throw error;
     }
 
+    async findProjectActivity(projectId: number, from: string, until: string): Promise<ProjectActivityRow[]> {
+        const { data, error } = await this.client
+            .from('project_activity_daily')
+            .select('activity_day, source, node_count, message_count, context_count, root_context_count, first_event_at, last_event_at')
+            .eq('project_id', projectId)
+            .gte('activity_day', from)
+            .lt('activity_day', until)
+            .order('activity_day', { ascending: true })
+            .order('source', { ascending: true });
+        if (error) throw error;
+        return data ?? [];
+    }
+
+    async countProjectNodes(projectId: number) {
+        const { count, error } = await this.client
+            .from('nodes')
+            .select('id', { count: 'exact', head: true })
+            .eq('project_id', projectId);
+        if (error) throw error;
+        return count ?? 0;
+    }
+
+    async findProjectNodes(projectId: number, afterId: number, limit: number): Promise<NodeRow[]> {
+        const { data, error } = await this.client
+            .from('nodes')
+            .select('*')
+            .eq('project_id', projectId)
+            .gt('id', afterId)
+            .order('id', { ascending: true })
+            .limit(limit);
+        if (error) throw error;
+        return data ?? [];
+    }
+
+    async deleteProjectNodes(projectId: number) {
+        const { error } = await this.client.from('nodes').delete().eq('project_id', projectId);
+        if (error) throw error;
+    }
+
     // -- transactions ---------------------------------------------------------
 
     // Supabase REST lacks multi-statement tx + isolation levels. Runs inline;
@@ -15,6 +15,8 @@ export type NodeRow = {
     parent_id: string | null;
     prev_id: string | null;
     context_id: string | null;
+    // root contexts only: when it was moved to the trash
+    deleted_at: string | null;
 };
 
 export type NodeInsertRow = {
@@ -26,20 +28,208 @@ export type NodeInsertRow = {
     context_id?: string | null;
     parent_id?: string | null;
     prev_id?: string | null;
+    // defaults to now; imports keep the original timestamps
+    created_at?: string;
+    deleted_at?: string | null;
 };
 
+// re-linking only: version pruning moves messages under the head that keeps them
+export type NodeUpdate = Partial<Pick<NodeRow, 'context_id' | 'prev_id' | 'content'>>;
+
 export type ApiKeyRow = {
     id: number;
     project_id: number;
     key_hash: string;
+    expires_at: string | null;
+    revoked_at: string | null;
+} & ApiKeyAccess;
+
+// null grants everything: every scope, every context of the project
+export type ApiKeyAccess = {
+    scopes: string[] | null;
+    context_ids: string[] | null;
+    // contexts whose metadata contains this
+    metadata_filter: Record<string, unknown> | null;
 };
 
+// never includes key_hash
+export type ApiKeyMetadataRow = {
+    id: number;
+    project_id: number;
+    key_prefix: string;
+    name: string | null;
+    created_at: string;
+    last_used_at: string | null;
+    // set on the old key when it's rotated; it keeps working until then
+    expires_at: string | null;
+    revoked_at: string | null;
+} & ApiKeyAccess;
+
+export type ApiKeyInsertRow = {
+    project_id: number;
+    key_prefix: string;
+    key_hash: string;
+    name?: string | null;
+} & Partial<ApiKeyAccess>;
+
+export type ApiKeyUpdate = Partial<Pick<ApiKeyMetadataRow, 'name' | 'expires_at' | 'revoked_at'>>;
+
 export type ProjectRow = {
     id: number;
 };
 
+export type ProjectDetailsRow = ProjectRow & {
+    name: string;
+    created_at: string;
+};
+
+// oldest first, paging by id
+export type ProjectQuery = {
+    after_id?: number;
+    limit: number;
+};
+
+export type ProjectUpdate = Partial<Pick<ProjectDetailsRow, 'name'>>;
+
+// one day and source of the project_activity_daily view
+export type ProjectActivityRow = {
+    activity_day: string;
+    // metadata.source, or 'unknown'
+    source: string;
+    node_count: number;
+    message_count: number;
+    context_count: number;
+    root_context_count: number;
+    first_event_at: string;
+    last_event_at: string;
+};
+
+// 'request' keys come from the Idempotency-Key header, 'message' keys from a
+// message's idempotency_key. fingerprint is the request line or the context id.
+export type IdempotencyScope = 'request' | 'message';
+
+export type IdempotencyKeyRow = {
+    key: string;
+    scope: IdempotencyScope;
+    fingerprint: string;
+    // null while the original request is still in flight
+    status_code: number | null;
+    response: unknown;
+    created_at: string;
+};
+
+export type IdempotencyKeyInsertRow = {
+    project_id: number;
+    scope: IdempotencyScope;
+    key: string;
+    fingerprint: string;
+    status_code?: number | null;
+    response?: unknown;
+};
+
+export type WebhookRow = {
+    id: number;
+    public_id: string;
+    project_id: number;
+    url: string;
+    // HMAC key for the signature header; stored as-is since it signs, not verifies
+    secret: string;
+    // context event types this webhook receives
+    events: string[];
+    active: boolean;
+    created_at: string;
+};
+
+export type WebhookInsertRow = Pick<WebhookRow, 'public_id' | 'project_id' | 'url' | 'secret' | 'events'>;
+
+export type WebhookUpdate = Partial<Pick<WebhookRow, 'url' | 'events' | 'active'>>;
+
+// pending until an attempt gets a 2xx (succeeded) or attempts run out (failed)
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export type WebhookDeliveryRow = {
+    id: number;
+    public_id: string;
+    webhook_id: number;
+    // the context event's id; redeliveries reuse it so receivers can dedupe
+    event_id: string;
+    event_type: string;
+    payload: Record<string, unknown>;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    response_status: number | null;
+    last_error: string | null;
+    next_attempt_at: string | null;
+    created_at: string;
+    updated_at: string;
+};
+
+export type WebhookDeliveryInsertRow = Pick<WebhookDeliveryRow, 'public_id' | 'webhook_id' | 'event_id' | 'event_type' | 'payload' | 'next_attempt_at'>;
+
+export type WebhookDeliveryUpdate = Partial<
+    Pick<WebhookDeliveryRow, 'status' | 'attempts' | 'response_status' | 'last_error' | 'next_attempt_at'>
+>;
+
+export type RetentionPolicyRow = {
+    project_id: number;
+    // contexts created longer ago are deleted; null keeps them
+    max_age_days: number | null;
+    // narrows max_age_days to contexts whose metadata has these string values
+    metadata: Record<string, string> | null;
+    // newest versions kept per context; null keeps every version
+    max_versions: number | null;
+    created_at: string;
+    updated_at: string;
+};
+
+export type RetentionPolicyInsertRow = Pick<RetentionPolicyRow, 'project_id' | 'max_age_days' | 'metadata' | 'max_versions'>;
+
+// a root context and how many versions (heads) it has
+export type VersionCountRow = {
+    public_id: string;
+    versions: number;
+};
+
+export type AuditActor = 'api_key' | 'admin' | 'system';
+
+export type AuditEventRow = {
+    id: number;
+    project_id: number | null;
+    // set when actor is 'api_key'
+    api_key_id: number | null;
+    actor: AuditActor;
+    action: string;
+    // context public id, or key prefix for key operations
+    target_id: string | null;
+    // user-supplied, as sent with the request
+    metadata: Record<string, unknown> | null;
+    details: Record<string, unknown>;
+    created_at: string;
+};
+
+export type AuditEventInsertRow = Omit<AuditEventRow, 'id' | 'created_at'>;
+
+// newest first; before_id is the exclusive keyset bound for the next page
+export type AuditEventQuery = {
+    project_id?: number;
+    api_key_id?: number;
+    action?: string;
+    target_id?: string;
+    after?: string;
+    before?: string;
+    before_id?: number;
+    limit: number;
+};
+
 // -- Metadata filters for listing contexts ------------------------------------
 
+// `key` is a dot path into nested metadata; eq/in/prefix compare string values.
+// negate keeps contexts where the key is missing.
+export type MetadataFilter =
+    | { op: 'eq' | 'prefix'; key: string; value: string; negate?: boolean }
+    | { op: 'in'; key: string; values: string[]; negate?: boolean }
+    | { op: 'contains'; value: Record<string, unknown>; negate?: boolean };
+
 export type ContextFilters = {
     source?: string;
     user_id?: string;
@@ -48,6 +238,44 @@ export type ContextFilters = {
     session_id?: string;
     after?: string;
     before?: string;
+    // ANDed with the named keys above
+    metadata?: MetadataFilter[];
+    // only these root contexts (a key restricted to them)
+    ids?: string[];
+    // only trashed contexts instead of only live ones
+    trashed?: boolean;
+};
+
+// -- Full-text message search -------------------------------------------------
+
+// filters apply to the root context, like listRootContexts
+export type MessageSearchQuery = {
+    q: string;
+    filters?: ContextFilters;
+    limit: number;
+    offset?: number;
+};
+
+// matches in any version of a context; the caller checks the current head
+export type MessageSearchRow = {
+    context: Pick<NodeRow, 'public_id' | 'metadata' | 'created_at'>;
+    message: NodeRow;
+    rank: number;
+    // matched terms wrapped in <mark></mark>
+    snippet: string;
+};
+
+// -- Keyset pagination for listing contexts -----------------------------------
+
+export type ContextCursor = {
+    created_at: string;
+    id: number;
+};
+
+export type ContextPage = {
+    // exclusive keyset bound on (created_at, id) in the direction of `order`
+    cursor?: ContextCursor;
+    order?: 'asc' | 'desc';
 };
 
 // -- Storage adapter interface ------------------------------------------------
@@ -55,29 +283,111 @@ export type ContextFilters = {
 export interface StorageAdapter {
     // nodes — queries
     findNodesByContextId(contextId: string, columns?: (keyof NodeRow)[]): Promise<Partial<NodeRow>[]>;
-    findContextBranches(contextId: string): Promise<Pick<NodeRow, 'public_id' | 'prev_id' | 'created_at'>[]>;
+    findNodeByPublicId(publicId: string): Promise<NodeRow | null>;
+    findContextBranches(contextId: string): Promise<Pick<NodeRow, 'public_id' | 'prev_id' | 'created_at' | 'content'>[]>;
     findVersions(contextId: string): Promise<Pick<NodeRow, 'public_id' | 'created_at' | 'metadata'>[]>;
     findNonContextNodes(contextId: string): Promise<NodeRow[]>;
+    // same as findNonContextNodes across several contexts (single query)
+    findNonContextNodesBulk(contextIds: string[]): Promise<NodeRow[]>;
+    // positional reads over one context's prev_id chain (0-based, end exclusive)
+    countNonContextNodes(contextId: string): Promise<number>;
+    findNodeRange(contextId: string, start: number, end: number): Promise<NodeRow[]>;
+    findNodePosition(contextId: string, publicId: string): Promise<number | null>;
+    // live contexts only: a trashed context is not found until it's restored
     findRootContext(projectId: number, publicId: string): Promise<Pick<NodeRow, 'public_id'> | null>;
     findRootContextByPublicId(publicId: string): Promise<Pick<NodeRow, 'public_id'> | null>;
-    listRootContexts(projectId: number, limit: number, filters?: ContextFilters): Promise<Pick<NodeRow, 'public_id' | 'metadata' | 'created_at'>[]>;
+    findTrashedContext(projectId: number, publicId: string): Promise<Pick<NodeRow, 'public_id' | 'deleted_at'> | null>;
+    // trashed before deletedBefore, across projects, oldest first
+    findExpiredTrash(deletedBefore: string, limit: number): Promise<Pick<NodeRow, 'project_id' | 'public_id'>[]>;
+    listRootContexts(
+        projectId: number,
+        limit: number,
+        filters?: ContextFilters,
+        page?: ContextPage,
+    ): Promise<Pick<NodeRow, 'id' | 'public_id' | 'metadata' | 'created_at' | 'deleted_at'>[]>;
+    countRootContexts(projectId: number, filters?: ContextFilters): Promise<number>;
+    // ranked by relevance, then newest first
+    searchMessages(projectId: number, query: MessageSearchQuery): Promise<MessageSearchRow[]>;
+    // root contexts forked from any of parentIds (root parent_id)
+    findForks(projectId: number, parentIds: string[]): Promise<Pick<NodeRow, 'public_id' | 'parent_id' | 'content' | 'metadata' | 'created_at'>[]>;
+
+    // root contexts with more than maxVersions versions, most versions first
+    findContextsOverVersionLimit(projectId: number, maxVersions: number, limit: number): Promise<VersionCountRow[]>;
 
     // nodes — mutations
     insertNodes(values: NodeInsertRow | NodeInsertRow[]): Promise<Partial<NodeRow>[]>;
+    updateNode(projectId: number, publicId: string, changes: NodeUpdate): Promise<void>;
+    // moves publicIds into contextId, each prev_id pointing at the one before it (single query)
+    rechainNodes(projectId: number, contextId: string, publicIds: string[]): Promise<void>;
+    // points prev_id and parent_id of nodes in contextIds from each key of replacements to its value (single query)
+    replaceNodeReferences(projectId: number, contextIds: string[], replacements: Record<string, string>): Promise<void>;
     deleteNodesByContextId(projectId: number, contextId: string): Promise<void>;
     deleteNodeByPublicId(projectId: number, publicId: string): Promise<void>;
     clearParentReferences(projectId: number, parentId: string): Promise<void>;
     // batch-clear parent_id for all nodes whose parent_id is any of parentIds (single query)
     clearParentReferencesBulk(projectId: number, parentIds: string[]): Promise<void>;
+    updateRootContextMetadata(projectId: number, publicId: string, metadata: Record<string, unknown>): Promise<void>;
+    // null restores the context from the trash
+    setRootContextDeletedAt(projectId: number, publicId: string, deletedAt: string | null): Promise<void>;
 
     // api keys
     findApiKeyByPrefix(prefix: string): Promise<ApiKeyRow | null>;
-    insertApiKey(values: { project_id: number; key_prefix: string; key_hash: string }): Promise<void>;
+    insertApiKey(values: ApiKeyInsertRow): Promise<ApiKeyMetadataRow>;
     updateApiKeyLastUsedAt(id: number, lastUsedAt: string): Promise<void>;
+    findApiKeys(projectId: number): Promise<ApiKeyMetadataRow[]>;
+    findApiKeyMetadataByPrefix(prefix: string): Promise<ApiKeyMetadataRow | null>;
+    updateApiKey(id: number, changes: ApiKeyUpdate): Promise<void>;
+
+    // idempotency keys — insert throws on a (project_id, scope, key) conflict
+    findIdempotencyKeys(projectId: number, scope: IdempotencyScope, keys: string[]): Promise<IdempotencyKeyRow[]>;
+    insertIdempotencyKeys(rows: IdempotencyKeyInsertRow[]): Promise<void>;
+    completeIdempotencyKey(projectId: number, scope: IdempotencyScope, key: string, statusCode: number, response: unknown): Promise<void>;
+    deleteIdempotencyKeys(projectId: number, scope: IdempotencyScope, keys: string[]): Promise<void>;
+
+    // webhooks
+    findWebhooks(projectId: number): Promise<WebhookRow[]>;
+    findWebhook(projectId: number, publicId: string): Promise<WebhookRow | null>;
+    findWebhookById(id: number): Promise<WebhookRow | null>;
+    insertWebhook(values: WebhookInsertRow): Promise<WebhookRow>;
+    updateWebhook(projectId: number, publicId: string, changes: WebhookUpdate): Promise<WebhookRow | null>;
+    deleteWebhook(projectId: number, publicId: string): Promise<boolean>;
+
+    // webhook deliveries — newest first
+    findWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDeliveryRow[]>;
+    findWebhookDelivery(webhookId: number, publicId: string): Promise<WebhookDeliveryRow | null>;
+    // pending deliveries whose next attempt is due, oldest first
+    findDueWebhookDeliveries(now: string, limit: number): Promise<WebhookDeliveryRow[]>;
+    // atomically pushes a due pending delivery's next attempt to leaseUntil;
+    // null when it isn't due (any more), i.e. another sender claimed it
+    claimWebhookDelivery(id: number, now: string, leaseUntil: string): Promise<WebhookDeliveryRow | null>;
+    insertWebhookDeliveries(rows: WebhookDeliveryInsertRow[]): Promise<WebhookDeliveryRow[]>;
+    updateWebhookDelivery(id: number, changes: WebhookDeliveryUpdate): Promise<void>;
+
+    // retention policies — one per project
+    findRetentionPolicy(projectId: number): Promise<RetentionPolicyRow | null>;
+    findRetentionPolicies(): Promise<RetentionPolicyRow[]>;
+    upsertRetentionPolicy(values: RetentionPolicyInsertRow): Promise<RetentionPolicyRow>;
+    deleteRetentionPolicy(projectId: number): Promise<boolean>;
+
+    // audit log — append-only
+    insertAuditEvents(rows: AuditEventInsertRow[]): Promise<void>;
+    findAuditEvents(query: AuditEventQuery): Promise<AuditEventRow[]>;
 
     // projects
     insertProject(name: string): Promise<ProjectRow | null>;
+    findProject(id: number): Promise<ProjectDetailsRow | null>;
+    findProjects(query: ProjectQuery): Promise<ProjectDetailsRow[]>;
+    updateProject(id: number, changes: ProjectUpdate): Promise<void>;
+    // everything the project owns goes with it, except its audit log
     deleteProject(id: number): Promise<void>;
+    // activity days in [from, until), by day then source
+    findProjectActivity(projectId: number, from: string, until: string): Promise<ProjectActivityRow[]>;
+
+    // every node of a project (roots, heads, messages), in id order — backups page through these
+    countProjectNodes(projectId: number): Promise<number>;
+    findProjectNodes(projectId: number, afterId: number, limit: number): Promise<NodeRow[]>;
+    // undoes a failed restore, which always starts on an empty project
+    deleteProjectNodes(projectId: number): Promise<void>;
 
     // transactions — adapter-specific atomicity (tx on Drizzle, no-op on Supabase REST)
     transaction<T>(fn: (tx: StorageAdapter) => Promise<T>, options?: TransactionOptions): Promise<T>;
@@ -86,5 +396,6 @@ export interface StorageAdapter {
 export type TransactionOptions = {
     // 'serializable' turns on Postgres SSI — concurrent conflicting txs get
     // a 40001 error, letting client retry. Required for append-vs-permanent-delete safety.
-    isolationLevel?: 'serializable';
+    // 'repeatable read' reads from one snapshot for the whole tx (backups).
+    isolationLevel?: 'serializable' | 'repeatable read';
 };
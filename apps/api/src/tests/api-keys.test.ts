@@ -0,0 +1,165 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { CachedKey, KeyCache } from '../cache/types';
+import { setupTestApp } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+type TestApp = Awaited<ReturnType<typeof setupTestApp>>;
+
+type KeyBody = {
+    key?: string;
+    prefix: string;
+    project_id: number;
+    name: string | null;
+    active: boolean;
+    expires_at: string | null;
+    revoked_at: string | null;
+    previous?: KeyBody;
+};
+
+class MapKeyCache implements KeyCache {
+    readonly entries = new Map<string, CachedKey>();
+
+    async get(prefix: string) {
+        return this.entries.get(prefix) ?? null;
+    }
+
+    async put(prefix: string, value: CachedKey) {
+        this.entries.set(prefix, value);
+    }
+
+    async delete(prefix: string) {
+        this.entries.delete(prefix);
+    }
+}
+
+async function admin(ctx: TestApp, method: string, path: string, body?: unknown) {
+    return ctx.app.request(`http://localhost${path}`, {
+        method,
+        headers: { Authorization: 'Bearer test-admin-key', 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+}
+
+async function adminJson(ctx: TestApp, method: string, path: string, body?: unknown) {
+    const res = await admin(ctx, method, path, body);
+    assert.equal(res.status, 200);
+    return (await res.json()) as KeyBody;
+}
+
+function listContexts(ctx: TestApp, key: string) {
+    return ctx.app.request('http://localhost/contexts', { headers: { Authorization: `Bearer ${key}` } });
+}
+
+function ownKeyPrefix(ctx: TestApp) {
+    return ctx.headers.Authorization.slice('Bearer '.length, 'Bearer '.length + 12);
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('POST /v1/keys', () => {
+    it('should add a named key to an existing project', async () => {
+        const ctx = await setupTestApp();
+        const created = await adminJson(ctx, 'POST', '/v1/keys', { name: 'dashboard', project_id: ctx.projectId });
+        assert.equal(created.project_id, ctx.projectId);
+        assert.equal(created.name, 'dashboard');
+        assert.equal((await listContexts(ctx, created.key!)).status, 200);
+
+        assert.equal((await admin(ctx, 'POST', '/v1/keys', { name: 'x', project_id: 999 })).status, 404);
+        assert.equal((await admin(ctx, 'POST', '/v1/keys', { name: 'x', project_id: 'abc' })).status, 400);
+    });
+});
+
+describe('GET /v1/keys', () => {
+    it('should list a project keys with last_used_at and no secrets', async () => {
+        const ctx = await setupTestApp();
+        await ctx.req('GET', '/contexts');
+        await adminJson(ctx, 'POST', '/v1/keys', { name: 'ci', project_id: ctx.projectId });
+
+        const res = await admin(ctx, 'GET', `/v1/keys?project_id=${ctx.projectId}`);
+        const { data } = (await res.json()) as { data: Array<KeyBody & { last_used_at: string | null }> };
+        assert.deepEqual(data.map((k) => k.name), [null, 'ci']);
+        assert.ok(data[0].last_used_at);
+        assert.equal(data[1].last_used_at, null);
+        assert.ok(data.every((k) => k.active && !('key' in k) && !('key_hash' in k)));
+
+        assert.equal((await admin(ctx, 'GET', '/v1/keys')).status, 400);
+        assert.equal((await admin(ctx, 'GET', '/v1/keys?project_id=999')).status, 404);
+        assert.equal((await ctx.req('GET', `/v1/keys?project_id=${ctx.projectId}`)).status, 401);
+    });
+});
+
+describe('PATCH /v1/keys/:prefix', () => {
+    it('should rename a key', async () => {
+        const ctx = await setupTestApp();
+        const prefix = ownKeyPrefix(ctx);
+
+        assert.equal((await adminJson(ctx, 'PATCH', `/v1/keys/${prefix}`, { name: 'daemon' })).name, 'daemon');
+        assert.equal((await adminJson(ctx, 'GET', `/v1/keys/${prefix}`)).name, 'daemon');
+        assert.equal((await admin(ctx, 'PATCH', `/v1/keys/${prefix}`, { name: '' })).status, 400);
+        assert.equal((await admin(ctx, 'PATCH', '/v1/keys/uc_live_nope', { name: 'x' })).status, 404);
+    });
+});
+
+describe('POST /v1/keys/:prefix/rotate', () => {
+    it('should keep the old key working for the grace period', async () => {
+        const ctx = await setupTestApp();
+        const prefix = ownKeyPrefix(ctx);
+
+        const rotated = await adminJson(ctx, 'POST', `/v1/keys/${prefix}/rotate`, { grace_seconds: 3600 });
+        assert.notEqual(rotated.prefix, prefix);
+        assert.equal(rotated.previous!.prefix, prefix);
+        assert.ok(Date.parse(rotated.previous!.expires_at!) > Date.now());
+
+        assert.equal((await ctx.req('GET', '/contexts')).status, 200);
+        assert.equal((await listContexts(ctx, rotated.key!)).status, 200);
+        assert.equal((await admin(ctx, 'POST', `/v1/keys/${prefix}/rotate`)).status, 409);
+
+        ctx.storage.getApiKeys().find((k) => k.key_prefix === prefix)!.expires_at = new Date(Date.now() - 1000).toISOString();
+        assert.equal((await ctx.req('GET', '/contexts')).status, 401);
+        assert.equal((await listContexts(ctx, rotated.key!)).status, 200);
+    });
+
+    it('should validate grace_seconds', async () => {
+        const ctx = await setupTestApp();
+        const res = await admin(ctx, 'POST', `/v1/keys/${ownKeyPrefix(ctx)}/rotate`, { grace_seconds: -1 });
+        assert.equal(res.status, 400);
+    });
+});
+
+describe('DELETE /v1/keys/:prefix', () => {
+    it('should revoke a key and evict it from the key cache', async () => {
+        const keyCache = new MapKeyCache();
+        const ctx = await setupTestApp({ keyCache });
+        const prefix = ownKeyPrefix(ctx);
+
+        assert.equal((await ctx.req('GET', '/contexts')).status, 200);
+        assert.ok(keyCache.entries.has(prefix));
+
+        const revoked = await adminJson(ctx, 'DELETE', `/v1/keys/${prefix}`);
+        assert.equal(revoked.active, false);
+        assert.ok(revoked.revoked_at);
+        assert.ok(!keyCache.entries.has(prefix));
+        assert.equal((await ctx.req('GET', '/contexts')).status, 401);
+
+        // repeatable, and recorded once
+        assert.equal((await adminJson(ctx, 'DELETE', `/v1/keys/${prefix}`)).revoked_at, revoked.revoked_at);
+        assert.deepEqual(ctx.storage.getAuditEvents().map((e) => e.action), ['key.revoke']);
+        assert.equal((await admin(ctx, 'POST', `/v1/keys/${prefix}/rotate`)).status, 409);
+    });
+
+    it('should evict a rotated key so its expiry is cached', async () => {
+        const keyCache = new MapKeyCache();
+        const ctx = await setupTestApp({ keyCache });
+        const prefix = ownKeyPrefix(ctx);
+        await ctx.req('GET', '/contexts');
+
+        const rotated = await adminJson(ctx, 'POST', `/v1/keys/${prefix}/rotate`);
+        assert.ok(!keyCache.entries.has(prefix));
+
+        await ctx.req('GET', '/contexts');
+        assert.equal(keyCache.entries.get(prefix)!.expiresAt, rotated.previous!.expires_at);
+    });
+});
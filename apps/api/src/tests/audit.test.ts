@@ -0,0 +1,136 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { purgeExpiredTrash } from '../domain/context-deletion';
+import { setupTestApp, createTestContext, appendMessages } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+type TestApp = Awaited<ReturnType<typeof setupTestApp>>;
+
+const ADMIN = { Authorization: 'Bearer test-admin-key' };
+
+async function listAudit(ctx: TestApp, query = '') {
+    const res = await ctx.app.request(`http://localhost/v1/audit${query}`, { headers: ADMIN });
+    assert.equal(res.status, 200);
+    return (await res.json()) as { data: Array<{ action: string; target_id: string }>; next_cursor: string | null };
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('audit log', () => {
+    it('should record context deletes with the key and audit metadata', async () => {
+        const ctx = await setupTestApp();
+        const trashed = await createTestContext(ctx.req);
+        const purged = await createTestContext(ctx.req);
+
+        await ctx.req('DELETE', `/contexts/${trashed}`, { permanent: true, metadata: { reason: 'cleanup', author: 'alice' } });
+        await ctx.req('DELETE', `/contexts/${purged}`, { purge: true, metadata: { reason: 'GDPR request' } });
+
+        const [purge, trash] = ctx.storage.getAuditEvents().slice().reverse();
+        assert.equal(trash.action, 'context.trash');
+        assert.equal(trash.actor, 'api_key');
+        assert.ok(trash.api_key_id);
+        assert.equal(trash.project_id, ctx.projectId);
+        assert.equal(trash.target_id, trashed);
+        assert.deepEqual(trash.metadata, { reason: 'cleanup', author: 'alice' });
+        assert.ok(trash.details.restorable_until);
+
+        assert.equal(purge.action, 'context.purge');
+        assert.equal(purge.target_id, purged);
+        assert.deepEqual(purge.metadata, { reason: 'GDPR request' });
+    });
+
+    it('should record delete-many, restores and expired trash purges', async () => {
+        const ctx = await setupTestApp();
+        const [a, b] = [await createTestContext(ctx.req), await createTestContext(ctx.req)];
+
+        await ctx.req('POST', '/contexts/delete-many', { ids: [a, b, 'ctx_nonexistent'] });
+        await ctx.req('POST', `/contexts/${a}/restore`);
+        ctx.storage.getNodesByPublicId(b)!.deleted_at = new Date(0).toISOString();
+        await purgeExpiredTrash(ctx.storage, 1000);
+
+        const events = ctx.storage.getAuditEvents().map((e) => [e.action, e.target_id, e.actor]);
+        assert.deepEqual(events, [
+            ['context.trash', a, 'api_key'],
+            ['context.trash', b, 'api_key'],
+            ['context.restore', a, 'api_key'],
+            ['context.purge', b, 'system'],
+        ]);
+    });
+
+    it('should record version-creating edits but not appends', async () => {
+        const ctx = await setupTestApp();
+        const contextId = await createTestContext(ctx.req);
+        const { data } = await appendMessages(ctx.req, contextId, [
+            { role: 'user', content: 'a' },
+            { role: 'assistant', content: 'b' },
+        ]);
+
+        await ctx.req('PATCH', `/contexts/${contextId}`, { id: data[0].id, content: 'a2', metadata: { author: 'bob' } });
+        await ctx.req('DELETE', `/contexts/${contextId}`, { ids: [data[1].id] });
+        await ctx.req('POST', `/contexts/${contextId}/revert`, { version: 0 });
+        await ctx.req('PATCH', `/contexts/${contextId}/metadata`, { team: 'core' });
+
+        const events = ctx.storage.getAuditEvents();
+        assert.deepEqual(events.map((e) => [e.action, e.details.version]), [
+            ['context.update', 1],
+            ['context.delete_messages', 2],
+            ['context.revert', 3],
+            ['context.metadata', 4],
+        ]);
+        assert.deepEqual(events[0].metadata, { author: 'bob' });
+        assert.deepEqual(events[1].details.ids, [data[1].id]);
+    });
+
+    it('should record key creation as the admin', async () => {
+        const ctx = await setupTestApp();
+        const res = await ctx.app.request('http://localhost/v1/keys', {
+            method: 'POST',
+            headers: { ...ADMIN, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name: 'ci' }),
+        });
+        const { prefix, project_id } = (await res.json()) as { prefix: string; project_id: number };
+
+        const [event] = ctx.storage.getAuditEvents();
+        assert.deepEqual(
+            { action: event.action, actor: event.actor, api_key_id: event.api_key_id, project_id: event.project_id, target_id: event.target_id },
+            { action: 'key.create', actor: 'admin', api_key_id: null, project_id, target_id: prefix },
+        );
+    });
+});
+
+describe('GET /v1/audit', () => {
+    it('should filter and page newest first', async () => {
+        const ctx = await setupTestApp();
+        const ids = [];
+        for (let i = 0; i < 3; i++) {
+            const contextId = await createTestContext(ctx.req);
+            await ctx.req('DELETE', `/contexts/${contextId}`);
+            ids.push(contextId);
+        }
+        await ctx.req('POST', `/contexts/${ids[0]}/restore`);
+
+        const first = await listAudit(ctx, '?action=context.trash&limit=2');
+        assert.deepEqual(first.data.map((e) => e.target_id), [ids[2], ids[1]]);
+        assert.ok(first.next_cursor);
+
+        const second = await listAudit(ctx, `?action=context.trash&limit=2&cursor=${first.next_cursor}`);
+        assert.deepEqual(second.data.map((e) => e.target_id), [ids[0]]);
+        assert.equal(second.next_cursor, null);
+
+        const byTarget = await listAudit(ctx, `?target_id=${ids[0]}&project_id=${ctx.projectId}`);
+        assert.deepEqual(byTarget.data.map((e) => e.action), ['context.restore', 'context.trash']);
+        assert.equal((await listAudit(ctx, '?project_id=999')).data.length, 0);
+    });
+
+    it('should require the admin key and validate filters', async () => {
+        const ctx = await setupTestApp();
+        assert.equal((await ctx.req('GET', '/v1/audit')).status, 401);
+
+        for (const query of ['?limit=0', '?limit=101', '?action=context.explode', '?project_id=abc', '?after=yesterday', '?cursor=nope']) {
+            const res = await ctx.app.request(`http://localhost/v1/audit${query}`, { headers: ADMIN });
+            assert.equal(res.status, 400, query);
+        }
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { SummarizeInput } from '../domain/summarizer';
+import { setupContext, getContext } from './helpers/app';
+
+// -- Tests --------------------------------------------------------------------
+
+describe('POST /contexts/:id/compact', () => {
+    it('should replace the range with the summary and record the folded ids', async () => {
+        const { req, contextId, ids } = await setupContext(5);
+
+        const res = await req('POST', `/contexts/${contextId}/compact`, {
+            from: 1,
+            to: ids[3],
+            summary: { role: 'system', content: 'summary of m1-m3', metadata: { kind: 'summary' } },
+        });
+        assert.equal(res.status, 200);
+        const body = await res.json();
+        assert.deepEqual(body.folded, ids.slice(1, 4));
+        assert.deepEqual(body.data.map((m: any) => m.content), ['m0', 'summary of m1-m3', 'm4']);
+        assert.deepEqual(body.data[1].metadata, { kind: 'summary' });
+
+        const head = await getContext(req, contextId, '?history=true');
+        assert.equal(head.versions[1].operation, 'compact');
+        assert.deepEqual(head.versions[1].affected, ids.slice(1, 4));
+    });
+
+    it('should keep the originals reachable through the previous version and parent_id', async () => {
+        const { req, storage, contextId, ids } = await setupContext(3);
+        const body = await (await req('POST', `/contexts/${contextId}/compact`, {
+            from: 0,
+            to: 1,
+            summary: { role: 'system', content: 'summary' },
+        })).json();
+
+        const previous = await getContext(req, contextId, '?version=0');
+        assert.deepEqual(previous.data.map((m: any) => m.id), ids);
+        assert.equal(storage.getNodesByPublicId(body.data[0].id)!.parent_id, ids[0]);
+    });
+
+    it('should call the configured summarizer when no summary is given', async () => {
+        const calls: SummarizeInput[] = [];
+        const summarizer = {
+            async summarize(input: SummarizeInput) {
+                calls.push(input);
+                return { role: 'system', content: `folded ${input.messages.length}` };
+            },
+        };
+        const { req, contextId } = await setupContext(4, { summarizer });
+
+        const body = await (await req('POST', `/contexts/${contextId}/compact`, { from: 0, to: 2 })).json();
+        assert.deepEqual(body.data.map((m: any) => m.content), ['folded 3', 'm3']);
+        assert.equal(calls.length, 1);
+        assert.deepEqual(calls[0].messages.map((m) => m.content), ['m0', 'm1', 'm2']);
+        assert.equal(calls[0].contextId, contextId);
+    });
+
+    it('should surface summarizer failures as 502 without creating a version', async () => {
+        const summarizer = {
+            async summarize(): Promise<Record<string, unknown>> {
+                throw new Error('model unavailable');
+            },
+        };
+        const { req, contextId } = await setupContext(2, { summarizer });
+
+        const res = await req('POST', `/contexts/${contextId}/compact`, { from: 0, to: 1 });
+        assert.equal(res.status, 502);
+        const head = await getContext(req, contextId);
+        assert.equal(head.version, 0);
+    });
+
+    it('should validate the range and summary', async () => {
+        const { req, contextId } = await setupContext(3);
+        const compact = (body: object) => req('POST', `/contexts/${contextId}/compact`, body);
+        const summary = { role: 'system', content: 's' };
+
+        assert.equal((await compact({ from: 0, to: 1 })).status, 400);
+        assert.equal((await compact({ from: 2, to: 0, summary })).status, 400);
+        assert.equal((await compact({ from: 0, to: 3, summary })).status, 400);
+        assert.equal((await compact({ from: 'msg_nonexistent', to: 1, summary })).status, 404);
+        assert.equal((await compact({ from: 0, summary })).status, 400);
+    });
+});
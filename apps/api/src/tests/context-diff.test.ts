@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { appendMessages, setupContext } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+async function getDiff(req: Function, contextId: string, query: string) {
+    const res = await req('GET', `/contexts/${contextId}/diff?${query}`);
+    return { status: res.status as number, body: await res.json() };
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('GET /contexts/:id/diff', () => {
+    it('should report modified messages with field-level changes', async () => {
+        const { req, contextId, ids } = await setupContext(3);
+        await req('PATCH', `/contexts/${contextId}`, { id: ids[1], content: 'edited', role: 'assistant' });
+
+        const { status, body } = await getDiff(req, contextId, 'from=0&to=1');
+        assert.equal(status, 200);
+        assert.deepEqual(body.added, []);
+        assert.deepEqual(body.removed, []);
+        assert.equal(body.modified.length, 1);
+
+        const [change] = body.modified;
+        assert.equal(change.from_id, ids[1]);
+        assert.equal(change.to_index, 1);
+        assert.deepEqual(change.changes.content, {
+            content: { from: 'm1', to: 'edited' },
+            role: { from: 'user', to: 'assistant' },
+        });
+        assert.equal(change.changes.metadata, undefined);
+    });
+
+    it('should report removed messages', async () => {
+        const { req, contextId, ids } = await setupContext(3);
+        await req('DELETE', `/contexts/${contextId}`, { ids: [ids[0]] });
+
+        const { body } = await getDiff(req, contextId, 'from=0&to=1');
+        assert.deepEqual(body.removed.map((m: any) => m.id), [ids[0]]);
+        assert.deepEqual(body.added, []);
+        assert.deepEqual(body.modified, []);
+    });
+
+    it('should report appended messages as added and default to the current version', async () => {
+        const { req, contextId, ids } = await setupContext(2);
+        await req('DELETE', `/contexts/${contextId}`, { ids: [ids[0]] });
+        await appendMessages(req, contextId, [{ role: 'assistant', content: 'late' }]);
+
+        const { body } = await getDiff(req, contextId, 'from=0');
+        assert.equal(body.to, 1);
+        assert.deepEqual(body.added.map((m: any) => m.content), ['late']);
+        assert.deepEqual(body.removed.map((m: any) => m.content), ['m0']);
+    });
+
+    it('should track a message edited across several versions', async () => {
+        const { req, contextId, ids } = await setupContext(2);
+        await req('PATCH', `/contexts/${contextId}`, { id: ids[0], content: 'v1' });
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'v2' });
+
+        const { body } = await getDiff(req, contextId, 'from=0&to=2');
+        assert.deepEqual(body.added, []);
+        assert.equal(body.modified.length, 1);
+        assert.deepEqual(body.modified[0].changes.content, { content: { from: 'm0', to: 'v2' } });
+
+        const reversed = await getDiff(req, contextId, 'from=2&to=0');
+        assert.deepEqual(reversed.body.modified[0].changes.content, { content: { from: 'v2', to: 'm0' } });
+    });
+
+    it('should return 400 without from and 404 for an unknown version', async () => {
+        const { req, contextId } = await setupContext(1);
+        assert.equal((await getDiff(req, contextId, '')).status, 400);
+        assert.equal((await getDiff(req, contextId, 'from=5')).status, 404);
+        assert.equal((await getDiff(req, contextId, 'from=0&to=abc')).status, 404);
+        assert.equal((await getDiff(req, 'ctx_nonexistent', 'from=0')).status, 404);
+    });
+});
@@ -0,0 +1,219 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { EVENT_AUTH_RECHECK_MS } from '../constants';
+import { MemoryEventSource } from '../events/memory';
+import { setupTestApp, createTestContext, appendMessages } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+type SseMessage = { event: string; id?: string; data: any };
+
+// reads `count` SSE messages off a streamed response, then disconnects
+async function readEvents(res: Response, count: number): Promise<SseMessage[]> {
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    const messages: SseMessage[] = [];
+    let buffer = '';
+
+    try {
+        while (messages.length < count) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            let end: number;
+            while ((end = buffer.indexOf('\n\n')) !== -1) {
+                const block = buffer.slice(0, end);
+                buffer = buffer.slice(end + 2);
+
+                const fields = new Map<string, string>();
+                for (const line of block.split('\n')) {
+                    if (line.startsWith(':')) continue;
+                    const sep = line.indexOf(': ');
+                    fields.set(line.slice(0, sep), line.slice(sep + 2));
+                }
+                if (!fields.has('data')) continue;
+                messages.push({ event: fields.get('event') ?? 'message', id: fields.get('id'), data: JSON.parse(fields.get('data')!) });
+            }
+        }
+    } finally {
+        await reader.cancel();
+    }
+    return messages;
+}
+
+// reads until the server ends the stream
+async function readUntilClosed(reader: ReadableStreamDefaultReader<Uint8Array>) {
+    while (!(await reader.read()).done);
+}
+
+async function setupEvents() {
+    const events = new MemoryEventSource();
+    const ctx = await setupTestApp({ events });
+    const contextId = await createTestContext(ctx.req);
+    return { ...ctx, events, contextId };
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('GET /contexts/:id/events', () => {
+    it('should stream appends, edits and deletes with their versions', async () => {
+        const { req, contextId } = await setupEvents();
+
+        const res = await req('GET', `/contexts/${contextId}/events`);
+        assert.equal(res.status, 200);
+        assert.match(res.headers.get('content-type')!, /text\/event-stream/);
+
+        const appended = await appendMessages(req, contextId, [{ role: 'user', content: 'hi' }, { role: 'user', content: 'there' }]);
+        const ids: string[] = appended.data.map((m: any) => m.id);
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'edited' });
+        await req('DELETE', `/contexts/${contextId}`, { ids: [ids[1]] });
+        await req('POST', `/contexts/${contextId}/revert`, { version: 0 });
+
+        const messages = await readEvents(res, 4);
+        assert.deepEqual(messages.map((m) => m.event), ['append', 'update', 'delete', 'revert']);
+        assert.deepEqual(messages.map((m) => m.data.version), [0, 1, 2, 3]);
+        assert.deepEqual(messages[0].data.data.messages.map((m: any) => m.content), ['hi', 'there']);
+        assert.equal(messages[1].data.data.operation, 'update');
+        assert.deepEqual(messages[1].data.data.messages.map((m: any) => m.content), ['edited']);
+        assert.deepEqual(messages[2].data.data.ids, [ids[1]]);
+        assert.equal(messages[3].data.data.source_version, 0);
+        assert.ok(messages.every((m) => m.data.context.id === contextId && m.id === m.data.id));
+    });
+
+    it('should replay events after Last-Event-ID', async () => {
+        const { req, contextId } = await setupEvents();
+
+        const first = await req('GET', `/contexts/${contextId}/events`);
+        await appendMessages(req, contextId, [{ role: 'user', content: 'one' }]);
+        const [seen] = await readEvents(first, 1);
+
+        await appendMessages(req, contextId, [{ role: 'user', content: 'two' }]);
+        await req('PATCH', `/contexts/${contextId}/metadata`, { topic: 'x' });
+
+        const resumed = await req('GET', `/contexts/${contextId}/events`, undefined, { 'Last-Event-ID': seen.id! });
+        const messages = await readEvents(resumed, 2);
+        assert.deepEqual(messages[0].data.data.messages.map((m: any) => m.content), ['two']);
+        assert.equal(messages[1].event, 'update');
+        assert.equal(messages[1].data.data.operation, 'metadata');
+    });
+
+    it('should send a reset event when the last id is no longer retained', async () => {
+        const events = new MemoryEventSource(1);
+        const { req } = await setupTestApp({ events });
+        const contextId = await createTestContext(req);
+        await appendMessages(req, contextId, [{ role: 'user', content: 'one' }]);
+        await appendMessages(req, contextId, [{ role: 'user', content: 'two' }]);
+        await appendMessages(req, contextId, [{ role: 'user', content: 'three' }]);
+
+        const res = await req('GET', `/contexts/${contextId}/events?last_event_id=1`);
+        const [reset] = await readEvents(res, 1);
+        assert.equal(reset.event, 'reset');
+        assert.equal(reset.data.last_event_id, '1');
+    });
+
+    it('should not announce replayed idempotent appends twice', async () => {
+        const { req, contextId } = await setupEvents();
+        const res = await req('GET', `/contexts/${contextId}/events`);
+
+        const message = { role: 'user', content: 'once', idempotency_key: 'k1' };
+        await appendMessages(req, contextId, [message]);
+        await appendMessages(req, contextId, [message, { role: 'user', content: 'fresh' }]);
+
+        const messages = await readEvents(res, 2);
+        assert.deepEqual(messages.map((m) => m.data.data.messages.map((x: any) => x.content)), [['once'], ['fresh']]);
+    });
+
+    it('should announce permanent deletes', async () => {
+        const { req, contextId } = await setupEvents();
+        const res = await req('GET', '/events');
+
+        await req('DELETE', `/contexts/${contextId}`, { purge: true });
+
+        const [deleted] = await readEvents(res, 1);
+        assert.equal(deleted.event, 'delete');
+        assert.equal(deleted.data.version, null);
+        assert.equal(deleted.data.data.permanent, true);
+        assert.equal(deleted.data.context.id, contextId);
+    });
+
+    it('should announce trashing and restores', async () => {
+        const { req, contextId } = await setupEvents();
+        const res = await req('GET', '/events');
+
+        await req('DELETE', `/contexts/${contextId}`);
+        await req('POST', `/contexts/${contextId}/restore`);
+
+        const [trashed, restored] = await readEvents(res, 2);
+        assert.equal(trashed.event, 'delete');
+        assert.equal(trashed.data.data.trashed, true);
+        assert.ok(trashed.data.data.restorable_until);
+        assert.equal(restored.event, 'restore');
+        assert.equal(restored.data.context.id, contextId);
+    });
+
+    it('should return 404 for an unknown context and 501 without an event source', async () => {
+        const { req } = await setupEvents();
+        assert.equal((await req('GET', '/contexts/ctx_nonexistent/events')).status, 404);
+
+        const plain = await setupTestApp();
+        const contextId = await createTestContext(plain.req);
+        assert.equal((await plain.req('GET', `/contexts/${contextId}/events`)).status, 501);
+        assert.equal((await plain.req('GET', '/events')).status, 501);
+    });
+});
+
+describe('GET /events', () => {
+    it('should stream every context in the project filtered by metadata', async () => {
+        const { req } = await setupEvents();
+        const res = await req('GET', '/events?source=claude&metadata.team[in]=a,b');
+
+        const matching = await (await req('POST', '/contexts', { metadata: { source: 'claude', team: 'a' } })).json();
+        const other = await (await req('POST', '/contexts', { metadata: { source: 'claude', team: 'c' } })).json();
+        const matchingId = matching.id as string;
+        const otherId = other.id as string;
+
+        await appendMessages(req, otherId, [{ role: 'user', content: 'skip' }]);
+        await appendMessages(req, matchingId, [{ role: 'user', content: 'keep' }]);
+
+        const [created, appended] = await readEvents(res, 2);
+        assert.equal(created.event, 'create');
+        assert.equal(created.data.context.id, matchingId);
+        assert.equal(appended.data.context.id, matchingId);
+        assert.deepEqual(appended.data.data.messages.map((m: any) => m.content), ['keep']);
+    });
+
+    it('should reject invalid filters', async () => {
+        const { req } = await setupEvents();
+        assert.equal((await req('GET', '/events?after=not-a-date')).status, 400);
+    });
+});
+
+describe('event stream lifetime', () => {
+    it('should end the stream when its token expires', { timeout: 5000 }, async () => {
+        const { app, req, contextId } = await setupEvents();
+        const minted = await (await req('POST', '/tokens', { expires_in: 1 })).json();
+
+        const res = await app.request(`http://localhost/contexts/${contextId}/events`, { headers: { Authorization: `Bearer ${minted.token}` } });
+        assert.equal(res.status, 200);
+        await readUntilClosed(res.body!.getReader());
+        assert.ok(Date.now() >= Date.parse(minted.expires_at));
+    });
+
+    it('should end the stream once its key is revoked', { timeout: 5000 }, async (t) => {
+        t.mock.timers.enable({ apis: ['setInterval'] });
+        const { req, storage, contextId } = await setupEvents();
+
+        const res = await req('GET', `/contexts/${contextId}/events`);
+        const reader = res.body!.getReader();
+        // the first event means the stream is set up, re-check included
+        await appendMessages(req, contextId, [{ role: 'user', content: 'hi' }]);
+        await reader.read();
+
+        const [key] = storage.getApiKeys();
+        await storage.updateApiKey(key.id, { revoked_at: new Date().toISOString() });
+        t.mock.timers.tick(EVENT_AUTH_RECHECK_MS);
+        await readUntilClosed(reader);
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { setupTestApp, createTestContext, appendMessages } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+async function fork(req: Function, body: object) {
+    const res = await req('POST', '/contexts', body);
+    assert.equal(res.status, 201);
+    const data = await res.json();
+    return data.id as string;
+}
+
+async function getLineage(req: Function, contextId: string) {
+    const res = await req('GET', `/contexts/${contextId}/lineage`);
+    return { status: res.status as number, body: await res.json() };
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('GET /contexts/:id/lineage', () => {
+    it('should return ancestors and descendants with fork points', async () => {
+        const { req } = await setupTestApp();
+        const rootId = await createTestContext(req);
+        const appended = await appendMessages(req, rootId, [
+            { role: 'user', content: 'm0' },
+            { role: 'user', content: 'm1' },
+            { role: 'user', content: 'm2' },
+        ]);
+        await req('PATCH', `/contexts/${rootId}`, { id: appended.data[0].id, content: 'edited' });
+
+        const childId = await fork(req, { from: rootId, version: 0, at: 1 });
+        const grandchildId = await fork(req, { from: childId });
+        const siblingId = await fork(req, { from: rootId, metadata: { label: 'sibling' } });
+
+        const { status, body } = await getLineage(req, childId);
+        assert.equal(status, 200);
+        assert.equal(body.id, childId);
+        assert.deepEqual(body.forked_from, { id: rootId, version: 0, index: 1 });
+        assert.deepEqual(body.ancestors.map((a: any) => a.id), [rootId]);
+        assert.equal(body.ancestors[0].forked_from, null);
+        assert.deepEqual(body.descendants.map((d: any) => [d.id, d.depth]), [[grandchildId, 1]]);
+        assert.deepEqual(body.descendants[0].forked_from, { id: childId, version: 0, index: 1 });
+
+        const fromRoot = await getLineage(req, rootId);
+        assert.deepEqual(fromRoot.body.ancestors, []);
+        assert.deepEqual(
+            fromRoot.body.descendants.map((d: any) => [d.id, d.depth]),
+            [[childId, 1], [siblingId, 1], [grandchildId, 2]],
+        );
+        const sibling = fromRoot.body.descendants.find((d: any) => d.id === siblingId);
+        assert.deepEqual(sibling.forked_from, { id: rootId, version: 1, index: 2 });
+        assert.deepEqual(sibling.metadata, { label: 'sibling' });
+
+        const fromGrandchild = await getLineage(req, grandchildId);
+        assert.deepEqual(fromGrandchild.body.ancestors.map((a: any) => a.id), [childId, rootId]);
+    });
+
+    it('should mark the source as deleted after a permanent delete', async () => {
+        const { req } = await setupTestApp();
+        const rootId = await createTestContext(req);
+        await appendMessages(req, rootId, [{ role: 'user', content: 'm0' }]);
+        const childId = await fork(req, { from: rootId });
+        const grandchildId = await fork(req, { from: childId });
+
+        assert.equal((await req('DELETE', `/contexts/${childId}`, { purge: true })).status, 200);
+
+        const { body } = await getLineage(req, grandchildId);
+        assert.deepEqual(body.forked_from, { id: childId, version: 0, index: 0, deleted: true });
+        assert.deepEqual(body.ancestors, []);
+
+        const fromRoot = await getLineage(req, rootId);
+        assert.deepEqual(fromRoot.body.descendants, []);
+    });
+
+    it('should return 404 for an unknown context', async () => {
+        const { req } = await setupTestApp();
+        assert.equal((await getLineage(req, 'ctx_nonexistent')).status, 404);
+    });
+});
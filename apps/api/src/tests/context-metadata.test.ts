@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { setupTestApp, createTestContext, appendMessages } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+async function createWithMetadata(req: Function, metadata: object) {
+    const res = await req('POST', '/contexts', { metadata });
+    assert.equal(res.status, 201);
+    const data = await res.json();
+    return data.id as string;
+}
+
+async function patchMetadata(req: Function, contextId: string, patch: unknown, headers: Record<string, string> = {}) {
+    const res = await req('PATCH', `/contexts/${contextId}/metadata`, patch, headers);
+    return { status: res.status as number, etag: res.headers.get('etag') as string | null, body: await res.json() };
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('PATCH /contexts/:id/metadata', () => {
+    it('should merge-patch root metadata', async () => {
+        const { req } = await setupTestApp();
+        const id = await createWithMetadata(req, { source: 'codex', tags: { a: 1, b: 2 }, stale: true });
+
+        const { status, etag, body } = await patchMetadata(req, id, { host: 'laptop', tags: { b: null, c: 3 }, stale: null });
+        assert.equal(status, 200);
+        assert.equal(etag, '"1"');
+        assert.equal(body.version, 1);
+        assert.deepEqual(body.metadata, { source: 'codex', host: 'laptop', tags: { a: 1, c: 3 } });
+        assert.deepEqual(body.changes, {
+            host: { to: 'laptop' },
+            tags: { from: { a: 1, b: 2 }, to: { a: 1, c: 3 } },
+            stale: { from: true },
+        });
+
+        const list = await req('GET', '/contexts?host=laptop');
+        const listed = await list.json();
+        assert.deepEqual(listed.data.map((c: any) => c.id), [id]);
+    });
+
+    it('should record changes in the version history without touching messages', async () => {
+        const { req } = await setupTestApp();
+        const id = await createTestContext(req);
+        await appendMessages(req, id, [{ role: 'user', content: 'hello' }]);
+
+        await patchMetadata(req, id, { session_id: 's1' });
+        await patchMetadata(req, id, { session_id: 's2' });
+
+        const res = await req('GET', `/contexts/${id}?history=true`);
+        const body = await res.json();
+        assert.equal(body.version, 2);
+        assert.deepEqual(body.data.map((m: any) => m.content), ['hello']);
+
+        const [, first, second] = body.versions;
+        assert.equal(first.operation, 'metadata');
+        assert.deepEqual(first.metadata_changes, { session_id: { to: 's1' } });
+        assert.deepEqual(second.metadata_changes, { session_id: { from: 's1', to: 's2' } });
+        assert.equal(second.metadata, undefined);
+    });
+
+    it('should not create a version for a patch that changes nothing', async () => {
+        const { req } = await setupTestApp();
+        const id = await createWithMetadata(req, { source: 'codex' });
+
+        const { status, body } = await patchMetadata(req, id, { source: 'codex', missing: null });
+        assert.equal(status, 200);
+        assert.equal(body.version, 0);
+        assert.deepEqual(body.changes, {});
+    });
+
+    it('should honour If-Match', async () => {
+        const { req } = await setupTestApp();
+        const id = await createTestContext(req);
+        await patchMetadata(req, id, { source: 'a' });
+
+        const stale = await patchMetadata(req, id, { source: 'b' }, { 'If-Match': '"0"' });
+        assert.equal(stale.status, 409);
+        assert.equal(stale.body.current_version, 1);
+
+        const fresh = await patchMetadata(req, id, { source: 'b' }, { 'If-Match': '"1"' });
+        assert.equal(fresh.status, 200);
+        assert.equal(fresh.body.metadata.source, 'b');
+    });
+
+    it('should validate the patch', async () => {
+        const { req } = await setupTestApp();
+        const id = await createTestContext(req);
+        assert.equal((await patchMetadata(req, id, ['source'])).status, 400);
+        assert.equal((await patchMetadata(req, id, { source: 42 })).status, 400);
+        assert.equal((await patchMetadata(req, 'ctx_nonexistent', { source: 'a' })).status, 404);
+    });
+});
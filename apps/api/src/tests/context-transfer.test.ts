@@ -0,0 +1,189 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { setupTestApp, createTestContext, appendMessages } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+async function setupEditedContext() {
+    const ctx = await setupTestApp();
+    const contextId = await createTestContext(ctx.req);
+    await ctx.req('PATCH', `/contexts/${contextId}/metadata`, { topic: 'billing' });
+    const appended = await appendMessages(ctx.req, contextId, [
+        { role: 'user', content: 'm0' },
+        { role: 'assistant', content: 'm1' },
+        { role: 'user', content: 'm2' },
+    ]);
+    const ids: string[] = appended.data.map((m: { id: string }) => m.id);
+    await ctx.req('PATCH', `/contexts/${contextId}`, { id: ids[1], content: 'edited' });
+    await ctx.req('DELETE', `/contexts/${contextId}`, { ids: [ids[0]] });
+    await ctx.req('POST', `/contexts/${contextId}/splice`, { start: 1, insert: [{ role: 'user', content: 'spliced' }] });
+    await ctx.req('POST', `/contexts/${contextId}/revert`, { version: 2 });
+    return { ...ctx, contextId, ids };
+}
+
+async function exportBundle(req: Function, contextId: string, query = '') {
+    const res = await req('GET', `/contexts/${contextId}/export${query}`);
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get('content-type')!, /application\/x-ndjson/);
+    return res.text() as Promise<string>;
+}
+
+// the test req() JSON-encodes bodies; bundles go up as raw NDJSON
+function importBundle(ctx: Awaited<ReturnType<typeof setupTestApp>>, bundle: string) {
+    return ctx.app.request('http://localhost/contexts/import', {
+        method: 'POST',
+        headers: { ...ctx.headers, 'Content-Type': 'application/x-ndjson' },
+        body: bundle,
+    });
+}
+
+async function history(req: Function, contextId: string) {
+    const res = await req('GET', `/contexts/${contextId}?history=true`);
+    assert.equal(res.status, 200);
+    const body = await res.json();
+    const contents = [];
+    for (const v of body.versions) {
+        const at = await (await req('GET', `/contexts/${contextId}?version=${v.version}`)).json();
+        contents.push(at.data.map((m: any) => m.content));
+    }
+    return { versions: body.versions.map((v: any) => v.operation), contents, metadata: body };
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('GET /contexts/:id/export', () => {
+    it('should stream the root, every version head and its nodes', async () => {
+        const { req, contextId, ids } = await setupEditedContext();
+        const lines = (await exportBundle(req, contextId)).trim().split('\n').map((l) => JSON.parse(l));
+
+        assert.equal(lines[0].kind, 'context');
+        assert.equal(lines[0].id, contextId);
+        assert.equal(lines[0].head_only, false);
+        assert.deepEqual(lines[0].metadata, { topic: 'billing' });
+
+        const versions = lines.filter((l) => l.kind === 'version');
+        assert.deepEqual(versions.map((v) => v.metadata.operation ?? 'create'), ['create', 'metadata', 'update', 'delete', 'splice', 'revert']);
+
+        const nodes = lines.filter((l) => l.kind === 'node');
+        assert.ok(ids.every((id) => nodes.some((n) => n.id === id)));
+        const edit = nodes.find((n) => n.content.content === 'edited');
+        assert.equal(edit.parent_id, ids[1]);
+        assert.ok(nodes.some((n) => n.type === 'tombstone' && n.parent_id === ids[0]));
+    });
+
+    it('should flatten the current head into one version with head_only', async () => {
+        const { req, contextId } = await setupEditedContext();
+        const lines = (await exportBundle(req, contextId, '?head_only=true')).trim().split('\n').map((l) => JSON.parse(l));
+
+        assert.equal(lines[0].head_only, true);
+        const versions = lines.filter((l) => l.kind === 'version');
+        assert.equal(versions.length, 1);
+        const nodes = lines.filter((l) => l.kind === 'node');
+        assert.deepEqual(nodes.map((n) => n.content.content), ['m0', 'edited', 'm2']);
+        assert.deepEqual(nodes.map((n) => n.prev_id), [null, nodes[0].id, nodes[1].id]);
+        assert.ok(nodes.every((n) => n.parent_id === null && n.context_id === versions[0].id));
+    });
+
+    it('should return 404 for an unknown context', async () => {
+        const { req } = await setupTestApp();
+        assert.equal((await req('GET', '/contexts/ctx_nonexistent/export')).status, 404);
+    });
+});
+
+describe('POST /contexts/import', () => {
+    it('should recreate every version under new ids', async () => {
+        const ctx = await setupEditedContext();
+        const { req, contextId, ids } = ctx;
+        const bundle = await exportBundle(req, contextId);
+
+        const res = await importBundle(ctx, bundle);
+        assert.equal(res.status, 201);
+        const imported = await res.json();
+        assert.notEqual(imported.id, contextId);
+        assert.equal(imported.version, 5);
+        assert.deepEqual(imported.metadata, { topic: 'billing' });
+
+        const original = await history(req, contextId);
+        const copy = await history(req, imported.id);
+        assert.deepEqual(copy.versions, original.versions);
+        assert.deepEqual(copy.contents, original.contents);
+
+        const head = await (await req('GET', `/contexts/${imported.id}`)).json();
+        assert.ok(head.data.every((m: any) => !ids.includes(m.id)));
+
+        // the copy is a live context: edits and diffs work on the new ids
+        const patched = await req('PATCH', `/contexts/${imported.id}`, { index: 0, content: 'after import' });
+        assert.equal(patched.status, 200);
+        const diff = await (await req('GET', `/contexts/${imported.id}/diff?from=1&to=2`)).json();
+        assert.equal(diff.modified.length, 1);
+        assert.deepEqual(diff.modified[0].changes.content, { content: { from: 'm1', to: 'edited' } });
+    });
+
+    it('should import a head-only bundle as a single version', async () => {
+        const ctx = await setupEditedContext();
+        const { req, contextId } = ctx;
+        const res = await importBundle(ctx, await exportBundle(req, contextId, '?head_only=true'));
+        assert.equal(res.status, 201);
+        const imported = await res.json();
+        assert.equal(imported.version, 0);
+
+        const head = await (await req('GET', `/contexts/${imported.id}`)).json();
+        assert.deepEqual(head.data.map((m: any) => m.content), ['m0', 'edited', 'm2']);
+    });
+
+    it('should import a fork as a standalone context', async () => {
+        const ctx = await setupEditedContext();
+        const { req, contextId } = ctx;
+        const forked = await (await req('POST', '/contexts', { from: contextId })).json();
+
+        const res = await importBundle(ctx, await exportBundle(req, forked.id));
+        const imported = await res.json();
+        const lineage = await (await req('GET', `/contexts/${imported.id}/lineage`)).json();
+        assert.deepEqual(lineage.ancestors, []);
+        assert.equal(lineage.forked_from, null);
+
+        const head = await (await req('GET', `/contexts/${imported.id}`)).json();
+        assert.deepEqual(head.data.map((m: any) => m.content), ['m0', 'edited', 'm2']);
+    });
+
+    it('should reject malformed bundles', async () => {
+        const ctx = await setupEditedContext();
+        const { req, contextId } = ctx;
+        const lines = (await exportBundle(req, contextId)).trim().split('\n');
+        const node = lines.map((l) => JSON.parse(l)).find((l) => l.kind === 'node');
+
+        const invalid = [
+            '',
+            'not json',
+            lines.slice(1).join('\n'),
+            lines[0],
+            [lines[0], lines[0], ...lines.slice(1)].join('\n'),
+            [...lines, JSON.stringify({ ...node, id: 'msg_x', prev_id: 'msg_missing' })].join('\n'),
+            [...lines, JSON.stringify({ ...node, id: 'msg_y', context_id: 'ctx_missing' })].join('\n'),
+            [JSON.stringify({ ...JSON.parse(lines[0]), format_version: 99 }), ...lines.slice(1)].join('\n'),
+        ];
+        for (const bundle of invalid) {
+            assert.equal((await importBundle(ctx, bundle)).status, 400, bundle.slice(0, 80));
+        }
+    });
+
+    it('should remove a partial import and hide the storage error', async () => {
+        const ctx = await setupEditedContext();
+        const bundle = await exportBundle(ctx.req, ctx.contextId);
+        const before = ctx.storage.getAllNodes().length;
+
+        // the rows land but the call fails, as can happen without a transaction
+        const insertNodes = ctx.storage.insertNodes.bind(ctx.storage);
+        ctx.storage.insertNodes = async (values) => {
+            await insertNodes(values);
+            throw new Error('connection to 10.0.0.5 reset');
+        };
+        const res = await importBundle(ctx, bundle);
+        ctx.storage.insertNodes = insertNodes;
+
+        assert.equal(res.status, 500);
+        assert.deepEqual(await res.json(), { error: 'Failed to import context' });
+        assert.equal(ctx.storage.getAllNodes().length, before);
+    });
+});
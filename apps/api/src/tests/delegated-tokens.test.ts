@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { signDelegatedToken, verifyDelegatedToken } from '../domain/delegated-tokens';
+import type { Auth } from '../types/api';
+import { setupTestApp, createTestContext } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+type TestApp = Awaited<ReturnType<typeof setupTestApp>>;
+
+type TokenBody = {
+    token: string;
+    expires_at: string;
+    scopes: string[] | null;
+    context_ids: string[] | null;
+    metadata_filter: Record<string, unknown> | null;
+};
+
+function withBearer(ctx: TestApp, token: string) {
+    return (method: string, path: string, body?: unknown) =>
+        ctx.app.request(`http://localhost${path}`, {
+            method,
+            headers: body === undefined ? { Authorization: `Bearer ${token}` } : { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+}
+
+async function mintToken(ctx: TestApp, body: unknown) {
+    const res = await ctx.req('POST', '/tokens', body);
+    assert.equal(res.status, 201);
+    return (await res.json()) as TokenBody;
+}
+
+const AUTH: Auth = { apiKeyId: 1, projectId: 1, scopes: null, contextIds: null, metadataFilter: null, delegated: false, expiresAt: null };
+
+// -- Tests --------------------------------------------------------------------
+
+describe('POST /tokens', () => {
+    it('should mint a read-only token for one context', async () => {
+        const ctx = await setupTestApp();
+        const allowed = await createTestContext(ctx.req);
+        const other = await createTestContext(ctx.req);
+
+        const minted = await mintToken(ctx, { scopes: ['contexts:read'], context_ids: [allowed] });
+        assert.match(minted.token, /^uc_tok_/);
+        assert.deepEqual(minted.scopes, ['contexts:read']);
+        assert.deepEqual(minted.context_ids, [allowed]);
+        const ttl = Date.parse(minted.expires_at) - Date.now();
+        assert.ok(ttl > 14 * 60_000 && ttl <= 15 * 60_000, `ttl ${ttl}`);
+
+        const req = withBearer(ctx, minted.token);
+        assert.equal((await req('GET', `/contexts/${allowed}`)).status, 200);
+        assert.equal((await req('GET', `/contexts/${other}`)).status, 404);
+        assert.equal((await req('POST', `/contexts/${allowed}`, [{ role: 'user', content: 'no' }])).status, 403);
+
+        // a token can't renew itself
+        assert.equal((await req('POST', '/tokens', {})).status, 403);
+    });
+
+    it('should not grant more than the minting key has', async () => {
+        const ctx = await setupTestApp();
+        const contextId = await createTestContext(ctx.req);
+        const scoped = await mintToken(ctx, { scopes: ['contexts:read'], metadata_filter: { team: 'core' } });
+        assert.equal(scoped.context_ids, null);
+
+        const keyRes = await ctx.app.request('http://localhost/v1/keys', {
+            method: 'POST',
+            headers: { Authorization: 'Bearer test-admin-key', 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name: 'narrow', project_id: ctx.projectId, scopes: ['contexts:read'], context_ids: [contextId], metadata_filter: { team: 'core' } }),
+        });
+        const req = withBearer(ctx, ((await keyRes.json()) as { key: string }).key);
+
+        assert.equal((await req('POST', '/tokens', { scopes: ['contexts:write'] })).status, 403);
+        assert.equal((await req('POST', '/tokens', { context_ids: [contextId, 'ctx_other'] })).status, 403);
+        assert.equal((await req('POST', '/tokens', { metadata_filter: { team: 'growth' } })).status, 403);
+
+        const narrower = (await (await req('POST', '/tokens', { metadata_filter: { team: 'core', source: 'claude' } })).json()) as TokenBody;
+        assert.deepEqual(narrower.scopes, ['contexts:read']);
+        assert.deepEqual(narrower.context_ids, [contextId]);
+        assert.deepEqual(narrower.metadata_filter, { team: 'core', source: 'claude' });
+    });
+
+    it('should validate expires_in', async () => {
+        const ctx = await setupTestApp();
+        for (const expires_in of [0, 3601, 1.5, '60']) {
+            assert.equal((await ctx.req('POST', '/tokens', { expires_in })).status, 400, String(expires_in));
+        }
+        const minted = await mintToken(ctx, { expires_in: 60 });
+        assert.ok(Date.parse(minted.expires_at) - Date.now() <= 60_000);
+    });
+
+    it('should answer 501 without a signing key', async () => {
+        const ctx = await setupTestApp({ config: { DATABASE_PROVIDER: 'postgres', DATABASE_URL: 'postgres://test', ULTRACONTEXT_ADMIN_KEY: 'test-admin-key' } });
+        assert.equal((await ctx.req('POST', '/tokens', {})).status, 501);
+    });
+});
+
+describe('delegated token verification', () => {
+    it('should reject expired, forged and foreign tokens', async () => {
+        const ctx = await setupTestApp();
+        const { token } = await mintToken(ctx, {});
+        assert.equal((await withBearer(ctx, token)('GET', '/contexts')).status, 200);
+
+        const [payload, signature] = token.slice('uc_tok_'.length).split('.');
+        const forged = `uc_tok_${payload.slice(0, -2)}AA.${signature}`;
+        assert.equal((await withBearer(ctx, forged)('GET', '/contexts')).status, 401);
+        assert.equal((await withBearer(ctx, 'uc_tok_garbage')('GET', '/contexts')).status, 401);
+
+        const foreign = await signDelegatedToken('another-secret', { ...AUTH, projectId: ctx.projectId }, 60);
+        assert.equal((await withBearer(ctx, foreign.token)('GET', '/contexts')).status, 401);
+
+        const expired = await signDelegatedToken('test-token-signing-key', { ...AUTH, projectId: ctx.projectId }, 60, Date.now() - 120_000);
+        assert.equal((await withBearer(ctx, expired.token)('GET', '/contexts')).status, 401);
+    });
+
+    it('should round-trip the narrowed access', async () => {
+        const auth: Auth = { ...AUTH, scopes: ['contexts:read'], contextIds: ['ctx_a'], metadataFilter: { team: 'core' } };
+        const { token, expiresAt } = await signDelegatedToken('secret', auth, 60);
+        assert.deepEqual(await verifyDelegatedToken('secret', token), { ...auth, delegated: true, expiresAt });
+        assert.equal(await verifyDelegatedToken('secret', token, Date.now() + 61_000), null);
+    });
+});
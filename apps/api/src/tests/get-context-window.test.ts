@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { setupContext } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+async function getWindow(req: Function, contextId: string, query: string) {
+    const res = await req('GET', `/contexts/${contextId}?${query}`);
+    return { status: res.status as number, body: await res.json() };
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('GET /contexts/:id windowed reads', () => {
+    it('should return every message with total when no window is given', async () => {
+        const { req, contextId } = await setupContext(4);
+        const { body } = await getWindow(req, contextId, '');
+        assert.equal(body.data.length, 4);
+        assert.equal(body.total, 4);
+    });
+
+    it('should slice by offset and limit, keeping absolute indexes', async () => {
+        const { req, contextId } = await setupContext(10);
+        const { body } = await getWindow(req, contextId, 'offset=3&limit=4');
+        assert.deepEqual(body.data.map((m: any) => m.content), ['m3', 'm4', 'm5', 'm6']);
+        assert.deepEqual(body.data.map((m: any) => m.index), [3, 4, 5, 6]);
+        assert.equal(body.total, 10);
+    });
+
+    it('should return the last N messages with tail', async () => {
+        const { req, contextId } = await setupContext(10);
+        const { body } = await getWindow(req, contextId, 'tail=3');
+        assert.deepEqual(body.data.map((m: any) => m.content), ['m7', 'm8', 'm9']);
+        assert.equal(body.data[0].index, 7);
+    });
+
+    it('should return an inclusive from_id/to_id range', async () => {
+        const { req, contextId, ids } = await setupContext(6);
+        const { body } = await getWindow(req, contextId, `from_id=${ids[1]}&to_id=${ids[3]}`);
+        assert.deepEqual(body.data.map((m: any) => m.id), ids.slice(1, 4));
+    });
+
+    it('should combine from_id with limit', async () => {
+        const { req, contextId, ids } = await setupContext(6);
+        const { body } = await getWindow(req, contextId, `from_id=${ids[2]}&limit=2`);
+        assert.deepEqual(body.data.map((m: any) => m.id), ids.slice(2, 4));
+    });
+
+    it('should return an empty page past the end', async () => {
+        const { req, contextId } = await setupContext(3);
+        const { status, body } = await getWindow(req, contextId, 'offset=10');
+        assert.equal(status, 200);
+        assert.deepEqual(body.data, []);
+        assert.equal(body.total, 3);
+    });
+
+    it('should window after an at prefix cut', async () => {
+        const { req, contextId } = await setupContext(8);
+        const { body } = await getWindow(req, contextId, 'at=4&tail=2');
+        assert.deepEqual(body.data.map((m: any) => m.content), ['m3', 'm4']);
+        assert.equal(body.total, 5);
+    });
+
+    it('should return 404 for an unknown from_id', async () => {
+        const { req, contextId } = await setupContext(3);
+        const { status } = await getWindow(req, contextId, 'from_id=msg_nonexistent');
+        assert.equal(status, 404);
+    });
+
+    it('should return 400 for invalid window params', async () => {
+        const { req, contextId } = await setupContext(3);
+        assert.equal((await getWindow(req, contextId, 'limit=0')).status, 400);
+        assert.equal((await getWindow(req, contextId, 'offset=-1')).status, 400);
+        assert.equal((await getWindow(req, contextId, 'tail=2&offset=1')).status, 400);
+    });
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+
+import { createApp, type AppOptions } from '../../app';
+import { generateKey, hashKey } from '../../domain/api-keys';
+import { KEY_PREFIX_LEN } from '../../constants';
+import type { ApiConfig } from '../../types/api';
+import { MemoryStorage } from './memory-storage';
+
+// -- Test helpers -------------------------------------------------------------
+
+const TEST_CONFIG: ApiConfig = {
+    DATABASE_PROVIDER: 'postgres',
+    DATABASE_URL: 'postgres://test',
+    ULTRACONTEXT_ADMIN_KEY: 'test-admin-key',
+    ULTRACONTEXT_TOKEN_SIGNING_KEY: 'test-token-signing-key',
+};
+
+export async function setupTestApp(overrides: Partial<Omit<AppOptions, 'storage'>> = {}) {
+    const storage = new MemoryStorage();
+    const app = createApp({ config: TEST_CONFIG, storage, ...overrides });
+
+    // create project + API key
+    const project = await storage.insertProject('test');
+    const apiKey = generateKey('test');
+    const prefix = apiKey.slice(0, KEY_PREFIX_LEN);
+    const hash = await hashKey(apiKey);
+    await storage.insertApiKey({ project_id: project!.id, key_prefix: prefix, key_hash: hash });
+
+    const headers = {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+    };
+
+    async function req(method: string, path: string, body?: unknown, extraHeaders: Record<string, string> = {}) {
+        const init: RequestInit = { method, headers: { ...headers, ...extraHeaders } };
+        if (body !== undefined) {
+            init.body = JSON.stringify(body);
+        } else if (method === 'DELETE') {
+            // No body — remove Content-Type
+            init.headers = { Authorization: headers.Authorization, ...extraHeaders };
+        }
+        return app.request(`http://localhost${path}`, init);
+    }
+
+    return { app, storage, req, headers, projectId: project!.id };
+}
+
+export async function createTestContext(req: Function) {
+    const res = await req('POST', '/contexts', {});
+    assert.equal(res.status, 201);
+    const data = await res.json();
+    return data.id as string;
+}
+
+export async function appendMessages(req: Function, contextId: string, messages: object[]) {
+    const res = await req('POST', `/contexts/${contextId}`, messages);
+    assert.equal(res.status, 201);
+    return res.json();
+}
+
+// a context holding `count` user messages m0, m1, ...
+export async function setupContext(count: number, overrides: Parameters<typeof setupTestApp>[0] = {}) {
+    const ctx = await setupTestApp(overrides);
+    const contextId = await createTestContext(ctx.req);
+    const appended = await appendMessages(
+        ctx.req,
+        contextId,
+        Array.from({ length: count }, (_, i) => ({ role: 'user', content: `m${i}` })),
+    );
+    const ids: string[] = appended.data.map((m: { id: string }) => m.id);
+    return { ...ctx, contextId, ids };
+}
+
+export async function getContext(req: Function, contextId: string, query = '') {
+    const res = await req('GET', `/contexts/${contextId}${query}`);
+    assert.equal(res.status, 200);
+    return res.json();
+}
@@ -0,0 +1,614 @@
+import { orderNodes } from '../../domain/context-chain';
+import { matchesMetadataFilters, metadataFilters } from '../../domain/metadata-filters';
+import type {
+    StorageAdapter,
+    NodeRow,
+    NodeInsertRow,
+    NodeUpdate,
+    ApiKeyInsertRow,
+    ApiKeyMetadataRow,
+    ApiKeyRow,
+    ApiKeyUpdate,
+    AuditEventInsertRow,
+    AuditEventQuery,
+    AuditEventRow,
+    ProjectActivityRow,
+    ProjectDetailsRow,
+    ProjectQuery,
+    ProjectUpdate,
+    ProjectRow,
+    RetentionPolicyInsertRow,
+    RetentionPolicyRow,
+    VersionCountRow,
+    ContextFilters,
+    ContextPage,
+    MessageSearchQuery,
+    MessageSearchRow,
+    IdempotencyKeyInsertRow,
+    IdempotencyKeyRow,
+    IdempotencyScope,
+    WebhookDeliveryInsertRow,
+    WebhookDeliveryRow,
+    WebhookDeliveryUpdate,
+    WebhookInsertRow,
+    WebhookRow,
+    WebhookUpdate,
+} from '../../storage/types';
+
+// -- In-memory storage adapter ------------------------------------------------
+
+function stringValues(value: unknown): string[] {
+    if (typeof value === 'string') return [value];
+    if (typeof value === 'object' && value !== null) return Object.values(value).flatMap(stringValues);
+    return [];
+}
+
+type StoredNode = NodeRow;
+
+export class MemoryStorage implements StorageAdapter {
+    private nodes: StoredNode[] = [];
+    private keys: Array<ApiKeyMetadataRow & { key_hash: string }> = [];
+    private idempotencyKeys: Array<IdempotencyKeyRow & { project_id: number }> = [];
+    private webhooks: WebhookRow[] = [];
+    private deliveries: WebhookDeliveryRow[] = [];
+    private projects: ProjectDetailsRow[] = [];
+    private retentionPolicies: RetentionPolicyRow[] = [];
+    private auditEvents: AuditEventRow[] = [];
+    private projectSeq = 0;
+    private nodeSeq = 0;
+
+    async findNodesByContextId(contextId: string): Promise<Partial<NodeRow>[]> {
+        return this.nodes
+            .filter((n) => n.context_id === contextId)
+            .map((n) => ({ public_id: n.public_id, prev_id: n.prev_id }));
+    }
+
+    async findNodeByPublicId(publicId: string) {
+        return this.nodes.find((n) => n.public_id === publicId) ?? null;
+    }
+
+    async findContextBranches(contextId: string) {
+        return this.nodes
+            .filter((n) => n.context_id === contextId && n.type === 'context')
+            .map((n) => ({ public_id: n.public_id, prev_id: n.prev_id, created_at: n.created_at, content: n.content }));
+    }
+
+    async findVersions(contextId: string) {
+        return this.nodes
+            .filter((n) => n.context_id === contextId && n.type === 'context')
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+            .map((n) => ({ public_id: n.public_id, created_at: n.created_at, metadata: n.metadata }));
+    }
+
+    async findNonContextNodes(contextId: string): Promise<NodeRow[]> {
+        return this.nodes.filter((n) => n.context_id === contextId && n.type !== 'context');
+    }
+
+    async findNonContextNodesBulk(contextIds: string[]): Promise<NodeRow[]> {
+        const set = new Set(contextIds);
+        return this.nodes.filter((n) => n.context_id !== null && set.has(n.context_id) && n.type !== 'context');
+    }
+
+    async countNonContextNodes(contextId: string) {
+        return (await this.findNonContextNodes(contextId)).length;
+    }
+
+    async findNodeRange(contextId: string, start: number, end: number) {
+        return orderNodes(await this.findNonContextNodes(contextId)).slice(start, end);
+    }
+
+    async findNodePosition(contextId: string, publicId: string) {
+        const idx = orderNodes(await this.findNonContextNodes(contextId)).findIndex((n) => n.public_id === publicId);
+        return idx === -1 ? null : idx;
+    }
+
+    async findRootContext(projectId: number, publicId: string) {
+        const n = this.nodes.find(
+            (n) => n.project_id === projectId && n.public_id === publicId && n.type === 'context' && n.context_id === null && n.deleted_at === null
+        );
+        return n ? { public_id: n.public_id } : null;
+    }
+
+    async findRootContextByPublicId(publicId: string) {
+        const n = this.nodes.find((n) => n.public_id === publicId && n.type === 'context' && n.context_id === null && n.deleted_at === null);
+        return n ? { public_id: n.public_id } : null;
+    }
+
+    async findTrashedContext(projectId: number, publicId: string) {
+        const n = this.nodes.find(
+            (n) => n.project_id === projectId && n.public_id === publicId && n.type === 'context' && n.context_id === null && n.deleted_at !== null
+        );
+        return n ? { public_id: n.public_id, deleted_at: n.deleted_at } : null;
+    }
+
+    async findExpiredTrash(deletedBefore: string, limit: number) {
+        return this.nodes
+            .filter((n) => n.type === 'context' && n.context_id === null && n.deleted_at !== null && n.deleted_at < deletedBefore)
+            .sort((a, b) => a.deleted_at!.localeCompare(b.deleted_at!) || a.id - b.id)
+            .slice(0, limit)
+            .map((n) => ({ project_id: n.project_id, public_id: n.public_id }));
+    }
+
+    async listRootContexts(projectId: number, limit: number, filters?: ContextFilters, page?: ContextPage) {
+        const dir = page?.order === 'asc' ? 1 : -1;
+        const cmp = (a: StoredNode, b: { created_at: string; id: number }) =>
+            a.created_at.localeCompare(b.created_at) || a.id - b.id;
+        return this.rootContexts(projectId, filters)
+            .filter((n) => !page?.cursor || cmp(n, page.cursor) * dir > 0)
+            .sort((a, b) => cmp(a, b) * dir)
+            .slice(0, limit)
+            .map((n) => ({ id: n.id, public_id: n.public_id, metadata: n.metadata, created_at: n.created_at, deleted_at: n.deleted_at }));
+    }
+
+    async countRootContexts(projectId: number, filters?: ContextFilters) {
+        return this.rootContexts(projectId, filters).length;
+    }
+
+    // word match on string values standing in for Postgres full-text search
+    async searchMessages(projectId: number, query: MessageSearchQuery): Promise<MessageSearchRow[]> {
+        const terms = query.q.toLowerCase().split(/\W+/).filter(Boolean);
+        const roots = new Map(this.rootContexts(projectId, query.filters).map((r) => [r.public_id, r]));
+        const pattern = new RegExp(`\\b(${terms.join('|')})\\w*`, 'gi');
+
+        const rows: MessageSearchRow[] = [];
+        for (const message of this.nodes) {
+            if (message.project_id !== projectId || message.type !== 'message' || terms.length === 0) continue;
+            const head = this.nodes.find((n) => n.public_id === message.context_id && n.type === 'context');
+            const root = head?.context_id ? roots.get(head.context_id) : undefined;
+            if (!root) continue;
+
+            const text = stringValues(message.content).join(' ');
+            const words = text.toLowerCase().split(/\W+/);
+            if (!terms.every((t) => words.some((w) => w.startsWith(t)))) continue;
+
+            rows.push({
+                context: { public_id: root.public_id, metadata: root.metadata, created_at: root.created_at },
+                message,
+                rank: words.filter((w) => terms.some((t) => w.startsWith(t))).length,
+                snippet: text.replace(pattern, '<mark>$&</mark>'),
+            });
+        }
+
+        rows.sort((a, b) => b.rank - a.rank || b.message.id - a.message.id);
+        const offset = query.offset ?? 0;
+        return rows.slice(offset, offset + query.limit);
+    }
+
+    async findForks(projectId: number, parentIds: string[]) {
+        return this.nodes.filter(
+            (n) =>
+                n.project_id === projectId &&
+                n.type === 'context' &&
+                n.context_id === null &&
+                n.deleted_at === null &&
+                n.parent_id !== null &&
+                parentIds.includes(n.parent_id),
+        );
+    }
+
+    async findContextsOverVersionLimit(projectId: number, maxVersions: number, limit: number): Promise<VersionCountRow[]> {
+        const counts = new Map<string, number>();
+        for (const n of this.nodes) {
+            if (n.project_id === projectId && n.type === 'context' && n.context_id !== null) {
+                counts.set(n.context_id, (counts.get(n.context_id) ?? 0) + 1);
+            }
+        }
+        return [...counts]
+            .filter(([, versions]) => versions > maxVersions)
+            .map(([public_id, versions]) => ({ public_id, versions }))
+            .sort((a, b) => b.versions - a.versions || a.public_id.localeCompare(b.public_id))
+            .slice(0, limit);
+    }
+
+    private rootContexts(projectId: number, filters?: ContextFilters) {
+        const { after, before } = filters ?? {};
+        return this.nodes.filter((n) =>
+            n.project_id === projectId &&
+            n.type === 'context' &&
+            n.context_id === null &&
+            (filters?.trashed ? n.deleted_at !== null : n.deleted_at === null) &&
+            matchesMetadataFilters(n.metadata, metadataFilters(filters)) &&
+            (!filters?.ids || filters.ids.includes(n.public_id)) &&
+            (!after || n.created_at > after) &&
+            (!before || n.created_at < before)
+        );
+    }
+
+    async insertNodes(values: NodeInsertRow | NodeInsertRow[]): Promise<Partial<NodeRow>[]> {
+        const rows = Array.isArray(values) ? values : [values];
+        const results: Partial<NodeRow>[] = [];
+        for (const row of rows) {
+            const node: StoredNode = {
+                id: ++this.nodeSeq,
+                public_id: row.public_id,
+                project_id: row.project_id,
+                type: row.type,
+                content: row.content ?? {},
+                metadata: row.metadata ?? {},
+                created_at: row.created_at ?? new Date().toISOString(),
+                parent_id: row.parent_id ?? null,
+                prev_id: row.prev_id ?? null,
+                context_id: row.context_id ?? null,
+                deleted_at: row.deleted_at ?? null,
+            };
+            this.nodes.push(node);
+            results.push({
+                public_id: node.public_id,
+                content: node.content,
+                metadata: node.metadata,
+                created_at: node.created_at,
+            });
+        }
+        return results;
+    }
+
+    async updateNode(projectId: number, publicId: string, changes: NodeUpdate) {
+        const node = this.nodes.find((n) => n.project_id === projectId && n.public_id === publicId);
+        if (node) Object.assign(node, changes);
+    }
+
+    async rechainNodes(projectId: number, contextId: string, publicIds: string[]) {
+        for (const [index, publicId] of publicIds.entries()) {
+            await this.updateNode(projectId, publicId, { context_id: contextId, prev_id: index === 0 ? null : publicIds[index - 1] });
+        }
+    }
+
+    async replaceNodeReferences(projectId: number, contextIds: string[], replacements: Record<string, string>) {
+        const contexts = new Set(contextIds);
+        for (const n of this.nodes) {
+            if (n.project_id !== projectId || !n.context_id || !contexts.has(n.context_id)) continue;
+            if (n.prev_id && replacements[n.prev_id]) n.prev_id = replacements[n.prev_id];
+            if (n.parent_id && replacements[n.parent_id]) n.parent_id = replacements[n.parent_id];
+        }
+    }
+
+    async deleteNodesByContextId(projectId: number, contextId: string) {
+        this.nodes = this.nodes.filter((n) => !(n.project_id === projectId && n.context_id === contextId));
+    }
+
+    async deleteNodeByPublicId(projectId: number, publicId: string) {
+        this.nodes = this.nodes.filter((n) => !(n.project_id === projectId && n.public_id === publicId));
+    }
+
+    async clearParentReferences(projectId: number, parentId: string) {
+        for (const n of this.nodes) {
+            if (n.project_id === projectId && n.parent_id === parentId) {
+                n.parent_id = null;
+            }
+        }
+    }
+
+    async clearParentReferencesBulk(projectId: number, parentIds: string[]) {
+        if (parentIds.length === 0) return;
+        const set = new Set(parentIds);
+        for (const n of this.nodes) {
+            if (n.project_id === projectId && n.parent_id && set.has(n.parent_id)) {
+                n.parent_id = null;
+            }
+        }
+    }
+
+    async updateRootContextMetadata(projectId: number, publicId: string, metadata: Record<string, unknown>) {
+        const root = this.nodes.find(
+            (n) => n.project_id === projectId && n.public_id === publicId && n.type === 'context' && n.context_id === null,
+        );
+        if (root) root.metadata = metadata;
+    }
+
+    async setRootContextDeletedAt(projectId: number, publicId: string, deletedAt: string | null) {
+        const root = this.nodes.find(
+            (n) => n.project_id === projectId && n.public_id === publicId && n.type === 'context' && n.context_id === null,
+        );
+        if (root) root.deleted_at = deletedAt;
+    }
+
+    async findApiKeyByPrefix(prefix: string): Promise<ApiKeyRow | null> {
+        const k = this.keys.find((k) => k.key_prefix === prefix);
+        if (!k) return null;
+        const { id, project_id, key_hash, expires_at, revoked_at, scopes, context_ids, metadata_filter } = k;
+        return { id, project_id, key_hash, expires_at, revoked_at, scopes, context_ids, metadata_filter };
+    }
+
+    async insertApiKey({ name = null, scopes = null, context_ids = null, metadata_filter = null, ...values }: ApiKeyInsertRow): Promise<ApiKeyMetadataRow> {
+        const key = {
+            id: this.keys.length + 1,
+            name,
+            created_at: new Date().toISOString(),
+            last_used_at: null,
+            expires_at: null,
+            revoked_at: null,
+            scopes,
+            context_ids,
+            metadata_filter,
+            ...values,
+        };
+        this.keys.push(key);
+        const { key_hash: _h, ...row } = key;
+        return { ...row };
+    }
+
+    async updateApiKeyLastUsedAt(id: number, lastUsedAt: string) {
+        const key = this.keys.find((k) => k.id === id);
+        if (key) key.last_used_at = lastUsedAt;
+    }
+
+    async findApiKeys(projectId: number): Promise<ApiKeyMetadataRow[]> {
+        return this.keys.filter((k) => k.project_id === projectId).map(({ key_hash: _h, ...row }) => ({ ...row }));
+    }
+
+    async findApiKeyMetadataByPrefix(prefix: string): Promise<ApiKeyMetadataRow | null> {
+        const k = this.keys.find((k) => k.key_prefix === prefix);
+        if (!k) return null;
+        const { key_hash: _h, ...row } = k;
+        return { ...row };
+    }
+
+    async updateApiKey(id: number, changes: ApiKeyUpdate) {
+        const key = this.keys.find((k) => k.id === id);
+        if (key) Object.assign(key, changes);
+    }
+
+    async findIdempotencyKeys(projectId: number, scope: IdempotencyScope, keys: string[]) {
+        return this.idempotencyKeys
+            .filter((k) => k.project_id === projectId && k.scope === scope && keys.includes(k.key))
+            .map(({ project_id: _p, ...row }) => ({ ...row }));
+    }
+
+    async insertIdempotencyKeys(rows: IdempotencyKeyInsertRow[]) {
+        for (const row of rows) {
+            if (this.idempotencyKeys.some((k) => k.project_id === row.project_id && k.scope === row.scope && k.key === row.key)) {
+                throw new Error('duplicate key value violates unique constraint');
+            }
+        }
+        const created_at = new Date().toISOString();
+        this.idempotencyKeys.push(...rows.map((r) => ({ status_code: null, response: null, ...r, created_at })));
+    }
+
+    async completeIdempotencyKey(projectId: number, scope: IdempotencyScope, key: string, statusCode: number, response: unknown) {
+        const row = this.idempotencyKeys.find((k) => k.project_id === projectId && k.scope === scope && k.key === key);
+        if (row) Object.assign(row, { status_code: statusCode, response });
+    }
+
+    async deleteIdempotencyKeys(projectId: number, scope: IdempotencyScope, keys: string[]) {
+        this.idempotencyKeys = this.idempotencyKeys.filter((k) => !(k.project_id === projectId && k.scope === scope && keys.includes(k.key)));
+    }
+
+    async findWebhooks(projectId: number) {
+        return this.webhooks.filter((w) => w.project_id === projectId).map((w) => ({ ...w }));
+    }
+
+    async findWebhook(projectId: number, publicId: string) {
+        const webhook = this.webhooks.find((w) => w.project_id === projectId && w.public_id === publicId);
+        return webhook ? { ...webhook } : null;
+    }
+
+    async findWebhookById(id: number) {
+        const webhook = this.webhooks.find((w) => w.id === id);
+        return webhook ? { ...webhook } : null;
+    }
+
+    async insertWebhook(values: WebhookInsertRow) {
+        const row: WebhookRow = { id: this.webhooks.length + 1, active: true, created_at: new Date().toISOString(), ...values };
+        this.webhooks.push(row);
+        return { ...row };
+    }
+
+    async updateWebhook(projectId: number, publicId: string, changes: WebhookUpdate) {
+        const webhook = this.webhooks.find((w) => w.project_id === projectId && w.public_id === publicId);
+        if (!webhook) return null;
+        Object.assign(webhook, changes);
+        return { ...webhook };
+    }
+
+    async deleteWebhook(projectId: number, publicId: string) {
+        const webhook = this.webhooks.find((w) => w.project_id === projectId && w.public_id === publicId);
+        if (!webhook) return false;
+        this.webhooks = this.webhooks.filter((w) => w !== webhook);
+        this.deliveries = this.deliveries.filter((d) => d.webhook_id !== webhook.id);
+        return true;
+    }
+
+    async findWebhookDeliveries(webhookId: number, limit: number) {
+        return this.deliveries
+            .filter((d) => d.webhook_id === webhookId)
+            .reverse()
+            .slice(0, limit)
+            .map((d) => ({ ...d }));
+    }
+
+    async claimWebhookDelivery(id: number, now: string, leaseUntil: string) {
+        const delivery = this.deliveries.find((d) => d.id === id);
+        if (!delivery || delivery.status !== 'pending' || delivery.next_attempt_at === null || delivery.next_attempt_at > now) return null;
+        Object.assign(delivery, { next_attempt_at: leaseUntil, updated_at: new Date().toISOString() });
+        return { ...delivery };
+    }
+
+    async findWebhookDelivery(webhookId: number, publicId: string) {
+        const delivery = this.deliveries.find((d) => d.webhook_id === webhookId && d.public_id === publicId);
+        return delivery ? { ...delivery } : null;
+    }
+
+    async findDueWebhookDeliveries(now: string, limit: number) {
+        return this.deliveries
+            .filter((d) => d.status === 'pending' && d.next_attempt_at !== null && d.next_attempt_at <= now)
+            .sort((a, b) => a.next_attempt_at!.localeCompare(b.next_attempt_at!))
+            .slice(0, limit)
+            .map((d) => ({ ...d }));
+    }
+
+    async insertWebhookDeliveries(rows: WebhookDeliveryInsertRow[]) {
+        const now = new Date().toISOString();
+        const inserted = rows.map((r, i): WebhookDeliveryRow => ({
+            id: this.deliveries.length + i + 1,
+            status: 'pending',
+            attempts: 0,
+            response_status: null,
+            last_error: null,
+            created_at: now,
+            updated_at: now,
+            ...r,
+        }));
+        this.deliveries.push(...inserted);
+        return inserted.map((d) => ({ ...d }));
+    }
+
+    async updateWebhookDelivery(id: number, changes: WebhookDeliveryUpdate) {
+        const delivery = this.deliveries.find((d) => d.id === id);
+        if (delivery) Object.assign(delivery, changes, { updated_at: new Date().toISOString() });
+    }
+
+    async findRetentionPolicy(projectId: number): Promise<RetentionPolicyRow | null> {
+        const policy = this.retentionPolicies.find((p) => p.project_id === projectId);
+        return policy ? { ...policy } : null;
+    }
+
+    async findRetentionPolicies(): Promise<RetentionPolicyRow[]> {
+        return this.retentionPolicies.map((p) => ({ ...p }));
+    }
+
+    async upsertRetentionPolicy(values: RetentionPolicyInsertRow): Promise<RetentionPolicyRow> {
+        const now = new Date().toISOString();
+        const existing = this.retentionPolicies.find((p) => p.project_id === values.project_id);
+        if (existing) {
+            Object.assign(existing, values, { updated_at: now });
+            return { ...existing };
+        }
+        const policy = { ...values, created_at: now, updated_at: now };
+        this.retentionPolicies.push(policy);
+        return { ...policy };
+    }
+
+    async deleteRetentionPolicy(projectId: number) {
+        const before = this.retentionPolicies.length;
+        this.retentionPolicies = this.retentionPolicies.filter((p) => p.project_id !== projectId);
+        return this.retentionPolicies.length < before;
+    }
+
+    async insertAuditEvents(rows: AuditEventInsertRow[]) {
+        const now = new Date().toISOString();
+        for (const row of rows) this.auditEvents.push({ ...row, id: this.auditEvents.length + 1, created_at: now });
+    }
+
+    async findAuditEvents(query: AuditEventQuery): Promise<AuditEventRow[]> {
+        return this.auditEvents
+            .filter((e) => query.project_id === undefined || e.project_id === query.project_id)
+            .filter((e) => query.api_key_id === undefined || e.api_key_id === query.api_key_id)
+            .filter((e) => query.action === undefined || e.action === query.action)
+            .filter((e) => query.target_id === undefined || e.target_id === query.target_id)
+            .filter((e) => query.after === undefined || e.created_at > query.after)
+            .filter((e) => query.before === undefined || e.created_at < query.before)
+            .filter((e) => query.before_id === undefined || e.id < query.before_id)
+            .sort((a, b) => b.id - a.id)
+            .slice(0, query.limit);
+    }
+
+    async insertProject(name: string): Promise<ProjectRow | null> {
+        const project = { id: ++this.projectSeq, name, created_at: new Date().toISOString() };
+        this.projects.push(project);
+        return { id: project.id };
+    }
+
+    async findProject(id: number): Promise<ProjectDetailsRow | null> {
+        const project = this.projects.find((p) => p.id === id);
+        return project ? { ...project } : null;
+    }
+
+    async findProjects(query: ProjectQuery): Promise<ProjectDetailsRow[]> {
+        return this.projects
+            .filter((p) => query.after_id === undefined || p.id > query.after_id)
+            .slice(0, query.limit)
+            .map((p) => ({ ...p }));
+    }
+
+    async updateProject(id: number, changes: ProjectUpdate) {
+        const project = this.projects.find((p) => p.id === id);
+        if (project) Object.assign(project, changes);
+    }
+
+    // mirrors the schema's ON DELETE CASCADE
+    async deleteProject(id: number) {
+        const webhookIds = new Set(this.webhooks.filter((w) => w.project_id === id).map((w) => w.id));
+        this.projects = this.projects.filter((p) => p.id !== id);
+        this.nodes = this.nodes.filter((n) => n.project_id !== id);
+        this.keys = this.keys.filter((k) => k.project_id !== id);
+        this.idempotencyKeys = this.idempotencyKeys.filter((k) => k.project_id !== id);
+        this.webhooks = this.webhooks.filter((w) => w.project_id !== id);
+        this.deliveries = this.deliveries.filter((d) => !webhookIds.has(d.webhook_id));
+        this.retentionPolicies = this.retentionPolicies.filter((p) => p.project_id !== id);
+    }
+
+    // the project_activity_daily view, days in UTC
+    async findProjectActivity(projectId: number, from: string, until: string): Promise<ProjectActivityRow[]> {
+        const groups = new Map<string, ProjectActivityRow>();
+        for (const n of this.nodes) {
+            if (n.project_id !== projectId) continue;
+            const day = `${n.created_at.slice(0, 10)}T00:00:00.000Z`;
+            if (day < new Date(from).toISOString() || day >= new Date(until).toISOString()) continue;
+
+            const source = typeof n.metadata.source === 'string' && n.metadata.source !== '' ? n.metadata.source : 'unknown';
+            const key = `${day}|${source}`;
+            const row = groups.get(key) ?? {
+                activity_day: day,
+                source,
+                node_count: 0,
+                message_count: 0,
+                context_count: 0,
+                root_context_count: 0,
+                first_event_at: n.created_at,
+                last_event_at: n.created_at,
+            };
+            row.node_count++;
+            if (n.type === 'context') row.context_count++;
+            else if (n.type !== 'tombstone') row.message_count++;
+            if (n.type === 'context' && n.context_id === null) row.root_context_count++;
+            if (n.created_at < row.first_event_at) row.first_event_at = n.created_at;
+            if (n.created_at > row.last_event_at) row.last_event_at = n.created_at;
+            groups.set(key, row);
+        }
+        return [...groups.values()].sort((a, b) => a.activity_day.localeCompare(b.activity_day) || a.source.localeCompare(b.source));
+    }
+
+    async countProjectNodes(projectId: number) {
+        return this.nodes.filter((n) => n.project_id === projectId).length;
+    }
+
+    async findProjectNodes(projectId: number, afterId: number, limit: number): Promise<NodeRow[]> {
+        return this.nodes.filter((n) => n.project_id === projectId && n.id > afterId).slice(0, limit);
+    }
+
+    async deleteProjectNodes(projectId: number) {
+        this.nodes = this.nodes.filter((n) => n.project_id !== projectId);
+    }
+
+    async transaction<T>(fn: (tx: StorageAdapter) => Promise<T>, _options?: unknown): Promise<T> {
+        return fn(this);
+    }
+
+    // test helpers
+    getApiKeys() {
+        return this.keys;
+    }
+
+    getAuditEvents() {
+        return this.auditEvents;
+    }
+
+    getAllNodes() {
+        return this.nodes;
+    }
+
+    getNodesByPublicId(publicId: string) {
+        return this.nodes.find((n) => n.public_id === publicId) ?? null;
+    }
+
+    getNodesWithParentId(parentId: string) {
+        return this.nodes.filter((n) => n.parent_id === parentId);
+    }
+
+    // shifts stored keys into the past so window expiry can be tested
+    ageIdempotencyKeys(seconds: number) {
+        for (const k of this.idempotencyKeys) {
+            k.created_at = new Date(Date.parse(k.created_at) - seconds * 1000).toISOString();
+        }
+    }
+}
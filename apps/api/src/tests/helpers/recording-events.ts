@@ -0,0 +1,14 @@
+import { MemoryEventSource } from '../../events/memory';
+import type { ContextEventInput } from '../../events/types';
+
+// -- Recording event source ---------------------------------------------------
+// Keeps everything published, for tests that check events from outside a request.
+
+export class RecordingEventSource extends MemoryEventSource {
+    readonly published: ContextEventInput[] = [];
+
+    async publish(input: ContextEventInput) {
+        this.published.push(input);
+        return super.publish(input);
+    }
+}
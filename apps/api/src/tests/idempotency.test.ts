@@ -0,0 +1,177 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { IDEMPOTENCY_CLAIM_LEASE_MS } from '../constants';
+import { requestFingerprint } from '../domain/idempotency';
+import { setupTestApp, createTestContext } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+async function getMessages(req: Function, contextId: string) {
+    const res = await req('GET', `/contexts/${contextId}`);
+    const body = await res.json();
+    return body.data.map((m: any) => m.content);
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('Idempotency-Key header', () => {
+    it('should replay the original append response without inserting again', async () => {
+        const { req } = await setupTestApp();
+        const contextId = await createTestContext(req);
+        const headers = { 'Idempotency-Key': 'append-1' };
+
+        const first = await req('POST', `/contexts/${contextId}`, [{ role: 'user', content: 'hi' }], headers);
+        assert.equal(first.status, 201);
+        const firstBody = await first.json();
+
+        const retry = await req('POST', `/contexts/${contextId}`, [{ role: 'user', content: 'hi' }], headers);
+        assert.equal(retry.status, 201);
+        assert.equal(retry.headers.get('idempotent-replayed'), 'true');
+        assert.deepEqual(await retry.json(), firstBody);
+
+        assert.deepEqual(await getMessages(req, contextId), ['hi']);
+    });
+
+    it('should replay context creation', async () => {
+        const { req } = await setupTestApp();
+        const headers = { 'Idempotency-Key': 'create-1' };
+
+        const first = await (await req('POST', '/contexts', { metadata: { n: 1 } }, headers)).json();
+        const retry = await (await req('POST', '/contexts', { metadata: { n: 1 } }, headers)).json();
+        assert.equal(retry.id, first.id);
+
+        const list = await (await req('GET', '/contexts')).json();
+        assert.equal(list.data.length, 1);
+    });
+
+    it('should reject a key reused on a different request', async () => {
+        const { req } = await setupTestApp();
+        const contextId = await createTestContext(req);
+        await req('POST', '/contexts', {}, { 'Idempotency-Key': 'shared' });
+
+        const res = await req('POST', `/contexts/${contextId}`, [{ role: 'user', content: 'x' }], { 'Idempotency-Key': 'shared' });
+        assert.equal(res.status, 422);
+    });
+
+    it('should reject a key reused with a different body', async () => {
+        const { req } = await setupTestApp();
+        const contextId = await createTestContext(req);
+        const headers = { 'Idempotency-Key': 'append-body' };
+        assert.equal((await req('POST', `/contexts/${contextId}`, [{ role: 'user', content: 'x' }], headers)).status, 201);
+
+        const res = await req('POST', `/contexts/${contextId}`, [{ role: 'user', content: 'y' }], headers);
+        assert.equal(res.status, 422);
+        assert.deepEqual(await getMessages(req, contextId), ['x']);
+    });
+
+    it('should scope keys to the project', async () => {
+        const a = await setupTestApp();
+        const b = await setupTestApp();
+        const first = await (await a.req('POST', '/contexts', {}, { 'Idempotency-Key': 'k' })).json();
+        const second = await (await b.req('POST', '/contexts', {}, { 'Idempotency-Key': 'k' })).json();
+        assert.notEqual(first.id, second.id);
+    });
+
+    it('should release the key when the request fails', async () => {
+        const { req } = await setupTestApp();
+        const headers = { 'Idempotency-Key': 'retry-after-404' };
+
+        const missing = await req('POST', '/contexts/ctx_nonexistent', [{ role: 'user', content: 'x' }], headers);
+        assert.equal(missing.status, 404);
+        const again = await req('POST', '/contexts/ctx_nonexistent', [{ role: 'user', content: 'x' }], headers);
+        assert.equal(again.headers.get('idempotent-replayed'), null);
+    });
+
+    it('should run the request again once the window has passed', async () => {
+        const { req, storage } = await setupTestApp();
+        const contextId = await createTestContext(req);
+        const headers = { 'Idempotency-Key': 'expiring' };
+
+        await req('POST', `/contexts/${contextId}`, [{ role: 'user', content: 'a' }], headers);
+        storage.ageIdempotencyKeys(2 * 24 * 60 * 60);
+        await req('POST', `/contexts/${contextId}`, [{ role: 'user', content: 'a' }], headers);
+
+        assert.deepEqual(await getMessages(req, contextId), ['a', 'a']);
+    });
+
+    it('should take over a claim whose request never finished once its lease runs out', async () => {
+        const { req, storage, projectId } = await setupTestApp();
+        const contextId = await createTestContext(req);
+        const body = [{ role: 'user', content: 'a' }];
+        const headers = { 'Idempotency-Key': 'abandoned' };
+
+        // claimed by an instance that died before responding
+        const fingerprint = await requestFingerprint('POST', `/contexts/${contextId}`, JSON.stringify(body));
+        await storage.insertIdempotencyKeys([{ project_id: projectId, scope: 'request', key: 'abandoned', fingerprint }]);
+        assert.equal((await req('POST', `/contexts/${contextId}`, body, headers)).status, 409);
+
+        storage.ageIdempotencyKeys(IDEMPOTENCY_CLAIM_LEASE_MS / 1000);
+        assert.equal((await req('POST', `/contexts/${contextId}`, body, headers)).status, 201);
+        const replay = await req('POST', `/contexts/${contextId}`, body, headers);
+        assert.equal(replay.headers.get('idempotent-replayed'), 'true');
+        assert.deepEqual(await getMessages(req, contextId), ['a']);
+    });
+});
+
+describe('per-message idempotency_key', () => {
+    it('should skip messages already appended and keep their original ids', async () => {
+        const { req } = await setupTestApp();
+        const contextId = await createTestContext(req);
+
+        const first = await (await req('POST', `/contexts/${contextId}`, [
+            { role: 'user', content: 'a', idempotency_key: 'evt-a' },
+            { role: 'user', content: 'b', idempotency_key: 'evt-b' },
+        ])).json();
+
+        const retry = await (await req('POST', `/contexts/${contextId}`, [
+            { role: 'user', content: 'b', idempotency_key: 'evt-b' },
+            { role: 'user', content: 'c', idempotency_key: 'evt-c' },
+        ])).json();
+
+        assert.equal(retry.data[0].id, first.data[1].id);
+        assert.equal(retry.data[0].index, 1);
+        assert.equal(retry.data[1].index, 2);
+        assert.equal(retry.data[1].idempotency_key, undefined);
+        assert.deepEqual(await getMessages(req, contextId), ['a', 'b', 'c']);
+    });
+
+    it('should collapse duplicate keys inside one batch', async () => {
+        const { req } = await setupTestApp();
+        const contextId = await createTestContext(req);
+
+        const res = await (await req('POST', `/contexts/${contextId}`, [
+            { role: 'user', content: 'a', idempotency_key: 'dup' },
+            { role: 'user', content: 'a', idempotency_key: 'dup' },
+        ])).json();
+
+        assert.equal(res.data[0].id, res.data[1].id);
+        assert.deepEqual(await getMessages(req, contextId), ['a']);
+    });
+
+    it('should reject a key already used in another context', async () => {
+        const { req } = await setupTestApp();
+        const first = await createTestContext(req);
+        const second = await createTestContext(req);
+
+        await req('POST', `/contexts/${first}`, { role: 'user', content: 'a', idempotency_key: 'evt' });
+        const res = await req('POST', `/contexts/${second}`, { role: 'user', content: 'a', idempotency_key: 'evt' });
+        assert.equal(res.status, 422);
+    });
+
+    it('should reject a non-string key', async () => {
+        const { req } = await setupTestApp();
+        const contextId = await createTestContext(req);
+        const res = await req('POST', `/contexts/${contextId}`, { role: 'user', content: 'a', idempotency_key: 42 });
+        assert.equal(res.status, 400);
+    });
+
+    it('should reject messages that are not objects', async () => {
+        const { req } = await setupTestApp();
+        const contextId = await createTestContext(req);
+        for (const body of [[null], [1], ['a'], [[]], null]) {
+            assert.equal((await req('POST', `/contexts/${contextId}`, body)).status, 400, JSON.stringify(body));
+        }
+        assert.deepEqual(await getMessages(req, contextId), []);
+    });
+});
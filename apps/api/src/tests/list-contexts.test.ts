@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { setupTestApp } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+async function createContexts(req: Function, count: number, metadata: Record<string, unknown> = {}) {
+    const ids: string[] = [];
+    for (let i = 0; i < count; i++) {
+        const res = await req('POST', '/contexts', { metadata: { ...metadata, n: i } });
+        assert.equal(res.status, 201);
+        ids.push((await res.json()).id);
+    }
+    return ids;
+}
+
+async function listAll(req: Function, query: string) {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+        const res: Response = await req('GET', `/contexts?${query}${cursor ? `&cursor=${cursor}` : ''}`);
+        assert.equal(res.status, 200);
+        const body = await res.json();
+        seen.push(...body.data.map((ctx: any) => ctx.id));
+        cursor = body.next_cursor;
+    } while (cursor);
+    return seen;
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('GET /contexts pagination', () => {
+    it('should page through every context newest-first without duplicates', async () => {
+        const { req } = await setupTestApp();
+        const ids = await createContexts(req, 7);
+
+        const seen = await listAll(req, 'limit=3');
+        assert.deepEqual(seen, [...ids].reverse());
+    });
+
+    it('should page oldest-first with order=asc', async () => {
+        const { req } = await setupTestApp();
+        const ids = await createContexts(req, 5);
+
+        const seen = await listAll(req, 'limit=2&order=asc');
+        assert.deepEqual(seen, ids);
+    });
+
+    it('should return next_cursor null on the last page', async () => {
+        const { req } = await setupTestApp();
+        await createContexts(req, 2);
+
+        const res = await req('GET', '/contexts?limit=2');
+        const body = await res.json();
+        assert.equal(body.data.length, 2);
+        assert.equal(body.next_cursor, null);
+    });
+
+    it('should include total only when requested, honoring filters', async () => {
+        const { req } = await setupTestApp();
+        await createContexts(req, 3, { source: 'claude' });
+        await createContexts(req, 2, { source: 'codex' });
+
+        const withTotal = await (await req('GET', '/contexts?limit=1&total=true&source=claude')).json();
+        assert.equal(withTotal.total, 3);
+        assert.equal(withTotal.data.length, 1);
+
+        const withoutTotal = await (await req('GET', '/contexts?limit=1')).json();
+        assert.equal(withoutTotal.total, undefined);
+    });
+
+    it('should return 400 for a malformed cursor', async () => {
+        const { req } = await setupTestApp();
+        const res = await req('GET', '/contexts?cursor=not-a-cursor');
+        assert.equal(res.status, 400);
+    });
+
+    it('should return 400 for an invalid order', async () => {
+        const { req } = await setupTestApp();
+        const res = await req('GET', '/contexts?order=sideways');
+        assert.equal(res.status, 400);
+    });
+});
+
+describe('GET /contexts metadata filters', () => {
+    async function setupTagged() {
+        const ctx = await setupTestApp();
+        const [core] = await createContexts(ctx.req, 1, { team: 'core', project_path: '/work/api', ticket: { id: 'T-1' } });
+        const [infra] = await createContexts(ctx.req, 1, { team: 'infra', project_path: '/work/infra', experiment: 3 });
+        const [untagged] = await createContexts(ctx.req, 1, { project_path: '/tmp/scratch' });
+        return { ...ctx, core, infra, untagged };
+    }
+
+    async function list(req: Function, query: string) {
+        return (await listAll(req, query)).sort();
+    }
+
+    it('should filter on arbitrary keys, nested paths and containment', async () => {
+        const { req, core, infra } = await setupTagged();
+        assert.deepEqual(await list(req, 'metadata.team=core'), [core]);
+        assert.deepEqual(await list(req, 'metadata.ticket.id=T-1'), [core]);
+        assert.deepEqual(await list(req, `metadata[contains]=${encodeURIComponent('{"experiment":3}')}`), [infra]);
+    });
+
+    it('should support in and prefix operators', async () => {
+        const { req, core, infra } = await setupTagged();
+        assert.deepEqual(await list(req, 'metadata.team[in]=core,infra'), [core, infra].sort());
+        assert.deepEqual(await list(req, 'metadata.project_path[prefix]=/work/'), [core, infra].sort());
+        assert.deepEqual(await list(req, 'metadata.project_path[prefix]=/work/&metadata.team=infra'), [infra]);
+    });
+
+    it('should negate filters, keeping contexts without the key', async () => {
+        const { req, infra, untagged } = await setupTagged();
+        assert.deepEqual(await list(req, 'metadata.team[not]=core'), [infra, untagged].sort());
+        assert.deepEqual(await list(req, 'metadata.team[not_in]=core'), [infra, untagged].sort());
+        assert.deepEqual(await list(req, 'metadata.project_path[not_prefix]=/work/api'), [infra, untagged].sort());
+        assert.deepEqual(
+            await list(req, `metadata[not_contains]=${encodeURIComponent('{"team":"infra"}')}&metadata.project_path[prefix]=/work`),
+            (await list(req, 'metadata.team=core')),
+        );
+    });
+
+    it('should return 400 for malformed metadata filters', async () => {
+        const { req } = await setupTestApp();
+        for (const query of ['metadata.team[like]=x', 'metadata.=x', 'metadata[contains]=[1]', 'metadata[contains]=nope', 'metadata.team[in]=,']) {
+            const res = await req('GET', `/contexts?${query}`);
+            assert.equal(res.status, 400, query);
+        }
+    });
+});
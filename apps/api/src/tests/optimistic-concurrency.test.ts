@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { MemoryStorage } from './helpers/memory-storage';
+import { setupContext } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+// the first `failures` transactions abort like a Postgres serialization failure
+function failSerializable(storage: MemoryStorage, failures: number) {
+    const transaction = storage.transaction.bind(storage);
+    let calls = 0;
+    storage.transaction = async (fn, options) => {
+        if (++calls <= failures) throw Object.assign(new Error('could not serialize access'), { code: '40001' });
+        return transaction(fn, options);
+    };
+    return () => calls;
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('optimistic concurrency', () => {
+    it('should expose the latest version as ETag on GET', async () => {
+        const { req, contextId } = await setupContext(2);
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'edited' });
+
+        const res = await req('GET', `/contexts/${contextId}?version=0`);
+        assert.equal(res.status, 200);
+        assert.equal(res.headers.get('etag'), '"1"');
+    });
+
+    it('should apply a PATCH whose If-Match matches', async () => {
+        const { req, contextId } = await setupContext(2);
+        const res = await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'edited' }, { 'If-Match': '"0"' });
+        assert.equal(res.status, 200);
+        const body = await res.json();
+        assert.equal(body.version, 1);
+    });
+
+    it('should reject a stale PATCH with 409 and the current version', async () => {
+        const { req, storage, contextId } = await setupContext(2);
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'first' });
+        const before = storage.getAllNodes().length;
+
+        const res = await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'second', expected_version: 0 });
+        assert.equal(res.status, 409);
+        assert.equal(res.headers.get('etag'), '"1"');
+        const body = await res.json();
+        assert.equal(body.current_version, 1);
+        assert.equal(storage.getAllNodes().length, before);
+    });
+
+    it('should guard message DELETE and revert', async () => {
+        const { req, contextId, ids } = await setupContext(2);
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'edited' });
+
+        const stale = await req('DELETE', `/contexts/${contextId}`, { ids: [ids[1]], expected_version: 0 });
+        assert.equal(stale.status, 409);
+        const fresh = await req('DELETE', `/contexts/${contextId}`, { ids: [ids[1]], expected_version: 1 });
+        assert.equal(fresh.status, 200);
+
+        const revert = await req('POST', `/contexts/${contextId}/revert`, { version: 0 }, { 'If-Match': 'W/"1"' });
+        assert.equal(revert.status, 409);
+    });
+
+    it('should guard append via If-Match or expected_version query', async () => {
+        const { req, contextId } = await setupContext(1);
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'edited' });
+
+        const stale = await req('POST', `/contexts/${contextId}?expected_version=0`, [{ role: 'user', content: 'x' }]);
+        assert.equal(stale.status, 409);
+        const fresh = await req('POST', `/contexts/${contextId}`, [{ role: 'user', content: 'x' }], { 'If-Match': '"1"' });
+        assert.equal(fresh.status, 201);
+
+        const head = await (await req('GET', `/contexts/${contextId}`)).json();
+        assert.equal(head.data.length, 2);
+    });
+
+    it('should guard permanent delete', async () => {
+        const { req, contextId } = await setupContext(1);
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'edited' });
+
+        const stale = await req('DELETE', `/contexts/${contextId}`, undefined, { 'If-Match': '"0"' });
+        assert.equal(stale.status, 409);
+        assert.equal((await req('GET', `/contexts/${contextId}`)).status, 200);
+
+        const res = await req('DELETE', `/contexts/${contextId}`, { permanent: true, expected_version: 1 });
+        assert.equal(res.status, 200);
+    });
+
+    it('should accept * and reject malformed or disagreeing versions', async () => {
+        const { req, contextId } = await setupContext(1);
+        const patch = (body: object, headers?: Record<string, string>) => req('PATCH', `/contexts/${contextId}`, body, headers);
+
+        assert.equal((await patch({ index: 0, content: 'a' }, { 'If-Match': '*' })).status, 200);
+        assert.equal((await patch({ index: 0, content: 'b' }, { 'If-Match': 'abc' })).status, 400);
+        assert.equal((await patch({ index: 0, content: 'b', expected_version: -1 })).status, 400);
+        assert.equal((await patch({ index: 0, content: 'b', expected_version: 1 }, { 'If-Match': '"2"' })).status, 400);
+    });
+
+    it('should write a version head and its rows in one transaction', async () => {
+        const { req, storage, contextId } = await setupContext(2);
+        let inTransaction = false;
+        const outside: string[] = [];
+        const transaction = storage.transaction.bind(storage);
+        storage.transaction = async (fn, options) => {
+            inTransaction = true;
+            try {
+                return await transaction(fn, options);
+            } finally {
+                inTransaction = false;
+            }
+        };
+        const insertNodes = storage.insertNodes.bind(storage);
+        storage.insertNodes = async (values) => {
+            if (!inTransaction) outside.push(...[values].flat().map((v) => v.type));
+            return insertNodes(values);
+        };
+
+        assert.equal((await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'edited' })).status, 200);
+        assert.equal((await req('DELETE', `/contexts/${contextId}`, { ids: [0] })).status, 200);
+        assert.equal((await req('POST', `/contexts/${contextId}/revert`, { version: 0 })).status, 200);
+        assert.deepEqual(outside, []);
+    });
+
+    it('should retry a serialization failure instead of reporting a conflict', async () => {
+        const { req, storage, contextId } = await setupContext(1);
+        const calls = failSerializable(storage, 1);
+
+        const res = await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'edited' });
+        assert.equal(res.status, 200);
+        assert.equal(calls(), 2);
+    });
+
+    it('should only report exhausted retries as a conflict when a version was expected', async () => {
+        const { req, storage, contextId } = await setupContext(1);
+        failSerializable(storage, Infinity);
+
+        const guarded = await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'a' }, { 'If-Match': '"0"' });
+        assert.equal(guarded.status, 409);
+        const unguarded = await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'b' });
+        assert.equal(unguarded.status, 500);
+        assert.equal((await storage.findVersions(contextId)).length, 1);
+    });
+});
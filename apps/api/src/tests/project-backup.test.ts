@@ -0,0 +1,164 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { setupTestApp, createTestContext, appendMessages } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+const ADMIN = { Authorization: 'Bearer test-admin-key' };
+
+type TestApp = Awaited<ReturnType<typeof setupTestApp>>;
+
+async function backup(ctx: TestApp, projectId = ctx.projectId) {
+    const res = await ctx.app.request(`http://localhost/v1/projects/${projectId}/backup`, { headers: ADMIN });
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get('content-type')!, /application\/x-ndjson/);
+    return res.text();
+}
+
+function restore(ctx: TestApp, text: string, projectId = ctx.projectId) {
+    return ctx.app.request(`http://localhost/v1/projects/${projectId}/restore`, {
+        method: 'POST',
+        headers: { ...ADMIN, 'Content-Type': 'application/x-ndjson' },
+        body: text,
+    });
+}
+
+function parseLines(text: string) {
+    return text.trim().split('\n').map((line) => JSON.parse(line));
+}
+
+async function seedProject(ctx: TestApp) {
+    const contextId = await createTestContext(ctx.req);
+    const appended = await appendMessages(ctx.req, contextId, [
+        { role: 'user', content: 'm0' },
+        { role: 'assistant', content: 'm1' },
+    ]);
+    await ctx.req('PATCH', `/contexts/${contextId}`, { id: appended.data[1].id, content: 'edited' });
+    const fork = await (await ctx.req('POST', '/contexts', { from: contextId, version: 1 })).json();
+    await appendMessages(ctx.req, fork.id, [{ role: 'user', content: 'forked' }]);
+    return { contextId, forkId: fork.id as string };
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('GET /v1/projects/:id/backup', () => {
+    it('should stream every node and key metadata without secrets', async () => {
+        const ctx = await setupTestApp();
+        await seedProject(ctx);
+
+        const lines = parseLines(await backup(ctx));
+        const [header] = lines;
+        assert.equal(header.kind, 'backup');
+        assert.equal(header.project.id, ctx.projectId);
+
+        const nodes = lines.filter((l) => l.kind === 'node');
+        assert.equal(header.counts.nodes, nodes.length);
+        assert.equal(nodes.length, ctx.storage.getAllNodes().length);
+
+        const keys = lines.filter((l) => l.kind === 'api_key');
+        assert.equal(keys.length, 1);
+        assert.equal(keys[0].prefix, ctx.headers.Authorization.slice('Bearer '.length, 'Bearer '.length + 12));
+        assert.ok(!/key_hash/.test(JSON.stringify(lines)));
+    });
+
+    it('should require the admin key and a known project', async () => {
+        const ctx = await setupTestApp();
+        assert.equal((await ctx.req('GET', `/v1/projects/${ctx.projectId}/backup`)).status, 401);
+        const res = await ctx.app.request('http://localhost/v1/projects/999/backup', { headers: ADMIN });
+        assert.equal(res.status, 404);
+    });
+});
+
+describe('POST /v1/projects/:id/restore', () => {
+    it('should restore contexts, history and forks into an empty project', async () => {
+        const source = await setupTestApp();
+        const { contextId, forkId } = await seedProject(source);
+        const text = await backup(source);
+
+        // a fresh deployment, where the backup's public ids are free
+        const target = await setupTestApp();
+        const res = await restore(target, text);
+        assert.equal(res.status, 200);
+        const events = parseLines(await res.text());
+        const done = events[events.length - 1];
+        assert.equal(done.type, 'done');
+        assert.equal(done.nodes, source.storage.getAllNodes().length);
+        assert.equal(done.api_keys_skipped, 1);
+        assert.ok(events.some((e) => e.type === 'progress' && e.total === done.nodes));
+
+        for (const id of [contextId, forkId]) {
+            const original = await (await source.req('GET', `/contexts/${id}?history=true`)).json();
+            const restored = await (await target.req('GET', `/contexts/${id}?history=true`)).json();
+            assert.deepEqual(restored, original);
+        }
+        const lineage = await (await target.req('GET', `/contexts/${forkId}/lineage`)).json();
+        assert.equal(lineage.forked_from.id, contextId);
+
+        const list = await (await target.req('GET', '/contexts')).json();
+        assert.equal(list.data.length, 2);
+    });
+
+    it('should report progress per batch', async () => {
+        const source = await setupTestApp();
+        const contextId = await createTestContext(source.req);
+        await appendMessages(source.req, contextId, Array.from({ length: 600 }, (_, i) => ({ role: 'user', content: `m${i}` })));
+
+        const target = await setupTestApp();
+        const events = parseLines(await (await restore(target, await backup(source))).text());
+        assert.deepEqual(events.map((e) => e.type), ['progress', 'progress', 'done']);
+        assert.deepEqual(events[0], { type: 'progress', nodes: 500, total: 602 });
+        assert.equal(events[2].nodes, 602);
+    });
+
+    it('should refuse a project that already has contexts', async () => {
+        const ctx = await setupTestApp();
+        await seedProject(ctx);
+        const res = await restore(ctx, await backup(ctx));
+        assert.equal(res.status, 409);
+        assert.equal((await restore(ctx, '', 999)).status, 404);
+    });
+
+    it('should reject invalid and truncated backups without writing', async () => {
+        const source = await setupTestApp();
+        await seedProject(source);
+        const lines = (await backup(source)).trim().split('\n');
+
+        const target = await setupTestApp();
+        const invalid = ['', 'not json', lines.slice(1).join('\n'), lines.slice(0, -1).join('\n'), [lines[0], lines[0]].join('\n')];
+        for (const text of invalid) {
+            const events = parseLines(await (await restore(target, text)).text());
+            assert.equal(events[events.length - 1].type, 'error', text.slice(0, 80));
+        }
+        assert.equal(target.storage.getAllNodes().length, 0);
+    });
+
+    it('should remove a partial restore so it can be retried', async () => {
+        const source = await setupTestApp();
+        const contextId = await createTestContext(source.req);
+        await appendMessages(source.req, contextId, Array.from({ length: 600 }, (_, i) => ({ role: 'user', content: `m${i}` })));
+        const text = await backup(source);
+        const lines = text.trim().split('\n');
+
+        // the first batch lands before the count check, as it can without a transaction
+        const target = await setupTestApp();
+        const truncated = parseLines(await (await restore(target, lines.slice(0, -1).join('\n'))).text());
+        assert.deepEqual(truncated.map((e) => e.type), ['progress', 'error']);
+        assert.equal(target.storage.getAllNodes().length, 0);
+
+        const insertNodes = target.storage.insertNodes.bind(target.storage);
+        let calls = 0;
+        target.storage.insertNodes = async (values) => {
+            if (++calls === 2) throw new Error('connection to 10.0.0.5 reset');
+            return insertNodes(values);
+        };
+        const failed = parseLines(await (await restore(target, text)).text());
+        target.storage.insertNodes = insertNodes;
+        assert.deepEqual(failed[failed.length - 1], { type: 'error', error: 'Restore failed' });
+        assert.equal(target.storage.getAllNodes().length, 0);
+
+        const retried = parseLines(await (await restore(target, text)).text());
+        assert.equal(retried[retried.length - 1].type, 'done');
+        assert.equal(target.storage.getAllNodes().length, 602);
+    });
+});
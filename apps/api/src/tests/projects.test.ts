@@ -0,0 +1,159 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { CachedKey, KeyCache } from '../cache/types';
+import { setupTestApp, appendMessages } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+type TestApp = Awaited<ReturnType<typeof setupTestApp>>;
+
+type ProjectBody = { id: number; name: string; created_at: string; deleted?: boolean };
+
+type UsageCounts = { node_count: number; message_count: number; context_count: number; root_context_count: number };
+
+type UsageBody = {
+    project_id: number;
+    from: string;
+    to: string;
+    totals: UsageCounts;
+    sources: Array<UsageCounts & { source: string }>;
+    daily: Array<UsageCounts & { date: string; sources: Record<string, UsageCounts> }>;
+};
+
+class MapKeyCache implements KeyCache {
+    readonly entries = new Map<string, CachedKey>();
+
+    async get(prefix: string) {
+        return this.entries.get(prefix) ?? null;
+    }
+
+    async put(prefix: string, value: CachedKey) {
+        this.entries.set(prefix, value);
+    }
+
+    async delete(prefix: string) {
+        this.entries.delete(prefix);
+    }
+}
+
+function admin(ctx: TestApp, method: string, path: string, body?: unknown) {
+    return ctx.app.request(`http://localhost${path}`, {
+        method,
+        headers: body === undefined ? { Authorization: 'Bearer test-admin-key' } : { Authorization: 'Bearer test-admin-key', 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+}
+
+async function adminJson<T>(ctx: TestApp, method: string, path: string, body?: unknown) {
+    const res = await admin(ctx, method, path, body);
+    assert.equal(res.status, 200);
+    return (await res.json()) as T;
+}
+
+async function createContext(ctx: TestApp, metadata: Record<string, unknown>) {
+    const res = await ctx.req('POST', '/contexts', { metadata });
+    return ((await res.json()) as { id: string }).id;
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('GET /v1/projects', () => {
+    it('should page through projects oldest first', async () => {
+        const ctx = await setupTestApp();
+        await ctx.storage.insertProject('second');
+        await ctx.storage.insertProject('third');
+
+        const first = await adminJson<{ data: ProjectBody[]; next_cursor: string | null }>(ctx, 'GET', '/v1/projects?limit=2');
+        assert.deepEqual(first.data.map((p) => p.name), ['test', 'second']);
+        assert.ok(first.next_cursor);
+
+        const rest = await adminJson<{ data: ProjectBody[]; next_cursor: string | null }>(ctx, 'GET', `/v1/projects?limit=2&cursor=${first.next_cursor}`);
+        assert.deepEqual(rest.data.map((p) => p.name), ['third']);
+        assert.equal(rest.next_cursor, null);
+
+        assert.equal((await admin(ctx, 'GET', '/v1/projects?limit=0')).status, 400);
+        assert.equal((await admin(ctx, 'GET', '/v1/projects?cursor=nope')).status, 400);
+        assert.equal((await ctx.req('GET', '/v1/projects')).status, 401);
+    });
+});
+
+describe('GET and PATCH /v1/projects/:id', () => {
+    it('should get and rename a project', async () => {
+        const ctx = await setupTestApp();
+
+        assert.equal((await adminJson<ProjectBody>(ctx, 'GET', `/v1/projects/${ctx.projectId}`)).name, 'test');
+        assert.equal((await adminJson<ProjectBody>(ctx, 'PATCH', `/v1/projects/${ctx.projectId}`, { name: 'renamed' })).name, 'renamed');
+        assert.equal((await adminJson<ProjectBody>(ctx, 'GET', `/v1/projects/${ctx.projectId}`)).name, 'renamed');
+
+        const [event] = ctx.storage.getAuditEvents();
+        assert.equal(event.action, 'project.rename');
+        assert.deepEqual(event.details, { name: 'renamed', previous_name: 'test' });
+
+        assert.equal((await admin(ctx, 'PATCH', `/v1/projects/${ctx.projectId}`, { name: '' })).status, 400);
+        assert.equal((await admin(ctx, 'GET', '/v1/projects/999')).status, 404);
+        assert.equal((await admin(ctx, 'GET', '/v1/projects/abc')).status, 404);
+    });
+});
+
+describe('DELETE /v1/projects/:id', () => {
+    it('should delete the project with its contexts and keys', async () => {
+        const keyCache = new MapKeyCache();
+        const ctx = await setupTestApp({ keyCache });
+        await createContext(ctx, {});
+        assert.ok(keyCache.entries.size > 0);
+
+        const deleted = await adminJson<ProjectBody>(ctx, 'DELETE', `/v1/projects/${ctx.projectId}`);
+        assert.equal(deleted.deleted, true);
+
+        assert.equal(ctx.storage.getAllNodes().length, 0);
+        assert.equal(ctx.storage.getApiKeys().length, 0);
+        assert.equal(keyCache.entries.size, 0);
+        assert.equal((await ctx.req('GET', '/contexts')).status, 401);
+        assert.equal((await admin(ctx, 'GET', `/v1/projects/${ctx.projectId}`)).status, 404);
+        assert.equal((await admin(ctx, 'DELETE', `/v1/projects/${ctx.projectId}`)).status, 404);
+
+        // the audit log outlives the project
+        assert.deepEqual(ctx.storage.getAuditEvents().map((e) => e.action), ['project.delete']);
+    });
+});
+
+describe('GET /v1/projects/:id/usage', () => {
+    it('should break down messages and contexts by day and source', async () => {
+        const ctx = await setupTestApp();
+        const claude = await createContext(ctx, { source: 'claude' });
+        await createContext(ctx, { source: 'claude' });
+        const codex = await createContext(ctx, { source: 'codex' });
+        await appendMessages(ctx.req, claude, [{ role: 'user', content: 'a', metadata: { source: 'claude' } }, { role: 'assistant', content: 'b', metadata: { source: 'claude' } }]);
+        await appendMessages(ctx.req, codex, [{ role: 'user', content: 'c' }]);
+
+        const usage = await adminJson<UsageBody>(ctx, 'GET', `/v1/projects/${ctx.projectId}/usage`);
+        const today = new Date().toISOString().slice(0, 10);
+        assert.equal(usage.to, today);
+        assert.equal(usage.totals.root_context_count, 3);
+        assert.equal(usage.totals.message_count, 3);
+
+        const bySource = Object.fromEntries(usage.sources.map((s) => [s.source, s]));
+        assert.equal(bySource.claude.message_count, 2);
+        assert.equal(bySource.claude.root_context_count, 2);
+        assert.equal(bySource.codex.root_context_count, 1);
+        // messages carry their own metadata, not the context's
+        assert.equal(bySource.unknown.message_count, 1);
+
+        assert.deepEqual(usage.daily.map((d) => d.date), [today]);
+        assert.equal(usage.daily[0].sources.claude.message_count, 2);
+    });
+
+    it('should validate the date range', async () => {
+        const ctx = await setupTestApp();
+        const base = `/v1/projects/${ctx.projectId}/usage`;
+
+        const empty = await adminJson<UsageBody>(ctx, 'GET', `${base}?from=2020-01-01&to=2020-01-31`);
+        assert.deepEqual([empty.from, empty.to, empty.daily], ['2020-01-01', '2020-01-31', []]);
+
+        for (const query of ['from=2020-02-30', 'to=yesterday', 'from=2020-02-01&to=2020-01-01', 'from=2020-01-01&to=2021-12-31']) {
+            assert.equal((await admin(ctx, 'GET', `${base}?${query}`)).status, 400, query);
+        }
+        assert.equal((await admin(ctx, 'GET', '/v1/projects/999/usage')).status, 404);
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { rateLimitGroup } from '../middleware/rate-limit';
+import { MemoryRateLimitCounter } from '../ratelimit/memory';
+import type { RateLimitCounter } from '../ratelimit/types';
+import { generateKey, hashKey } from '../domain/api-keys';
+import { KEY_PREFIX_LEN } from '../constants';
+import type { ApiConfig, RateLimitOverrides } from '../types/api';
+import { setupTestApp, createTestContext } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+type TestApp = Awaited<ReturnType<typeof setupTestApp>>;
+
+function limitedConfig(limits: RateLimitOverrides): ApiConfig {
+    return {
+        DATABASE_PROVIDER: 'postgres',
+        DATABASE_URL: 'postgres://test',
+        ULTRACONTEXT_ADMIN_KEY: 'test-admin-key',
+        RATE_LIMITS: limits,
+    };
+}
+
+// a second key in the same project
+async function addKey(ctx: TestApp) {
+    const apiKey = generateKey('test');
+    await ctx.storage.insertApiKey({ project_id: ctx.projectId, key_prefix: apiKey.slice(0, KEY_PREFIX_LEN), key_hash: await hashKey(apiKey) });
+    return (path: string) => ctx.app.request(`http://localhost${path}`, { headers: { Authorization: `Bearer ${apiKey}` } });
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('rate limiting', () => {
+    it('should send RateLimit headers and a 429 with Retry-After past the limit', async () => {
+        const ctx = await setupTestApp({ rateLimiter: new MemoryRateLimitCounter(), config: limitedConfig({ reads: { key: 2 } }) });
+
+        const first = await ctx.req('GET', '/contexts');
+        assert.equal(first.status, 200);
+        assert.equal(first.headers.get('RateLimit-Limit'), '2');
+        assert.equal(first.headers.get('RateLimit-Remaining'), '1');
+        assert.equal(first.headers.get('RateLimit-Policy'), '2;w=60');
+        assert.ok(Number(first.headers.get('RateLimit-Reset')) <= 60);
+
+        assert.equal((await ctx.req('GET', '/contexts')).headers.get('RateLimit-Remaining'), '0');
+
+        const limited = await ctx.req('GET', '/contexts');
+        assert.equal(limited.status, 429);
+        assert.ok(Number(limited.headers.get('Retry-After')) >= 1);
+        assert.deepEqual(await limited.json(), { error: 'Rate limit exceeded', group: 'reads', scope: 'key' });
+    });
+
+    it('should count route groups separately', async () => {
+        const ctx = await setupTestApp({ rateLimiter: new MemoryRateLimitCounter(), config: limitedConfig({ reads: { key: 1 } }) });
+        const contextId = await createTestContext(ctx.req);
+
+        assert.equal((await ctx.req('GET', `/contexts/${contextId}`)).status, 200);
+        assert.equal((await ctx.req('GET', '/contexts')).status, 429);
+        assert.equal((await ctx.req('POST', `/contexts/${contextId}`, [{ role: 'user', content: 'hi' }])).status, 201);
+        assert.equal((await ctx.req('DELETE', `/contexts/${contextId}`)).status, 200);
+    });
+
+    it('should share the project limit across its keys', async () => {
+        const ctx = await setupTestApp({ rateLimiter: new MemoryRateLimitCounter(), config: limitedConfig({ reads: { key: 5, project: 2 } }) });
+        const other = await addKey(ctx);
+
+        assert.equal((await ctx.req('GET', '/contexts')).status, 200);
+        assert.equal((await other('/contexts')).status, 200);
+
+        const limited = await other('/contexts');
+        assert.equal(limited.status, 429);
+        assert.equal(((await limited.json()) as { scope: string }).scope, 'project');
+    });
+
+    it('should count in process when the counter fails and let requests through when none is configured', async () => {
+        const broken: RateLimitCounter = {
+            hit: async () => {
+                throw new Error('counter unavailable');
+            },
+        };
+        const failing = await setupTestApp({ rateLimiter: broken, config: limitedConfig({ reads: { key: 1 } }) });
+        const res = await failing.req('GET', '/contexts');
+        assert.equal(res.status, 200);
+        assert.equal(res.headers.get('RateLimit-Limit'), '1');
+        assert.equal((await failing.req('GET', '/contexts')).status, 429);
+
+        const plain = await setupTestApp({ config: limitedConfig({ reads: { key: 1 } }) });
+        assert.equal((await plain.req('GET', '/contexts')).status, 200);
+        assert.equal((await plain.req('GET', '/contexts')).status, 200);
+    });
+});
+
+describe('rateLimitGroup', () => {
+    it('should sort requests into route groups', () => {
+        assert.equal(rateLimitGroup('GET', '/contexts/ctx_1'), 'reads');
+        assert.equal(rateLimitGroup('GET', '/search'), 'reads');
+        assert.equal(rateLimitGroup('POST', '/contexts/ctx_1'), 'appends');
+        assert.equal(rateLimitGroup('POST', '/contexts/import'), 'writes');
+        assert.equal(rateLimitGroup('PATCH', '/contexts/ctx_1'), 'writes');
+        assert.equal(rateLimitGroup('DELETE', '/contexts/ctx_1'), 'deletes');
+        assert.equal(rateLimitGroup('POST', '/contexts/delete-many'), 'deletes');
+        assert.equal(rateLimitGroup('POST', '/mcp'), 'mcp');
+    });
+});
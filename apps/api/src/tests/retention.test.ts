@@ -0,0 +1,192 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { sweepRetention } from '../domain/retention';
+import { setupTestApp, createTestContext, appendMessages } from './helpers/app';
+import { RecordingEventSource } from './helpers/recording-events';
+
+// -- Helpers ------------------------------------------------------------------
+
+type TestApp = Awaited<ReturnType<typeof setupTestApp>>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function createAgedContext(ctx: TestApp, metadata: Record<string, unknown>, ageDays: number) {
+    const res = await ctx.req('POST', '/contexts', { metadata });
+    assert.equal(res.status, 201);
+    const { id } = (await res.json()) as { id: string };
+    await appendMessages(ctx.req, id, [{ role: 'user', content: `${id} message` }]);
+    ctx.storage.getNodesByPublicId(id)!.created_at = new Date(Date.now() - ageDays * DAY_MS).toISOString();
+    return id;
+}
+
+async function setPolicy(ctx: TestApp, policy: Record<string, unknown>) {
+    const res = await ctx.req('PUT', '/retention', policy);
+    assert.equal(res.status, 200);
+    return res.json();
+}
+
+async function versionData(ctx: TestApp, contextId: string, version: number) {
+    const body = await (await ctx.req('GET', `/contexts/${contextId}?version=${version}`)).json();
+    return body.data.map((m: { id: string; content: unknown }) => ({ id: m.id, content: m.content }));
+}
+
+async function versionCount(ctx: TestApp, contextId: string) {
+    const body = await (await ctx.req('GET', `/contexts/${contextId}?history=true`)).json();
+    return body.versions.length as number;
+}
+
+// appends extend the current version; edits and deletes add one (v0 to v4)
+async function createEditedContext(ctx: TestApp) {
+    const contextId = await createTestContext(ctx.req);
+    const first = await appendMessages(ctx.req, contextId, [
+        { role: 'user', content: 'a' },
+        { role: 'assistant', content: 'b' },
+        { role: 'user', content: 'c' },
+    ]);
+    const [a, b, c] = first.data.map((m: { id: string }) => m.id);
+    await ctx.req('PATCH', `/contexts/${contextId}`, { id: b, content: 'b edited' });
+    const second = await appendMessages(ctx.req, contextId, [{ role: 'assistant', content: 'd' }]);
+    await ctx.req('DELETE', `/contexts/${contextId}`, { ids: [a] });
+    await ctx.req('PATCH', `/contexts/${contextId}`, { id: second.data[0].id, content: 'd edited' });
+    await appendMessages(ctx.req, contextId, [{ role: 'user', content: 'e' }]);
+    await ctx.req('DELETE', `/contexts/${contextId}`, { ids: [c] });
+    return contextId;
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('PUT /retention', () => {
+    it('should store, return and delete the project policy', async () => {
+        const ctx = await setupTestApp();
+        assert.equal((await ctx.req('GET', '/retention')).status, 404);
+
+        const stored = await setPolicy(ctx, { max_age_days: 30, metadata: { source: 'claude' } });
+        assert.deepEqual(
+            { max_age_days: stored.max_age_days, metadata: stored.metadata, max_versions: stored.max_versions },
+            { max_age_days: 30, metadata: { source: 'claude' }, max_versions: null },
+        );
+
+        // PUT replaces the whole policy
+        await setPolicy(ctx, { max_versions: 5 });
+        const current = await (await ctx.req('GET', '/retention')).json();
+        assert.equal(current.max_age_days, null);
+        assert.equal(current.metadata, null);
+        assert.equal(current.max_versions, 5);
+
+        assert.equal((await ctx.req('DELETE', '/retention')).status, 200);
+        assert.equal((await ctx.req('DELETE', '/retention')).status, 404);
+    });
+
+    it('should reject invalid policies', async () => {
+        const ctx = await setupTestApp();
+        const invalid = [
+            {},
+            { max_age_days: 0 },
+            { max_age_days: 1.5 },
+            { max_versions: '3' },
+            { max_age_days: 7, metadata: { source: 1 } },
+            { max_age_days: 7, metadata: ['source'] },
+            { max_versions: 3, metadata: { source: 'claude' } },
+        ];
+        for (const policy of invalid) {
+            const res = await ctx.req('PUT', '/retention', policy);
+            assert.equal(res.status, 400, JSON.stringify(policy));
+        }
+    });
+});
+
+describe('retention sweep', () => {
+    it('should delete contexts past max_age_days matching the metadata scope', async () => {
+        const ctx = await setupTestApp();
+        const oldClaude = await createAgedContext(ctx, { source: 'claude' }, 40);
+        const oldCodex = await createAgedContext(ctx, { source: 'codex' }, 40);
+        const newClaude = await createAgedContext(ctx, { source: 'claude' }, 5);
+        await setPolicy(ctx, { max_age_days: 30, metadata: { source: 'claude' } });
+
+        const result = await sweepRetention(ctx.storage);
+        assert.deepEqual(result, { projects: 1, failed: 0, contexts_deleted: 1, versions_pruned: 0 });
+
+        assert.equal((await ctx.req('GET', `/contexts/${oldClaude}`)).status, 404);
+        assert.equal((await ctx.req('GET', `/contexts/${oldCodex}`)).status, 200);
+        assert.equal((await ctx.req('GET', `/contexts/${newClaude}`)).status, 200);
+        assert.ok(!ctx.storage.getAllNodes().some((n) => n.public_id === oldClaude || n.context_id === oldClaude));
+    });
+
+    it('should announce the contexts it deletes', async () => {
+        const ctx = await setupTestApp();
+        const expired = await createAgedContext(ctx, { source: 'claude' }, 40);
+        await setPolicy(ctx, { max_age_days: 30 });
+
+        const events = new RecordingEventSource();
+        await sweepRetention(ctx.storage, { sinks: { events } });
+
+        assert.equal(events.published.length, 1);
+        const [event] = events.published;
+        assert.equal(event.type, 'delete');
+        assert.equal(event.context.id, expired);
+        assert.deepEqual(event.context.metadata, { source: 'claude' });
+        assert.deepEqual(event.data, { permanent: true, reason: 'retention' });
+    });
+
+    it('should keep the newest max_versions with the same messages', async () => {
+        const ctx = await setupTestApp();
+        const contextId = await createEditedContext(ctx);
+        const before = [await versionData(ctx, contextId, 2), await versionData(ctx, contextId, 3), await versionData(ctx, contextId, 4)];
+
+        await setPolicy(ctx, { max_versions: 3 });
+        const result = await sweepRetention(ctx.storage);
+        assert.equal(result.versions_pruned, 2);
+
+        assert.equal(await versionCount(ctx, contextId), 3);
+        for (const [version, data] of before.entries()) {
+            assert.deepEqual(await versionData(ctx, contextId, version), data);
+        }
+
+        // the pruned context still takes writes
+        const appended = await appendMessages(ctx.req, contextId, [{ role: 'user', content: 'f' }]);
+        assert.deepEqual(await versionData(ctx, contextId, 2), [...before[2], { id: appended.data[0].id, content: 'f' }]);
+    });
+
+    it('should keep versions a kept revert restores', async () => {
+        const ctx = await setupTestApp();
+        const contextId = await createEditedContext(ctx);
+        assert.equal((await ctx.req('POST', `/contexts/${contextId}/revert`, { version: 1 })).status, 200);
+        const reverted = await versionData(ctx, contextId, 5);
+
+        await setPolicy(ctx, { max_versions: 2 });
+        const result = await sweepRetention(ctx.storage);
+        assert.equal(result.versions_pruned, 1);
+
+        assert.equal(await versionCount(ctx, contextId), 5);
+        assert.deepEqual(await versionData(ctx, contextId, 4), reverted);
+    });
+});
+
+describe('GET /retention/preview', () => {
+    it('should report what a sweep would remove without removing it', async () => {
+        const ctx = await setupTestApp();
+        const expired = await createAgedContext(ctx, { source: 'claude' }, 40);
+        const edited = await createEditedContext(ctx);
+        await setPolicy(ctx, { max_age_days: 30, max_versions: 4 });
+        const nodes = ctx.storage.getAllNodes().length;
+
+        const res = await ctx.req('GET', '/retention/preview');
+        assert.equal(res.status, 200);
+        const report = await res.json();
+        assert.equal(report.policy.max_versions, 4);
+        assert.equal(report.expired.total, 1);
+        assert.deepEqual(report.expired.data.map((c: { id: string }) => c.id), [expired]);
+        assert.deepEqual(report.pruned.data, [{ id: edited, versions: 5, remove: 1 }]);
+
+        assert.equal(ctx.storage.getAllNodes().length, nodes);
+        assert.equal(await versionCount(ctx, edited), 5);
+    });
+
+    it('should 404 without a policy and validate limit', async () => {
+        const ctx = await setupTestApp();
+        assert.equal((await ctx.req('GET', '/retention/preview')).status, 404);
+        await setPolicy(ctx, { max_versions: 1 });
+        assert.equal((await ctx.req('GET', '/retention/preview?limit=0')).status, 400);
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { appendMessages, setupContext, getContext } from './helpers/app';
+
+// -- Tests --------------------------------------------------------------------
+
+describe('POST /contexts/:id/revert', () => {
+    it('should restore the messages of the target version as a new version', async () => {
+        const { req, contextId, ids } = await setupContext(3);
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'edited' });
+        await req('DELETE', `/contexts/${contextId}`, { ids: [ids[2]] });
+
+        const res = await req('POST', `/contexts/${contextId}/revert`, { version: 0, metadata: { reason: 'bad edit' } });
+        assert.equal(res.status, 200);
+        const body = await res.json();
+        assert.equal(body.version, 3);
+        assert.equal(body.source_version, 0);
+        assert.deepEqual(body.data.map((m: any) => m.id), ids);
+
+        const head = await getContext(req, contextId, '?history=true');
+        assert.deepEqual(head.data.map((m: any) => m.content), ['m0', 'm1', 'm2']);
+
+        const latest = head.versions[head.versions.length - 1];
+        assert.equal(latest.operation, 'revert');
+        assert.equal(latest.source_version, 0);
+        assert.deepEqual(latest.metadata, { reason: 'bad edit' });
+    });
+
+    it('should keep earlier versions readable and allow edits after a revert', async () => {
+        const { req, contextId } = await setupContext(2);
+        await req('PATCH', `/contexts/${contextId}`, { index: 1, content: 'v1' });
+        await req('PATCH', `/contexts/${contextId}`, { index: 1, content: 'v2' });
+        await req('POST', `/contexts/${contextId}/revert`, { version: 1 });
+
+        await appendMessages(req, contextId, [{ role: 'assistant', content: 'after revert' }]);
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'edited' });
+
+        const contents = async (version: number) =>
+            (await getContext(req, contextId, `?version=${version}`)).data.map((m: any) => m.content);
+
+        assert.deepEqual(await contents(2), ['m0', 'v2']);
+        assert.deepEqual(await contents(3), ['m0', 'v1', 'after revert']);
+        assert.deepEqual(await contents(4), ['edited', 'v1', 'after revert']);
+    });
+
+    it('should revert to the state before a timestamp', async () => {
+        const { req, storage, contextId } = await setupContext(2);
+        // backdated, so the late append can't land in the same millisecond
+        const created = storage.getAllNodes();
+        for (const node of created) node.created_at = new Date(Date.parse(node.created_at) - 1000).toISOString();
+        const before = created.map((n) => n.created_at).sort().pop()!;
+        await appendMessages(req, contextId, [{ role: 'user', content: 'late' }]);
+
+        const res = await req('POST', `/contexts/${contextId}/revert`, { before });
+        assert.equal(res.status, 200);
+
+        const head = await getContext(req, contextId);
+        assert.deepEqual(head.data.map((m: any) => m.content), ['m0', 'm1']);
+    });
+
+    it('should validate the target', async () => {
+        const { req, contextId } = await setupContext(1);
+        assert.equal((await req('POST', `/contexts/${contextId}/revert`, {})).status, 400);
+        assert.equal((await req('POST', `/contexts/${contextId}/revert`, { version: 0, before: '2024-01-01' })).status, 400);
+        assert.equal((await req('POST', `/contexts/${contextId}/revert`, { before: 'not-a-date' })).status, 400);
+        assert.equal((await req('POST', `/contexts/${contextId}/revert`, { version: 9 })).status, 404);
+        assert.equal((await req('POST', '/contexts/ctx_nonexistent/revert', { version: 0 })).status, 404);
+    });
+});
@@ -0,0 +1,152 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { requiredScope } from '../middleware/scopes';
+import { setupTestApp, createTestContext, appendMessages } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+type TestApp = Awaited<ReturnType<typeof setupTestApp>>;
+
+// a key in the test project; returns a req() bound to it
+async function scopedKey(ctx: TestApp, access: Record<string, unknown>) {
+    const res = await ctx.app.request('http://localhost/v1/keys', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer test-admin-key', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'scoped', project_id: ctx.projectId, ...access }),
+    });
+    assert.equal(res.status, 200);
+    const { key } = (await res.json()) as { key: string };
+
+    return (method: string, path: string, body?: unknown) =>
+        ctx.app.request(`http://localhost${path}`, {
+            method,
+            headers: body === undefined ? { Authorization: `Bearer ${key}` } : { Authorization: `Bearer ${key}`, 'Content-Type': 'application/json' },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+}
+
+async function createContext(ctx: TestApp, metadata: Record<string, unknown>) {
+    const res = await ctx.req('POST', '/contexts', { metadata });
+    return ((await res.json()) as { id: string }).id;
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('API key scopes', () => {
+    it('should let a read-only key read but not write or delete', async () => {
+        const ctx = await setupTestApp();
+        const contextId = await createTestContext(ctx.req);
+        const req = await scopedKey(ctx, { scopes: ['contexts:read'] });
+
+        assert.equal((await req('GET', '/contexts')).status, 200);
+        assert.equal((await req('GET', `/contexts/${contextId}`)).status, 200);
+        assert.equal((await req('GET', '/search?q=hi')).status, 200);
+
+        const append = await req('POST', `/contexts/${contextId}`, [{ role: 'user', content: 'no' }]);
+        assert.equal(append.status, 403);
+        assert.deepEqual(await append.json(), { error: 'Insufficient scope', required_scope: 'contexts:write' });
+        assert.match(append.headers.get('WWW-Authenticate')!, /insufficient_scope/);
+        assert.equal((await req('DELETE', `/contexts/${contextId}`)).status, 403);
+        assert.equal((await req('POST', '/contexts/delete-many', { ids: [contextId] })).status, 403);
+        assert.equal((await req('POST', '/mcp', {})).status, 403);
+    });
+
+    it('should let an append-only key write but not read or delete', async () => {
+        const ctx = await setupTestApp();
+        const contextId = await createTestContext(ctx.req);
+        const req = await scopedKey(ctx, { scopes: ['contexts:write'] });
+
+        assert.equal((await req('POST', `/contexts/${contextId}`, [{ role: 'user', content: 'hi' }])).status, 201);
+        assert.equal((await req('GET', `/contexts/${contextId}`)).status, 403);
+        assert.equal((await req('DELETE', `/contexts/${contextId}`)).status, 403);
+    });
+
+    it('should keep scoped keys off webhooks and retention', async () => {
+        const ctx = await setupTestApp();
+        const req = await scopedKey(ctx, { scopes: ['contexts:read', 'contexts:write', 'contexts:delete', 'mcp'] });
+
+        assert.equal((await req('GET', '/webhooks')).status, 403);
+        assert.equal((await req('GET', '/retention')).status, 403);
+        assert.equal((await ctx.req('GET', '/webhooks')).status, 200);
+    });
+
+    it('should validate scopes and restrictions on key creation', async () => {
+        const ctx = await setupTestApp();
+        for (const access of [{ scopes: [] }, { scopes: ['contexts:admin'] }, { context_ids: [] }, { context_ids: [1] }, { metadata_filter: {} }]) {
+            const res = await ctx.app.request('http://localhost/v1/keys', {
+                method: 'POST',
+                headers: { Authorization: 'Bearer test-admin-key', 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name: 'bad', project_id: ctx.projectId, ...access }),
+            });
+            assert.equal(res.status, 400, JSON.stringify(access));
+        }
+    });
+});
+
+describe('API key context restrictions', () => {
+    it('should confine a key to its context ids', async () => {
+        const ctx = await setupTestApp();
+        const allowed = await createTestContext(ctx.req);
+        const other = await createTestContext(ctx.req);
+        await appendMessages(ctx.req, allowed, [{ role: 'user', content: 'findable words' }]);
+        await appendMessages(ctx.req, other, [{ role: 'user', content: 'findable words' }]);
+        const req = await scopedKey(ctx, { context_ids: [allowed] });
+
+        const list = (await (await req('GET', '/contexts?total=true')).json()) as { data: Array<{ id: string }>; total: number };
+        assert.deepEqual(list.data.map((c) => c.id), [allowed]);
+        assert.equal(list.total, 1);
+
+        const search = (await (await req('GET', '/search?q=findable')).json()) as { data: Array<{ context: { id: string } }> };
+        assert.deepEqual(search.data.map((r) => r.context.id), [allowed]);
+
+        assert.equal((await req('GET', `/contexts/${other}`)).status, 404);
+        assert.equal((await req('POST', `/contexts/${other}`, [{ role: 'user', content: 'x' }])).status, 404);
+        assert.equal((await req('DELETE', `/contexts/${other}`)).status, 404);
+        assert.equal((await req('POST', '/contexts', { from: other })).status, 403);
+        assert.equal((await req('POST', `/contexts/${allowed}`, [{ role: 'user', content: 'ok' }])).status, 201);
+
+        const bulk = (await (await req('POST', '/contexts/delete-many', { ids: [other, allowed] })).json()) as { results: Array<{ deleted: boolean }> };
+        assert.deepEqual(bulk.results.map((r) => r.deleted), [false, true]);
+    });
+
+    it('should confine a key to contexts matching its metadata filter', async () => {
+        const ctx = await setupTestApp();
+        const mine = await createContext(ctx, { team: 'core', source: 'claude' });
+        const theirs = await createContext(ctx, { team: 'growth' });
+        const req = await scopedKey(ctx, { metadata_filter: { team: 'core' } });
+
+        const list = (await (await req('GET', '/contexts')).json()) as { data: Array<{ id: string }> };
+        assert.deepEqual(list.data.map((c) => c.id), [mine]);
+        assert.equal((await req('GET', `/contexts/${theirs}`)).status, 404);
+
+        // new contexts and metadata edits must stay within reach
+        assert.equal((await req('POST', '/contexts', { metadata: { team: 'growth' } })).status, 403);
+        assert.equal((await req('POST', '/contexts', { metadata: { team: 'core' } })).status, 201);
+        assert.equal((await req('PATCH', `/contexts/${mine}/metadata`, { team: 'growth' })).status, 403);
+        assert.equal((await req('PATCH', `/contexts/${mine}/metadata`, { source: 'codex' })).status, 200);
+    });
+
+    it('should hide unreachable forks from lineage', async () => {
+        const ctx = await setupTestApp();
+        const root = await createContext(ctx, { team: 'core' });
+        const visibleFork = ((await (await ctx.req('POST', '/contexts', { from: root, metadata: { team: 'core' } })).json()) as { id: string }).id;
+        await ctx.req('POST', '/contexts', { from: root, metadata: { team: 'growth' } });
+        const req = await scopedKey(ctx, { metadata_filter: { team: 'core' } });
+
+        const lineage = (await (await req('GET', `/contexts/${root}/lineage`)).json()) as { descendants: Array<{ id: string }> };
+        assert.deepEqual(lineage.descendants.map((d) => d.id), [visibleFork]);
+    });
+});
+
+describe('requiredScope', () => {
+    it('should map routes to scopes', () => {
+        assert.equal(requiredScope('GET', '/contexts/ctx_1/events'), 'contexts:read');
+        assert.equal(requiredScope('POST', '/contexts'), 'contexts:write');
+        assert.equal(requiredScope('PATCH', '/contexts/ctx_1'), 'contexts:write');
+        assert.equal(requiredScope('DELETE', '/contexts/ctx_1'), 'contexts:delete');
+        assert.equal(requiredScope('POST', '/contexts/delete-many'), 'contexts:delete');
+        assert.equal(requiredScope('POST', '/mcp'), 'mcp');
+        assert.equal(requiredScope('POST', '/webhooks'), null);
+    });
+});
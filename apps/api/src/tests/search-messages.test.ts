@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { setupTestApp, appendMessages } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+async function createContext(req: Function, metadata: object, contents: string[]) {
+    const res = await req('POST', '/contexts', { metadata });
+    assert.equal(res.status, 201);
+    const data = await res.json();
+    const id = data.id as string;
+    const appended = await appendMessages(req, id, contents.map((content) => ({ role: 'user', content })));
+    return { id, ids: appended.data.map((m: any) => m.id) as string[] };
+}
+
+async function search(req: Function, query: string) {
+    const res = await req('GET', `/search?${query}`);
+    return { status: res.status as number, body: await res.json() };
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('GET /search', () => {
+    it('should return matching messages with context, index and snippet', async () => {
+        const { req } = await setupTestApp();
+        const a = await createContext(req, { source: 'claude' }, ['set up the database', 'deploy the worker']);
+        await createContext(req, { source: 'codex' }, ['unrelated chatter']);
+
+        const { status, body } = await search(req, 'q=deploy');
+        assert.equal(status, 200);
+        assert.equal(body.data.length, 1);
+
+        const [hit] = body.data;
+        assert.equal(hit.context.id, a.id);
+        assert.deepEqual(hit.context.metadata, { source: 'claude' });
+        assert.equal(hit.message.id, a.ids[1]);
+        assert.equal(hit.message.index, 1);
+        assert.equal(hit.message.content, 'deploy the worker');
+        assert.match(hit.snippet, /<mark>deploy<\/mark>/);
+    });
+
+    it('should apply context metadata filters', async () => {
+        const { req } = await setupTestApp();
+        await createContext(req, { source: 'claude' }, ['fix the login bug']);
+        const codex = await createContext(req, { source: 'codex' }, ['fix the login bug']);
+
+        const { body } = await search(req, 'q=login&source=codex');
+        assert.deepEqual(body.data.map((h: any) => h.context.id), [codex.id]);
+    });
+
+    it('should only match messages at the current head', async () => {
+        const { req } = await setupTestApp();
+        const { id, ids } = await createContext(req, {}, ['old wording', 'gone soon', 'stays']);
+        await req('PATCH', `/contexts/${id}`, { id: ids[0], content: 'new wording' });
+        await req('DELETE', `/contexts/${id}`, { ids: [ids[1]] });
+
+        assert.deepEqual((await search(req, 'q=old')).body.data, []);
+        assert.deepEqual((await search(req, 'q=gone')).body.data, []);
+
+        const { body } = await search(req, 'q=wording');
+        assert.equal(body.data.length, 1);
+        assert.equal(body.data[0].message.content, 'new wording');
+        assert.equal(body.data[0].message.index, 0);
+    });
+
+    it('should page on with next_cursor', async () => {
+        const { req } = await setupTestApp();
+        const { ids } = await createContext(req, {}, ['needle one', 'needle two', 'needle three', 'hay']);
+
+        const seen: string[] = [];
+        let query = 'q=needle&limit=2';
+        for (;;) {
+            const { status, body } = await search(req, query);
+            assert.equal(status, 200);
+            seen.push(...body.data.map((h: any) => h.message.id));
+            if (body.next_cursor === null) break;
+            query = `q=needle&limit=2&cursor=${body.next_cursor}`;
+        }
+        assert.deepEqual(seen.sort(), ids.slice(0, 3).sort());
+    });
+
+    it('should return a short page with a cursor once the scan limit is reached', async () => {
+        const { req } = await setupTestApp();
+        const kept = await createContext(req, {}, ['needle kept']);
+        const gone = await createContext(req, {}, Array.from({ length: 1050 }, (_, i) => `needle ${i}`));
+        await req('DELETE', `/contexts/${gone.id}`, { ids: gone.ids });
+
+        // the deleted matches are newer, so they fill the first scan
+        const first = await search(req, 'q=needle');
+        assert.deepEqual(first.body.data, []);
+        assert.notEqual(first.body.next_cursor, null);
+
+        const second = await search(req, `q=needle&cursor=${first.body.next_cursor}`);
+        assert.deepEqual(second.body.data.map((h: any) => h.message.id), kept.ids);
+        assert.equal(second.body.next_cursor, null);
+    });
+
+    it('should validate the query', async () => {
+        const { req } = await setupTestApp();
+        assert.equal((await search(req, '')).status, 400);
+        assert.equal((await search(req, 'q=%20')).status, 400);
+        assert.equal((await search(req, 'q=x&limit=0')).status, 400);
+        assert.equal((await search(req, 'q=x&limit=500')).status, 400);
+        assert.equal((await search(req, 'q=x&after=not-a-date')).status, 400);
+        assert.equal((await search(req, 'q=x&cursor=not-a-cursor')).status, 400);
+    });
+});
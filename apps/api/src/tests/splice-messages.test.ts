@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { appendMessages, setupContext } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+async function contents(req: Function, contextId: string, query = '') {
+    const res = await req('GET', `/contexts/${contextId}${query}`);
+    const body = await res.json();
+    return body.data.map((m: any) => m.content);
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('POST /contexts/:id/splice', () => {
+    it('should insert messages mid-conversation without deleting', async () => {
+        const { req, contextId } = await setupContext(3);
+
+        const res = await req('POST', `/contexts/${contextId}/splice`, {
+            start: 1,
+            insert: [{ role: 'system', content: 'note' }, { role: 'system', content: 'note 2' }],
+        });
+        assert.equal(res.status, 200);
+        const body = await res.json();
+        assert.equal(body.version, 1);
+        assert.deepEqual(body.data.map((m: any) => m.content), ['m0', 'note', 'note 2', 'm1', 'm2']);
+
+        assert.deepEqual(await contents(req, contextId), ['m0', 'note', 'note 2', 'm1', 'm2']);
+        assert.deepEqual(await contents(req, contextId, '?version=0'), ['m0', 'm1', 'm2']);
+    });
+
+    it('should replace a range addressed by message id and record affected ids', async () => {
+        const { req, contextId, ids } = await setupContext(4);
+
+        const res = await req('POST', `/contexts/${contextId}/splice`, {
+            start: ids[1],
+            delete_count: 2,
+            insert: [{ role: 'assistant', content: 'summary' }],
+            metadata: { reason: 'condense' },
+        });
+        const body = await res.json();
+        assert.deepEqual(body.data.map((m: any) => m.content), ['m0', 'summary', 'm3']);
+
+        const head = await (await req('GET', `/contexts/${contextId}?history=true`)).json();
+        const latest = head.versions[1];
+        assert.equal(latest.operation, 'splice');
+        assert.deepEqual(latest.affected, [ids[1], ids[2], body.data[1].id]);
+        assert.deepEqual(latest.metadata, { reason: 'condense' });
+    });
+
+    it('should insert at the front, at the tail and with negative indexes', async () => {
+        const { req, contextId } = await setupContext(2);
+
+        await req('POST', `/contexts/${contextId}/splice`, { start: 0, insert: [{ role: 'system', content: 'first' }] });
+        await req('POST', `/contexts/${contextId}/splice`, { start: 3, insert: [{ role: 'user', content: 'last' }] });
+        await req('POST', `/contexts/${contextId}/splice`, { start: -1, delete_count: 1 });
+
+        assert.deepEqual(await contents(req, contextId), ['first', 'm0', 'm1']);
+    });
+
+    it('should keep appends and edits working after a splice', async () => {
+        const { req, contextId } = await setupContext(2);
+        const spliced = await (await req('POST', `/contexts/${contextId}/splice`, {
+            start: 1,
+            insert: [{ role: 'system', content: 'mid' }],
+        })).json();
+
+        await appendMessages(req, contextId, [{ role: 'user', content: 'tail' }]);
+        await req('PATCH', `/contexts/${contextId}`, { id: spliced.data[1].id, content: 'mid edited' });
+
+        assert.deepEqual(await contents(req, contextId), ['m0', 'mid edited', 'm1', 'tail']);
+    });
+
+    it('should validate the request', async () => {
+        const { req, contextId } = await setupContext(2);
+        const splice = (body: object) => req('POST', `/contexts/${contextId}/splice`, body);
+
+        assert.equal((await splice({ insert: [{ content: 'x' }] })).status, 400);
+        assert.equal((await splice({ start: 0 })).status, 400);
+        assert.equal((await splice({ start: 5, insert: [{ content: 'x' }] })).status, 400);
+        assert.equal((await splice({ start: 0, delete_count: -1 })).status, 400);
+        assert.equal((await splice({ start: 'msg_nonexistent', delete_count: 1 })).status, 404);
+        assert.equal((await splice({ start: 0, delete_count: 1, expected_version: 3 })).status, 409);
+    });
+});
@@ -0,0 +1,154 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { purgeExpiredTrash } from '../domain/context-deletion';
+import { DEFAULT_TRASH_WINDOW_SECONDS } from '../constants';
+import { setupTestApp, createTestContext, appendMessages } from './helpers/app';
+import { RecordingEventSource } from './helpers/recording-events';
+
+// -- Helpers ------------------------------------------------------------------
+
+type TestApp = Awaited<ReturnType<typeof setupTestApp>>;
+
+const WINDOW_MS = DEFAULT_TRASH_WINDOW_SECONDS * 1000;
+
+async function createTrashedContext(ctx: TestApp) {
+    const contextId = await createTestContext(ctx.req);
+    await appendMessages(ctx.req, contextId, [{ role: 'user', content: 'deploy the trash can' }]);
+    const res = await ctx.req('DELETE', `/contexts/${contextId}`);
+    assert.equal(res.status, 200);
+    return { contextId, body: await res.json() };
+}
+
+// as if it went to the trash `ms` ago
+function ageTrash(ctx: TestApp, contextId: string, ms: number) {
+    ctx.storage.getNodesByPublicId(contextId)!.deleted_at = new Date(Date.now() - ms).toISOString();
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('DELETE /contexts/:id (trash)', () => {
+    it('should hide a trashed context from listings, reads, writes and search', async () => {
+        const ctx = await setupTestApp();
+        const { contextId, body } = await createTrashedContext(ctx);
+        assert.equal(body.deleted, true);
+        assert.ok(Date.parse(body.restorable_until) > Date.now());
+
+        const list = await (await ctx.req('GET', '/contexts')).json();
+        assert.ok(!list.data.some((c: { id: string }) => c.id === contextId));
+        assert.equal((await ctx.req('GET', `/contexts/${contextId}`)).status, 404);
+        assert.equal((await ctx.req('POST', `/contexts/${contextId}`, [{ role: 'user', content: 'x' }])).status, 404);
+        const search = await (await ctx.req('GET', '/search?q=trash')).json();
+        assert.equal(search.data.length, 0);
+
+        // the nodes are still there
+        assert.ok(ctx.storage.getNodesByPublicId(contextId));
+    });
+
+    it('should list the trash with restorable_until', async () => {
+        const ctx = await setupTestApp();
+        await createTestContext(ctx.req);
+        const { contextId, body } = await createTrashedContext(ctx);
+
+        const res = await ctx.req('GET', '/contexts?trashed=true');
+        assert.equal(res.status, 200);
+        const trash = await res.json();
+        assert.deepEqual(trash.data.map((c: { id: string }) => c.id), [contextId]);
+        assert.equal(trash.data[0].restorable_until, body.restorable_until);
+        assert.ok(trash.data[0].deleted_at);
+    });
+
+    it('should validate purge', async () => {
+        const ctx = await setupTestApp();
+        const contextId = await createTestContext(ctx.req);
+        assert.equal((await ctx.req('DELETE', `/contexts/${contextId}`, { purge: 'yes' })).status, 400);
+        assert.equal((await ctx.req('DELETE', `/contexts/${contextId}`, { purge: true, ids: [0] })).status, 400);
+        assert.equal((await ctx.req('POST', '/contexts/delete-many', { ids: [contextId], purge: 1 })).status, 400);
+        assert.equal((await ctx.req('GET', `/contexts/${contextId}`)).status, 200);
+    });
+
+    it('should purge live and trashed contexts immediately', async () => {
+        const ctx = await setupTestApp();
+        const live = await createTestContext(ctx.req);
+        const { contextId: trashed } = await createTrashedContext(ctx);
+
+        for (const id of [live, trashed]) {
+            const res = await ctx.req('DELETE', `/contexts/${id}`, { permanent: true, purge: true });
+            assert.equal(res.status, 200);
+            const body = await res.json();
+            assert.equal(body.purged, true);
+        }
+        assert.equal(ctx.storage.getAllNodes().length, 0);
+        assert.equal((await ctx.req('POST', `/contexts/${trashed}/restore`)).status, 404);
+    });
+});
+
+describe('POST /contexts/delete-many (trash)', () => {
+    it('should trash by default and purge with purge: true', async () => {
+        const ctx = await setupTestApp();
+        const [a, b] = [await createTestContext(ctx.req), await createTestContext(ctx.req)];
+
+        const trashed = await (await ctx.req('POST', '/contexts/delete-many', { ids: [a] })).json();
+        assert.equal(trashed.deleted_count, 1);
+        assert.ok(trashed.results[0].restorable_until);
+        assert.ok(ctx.storage.getNodesByPublicId(a));
+
+        const purged = await (await ctx.req('POST', '/contexts/delete-many', { ids: [a, b], purge: true })).json();
+        assert.equal(purged.deleted_count, 2);
+        assert.equal(ctx.storage.getAllNodes().length, 0);
+    });
+});
+
+describe('POST /contexts/:id/restore', () => {
+    it('should bring a trashed context back as it was', async () => {
+        const ctx = await setupTestApp();
+        const { contextId } = await createTrashedContext(ctx);
+
+        const res = await ctx.req('POST', `/contexts/${contextId}/restore`);
+        assert.equal(res.status, 200);
+        const restored = await res.json();
+        assert.equal(restored.id, contextId);
+        assert.equal(restored.version, 0);
+
+        const body = await (await ctx.req('GET', `/contexts/${contextId}`)).json();
+        assert.deepEqual(body.data.map((m: { content: unknown }) => m.content), ['deploy the trash can']);
+        assert.equal((await ctx.req('POST', `/contexts/${contextId}/restore`)).status, 404);
+    });
+
+    it('should return 410 once the restore window has passed', async () => {
+        const ctx = await setupTestApp();
+        const { contextId } = await createTrashedContext(ctx);
+        ageTrash(ctx, contextId, WINDOW_MS + 1000);
+
+        assert.equal((await ctx.req('POST', `/contexts/${contextId}/restore`)).status, 410);
+        assert.equal((await ctx.req('POST', '/contexts/ctx_nonexistent/restore')).status, 404);
+    });
+});
+
+describe('purgeExpiredTrash', () => {
+    it('should delete only contexts past the restore window', async () => {
+        const ctx = await setupTestApp();
+        const { contextId: expired } = await createTrashedContext(ctx);
+        const { contextId: recent } = await createTrashedContext(ctx);
+        ageTrash(ctx, expired, WINDOW_MS + 1000);
+
+        assert.equal(await purgeExpiredTrash(ctx.storage, WINDOW_MS), 1);
+        assert.ok(!ctx.storage.getAllNodes().some((n) => n.public_id === expired || n.context_id === expired));
+        assert.equal((await ctx.req('POST', `/contexts/${recent}/restore`)).status, 200);
+    });
+
+    it('should announce the contexts it purges', async () => {
+        const ctx = await setupTestApp();
+        const { contextId } = await createTrashedContext(ctx);
+        ageTrash(ctx, contextId, WINDOW_MS + 1000);
+
+        const events = new RecordingEventSource();
+        await purgeExpiredTrash(ctx.storage, WINDOW_MS, { sinks: { events } });
+
+        assert.equal(events.published.length, 1);
+        const [event] = events.published;
+        assert.equal(event.type, 'delete');
+        assert.equal(event.context.id, contextId);
+        assert.deepEqual(event.data, { permanent: true, reason: 'trash_expired' });
+    });
+});
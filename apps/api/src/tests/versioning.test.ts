@@ -0,0 +1,220 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { SNAPSHOT_INTERVAL, SNAPSHOT_REPLAY_ROWS } from '../constants';
+import type { MemoryStorage } from './helpers/memory-storage';
+import { appendMessages, setupContext, getContext } from './helpers/app';
+
+// -- Helpers ------------------------------------------------------------------
+
+// head ids each replay loaded rows for
+function recordReplays(storage: MemoryStorage) {
+    const loaded: string[][] = [];
+    const findBulk = storage.findNonContextNodesBulk.bind(storage);
+    storage.findNonContextNodesBulk = async (contextIds) => {
+        loaded.push(contextIds);
+        return findBulk(contextIds);
+    };
+    return loaded;
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('copy-on-write versions', () => {
+    it('should store only the edited message on PATCH', async () => {
+        const { req, storage, contextId, ids } = await setupContext(50);
+        const before = storage.getAllNodes().length;
+
+        const res = await req('PATCH', `/contexts/${contextId}`, { id: ids[10], content: 'edited' });
+        assert.equal(res.status, 200);
+
+        // one version head + one replacement message
+        assert.equal(storage.getAllNodes().length, before + 2);
+
+        const replacement = storage.getNodesWithParentId(ids[10]);
+        assert.equal(replacement.length, 1);
+        assert.equal(replacement[0].content.content, 'edited');
+    });
+
+    it('should store only tombstones on message DELETE', async () => {
+        const { req, storage, contextId, ids } = await setupContext(50);
+        const before = storage.getAllNodes().length;
+
+        const res = await req('DELETE', `/contexts/${contextId}`, { ids: [ids[0], ids[49]] });
+        assert.equal(res.status, 200);
+        const body = await res.json();
+        assert.equal(body.data.length, 48);
+
+        assert.equal(storage.getAllNodes().length, before + 3);
+    });
+
+    it('should keep unchanged message ids stable across versions', async () => {
+        const { req, contextId, ids } = await setupContext(3);
+        const patched = await (await req('PATCH', `/contexts/${contextId}`, { index: 1, content: 'edited' })).json();
+
+        assert.equal(patched.data[0].id, ids[0]);
+        assert.notEqual(patched.data[1].id, ids[1]);
+        assert.equal(patched.data[2].id, ids[2]);
+
+        const head = await getContext(req, contextId);
+        assert.deepEqual(head.data.map((m: any) => m.id), patched.data.map((m: any) => m.id));
+    });
+
+    it('should resolve every historical version', async () => {
+        const { req, contextId, ids } = await setupContext(3);
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'v1' });
+        await req('DELETE', `/contexts/${contextId}`, { ids: [ids[2]] });
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'v3' });
+
+        const contents = async (version: number) =>
+            (await getContext(req, contextId, `?version=${version}`)).data.map((m: any) => m.content);
+
+        assert.deepEqual(await contents(0), ['m0', 'm1', 'm2']);
+        assert.deepEqual(await contents(1), ['v1', 'm1', 'm2']);
+        assert.deepEqual(await contents(2), ['v1', 'm1']);
+        assert.deepEqual(await contents(3), ['v3', 'm1']);
+    });
+
+    it('should append after an edit and allow editing the appended message', async () => {
+        const { req, contextId } = await setupContext(2);
+        await req('PATCH', `/contexts/${contextId}`, { index: -1, content: 'edited tail' });
+
+        const appended = await appendMessages(req, contextId, [{ role: 'assistant', content: 'after edit' }]);
+        assert.equal(appended.data[0].index, 2);
+
+        await req('PATCH', `/contexts/${contextId}`, { id: appended.data[0].id, content: 'edited append' });
+
+        const head = await getContext(req, contextId);
+        assert.deepEqual(head.data.map((m: any) => m.content), ['m0', 'edited tail', 'edited append']);
+        assert.equal(head.version, 2);
+    });
+
+    it('should window over delta versions', async () => {
+        const { req, contextId, ids } = await setupContext(6);
+        await req('DELETE', `/contexts/${contextId}`, { ids: [ids[0]] });
+
+        const page = await getContext(req, contextId, '?offset=1&limit=2');
+        assert.deepEqual(page.data.map((m: any) => m.content), ['m2', 'm3']);
+        assert.equal(page.total, 5);
+    });
+
+    it('should fork from a delta version with at', async () => {
+        const { req, contextId } = await setupContext(4);
+        await req('PATCH', `/contexts/${contextId}`, { index: 1, content: 'edited' });
+
+        const fork = await (await req('POST', '/contexts', { from: contextId, version: 1, at: 2 })).json();
+        const forked = await getContext(req, fork.id);
+        assert.deepEqual(forked.data.map((m: any) => m.content), ['m0', 'edited', 'm2']);
+    });
+
+    it('should leave no nodes behind on permanent delete', async () => {
+        const { req, storage, contextId, ids } = await setupContext(3);
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'edited' });
+        await req('DELETE', `/contexts/${contextId}`, { ids: [ids[1]] });
+
+        const res = await req('DELETE', `/contexts/${contextId}`, { purge: true });
+        assert.equal(res.status, 200);
+        assert.equal(storage.getAllNodes().length, 0);
+    });
+
+    it('should still read legacy full-copy version heads', async () => {
+        const { req, storage, projectId, contextId, ids } = await setupContext(2);
+        const initialHead = storage.getAllNodes().find((n) => n.context_id === contextId && n.type === 'context')!;
+
+        // pre-migration edits wrote a snapshot head with a copy of every message
+        await storage.insertNodes({
+            public_id: 'ctx_legacy',
+            project_id: projectId,
+            type: 'context',
+            context_id: contextId,
+            prev_id: initialHead.public_id,
+            content: {},
+            metadata: { operation: 'update', affected: [ids[1]] },
+        });
+        await storage.insertNodes([
+            { public_id: 'msg_legacy0', project_id: projectId, type: 'message', context_id: 'ctx_legacy', parent_id: ids[0], prev_id: null, content: { role: 'user', content: 'm0' }, metadata: {} },
+            { public_id: 'msg_legacy1', project_id: projectId, type: 'message', context_id: 'ctx_legacy', parent_id: ids[1], prev_id: 'msg_legacy0', content: { role: 'user', content: 'legacy' }, metadata: {} },
+        ]);
+
+        const legacy = await getContext(req, contextId);
+        assert.deepEqual(legacy.data.map((m: any) => m.id), ['msg_legacy0', 'msg_legacy1']);
+
+        // new edits layer deltas on top of the legacy snapshot
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'delta' });
+        const head = await getContext(req, contextId);
+        assert.deepEqual(head.data.map((m: any) => m.content), ['delta', 'legacy']);
+        assert.equal(head.data[1].id, 'msg_legacy1');
+    });
+});
+
+describe('snapshot versions', () => {
+    it('should write a snapshot every SNAPSHOT_INTERVAL versions and window it in storage', async () => {
+        const { req, storage, contextId, ids } = await setupContext(4);
+        for (let i = 0; i < SNAPSHOT_INTERVAL; i++) {
+            assert.equal((await req('PATCH', `/contexts/${contextId}`, { index: 0, content: `edit ${i}` })).status, 200);
+        }
+
+        const loaded = recordReplays(storage);
+        const window = await getContext(req, contextId, '?offset=1&limit=2');
+        assert.deepEqual(window.data.map((m: any) => m.content), ['m1', 'm2']);
+        assert.equal(window.total, 4);
+        assert.equal(loaded.length, 0);
+
+        // later deltas replay from the snapshot, not from the first version
+        await req('PATCH', `/contexts/${contextId}`, { index: 3, content: 'after' });
+        const tail = await getContext(req, contextId, '?tail=1');
+        assert.deepEqual(tail.data.map((m: any) => m.content), ['after']);
+        assert.deepEqual(loaded.map((heads) => heads.length), [2]);
+
+        // messages keep their ids; old versions still resolve, through copies
+        const head = await getContext(req, contextId);
+        assert.deepEqual(head.data.slice(1, 3).map((m: any) => m.id), ids.slice(1, 3));
+        const first = await getContext(req, contextId, '?version=1');
+        assert.deepEqual(first.data.map((m: any) => m.content), ['edit 0', 'm1', 'm2', 'm3']);
+        assert.equal(storage.getNodesByPublicId(first.data[1].id)!.parent_id, ids[1]);
+
+        const diff = await getContext(req, contextId, `/diff?from=1`);
+        assert.deepEqual([diff.added.length, diff.removed.length], [0, 0]);
+        assert.deepEqual(diff.modified.map((m: any) => m.to_index), [0, 3]);
+
+        assert.equal((await req('PATCH', `/contexts/${contextId}`, { id: ids[2], content: 'by id' })).status, 200);
+        const windowById = await getContext(req, contextId, `?from_id=${ids[1]}&limit=2`);
+        assert.deepEqual(windowById.data.map((m: any) => m.content), ['m1', 'by id']);
+    });
+
+    it('should keep every earlier version readable across a snapshot', async () => {
+        const { req, storage, contextId } = await setupContext(3);
+        const contents = async () => (await getContext(req, contextId)).data.map((m: any) => m.content);
+        const history = [await contents()];
+
+        // z stays in the splice's delta head after the snapshot moves x and y out
+        await req('POST', `/contexts/${contextId}/splice`, { start: 1, insert: ['x', 'y', 'z'].map((content) => ({ role: 'user', content })) });
+        history.push(await contents());
+        await req('DELETE', `/contexts/${contextId}`, { ids: [3] });
+        history.push(await contents());
+        while (history.length <= SNAPSHOT_INTERVAL) {
+            assert.equal((await req('PATCH', `/contexts/${contextId}`, { index: -1, content: `edit ${history.length}` })).status, 200);
+            history.push(await contents());
+        }
+        assert.ok(storage.getAllNodes().some((n) => n.content.snapshot === true));
+
+        for (const [version, expected] of history.entries()) {
+            const at = await getContext(req, contextId, `?version=${version}`);
+            assert.deepEqual(at.data.map((m: any) => m.content), expected, `version ${version}`);
+        }
+    });
+
+    it('should write a snapshot once deltas pass SNAPSHOT_REPLAY_ROWS rows', async () => {
+        const { req, storage, contextId } = await setupContext(1);
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'edited' });
+        // appends after an edit land on its delta head
+        await appendMessages(req, contextId, Array.from({ length: SNAPSHOT_REPLAY_ROWS }, (_, i) => ({ role: 'user', content: `a${i}` })));
+        await req('DELETE', `/contexts/${contextId}`, { ids: [0] });
+
+        const loaded = recordReplays(storage);
+        const window = await getContext(req, contextId, '?tail=2');
+        assert.deepEqual(window.data.map((m: any) => m.content), [`a${SNAPSHOT_REPLAY_ROWS - 2}`, `a${SNAPSHOT_REPLAY_ROWS - 1}`]);
+        assert.equal(window.total, SNAPSHOT_REPLAY_ROWS);
+        assert.equal(loaded.length, 0);
+    });
+});
@@ -0,0 +1,310 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { WebhookDispatcher, type WebhookDispatcherOptions } from '../webhooks/dispatcher';
+import { setupTestApp, createTestContext, appendMessages } from './helpers/app';
+
+// -- Local receiver -----------------------------------------------------------
+
+type Received = { headers: Record<string, string | string[] | undefined>; body: string; json: any };
+
+let server: Server;
+let receiverUrl: string;
+let received: Received[] = [];
+// status codes to answer with, in order; 200 once exhausted
+let responses: number[] = [];
+
+before(async () => {
+    server = createServer((request, response) => {
+        let body = '';
+        request.on('data', (chunk) => (body += chunk));
+        request.on('end', () => {
+            received.push({ headers: request.headers, body, json: JSON.parse(body) });
+            response.statusCode = responses.shift() ?? 200;
+            response.end();
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+});
+
+after(() => {
+    server.close();
+});
+
+beforeEach(() => {
+    received = [];
+    responses = [];
+});
+
+// -- Helpers ------------------------------------------------------------------
+
+async function setupWebhooks(options: WebhookDispatcherOptions = {}) {
+    // the receiver listens on loopback
+    const ctx = await setupTestApp({ webhooks: new WebhookDispatcher({ backoffMs: () => 10, allowPrivateTargets: true, ...options }) });
+    return ctx;
+}
+
+async function register(req: Function, body: Record<string, unknown> = {}) {
+    const res = await req('POST', '/webhooks', { url: receiverUrl, ...body });
+    assert.equal(res.status, 201);
+    return res.json();
+}
+
+async function waitFor<T>(check: () => Promise<T | undefined> | T | undefined): Promise<T> {
+    for (let i = 0; i < 200; i++) {
+        const value = await check();
+        if (value !== undefined) return value;
+        await sleep(10);
+    }
+    throw new Error('timed out waiting for condition');
+}
+
+async function deliveries(req: Function, webhookId: string) {
+    const res = await req('GET', `/webhooks/${webhookId}/deliveries`);
+    assert.equal(res.status, 200);
+    const body = await res.json();
+    return body.data as any[];
+}
+
+// -- Tests --------------------------------------------------------------------
+
+describe('webhook registration', () => {
+    it('should return the secret once and list webhooks without it', async () => {
+        const { req } = await setupWebhooks();
+        const webhook = await register(req, { events: ['append', 'delete'] });
+        assert.match(webhook.secret, /^whsec_/);
+        assert.match(webhook.id, /^wh_/);
+        assert.deepEqual(webhook.events, ['append', 'delete']);
+        assert.equal(webhook.active, true);
+
+        const list = await (await req('GET', '/webhooks')).json();
+        assert.deepEqual(list.data.map((w: any) => w.id), [webhook.id]);
+        assert.equal(list.data[0].secret, undefined);
+
+        const patched = await req('PATCH', `/webhooks/${webhook.id}`, { active: false, events: ['create'] });
+        assert.equal(patched.status, 200);
+        const updated = await patched.json();
+        assert.equal(updated.active, false);
+        assert.deepEqual(updated.events, ['create']);
+
+        assert.equal((await req('DELETE', `/webhooks/${webhook.id}`)).status, 200);
+        assert.equal((await req('GET', `/webhooks/${webhook.id}`)).status, 404);
+    });
+
+    it('should validate url and events', async () => {
+        const { req } = await setupWebhooks();
+        assert.equal((await req('POST', '/webhooks', { url: 'ftp://example.com' })).status, 400);
+        assert.equal((await req('POST', '/webhooks', { url: 'not a url' })).status, 400);
+        assert.equal((await req('POST', '/webhooks', { url: receiverUrl, events: [] })).status, 400);
+        assert.equal((await req('POST', '/webhooks', { url: receiverUrl, events: ['nope'] })).status, 400);
+        assert.equal((await req('PATCH', '/webhooks/wh_nonexistent', { active: false })).status, 404);
+        assert.equal((await req('GET', '/webhooks/wh_nonexistent/deliveries')).status, 404);
+    });
+});
+
+describe('webhook delivery', () => {
+    it('should POST signed events for context mutations', async () => {
+        const { req } = await setupWebhooks();
+        const webhook = await register(req);
+
+        const contextId = await createTestContext(req);
+        await appendMessages(req, contextId, [{ role: 'user', content: 'hi' }]);
+        await req('PATCH', `/contexts/${contextId}`, { index: 0, content: 'edited' });
+        await req('DELETE', `/contexts/${contextId}`, { permanent: true });
+
+        await waitFor(() => (received.length === 4 ? true : undefined));
+        const byType = new Map(received.map((r) => [r.json.type, r]));
+        assert.deepEqual([...byType.keys()].sort(), ['append', 'create', 'delete', 'update']);
+
+        for (const r of received) {
+            const [t, v1] = String(r.headers['ultracontext-signature']).split(',');
+            const timestamp = t.slice('t='.length);
+            const expected = createHmac('sha256', webhook.secret).update(`${timestamp}.${r.body}`).digest('hex');
+            assert.equal(v1, `v1=${expected}`);
+            assert.equal(r.headers['ultracontext-event'], r.json.type);
+            assert.match(r.json.id, /^evt_/);
+            assert.equal(r.json.context.id, contextId);
+            assert.equal(r.json.project_id, undefined);
+        }
+        assert.deepEqual(byType.get('append')!.json.data.messages.map((m: any) => m.content), ['hi']);
+        assert.equal(byType.get('delete')!.json.version, null);
+
+        const log = await waitFor(async () => {
+            const rows = await deliveries(req, webhook.id);
+            return rows.every((d) => d.status === 'succeeded') ? rows : undefined;
+        });
+        assert.equal(log.length, 4);
+        assert.ok(log.every((d) => d.attempts === 1 && d.response_status === 200));
+    });
+
+    it('should only send subscribed events from active webhooks', async () => {
+        const { req } = await setupWebhooks();
+        await register(req, { events: ['append'] });
+        const inactive = await register(req);
+        await req('PATCH', `/webhooks/${inactive.id}`, { active: false });
+
+        const contextId = await createTestContext(req);
+        await appendMessages(req, contextId, [{ role: 'user', content: 'hi' }]);
+
+        await waitFor(() => (received.length > 0 ? true : undefined));
+        await sleep(30);
+        assert.deepEqual(received.map((r) => r.json.type), ['append']);
+    });
+
+    it('should send one delete per context of delete-many', async () => {
+        const { req } = await setupWebhooks();
+        const a = await createTestContext(req);
+        const b = await createTestContext(req);
+        await register(req, { events: ['delete'] });
+
+        const res = await req('POST', '/contexts/delete-many', { ids: [a, b, 'ctx_nonexistent'], purge: true });
+        assert.equal(res.status, 207);
+
+        await waitFor(() => (received.length === 2 ? true : undefined));
+        assert.deepEqual(received.map((r) => r.json.context.id).sort(), [a, b].sort());
+        assert.ok(received.every((r) => r.json.data.permanent === true));
+    });
+
+    it('should retry failed deliveries with backoff', async () => {
+        const { req } = await setupWebhooks();
+        const webhook = await register(req, { events: ['create'] });
+        responses = [500, 503];
+
+        await createTestContext(req);
+
+        const [delivery] = await waitFor(async () => {
+            const rows = await deliveries(req, webhook.id);
+            return rows[0]?.status === 'succeeded' ? rows : undefined;
+        });
+        assert.equal(delivery.attempts, 3);
+        assert.equal(delivery.response_status, 200);
+        assert.equal(delivery.last_error, null);
+        assert.equal(received.length, 3);
+        // every attempt carries the same delivery and event id
+        assert.equal(new Set(received.map((r) => r.headers['ultracontext-delivery'])).size, 1);
+        assert.equal(new Set(received.map((r) => r.json.id)).size, 1);
+    });
+
+    it('should give up after max attempts and redeliver on request', async () => {
+        const { req } = await setupWebhooks({ maxAttempts: 2 });
+        const webhook = await register(req, { events: ['create'] });
+        responses = [500, 500];
+
+        await createTestContext(req);
+
+        const [failed] = await waitFor(async () => {
+            const rows = await deliveries(req, webhook.id);
+            return rows[0]?.status === 'failed' ? rows : undefined;
+        });
+        assert.equal(failed.attempts, 2);
+        assert.equal(failed.last_error, 'HTTP 500');
+        assert.equal(failed.next_attempt_at, null);
+
+        const res = await req('POST', `/webhooks/${webhook.id}/deliveries/${failed.id}/redeliver`);
+        assert.equal(res.status, 202);
+        const redelivery = await res.json();
+        assert.notEqual(redelivery.id, failed.id);
+        assert.equal(redelivery.event_id, failed.event_id);
+
+        const log = await waitFor(async () => {
+            const rows = await deliveries(req, webhook.id);
+            return rows[0]?.status === 'succeeded' ? rows : undefined;
+        });
+        assert.deepEqual(log.map((d) => d.id), [redelivery.id, failed.id]);
+        assert.equal((await req('POST', `/webhooks/${webhook.id}/deliveries/whd_nonexistent/redeliver`)).status, 404);
+    });
+
+    it('should leave retries to retryDue when in-process retries are off', async () => {
+        const dispatcher = new WebhookDispatcher({ backoffMs: () => 0, retryInProcess: false, allowPrivateTargets: true });
+        const { req, storage } = await setupTestApp({ webhooks: dispatcher });
+        const webhook = await register(req, { events: ['create'] });
+        responses = [500];
+
+        await createTestContext(req);
+        await waitFor(async () => {
+            const rows = await deliveries(req, webhook.id);
+            return rows[0]?.attempts === 1 ? true : undefined;
+        });
+        await sleep(30);
+        assert.equal(received.length, 1);
+
+        assert.equal(await dispatcher.retryDue(storage), 1);
+        const [delivery] = await deliveries(req, webhook.id);
+        assert.equal(delivery.status, 'succeeded');
+        assert.equal(delivery.attempts, 2);
+    });
+
+    it('should send a due delivery once when several senders pick it up', async () => {
+        const dispatcher = new WebhookDispatcher({ backoffMs: () => 0, retryInProcess: false, allowPrivateTargets: true });
+        const { req, storage } = await setupTestApp({ webhooks: dispatcher });
+        const webhook = await register(req, { events: ['create'] });
+        responses = [500];
+
+        await createTestContext(req);
+        await waitFor(async () => {
+            const rows = await deliveries(req, webhook.id);
+            return rows[0]?.attempts === 1 ? true : undefined;
+        });
+
+        // e.g. the Workers cron and the Node.js sweep racing on the same row
+        const due = await storage.findDueWebhookDeliveries(new Date().toISOString(), 10);
+        await Promise.all([dispatcher.retryDue(storage), dispatcher.retryDue(storage), dispatcher.deliver(storage, due)]);
+        assert.equal(received.length, 2);
+
+        const [delivery] = await deliveries(req, webhook.id);
+        assert.equal(delivery.status, 'succeeded');
+        assert.equal(delivery.attempts, 2);
+    });
+});
+
+describe('webhook targets', () => {
+    it('should refuse loopback, link-local, private and internal URLs', async () => {
+        const { req } = await setupTestApp();
+        const urls = [
+            receiverUrl,
+            'http://localhost:8080/hooks',
+            'http://169.254.169.254/latest/meta-data',
+            'http://10.0.0.8/hooks',
+            'http://192.168.1.10/hooks',
+            'http://[::1]/hooks',
+            'http://[::ffff:127.0.0.1]/hooks',
+            'http://2130706433/hooks',
+            'http://metadata.google.internal/hooks',
+            'http://billing/hooks',
+        ];
+        for (const url of urls) {
+            const res = await req('POST', '/webhooks', { url });
+            assert.equal(res.status, 400, url);
+        }
+
+        const webhook = await (await req('POST', '/webhooks', { url: 'https://hooks.example.com/in' })).json();
+        assert.equal((await req('PATCH', `/webhooks/${webhook.id}`, { url: 'http://172.16.0.1/' })).status, 400);
+    });
+
+    it('should check resolved addresses on registration and on every delivery', async () => {
+        let addresses = ['93.184.216.34'];
+        const dispatcher = new WebhookDispatcher({ resolveHost: async () => addresses, retryInProcess: false, maxAttempts: 1 });
+        const { req } = await setupTestApp({ webhooks: dispatcher });
+
+        addresses = ['93.184.216.34', '10.1.2.3'];
+        assert.equal((await req('POST', '/webhooks', { url: 'https://hooks.example.com/in' })).status, 400);
+
+        // re-resolving to a private address after registration (DNS rebinding)
+        addresses = ['93.184.216.34'];
+        const webhook = await register(req, { url: 'https://hooks.example.com/in', events: ['create'] });
+        addresses = ['127.0.0.1'];
+        await createTestContext(req);
+
+        const [delivery] = await waitFor(async () => {
+            const rows = await deliveries(req, webhook.id);
+            return rows[0]?.status === 'failed' ? rows : undefined;
+        });
+        assert.equal(delivery.last_error, 'url must point to a public host');
+        assert.equal(received.length, 0);
+    });
+});
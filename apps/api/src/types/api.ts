@@ -1,3 +1,6 @@
+import type { ApiKeyScope } from '../domain/api-keys';
+import type { RateLimitGroup, RateLimitRule } from '../ratelimit/types';
+
 // =============================================================================
 // API RESPONSE TYPES
 // =============================================================================
@@ -28,17 +31,44 @@ export type ListResponse<T> = {
 
 export type DatabaseProvider = 'postgres' | 'supabase';
 
+// merged over DEFAULT_RATE_LIMITS, e.g. { "deletes": { "key": 10 } }
+export type RateLimitOverrides = Partial<Record<RateLimitGroup, Partial<RateLimitRule>>>;
+
 export type ApiConfig =
     | {
           DATABASE_PROVIDER: 'postgres';
           DATABASE_URL: string;
           ULTRACONTEXT_ADMIN_KEY: string;
+          IDEMPOTENCY_WINDOW_SECONDS?: number;
+          TRASH_WINDOW_SECONDS?: number;
+          RATE_LIMIT_WINDOW_SECONDS?: number;
+          RATE_LIMITS?: RateLimitOverrides;
+          // unset: no delegated tokens
+          ULTRACONTEXT_TOKEN_SIGNING_KEY?: string;
       }
     | {
           DATABASE_PROVIDER: 'supabase';
           SUPABASE_URL: string;
           SUPABASE_SERVICE_ROLE_KEY: string;
           ULTRACONTEXT_ADMIN_KEY: string;
+          IDEMPOTENCY_WINDOW_SECONDS?: number;
+          TRASH_WINDOW_SECONDS?: number;
+          RATE_LIMIT_WINDOW_SECONDS?: number;
+          RATE_LIMITS?: RateLimitOverrides;
+          // unset: no delegated tokens
+          ULTRACONTEXT_TOKEN_SIGNING_KEY?: string;
       };
 
-export type Auth = { apiKeyId: number; projectId: number };
+export type Auth = {
+    apiKeyId: number;
+    projectId: number;
+    // null: every scope
+    scopes: ApiKeyScope[] | null;
+    // null: every context of the project
+    contextIds: string[] | null;
+    metadataFilter: Record<string, unknown> | null;
+    // a short-lived token minted from the key, not the key itself
+    delegated: boolean;
+    // when this credential stops working; null: never
+    expiresAt: string | null;
+};
@@ -1 +1 @@
-export type { ContextResponse, NodeResponse, ListResponse, DatabaseProvider, ApiConfig, Auth } from './api';
+export type { ContextResponse, NodeResponse, ListResponse, DatabaseProvider, ApiConfig, Auth, RateLimitOverrides } from './api';
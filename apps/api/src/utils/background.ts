@@ -0,0 +1,11 @@
+import type { HttpContext } from '../types/http';
+
+// Workers stop an isolate's work once the response is sent unless it's handed
+// to waitUntil; Node keeps running it regardless.
+export function runInBackground(c: HttpContext, task: Promise<unknown>) {
+    try {
+        c.executionCtx.waitUntil(task);
+    } catch {
+        // no execution context outside Workers
+    }
+}
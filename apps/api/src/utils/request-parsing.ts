@@ -1,10 +1,17 @@
+import { API_KEY_SCOPES } from '../domain/api-keys';
+import type { MessageWindow } from '../domain/context-chain';
+import type { ApiKeyAccess, ContextFilters, MetadataFilter } from '../storage/types';
+import { MAX_KEY_CONTEXT_IDS, MAX_METADATA_FILTERS } from '../constants';
+
 export type UpdateRequestInput = { id?: string; index?: number; [key: string]: unknown };
 
 export function isPlainObject(value: unknown): value is Record<string, unknown> {
     return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
-export function parseUpdateRequestBody(body: unknown): { updates: UpdateRequestInput[]; userMetadata?: Record<string, unknown> } | { error: string } {
+export function parseUpdateRequestBody(
+    body: unknown,
+): { updates: UpdateRequestInput[]; userMetadata?: Record<string, unknown>; expectedVersion?: unknown } | { error: string } {
     if (Array.isArray(body)) {
         return { updates: body as UpdateRequestInput[] };
     }
@@ -13,7 +20,7 @@ export function parseUpdateRequestBody(body: unknown): { updates: UpdateRequestI
         return { error: 'Request body must be a JSON object or array' };
     }
 
-    const { metadata, updates, ...single } = body;
+    const { metadata, updates, expected_version: expectedVersion, ...single } = body;
 
     if (metadata !== undefined && !isPlainObject(metadata)) {
         return { error: 'metadata must be an object' };
@@ -21,8 +28,179 @@ export function parseUpdateRequestBody(body: unknown): { updates: UpdateRequestI
 
     if (updates !== undefined) {
         if (!Array.isArray(updates)) return { error: 'updates must be an array' };
-        return { updates: updates as UpdateRequestInput[], userMetadata: metadata as Record<string, unknown> | undefined };
+        return { updates: updates as UpdateRequestInput[], userMetadata: metadata as Record<string, unknown> | undefined, expectedVersion };
+    }
+
+    return { updates: [single as UpdateRequestInput], userMetadata: metadata as Record<string, unknown> | undefined, expectedVersion };
+}
+
+function parseNonNegativeInt(value: string): number | null {
+    return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+export function parseMessageWindow(query: (name: string) => string | undefined): { window: MessageWindow } | { error: string } {
+    const window: MessageWindow = {};
+
+    for (const name of ['offset', 'limit', 'tail'] as const) {
+        const raw = query(name);
+        if (raw === undefined) continue;
+        const value = parseNonNegativeInt(raw);
+        if (value === null || (name !== 'offset' && value === 0)) {
+            return { error: `${name} must be a ${name === 'offset' ? 'non-negative' : 'positive'} integer` };
+        }
+        window[name] = value;
+    }
+
+    if (window.tail !== undefined && (window.offset !== undefined || window.limit !== undefined)) {
+        return { error: 'tail cannot be combined with offset or limit' };
+    }
+
+    const fromId = query('from_id');
+    const toId = query('to_id');
+    if (fromId !== undefined) window.from_id = fromId;
+    if (toId !== undefined) window.to_id = toId;
+
+    return { window };
+}
+
+// metadata.<key>[op]=value, key a dot path; a bare metadata.<key> means eq
+const METADATA_PARAM = /^metadata\.([\w-]+(?:\.[\w-]+)*)(?:\[(\w+)\])?$/;
+
+const METADATA_OPERATORS: Record<string, { op: 'eq' | 'in' | 'prefix'; negate: boolean }> = {
+    eq: { op: 'eq', negate: false },
+    not: { op: 'eq', negate: true },
+    in: { op: 'in', negate: false },
+    not_in: { op: 'in', negate: true },
+    prefix: { op: 'prefix', negate: false },
+    not_prefix: { op: 'prefix', negate: true },
+};
+
+// metadata[contains] / metadata[not_contains] take a JSON object
+function parseMetadataFilters(queries: Record<string, string[]>): { filters: MetadataFilter[] } | { error: string } {
+    const filters: MetadataFilter[] = [];
+
+    for (const [name, values] of Object.entries(queries)) {
+        if (name === 'metadata[contains]' || name === 'metadata[not_contains]') {
+            for (const raw of values) {
+                let value: unknown;
+                try {
+                    value = JSON.parse(raw);
+                } catch {
+                    value = undefined;
+                }
+                if (!isPlainObject(value)) return { error: `${name} must be a JSON object` };
+                filters.push({ op: 'contains', value, negate: name === 'metadata[not_contains]' });
+            }
+            continue;
+        }
+
+        const match = METADATA_PARAM.exec(name);
+        if (!match) {
+            if (name.startsWith('metadata')) return { error: `Invalid metadata filter: ${name}` };
+            continue;
+        }
+
+        const [, key, operator = 'eq'] = match;
+        const parsed = METADATA_OPERATORS[operator];
+        if (!parsed) return { error: `Unknown metadata operator: ${operator}` };
+
+        if (parsed.op === 'in') {
+            // comma-separated; repeating the parameter adds more values
+            const list = values.flatMap((raw) => raw.split(',')).filter((v) => v.length > 0);
+            if (list.length === 0) return { error: `${name} needs at least one value` };
+            filters.push({ op: 'in', key, values: list, negate: parsed.negate });
+            continue;
+        }
+
+        for (const raw of values) filters.push({ op: parsed.op, key, value: raw, negate: parsed.negate });
+    }
+
+    if (filters.length > MAX_METADATA_FILTERS) return { error: `At most ${MAX_METADATA_FILTERS} metadata filters are allowed` };
+    return { filters };
+}
+
+// root context metadata + timestamp filters shared by GET /contexts and GET /search
+export function parseContextFilters(queries: Record<string, string[]>): { filters: ContextFilters } | { error: string } {
+    const query = (name: string) => queries[name]?.[0];
+    const filters: ContextFilters = {};
+    const source = query('source');
+    const userId = query('user_id');
+    const host = query('host');
+    const projectPath = query('project_path');
+    const sessionId = query('session_id');
+    const after = query('after');
+    const before = query('before');
+    if (source) filters.source = source;
+    if (userId) filters.user_id = userId;
+    if (host) filters.host = host;
+    if (projectPath) filters.project_path = projectPath;
+    if (sessionId) filters.session_id = sessionId;
+    if (after) {
+        if (isNaN(Date.parse(after))) return { error: 'Invalid after timestamp' };
+        filters.after = after;
+    }
+    if (before) {
+        if (isNaN(Date.parse(before))) return { error: 'Invalid before timestamp' };
+        filters.before = before;
+    }
+
+    const metadata = parseMetadataFilters(queries);
+    if ('error' in metadata) return metadata;
+    if (metadata.filters.length > 0) filters.metadata = metadata.filters;
+
+    return { filters };
+}
+
+// If-Match carries a version tag ("3", W/"3" or bare 3; * matches any version).
+// expected_version is the same thing from the body or query string.
+export function parseExpectedVersion(ifMatch: string | undefined, expectedVersion: unknown): { expected?: number } | { error: string } {
+    let fromHeader: number | undefined;
+    const tag = ifMatch?.trim();
+    if (tag !== undefined && tag !== '*') {
+        const value = parseNonNegativeInt(tag.replace(/^(W\/)?"(.*)"$/, '$2'));
+        if (value === null) return { error: 'Invalid If-Match header' };
+        fromHeader = value;
+    }
+
+    let fromBody: number | undefined;
+    if (expectedVersion !== undefined) {
+        const value = typeof expectedVersion === 'number' ? expectedVersion : parseNonNegativeInt(String(expectedVersion));
+        if (value === null || !Number.isInteger(value) || value < 0) return { error: 'expected_version must be a non-negative integer' };
+        fromBody = value;
+    }
+
+    if (fromHeader !== undefined && fromBody !== undefined && fromHeader !== fromBody) {
+        return { error: 'If-Match and expected_version disagree' };
+    }
+    return { expected: fromHeader ?? fromBody };
+}
+
+// omitted fields grant everything
+export function parseKeyAccess(body: Record<string, unknown>): { access: Partial<ApiKeyAccess> } | { error: string } {
+    const { scopes, context_ids, metadata_filter } = body;
+    const access: Partial<ApiKeyAccess> = {};
+
+    if (scopes !== undefined) {
+        if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every((s) => (API_KEY_SCOPES as readonly unknown[]).includes(s))) {
+            return { error: `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}` };
+        }
+        access.scopes = [...new Set<string>(scopes)];
+    }
+
+    if (context_ids !== undefined) {
+        if (!Array.isArray(context_ids) || context_ids.length === 0 || context_ids.length > MAX_KEY_CONTEXT_IDS) {
+            return { error: `context_ids must be an array of 1 to ${MAX_KEY_CONTEXT_IDS} context IDs` };
+        }
+        if (!context_ids.every((id) => typeof id === 'string' && id.length > 0)) return { error: 'Each context id must be a string' };
+        access.context_ids = [...new Set<string>(context_ids)];
+    }
+
+    if (metadata_filter !== undefined) {
+        if (!isPlainObject(metadata_filter) || Object.keys(metadata_filter).length === 0) {
+            return { error: 'metadata_filter must be a non-empty JSON object' };
+        }
+        access.metadata_filter = metadata_filter;
     }
 
-    return { updates: [single as UpdateRequestInput], userMetadata: metadata as Record<string, unknown> | undefined };
+    return { access };
 }
@@ -0,0 +1,198 @@
+import { WEBHOOK_CLAIM_MS, WEBHOOK_MAX_ATTEMPTS, WEBHOOK_RETRY_BATCH, WEBHOOK_TIMEOUT_MS } from '../constants';
+import { generatePublicId } from '../domain/public-ids';
+import { formatSignatureHeader, signWebhookPayload, WEBHOOK_SIGNATURE_HEADER, webhookBackoffMs, webhookPayload } from '../domain/webhooks';
+import type { ContextEvent } from '../events/types';
+import type { StorageAdapter, WebhookDeliveryRow, WebhookRow } from '../storage/types';
+import { webhookTargetError, type HostResolver } from './targets';
+
+// =============================================================================
+// WEBHOOK DISPATCHER — persists one delivery per subscribed webhook, then POSTs
+// it with retries; webhook_deliveries doubles as the delivery log
+// =============================================================================
+
+export type WebhookDispatcherOptions = {
+    fetch?: typeof fetch;
+    maxAttempts?: number;
+    // delay before retry n (1-based)
+    backoffMs?: (attempt: number) => number;
+    timeoutMs?: number;
+    // retry on timers in this process; off where nothing outlives the request
+    // (Workers), leaving due deliveries to retryDue(). Timers don't survive a
+    // restart either, so Node.js also calls retryDue() from its sweep.
+    retryInProcess?: boolean;
+    // checks the addresses a host resolves to, not just its name (Node)
+    resolveHost?: HostResolver;
+    // lets deliveries reach loopback and private networks, for local receivers
+    allowPrivateTargets?: boolean;
+};
+
+type AttemptResult = { status: number | null; error: string | null };
+
+export class WebhookDispatcher {
+    private readonly fetchFn: typeof fetch;
+    private readonly maxAttempts: number;
+    private readonly backoffMs: (attempt: number) => number;
+    private readonly timeoutMs: number;
+    private readonly retryInProcess: boolean;
+    private readonly resolveHost?: HostResolver;
+    private readonly allowPrivateTargets: boolean;
+
+    constructor(options: WebhookDispatcherOptions = {}) {
+        this.fetchFn = options.fetch ?? fetch;
+        this.maxAttempts = options.maxAttempts ?? WEBHOOK_MAX_ATTEMPTS;
+        this.backoffMs = options.backoffMs ?? webhookBackoffMs;
+        this.timeoutMs = options.timeoutMs ?? WEBHOOK_TIMEOUT_MS;
+        this.retryInProcess = options.retryInProcess ?? true;
+        this.resolveHost = options.resolveHost;
+        this.allowPrivateTargets = options.allowPrivateTargets ?? false;
+    }
+
+    // why deliveries can't go to this URL, or null; checked on register and on every attempt
+    async targetError(url: string): Promise<string | null> {
+        return webhookTargetError(url, { resolve: this.resolveHost, allowPrivate: this.allowPrivateTargets });
+    }
+
+    // records a pending delivery for every active webhook subscribed to the event
+    async enqueue(storage: StorageAdapter, event: ContextEvent): Promise<WebhookDeliveryRow[]> {
+        const webhooks = (await storage.findWebhooks(event.project_id)).filter((w) => w.active && w.events.includes(event.type));
+        if (webhooks.length === 0) return [];
+
+        const now = new Date().toISOString();
+        return storage.insertWebhookDeliveries(
+            webhooks.map((w) => ({
+                public_id: generatePublicId('delivery'),
+                webhook_id: w.id,
+                event_id: event.id,
+                event_type: event.type,
+                payload: webhookPayload(event),
+                next_attempt_at: now,
+            })),
+        );
+    }
+
+    // never rejects: failures are recorded on the delivery
+    async deliver(storage: StorageAdapter, deliveries: WebhookDeliveryRow[]): Promise<void> {
+        await Promise.all(deliveries.map((d) => this.attempt(storage, d)));
+    }
+
+    // a fresh delivery of the same event (same event_id), with its own attempts
+    async redeliver(storage: StorageAdapter, delivery: WebhookDeliveryRow): Promise<WebhookDeliveryRow> {
+        const [row] = await storage.insertWebhookDeliveries([
+            {
+                public_id: generatePublicId('delivery'),
+                webhook_id: delivery.webhook_id,
+                event_id: delivery.event_id,
+                event_type: delivery.event_type,
+                payload: delivery.payload,
+                next_attempt_at: new Date().toISOString(),
+            },
+        ]);
+        return row;
+    }
+
+    // sends every pending delivery whose retry is due; returns how many it tried
+    async retryDue(storage: StorageAdapter, limit = WEBHOOK_RETRY_BATCH): Promise<number> {
+        const due = await storage.findDueWebhookDeliveries(new Date().toISOString(), limit);
+        await this.deliver(storage, due);
+        return due.length;
+    }
+
+    // The Workers cron, the Node.js sweep and in-process timers can all pick up
+    // the same due row, so every attempt first claims it by pushing its next
+    // attempt past the send; whoever loses the claim leaves it alone.
+    private async attempt(storage: StorageAdapter, pending: WebhookDeliveryRow): Promise<void> {
+        const now = Date.now();
+        try {
+            const delivery = await storage.claimWebhookDelivery(
+                pending.id,
+                new Date(now).toISOString(),
+                new Date(now + this.timeoutMs + WEBHOOK_CLAIM_MS).toISOString(),
+            );
+            if (!delivery) return;
+
+            const webhook = await storage.findWebhookById(delivery.webhook_id);
+            if (!webhook) return;
+
+            const attempts = delivery.attempts + 1;
+            if (!webhook.active) {
+                await storage.updateWebhookDelivery(delivery.id, { status: 'failed', last_error: 'Webhook is disabled', next_attempt_at: null });
+                return;
+            }
+
+            const result = await this.send(webhook, delivery);
+            if (result.error === null) {
+                await storage.updateWebhookDelivery(delivery.id, {
+                    status: 'succeeded',
+                    attempts,
+                    response_status: result.status,
+                    last_error: null,
+                    next_attempt_at: null,
+                });
+                return;
+            }
+
+            if (attempts >= this.maxAttempts) {
+                await storage.updateWebhookDelivery(delivery.id, {
+                    status: 'failed',
+                    attempts,
+                    response_status: result.status,
+                    last_error: result.error,
+                    next_attempt_at: null,
+                });
+                return;
+            }
+
+            const delay = this.backoffMs(attempts);
+            await storage.updateWebhookDelivery(delivery.id, {
+                attempts,
+                response_status: result.status,
+                last_error: result.error,
+                next_attempt_at: new Date(Date.now() + delay).toISOString(),
+            });
+
+            if (this.retryInProcess) {
+                const timer = setTimeout(() => void this.attempt(storage, delivery), delay);
+                // pending retries shouldn't keep a stopping process alive
+                (timer as { unref?: () => void }).unref?.();
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`Failed to deliver webhook delivery ${pending.public_id}: ${message}`);
+        }
+    }
+
+    private async send(webhook: WebhookRow, delivery: WebhookDeliveryRow): Promise<AttemptResult> {
+        // the URL may predate these checks, or its host may resolve elsewhere now
+        const blocked = await this.targetError(webhook.url);
+        if (blocked) return { status: null, error: blocked };
+
+        const body = JSON.stringify(delivery.payload);
+        const timestamp = Math.floor(Date.now() / 1000);
+        const signature = await signWebhookPayload(webhook.secret, timestamp, body);
+
+        const ac = new AbortController();
+        const timeout = setTimeout(() => ac.abort(), this.timeoutMs);
+        try {
+            const res = await this.fetchFn(webhook.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'UltraContext-Event': delivery.event_type,
+                    'UltraContext-Delivery': delivery.public_id,
+                    [WEBHOOK_SIGNATURE_HEADER]: formatSignatureHeader(timestamp, signature),
+                },
+                body,
+                // a redirect isn't an acknowledgement
+                redirect: 'manual',
+                signal: ac.signal,
+            });
+            await res.body?.cancel().catch(() => undefined);
+            return res.ok ? { status: res.status, error: null } : { status: res.status, error: `HTTP ${res.status}` };
+        } catch (error) {
+            const message = ac.signal.aborted ? `Timed out after ${this.timeoutMs}ms` : error instanceof Error ? error.message : String(error);
+            return { status: null, error: message };
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+}
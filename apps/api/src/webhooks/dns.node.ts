@@ -0,0 +1,9 @@
+import { lookup } from 'node:dns/promises';
+
+import type { HostResolver } from './targets';
+
+// Node.js only: the addresses fetch would connect to, IPv4 and IPv6
+export const lookupHostAddresses: HostResolver = async (hostname) => {
+    const addresses = await lookup(hostname, { all: true, verbatim: true });
+    return addresses.map((a) => a.address);
+};
@@ -0,0 +1,127 @@
+// =============================================================================
+// WEBHOOK TARGETS — deliveries only go out to the public internet
+// =============================================================================
+// Any project key can register a webhook, so without this it could aim signed
+// POSTs at loopback, the cloud metadata service or the private network. URLs
+// are checked when registered and again before every delivery; given a
+// resolver (Node), every address the host resolves to is checked as well.
+
+// every address the hostname resolves to
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+export type WebhookTargetOptions = {
+    resolve?: HostResolver;
+    // skips the address checks, for receivers on a local network
+    allowPrivate?: boolean;
+};
+
+// hostnames that only mean something inside a network
+const INTERNAL_SUFFIXES = ['.localhost', '.local', '.internal', '.intranet', '.lan', '.home.arpa'];
+
+// -- addresses ----------------------------------------------------------------
+
+function parseIpv4(address: string): number[] | null {
+    const parts = address.split('.');
+    if (parts.length !== 4 || !parts.every((p) => /^\d{1,3}$/.test(p))) return null;
+    const octets = parts.map(Number);
+    return octets.every((o) => o <= 255) ? octets : null;
+}
+
+function isPrivateIpv4([a, b]: number[]): boolean {
+    return (
+        a === 0 ||
+        a === 10 ||
+        a === 127 ||
+        // carrier-grade NAT
+        (a === 100 && b >= 64 && b <= 127) ||
+        // link-local, including 169.254.169.254
+        (a === 169 && b === 254) ||
+        (a === 172 && b >= 16 && b <= 31) ||
+        (a === 192 && b === 168) ||
+        (a === 192 && b === 0) ||
+        (a === 198 && (b === 18 || b === 19)) ||
+        // multicast and reserved
+        a >= 224
+    );
+}
+
+// eight 16-bit groups, or null if it isn't an IPv6 address
+function parseIpv6(address: string): number[] | null {
+    let text = address.toLowerCase();
+
+    // a dotted IPv4 tail (::ffff:10.0.0.1) stands for the last two groups
+    const lastColon = text.lastIndexOf(':');
+    const ipv4 = lastColon === -1 ? null : parseIpv4(text.slice(lastColon + 1));
+    if (ipv4) {
+        const hex = (hi: number, lo: number) => ((hi << 8) | lo).toString(16);
+        text = `${text.slice(0, lastColon + 1)}${hex(ipv4[0], ipv4[1])}:${hex(ipv4[2], ipv4[3])}`;
+    }
+
+    const halves = text.split('::');
+    if (halves.length > 2) return null;
+    const parse = (part: string) => (part === '' ? [] : part.split(':').map((g) => (/^[0-9a-f]{1,4}$/.test(g) ? parseInt(g, 16) : NaN)));
+    const left = parse(halves[0]);
+    const right = halves.length === 2 ? parse(halves[1]) : [];
+
+    const missing = 8 - left.length - right.length;
+    if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+    const groups = [...left, ...new Array<number>(missing).fill(0), ...right];
+    return groups.every((g) => !isNaN(g)) ? groups : null;
+}
+
+function isPrivateIpv6(groups: number[]): boolean {
+    const [g0, g1, g2, g3, g4, g5, g6, g7] = groups;
+    const embeddedIpv4 = [g6 >> 8, g6 & 0xff, g7 >> 8, g7 & 0xff];
+
+    // :: and ::1
+    if (groups.slice(0, 7).every((g) => g === 0) && g7 <= 1) return true;
+    // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) reach IPv4 hosts
+    if (g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0xffff) return isPrivateIpv4(embeddedIpv4);
+    if (g0 === 0x64 && g1 === 0xff9b) return isPrivateIpv4(embeddedIpv4);
+    // unique local fc00::/7, link-local fe80::/10, multicast ff00::/8
+    return (g0 & 0xfe00) === 0xfc00 || (g0 & 0xffc0) === 0xfe80 || (g0 & 0xff00) === 0xff00;
+}
+
+// true for IP literals outside the public internet; false for anything else
+export function isPrivateAddress(address: string): boolean {
+    const ipv4 = parseIpv4(address);
+    if (ipv4) return isPrivateIpv4(ipv4);
+    const ipv6 = parseIpv6(address);
+    return ipv6 !== null && isPrivateIpv6(ipv6);
+}
+
+function isInternalHostname(hostname: string): boolean {
+    if (hostname === 'localhost' || !hostname.includes('.')) return true;
+    return INTERNAL_SUFFIXES.some((suffix) => hostname.endsWith(suffix));
+}
+
+// -- URLs ---------------------------------------------------------------------
+
+// why the URL can't receive deliveries, or null if it can. A host can still
+// re-resolve between this check and the request itself.
+export async function webhookTargetError(rawUrl: string, options: WebhookTargetOptions = {}): Promise<string | null> {
+    let url: URL;
+    try {
+        url = new URL(rawUrl);
+    } catch {
+        return 'url must be an http(s) URL';
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'url must be an http(s) URL';
+    if (options.allowPrivate) return null;
+
+    // URL already normalizes IPv4 spellings like 2130706433 or 0x7f.1
+    const hostname = url.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+    const isIpLiteral = parseIpv4(hostname) !== null || parseIpv6(hostname) !== null;
+    if (isIpLiteral ? isPrivateAddress(hostname) : isInternalHostname(hostname)) {
+        return 'url must point to a public host';
+    }
+    if (isIpLiteral || !options.resolve) return null;
+
+    let addresses: string[];
+    try {
+        addresses = await options.resolve(hostname);
+    } catch {
+        return `Could not resolve ${hostname}`;
+    }
+    return addresses.some(isPrivateAddress) ? 'url must point to a public host' : null;
+}
@@ -1,39 +1,87 @@
 import { KvKeyCache } from './cache/kv';
+import { DurableObjectRateLimitCounter } from './ratelimit/durable-object';
 import { buildApiConfig } from './config';
 import { createApp } from './app';
+import { purgeExpiredTrash, trashWindowMs } from './domain/context-deletion';
+import { sweepRetention } from './domain/retention';
 import { SupabaseAdapter } from './storage/supabase';
+import type { ApiConfig } from './types/api';
+import { WebhookDispatcher } from './webhooks/dispatcher';
 
 // =============================================================================
 // CF WORKERS ENTRYPOINT
 // =============================================================================
 
+// Durable Object classes have to be exported from the entrypoint
+export { RateLimitObject } from './ratelimit/durable-object';
+
 type Env = {
     DATABASE_PROVIDER: string;
     SUPABASE_URL: string;
     SUPABASE_SERVICE_ROLE_KEY: string;
     ULTRACONTEXT_ADMIN_KEY: string;
+    IDEMPOTENCY_WINDOW_SECONDS?: string;
+    TRASH_WINDOW_SECONDS?: string;
+    RATE_LIMIT_WINDOW_SECONDS?: string;
+    RATE_LIMITS?: string;
+    ULTRACONTEXT_TOKEN_SIGNING_KEY?: string;
     ULTRACONTEXT_API_KEYS_CACHE?: KVNamespace;
+    ULTRACONTEXT_RATE_LIMITS?: DurableObjectNamespace;
+};
+
+type Services = {
+    app: ReturnType<typeof createApp>;
+    config: ApiConfig;
+    storage: SupabaseAdapter;
+    webhooks: WebhookDispatcher;
 };
 
+// must match the hourly trigger in wrangler.jsonc
+const SWEEP_CRON = '0 * * * *';
+
 // cached per worker instance
-let app: ReturnType<typeof createApp> | null = null;
+let services: Services | null = null;
 
-export default {
-    fetch(request: Request, env: Env): Response | Promise<Response> {
-        if (!app) {
-            const config = buildApiConfig(env as unknown as Record<string, string | undefined>);
-            if (config.DATABASE_PROVIDER !== 'supabase') {
-                throw new Error('CF Workers only supports Supabase storage');
-            }
-            const storage = new SupabaseAdapter(config.SUPABASE_URL, config.SUPABASE_SERVICE_ROLE_KEY);
-
-            const keyCache = env.ULTRACONTEXT_API_KEYS_CACHE
-                ? new KvKeyCache(env.ULTRACONTEXT_API_KEYS_CACHE)
-                : undefined;
-
-            app = createApp({ config, storage, keyCache });
+function getServices(env: Env): Services {
+    if (!services) {
+        const config = buildApiConfig(env as unknown as Record<string, string | undefined>);
+        if (config.DATABASE_PROVIDER !== 'supabase') {
+            throw new Error('CF Workers only supports Supabase storage');
         }
+        const storage = new SupabaseAdapter(config.SUPABASE_URL, config.SUPABASE_SERVICE_ROLE_KEY);
+
+        const keyCache = env.ULTRACONTEXT_API_KEYS_CACHE
+            ? new KvKeyCache(env.ULTRACONTEXT_API_KEYS_CACHE)
+            : undefined;
+
+        // rate limiting is on only with its Durable Object bound
+        const rateLimiter = env.ULTRACONTEXT_RATE_LIMITS
+            ? new DurableObjectRateLimitCounter(env.ULTRACONTEXT_RATE_LIMITS)
+            : undefined;
 
-        return app.fetch(request);
+        // timers don't outlive the request here; the cron below retries instead
+        const webhooks = new WebhookDispatcher({ retryInProcess: false });
+
+        // isolates don't share memory, so event streams need a source backed by
+        // something shared (e.g. a Durable Object); without one they answer 501
+        const app = createApp({ config, storage, keyCache, rateLimiter, webhooks });
+        services = { app, config, storage, webhooks };
+    }
+    return services;
+}
+
+export default {
+    fetch(request: Request, env: Env, ctx: ExecutionContext): Response | Promise<Response> {
+        return getServices(env).app.fetch(request, env, ctx);
+    },
+
+    scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+        const { config, storage, webhooks } = getServices(env);
+        if (controller.cron === SWEEP_CRON) {
+            const events = { sinks: { webhooks }, background: (task: Promise<unknown>) => ctx.waitUntil(task) };
+            ctx.waitUntil(sweepRetention(storage, events).then(() => purgeExpiredTrash(storage, trashWindowMs(config), events)));
+            return;
+        }
+        ctx.waitUntil(webhooks.retryDue(storage));
     },
 };
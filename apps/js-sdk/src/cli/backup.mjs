@@ -0,0 +1,172 @@
+// CLI handlers for `ultracontext backup` and `ultracontext restore` (admin)
+import fs from "node:fs";
+import process from "node:process";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+
+// ANSI helpers (match entry.mjs style)
+const isTTY = process.stdout.isTTY;
+const esc = (code) => (isTTY ? `\x1b[${code}m` : "");
+const r = esc(0);
+const b = esc(1);
+const d = esc(2);
+const green = esc("38;2;80;200;120");
+const red = esc("38;2;220;80;80");
+const gray = esc("38;5;245");
+
+const DEFAULT_BASE_URL = "https://api.ultracontext.ai";
+
+function parseProjectId(value, usage) {
+  const id = Number(value);
+  if (!value || !Number.isSafeInteger(id) || id < 1) throw new Error(`Missing or invalid project id. Usage: ${usage}`);
+  return id;
+}
+
+// ultracontext backup <project-id> [--out <file|->]
+function parseBackupArgs(args) {
+  const usage = "ultracontext backup <project-id> [--out <file>]";
+  const opts = { projectId: null, out: null };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "--out" || arg === "-o") {
+      opts.out = args[++i];
+      if (!opts.out) throw new Error("--out requires a path (or - for stdout)");
+      continue;
+    }
+
+    if (!arg.startsWith("-") && opts.projectId === null) {
+      opts.projectId = parseProjectId(arg, usage);
+      continue;
+    }
+
+    throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  if (opts.projectId === null) parseProjectId(null, usage);
+  opts.out = opts.out ?? `ultracontext-project-${opts.projectId}.ndjson`;
+  return opts;
+}
+
+// ultracontext restore <project-id> <file>
+function parseRestoreArgs(args) {
+  const usage = "ultracontext restore <project-id> <file>";
+  const positional = [];
+
+  for (const arg of args) {
+    if (arg.startsWith("-") && arg !== "-") throw new Error(`Unknown argument: ${arg}`);
+    positional.push(arg);
+  }
+  if (positional.length > 2) throw new Error(`Too many arguments. Usage: ${usage}`);
+
+  const projectId = parseProjectId(positional[0], usage);
+  if (!positional[1]) throw new Error(`Missing backup file. Usage: ${usage}`);
+  return { projectId, file: positional[1] };
+}
+
+function adminRequestConfig() {
+  const adminKey = process.env.ULTRACONTEXT_ADMIN_KEY;
+  if (!adminKey) throw new Error("ULTRACONTEXT_ADMIN_KEY is required for backup and restore");
+  const baseUrl = (process.env.ULTRACONTEXT_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  return { baseUrl, headers: { Authorization: `Bearer ${adminKey}` } };
+}
+
+async function failedResponse(res) {
+  const text = await res.text().catch(() => "");
+  try {
+    return new Error(JSON.parse(text).error ?? `HTTP ${res.status}`);
+  } catch {
+    return new Error(`HTTP ${res.status}`);
+  }
+}
+
+// splits a web stream of NDJSON into parsed lines
+async function* readJsonLines(body) {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) if (line.trim()) yield JSON.parse(line);
+  }
+  if (buffer.trim()) yield JSON.parse(buffer);
+}
+
+async function doBackup(opts) {
+  const { baseUrl, headers } = adminRequestConfig();
+  const res = await fetch(`${baseUrl}/v1/projects/${opts.projectId}/backup`, { headers });
+  if (!res.ok || !res.body) throw await failedResponse(res);
+
+  // stdout stays clean for piping
+  if (opts.out === "-") {
+    await pipeline(Readable.fromWeb(res.body), process.stdout);
+    return;
+  }
+
+  await pipeline(Readable.fromWeb(res.body), fs.createWriteStream(opts.out));
+  const size = fs.statSync(opts.out).size;
+  console.log(`${green}✓${r} Backed up project ${b}${opts.projectId}${r}`);
+  console.log(`  ${d}File:${r} ${gray}${opts.out}${r} ${gray}(${size} bytes)${r}`);
+}
+
+async function doRestore(opts) {
+  const { baseUrl, headers } = adminRequestConfig();
+  const source = opts.file === "-" ? process.stdin : fs.createReadStream(opts.file);
+
+  const res = await fetch(`${baseUrl}/v1/projects/${opts.projectId}/restore`, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/x-ndjson" },
+    body: Readable.toWeb(source),
+    duplex: "half",
+  });
+  if (!res.ok || !res.body) throw await failedResponse(res);
+
+  for await (const event of readJsonLines(res.body)) {
+    if (event.type === "progress") {
+      const line = `  ${gray}○${r} ${d}Restored ${event.nodes}/${event.total} nodes${r}`;
+      if (isTTY) process.stdout.write(`\r${line}`);
+      else console.log(line);
+      continue;
+    }
+    if (isTTY) process.stdout.write("\n");
+    if (event.type === "error") throw new Error(`Restore failed: ${event.error}`);
+    if (event.type === "done") {
+      console.log(`${green}✓${r} Restored ${b}${event.nodes}${r} nodes into project ${b}${opts.projectId}${r}`);
+      if (event.api_keys_skipped > 0) {
+        console.log(`  ${d}${event.api_keys_skipped} API key(s) were not restored — backups hold no secrets; create new keys.${r}`);
+      }
+      return;
+    }
+  }
+  throw new Error("Restore ended without a result");
+}
+
+async function runAdminCommand(parse, run) {
+  let opts;
+  try {
+    opts = parse(process.argv.slice(3));
+  } catch (err) {
+    console.error(`${red}x${r} ${err.message}`);
+    process.exit(1);
+  }
+
+  try {
+    await run(opts);
+  } catch (err) {
+    console.error(`${red}x${r} ${err.message}`);
+    process.exit(1);
+  }
+}
+
+export async function runBackup() {
+  await runAdminCommand(parseBackupArgs, doBackup);
+}
+
+export async function runRestore() {
+  await runAdminCommand(parseRestoreArgs, doRestore);
+}
+
+// exported for tests
+export { parseBackupArgs, parseRestoreArgs, readJsonLines };
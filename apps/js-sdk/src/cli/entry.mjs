@@ -40,6 +40,8 @@ Commands:
   sync status   Show daemon status
   config        Run the setup wizard
   switch        Switch session to another agent (codex, claude)
+  backup        Back up a project: backup <project-id> [--out <file>]
+  restore       Restore a backup into an empty project: restore <project-id> <file>
   update        Update CLI globally via npm/pnpm/bun
   version       Print version
   help          Show this help message
@@ -47,6 +49,7 @@ Commands:
 Environment:
   ULTRACONTEXT_API_KEY   Required. Your UltraContext API key.
   ULTRACONTEXT_BASE_URL  API base URL (default: https://api.ultracontext.ai)
+  ULTRACONTEXT_ADMIN_KEY Required for backup and restore.
 `);
 }
 
@@ -327,7 +330,8 @@ async function runUpdate(rawArgs) {
 
 // ── update check ────────────────────────────────────────────────
 
-const SKIP_UPDATE_CHECK = new Set(["version", "v", "update", "upgrade", "help", "h", "stop", "sync", ""]);
+// backup can write to stdout, which must stay clean for piping
+const SKIP_UPDATE_CHECK = new Set(["version", "v", "update", "upgrade", "help", "h", "stop", "sync", "backup", "restore", ""]);
 
 async function fetchLatestVersion() {
   const controller = new AbortController();
@@ -467,6 +471,18 @@ async function run() {
       break;
     }
 
+    case "backup": {
+      const { runBackup } = await import("./backup.mjs");
+      await runBackup();
+      break;
+    }
+
+    case "restore": {
+      const { runRestore } = await import("./backup.mjs");
+      await runRestore();
+      break;
+    }
+
     case "help":
     case "h":
       printHelp();
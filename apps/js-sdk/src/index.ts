@@ -1,16 +1,26 @@
+// what a token provider hands back; without expires_at a token is used until a 401
+export type ProvidedToken = string | { token: string; expires_at?: string };
+
+// one of apiKey or tokenProvider is required
 export type UltraContextConfig = {
-    apiKey: string;
+    apiKey?: string;
+    // fetches a short-lived token (see createToken), again before each one expires
+    tokenProvider?: () => ProvidedToken | Promise<ProvidedToken>;
     baseUrl?: string;
     fetch?: typeof fetch;
     headers?: Record<string, string>;
     timeoutMs?: number;
+    // how many times a 429 is retried after its Retry-After; 0 throws right away
+    maxRateLimitRetries?: number;
 };
 
 export type Version = {
     version: number;
     created_at: string;
-    operation: 'create' | 'update' | 'delete';
+    operation: 'create' | 'update' | 'delete' | 'revert' | 'splice' | 'compact' | 'metadata';
     affected: string[] | null;
+    source_version?: number;
+    metadata_changes?: Record<string, FieldChange>;
     metadata?: Record<string, unknown>;
 };
 
@@ -28,7 +38,11 @@ export type CreateContextResponse = {
     created_at: string;
 };
 
-export type AppendMessage = Omit<Record<string, unknown>, 'metadata'> & { metadata?: Record<string, unknown> };
+// idempotency_key dedupes a single message across retries (scoped to the project)
+export type AppendMessage = Omit<Record<string, unknown>, 'metadata' | 'idempotency_key'> & {
+    metadata?: Record<string, unknown>;
+    idempotency_key?: string;
+};
 export type AppendInput = AppendMessage | AppendMessage[];
 
 export type AppendResponse<T = unknown> = {
@@ -41,16 +55,75 @@ export type GetContextInput = {
     at?: number;
     before?: string;
     history?: boolean;
+    offset?: number;
+    limit?: number;
+    tail?: number;
+    from_id?: string;
+    to_id?: string;
 };
 
 export type GetContextResponse<T = unknown> = {
     data: Array<{ id: string; index: number; metadata: Record<string, unknown> } & T>;
     version: number;
+    total: number;
     versions?: Version[];
 };
 
+export type DiffInput = {
+    from: number;
+    to?: number;
+};
+
+export type FieldChange = { from?: unknown; to?: unknown };
+
+export type DiffResponse<T = unknown> = {
+    from: number;
+    to: number;
+    added: Array<{ id: string; index: number; metadata: Record<string, unknown> } & T>;
+    removed: Array<{ id: string; index: number; metadata: Record<string, unknown> } & T>;
+    modified: Array<{
+        from_id: string;
+        to_id: string;
+        from_index: number;
+        to_index: number;
+        changes: { content?: Record<string, FieldChange>; metadata?: Record<string, FieldChange> };
+    }>;
+};
+
+export type ForkSource = {
+    id: string;
+    version: number | null;
+    index: number | null;
+    deleted?: true;
+};
+
+export type LineageEntry = {
+    id: string;
+    created_at: string;
+    metadata: Record<string, unknown>;
+    forked_from: ForkSource | null;
+};
+
+export type LineageResponse = LineageEntry & {
+    ancestors: LineageEntry[];
+    descendants: Array<LineageEntry & { depth: number }>;
+};
+
+// conditions on one metadata key (string values); several are ANDed
+export type MetadataCondition = {
+    eq?: string;
+    not?: string;
+    in?: string[];
+    not_in?: string[];
+    prefix?: string;
+    not_prefix?: string;
+};
+
 export type ListContextsInput = {
     limit?: number;
+    cursor?: string;
+    order?: 'asc' | 'desc';
+    total?: boolean;
     source?: string;
     user_id?: string;
     host?: string;
@@ -58,6 +131,13 @@ export type ListContextsInput = {
     session_id?: string;
     after?: string;
     before?: string;
+    // keyed by metadata key or dot path ('a.b'); a string is shorthand for { eq }
+    metadata?: Record<string, string | MetadataCondition>;
+    // JSON containment: matches contexts whose metadata includes this object
+    metadata_contains?: Record<string, unknown>;
+    metadata_not_contains?: Record<string, unknown>;
+    // list the trash (deleted, still restorable contexts) instead
+    trashed?: boolean;
 };
 
 export type ListContextsResponse = {
@@ -65,11 +145,124 @@ export type ListContextsResponse = {
         id: string;
         metadata: Record<string, unknown>;
         created_at: string;
+        // trashed listings only
+        deleted_at?: string;
+        restorable_until?: string;
+    }>;
+    next_cursor: string | null;
+    total?: number;
+};
+
+// filters apply to the context, like ListContextsInput
+export type ExportOptions = {
+    // only the current head, flattened into a single version
+    headOnly?: boolean;
+};
+
+export type ImportResponse = {
+    id: string;
+    metadata: Record<string, unknown>;
+    created_at: string;
+    version: number;
+};
+
+export type RestoreResponse = {
+    id: string;
+    metadata: Record<string, unknown>;
+    created_at: string;
+    version: number;
+};
+
+export type SearchInput = Pick<
+    ListContextsInput,
+    'source' | 'user_id' | 'host' | 'project_path' | 'session_id' | 'after' | 'before' | 'metadata' | 'metadata_contains' | 'metadata_not_contains'
+> & {
+    q: string;
+    limit?: number;
+    // next_cursor of the previous page
+    cursor?: string;
+};
+
+export type SearchResponse<T = unknown> = {
+    data: Array<{
+        context: { id: string; metadata: Record<string, unknown>; created_at: string };
+        message: { id: string; index: number; metadata: Record<string, unknown> } & T;
+        // matched terms wrapped in <mark></mark>
+        snippet: string;
+        rank: number;
     }>;
+    // set whenever more matches may follow, even after a short page
+    next_cursor: string | null;
 };
 
+export type ContextEventType = 'create' | 'append' | 'update' | 'delete' | 'revert' | 'restore';
+
+// data: create carries the `fork` point of forked contexts, append the new
+// `messages`, update an `operation` (update, splice, compact or metadata) with
+// what changed, delete the removed `ids`, `trashed: true` with
+// `restorable_until` or `permanent: true`, revert the `source_version`
+export type ContextEvent = {
+    id: string;
+    type: ContextEventType;
+    context: { id: string; metadata: Record<string, unknown>; created_at: string };
+    // null once the context is deleted
+    version: number | null;
+    data: Record<string, unknown>;
+    created_at: string;
+};
+
+// the server no longer had the events after lastEventId: refetch state
+export type ContextResetEvent = {
+    type: 'reset';
+    last_event_id: string | null;
+};
+
+// project-wide streams take the GET /contexts filters
+export type SubscribeInput = Pick<
+    ListContextsInput,
+    'source' | 'user_id' | 'host' | 'project_path' | 'session_id' | 'after' | 'before' | 'metadata' | 'metadata_contains' | 'metadata_not_contains'
+>;
+
+export type SubscribeOptions = {
+    lastEventId?: string;
+    signal?: AbortSignal;
+    // reconnect (resuming from the last event) when the connection drops; default true
+    reconnect?: boolean;
+};
+
+export type TokenScope = 'contexts:read' | 'contexts:write' | 'contexts:delete' | 'mcp';
+
+// omitted fields keep the calling key's access; a token can never exceed it
+export type CreateTokenInput = {
+    scopes?: TokenScope[];
+    context_ids?: string[];
+    metadata_filter?: Record<string, unknown>;
+    // seconds, default 900 (15 minutes)
+    expires_in?: number;
+};
+
+export type CreateTokenResponse = {
+    token: string;
+    expires_at: string;
+    scopes: TokenScope[] | null;
+    context_ids: string[] | null;
+    metadata_filter: Record<string, unknown> | null;
+};
+
+// expectedVersion is sent as If-Match; a stale version throws UltraContextConflictError
 export type MutationOptions = {
     metadata?: Record<string, unknown>;
+    expectedVersion?: number;
+};
+
+export type AppendOptions = {
+    expectedVersion?: number;
+    idempotencyKey?: string;
+};
+
+// idempotencyKey is sent as Idempotency-Key; a retry within the server's window replays the first response
+export type CreateOptions = {
+    idempotencyKey?: string;
 };
 
 export type UpdateMessageInput =
@@ -82,10 +275,57 @@ export type UpdateResponse<T = unknown> = {
     version: number;
 };
 
+// JSON merge patch: null removes a key, nested objects merge
+export type MetadataPatch = Record<string, unknown>;
+
+export type UpdateMetadataResponse = {
+    id: string;
+    metadata: Record<string, unknown>;
+    changes: Record<string, FieldChange>;
+    version: number;
+};
+
+// start is an index (negative counts from the end, length inserts at the tail) or a message id
+export type SpliceInput = {
+    start: number | string;
+    delete_count?: number;
+    insert?: AppendMessage[];
+};
+
+export type SpliceResponse<T = unknown> = {
+    data: Array<{ id: string; index: number; metadata: Record<string, unknown> } & T>;
+    version: number;
+};
+
+// from/to are inclusive (index or message id); summary may be omitted when the server has a summarizer
+export type CompactInput = {
+    from: number | string;
+    to: number | string;
+    summary?: AppendMessage;
+};
+
+export type CompactResponse<T = unknown> = {
+    data: Array<{ id: string; index: number; metadata: Record<string, unknown> } & T>;
+    version: number;
+    folded: string[];
+};
+
+export type RevertInput = ({ version: number; before?: never } | { before: string; version?: never }) & {
+    metadata?: Record<string, unknown>;
+    expectedVersion?: number;
+};
+
+export type RevertResponse<T = unknown> = {
+    data: Array<{ id: string; index: number; metadata: Record<string, unknown> } & T>;
+    version: number;
+    source_version: number;
+};
+
 export type DeleteInput = (string | number) | (string | number)[];
 
-// Unified delete input — either message ids (soft, versioned) OR {permanent: true} (hard, irreversible)
-export type DeletePermanentInput = { permanent: true; metadata?: Record<string, unknown> };
+// Unified delete input — either message ids (soft, versioned) OR {permanent: true} (the whole context).
+// A deleted context goes to the trash and can be restored for a while; purge: true deletes it irreversibly.
+export type DeletePermanentInput = { permanent: true; purge?: boolean; metadata?: Record<string, unknown>; expectedVersion?: number };
 
 export type DeleteResponse<T = unknown> = {
     data: Array<{ id: string; index: number; metadata: Record<string, unknown> } & T>;
@@ -95,12 +335,20 @@ export type DeleteResponse<T = unknown> = {
 export type PermanentDeleteResponse = {
     deleted: boolean;
     id: string;
+    // trashed: restore() works until then
+    restorable_until?: string;
+    purged?: true;
     metadata?: Record<string, unknown>;
 };
 
+export type DeleteManyOptions = {
+    purge?: boolean;
+};
+
 export type DeleteManyResult = {
     id: string;
     deleted: boolean;
+    restorable_until?: string;
     error?: string;
 };
 
@@ -123,32 +371,69 @@ export class UltraContextHttpError extends Error {
     }
 }
 
+export class UltraContextConflictError extends UltraContextHttpError {
+    readonly currentVersion: number;
+
+    constructor(args: { status: number; url: string; bodyText?: string; currentVersion: number }) {
+        super(args);
+        this.name = 'UltraContextConflictError';
+        this.currentVersion = args.currentVersion;
+    }
+}
+
+export class UltraContextRateLimitError extends UltraContextHttpError {
+    // from Retry-After, when the server sent one
+    readonly retryAfterMs?: number;
+
+    constructor(args: { status: number; url: string; bodyText?: string; retryAfterMs?: number }) {
+        super(args);
+        this.name = 'UltraContextRateLimitError';
+        this.retryAfterMs = args.retryAfterMs;
+    }
+}
+
+const SUBSCRIBE_RETRY_MS = 1000;
+const DEFAULT_RATE_LIMIT_RETRIES = 2;
+const RATE_LIMIT_RETRY_MS = 1000;
+// provided tokens are replaced this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 30_000;
+
 export class UltraContext {
     private readonly baseUrl: string;
-    private readonly apiKey: string;
+    private readonly apiKey?: string;
+    private readonly tokenProvider?: () => ProvidedToken | Promise<ProvidedToken>;
+    private token: { value: string; refreshAt: number } | null = null;
+    // shared by concurrent requests, so the provider is called once per refresh
+    private pendingToken: Promise<string> | null = null;
     private readonly fetchFn: typeof fetch;
     private readonly headers?: Record<string, string>;
     private readonly timeoutMs?: number;
+    private readonly maxRateLimitRetries: number;
 
     constructor(cfg: UltraContextConfig) {
+        if (!cfg.apiKey && !cfg.tokenProvider) throw new Error('UltraContext needs an apiKey or a tokenProvider');
         this.baseUrl = (cfg.baseUrl ?? 'https://api.ultracontext.ai').replace(/\/+$/, '');
         this.apiKey = cfg.apiKey;
+        this.tokenProvider = cfg.tokenProvider;
         this.fetchFn = cfg.fetch ?? fetch;
         this.headers = cfg.headers;
         this.timeoutMs = cfg.timeoutMs;
+        this.maxRateLimitRetries = cfg.maxRateLimitRetries ?? DEFAULT_RATE_LIMIT_RETRIES;
     }
 
-    async create(input: CreateContextInput = {}): Promise<CreateContextResponse> {
+    async create(input: CreateContextInput = {}, options?: CreateOptions): Promise<CreateContextResponse> {
         return this.request<CreateContextResponse>('/contexts', {
             method: 'POST',
             body: input,
+            headers: idempotencyKey(options?.idempotencyKey),
         });
     }
 
-    async append<T = unknown>(contextId: string, input: AppendInput): Promise<AppendResponse<T>> {
+    async append<T = unknown>(contextId: string, input: AppendInput, options?: AppendOptions): Promise<AppendResponse<T>> {
         return this.request<AppendResponse<T>>(`/contexts/${encodeURIComponent(contextId)}`, {
             method: 'POST',
             body: input,
+            headers: { ...ifMatch(options?.expectedVersion), ...idempotencyKey(options?.idempotencyKey) },
         });
     }
 
@@ -162,6 +447,9 @@ export class UltraContext {
             const params = new URLSearchParams();
             if (typeof idOrOptions === 'object') {
                 if (idOrOptions.limit) params.set('limit', String(idOrOptions.limit));
+                if (idOrOptions.cursor) params.set('cursor', idOrOptions.cursor);
+                if (idOrOptions.order) params.set('order', idOrOptions.order);
+                if (idOrOptions.total) params.set('total', 'true');
                 if (idOrOptions.source) params.set('source', idOrOptions.source);
                 if (idOrOptions.user_id) params.set('user_id', idOrOptions.user_id);
                 if (idOrOptions.host) params.set('host', idOrOptions.host);
@@ -169,6 +457,8 @@ export class UltraContext {
                 if (idOrOptions.session_id) params.set('session_id', idOrOptions.session_id);
                 if (idOrOptions.after) params.set('after', idOrOptions.after);
                 if (idOrOptions.before) params.set('before', idOrOptions.before);
+                if (idOrOptions.trashed) params.set('trashed', 'true');
+                appendMetadataFilters(params, idOrOptions);
             }
             const query = params.toString();
             return this.request<ListContextsResponse>(`/contexts${query ? `?${query}` : ''}`, { method: 'GET' });
@@ -179,10 +469,144 @@ export class UltraContext {
         if (options?.at !== undefined) params.set('at', String(options.at));
         if (options?.before) params.set('before', options.before);
         if (options?.history) params.set('history', 'true');
+        if (options?.offset !== undefined) params.set('offset', String(options.offset));
+        if (options?.limit !== undefined) params.set('limit', String(options.limit));
+        if (options?.tail !== undefined) params.set('tail', String(options.tail));
+        if (options?.from_id) params.set('from_id', options.from_id);
+        if (options?.to_id) params.set('to_id', options.to_id);
         const query = params.toString();
         return this.request<GetContextResponse<T>>(`/contexts/${encodeURIComponent(idOrOptions)}${query ? `?${query}` : ''}`, { method: 'GET' });
     }
 
+    async search<T = unknown>(input: SearchInput): Promise<SearchResponse<T>> {
+        const params = new URLSearchParams({ q: input.q });
+        if (input.limit) params.set('limit', String(input.limit));
+        if (input.cursor) params.set('cursor', input.cursor);
+        if (input.source) params.set('source', input.source);
+        if (input.user_id) params.set('user_id', input.user_id);
+        if (input.host) params.set('host', input.host);
+        if (input.project_path) params.set('project_path', input.project_path);
+        if (input.session_id) params.set('session_id', input.session_id);
+        if (input.after) params.set('after', input.after);
+        if (input.before) params.set('before', input.before);
+        appendMetadataFilters(params, input);
+        return this.request<SearchResponse<T>>(`/search?${params.toString()}`, { method: 'GET' });
+    }
+
+    // yields events until options.signal aborts; a string subscribes to one context
+    subscribe(contextId: string, options?: SubscribeOptions): AsyncGenerator<ContextEvent | ContextResetEvent>;
+    subscribe(input?: SubscribeInput, options?: SubscribeOptions): AsyncGenerator<ContextEvent | ContextResetEvent>;
+    async *subscribe(
+        contextIdOrInput?: string | SubscribeInput,
+        options?: SubscribeOptions,
+    ): AsyncGenerator<ContextEvent | ContextResetEvent> {
+        let path: string;
+        if (typeof contextIdOrInput === 'string') {
+            path = `/contexts/${encodeURIComponent(contextIdOrInput)}/events`;
+        } else {
+            const input = contextIdOrInput ?? {};
+            const params = new URLSearchParams();
+            if (input.source) params.set('source', input.source);
+            if (input.user_id) params.set('user_id', input.user_id);
+            if (input.host) params.set('host', input.host);
+            if (input.project_path) params.set('project_path', input.project_path);
+            if (input.session_id) params.set('session_id', input.session_id);
+            if (input.after) params.set('after', input.after);
+            if (input.before) params.set('before', input.before);
+            appendMetadataFilters(params, input);
+            const query = params.toString();
+            path = `/events${query ? `?${query}` : ''}`;
+        }
+
+        const url = `${this.baseUrl}${path}`;
+        const signal = options?.signal;
+        let lastEventId = options?.lastEventId;
+        let retryMs = SUBSCRIBE_RETRY_MS;
+        let refreshedToken = false;
+
+        while (!signal?.aborted) {
+            let res: Response;
+            try {
+                // no timeoutMs: the stream stays open by design
+                res = await this.fetchFn(url, {
+                    method: 'GET',
+                    headers: {
+                        Authorization: `Bearer ${await this.bearerToken()}`,
+                        Accept: 'text/event-stream',
+                        ...(this.headers ?? {}),
+                        ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+                    },
+                    signal,
+                });
+            } catch {
+                if (signal?.aborted || options?.reconnect === false) return;
+                await sleep(retryMs, signal);
+                continue;
+            }
+
+            if (res.status === 401 && this.tokenProvider && !refreshedToken) {
+                await safeReadText(res);
+                this.token = null;
+                refreshedToken = true;
+                continue;
+            }
+            if (res.status === 429 && options?.reconnect !== false) {
+                await safeReadText(res);
+                await sleep(retryAfterMs(res) ?? retryMs, signal);
+                continue;
+            }
+            if (!res.ok || !res.body) {
+                throw new UltraContextHttpError({ status: res.status, url, bodyText: await safeReadText(res) });
+            }
+            refreshedToken = false;
+
+            try {
+                for await (const message of readServerSentEvents(res.body, signal)) {
+                    if (message.retry !== undefined) retryMs = message.retry;
+                    if (message.data === undefined) continue;
+
+                    if (message.event === 'reset') {
+                        yield { type: 'reset', last_event_id: JSON.parse(message.data).last_event_id ?? null };
+                        continue;
+                    }
+                    if (message.id) lastEventId = message.id;
+                    yield JSON.parse(message.data) as ContextEvent;
+                }
+            } catch (error) {
+                if (signal?.aborted) return;
+                if (error instanceof SyntaxError) throw error;
+            }
+
+            if (options?.reconnect === false) return;
+            await sleep(retryMs, signal);
+        }
+    }
+
+    async diff<T = unknown>(contextId: string, input: DiffInput): Promise<DiffResponse<T>> {
+        const params = new URLSearchParams({ from: String(input.from) });
+        if (input.to !== undefined) params.set('to', String(input.to));
+        return this.request<DiffResponse<T>>(`/contexts/${encodeURIComponent(contextId)}/diff?${params.toString()}`, { method: 'GET' });
+    }
+
+    async lineage(contextId: string): Promise<LineageResponse> {
+        return this.request<LineageResponse>(`/contexts/${encodeURIComponent(contextId)}/lineage`, { method: 'GET' });
+    }
+
+    // NDJSON bundle: the context line, then each version followed by its nodes
+    async export(contextId: string, options?: ExportOptions): Promise<string> {
+        const query = options?.headOnly ? '?head_only=true' : '';
+        return this.request<string>(`/contexts/${encodeURIComponent(contextId)}/export${query}`, { method: 'GET' });
+    }
+
+    // recreates an exported context under new ids
+    async import(bundle: string): Promise<ImportResponse> {
+        return this.request<ImportResponse>('/contexts/import', {
+            method: 'POST',
+            rawBody: bundle,
+            headers: { 'Content-Type': 'application/x-ndjson' },
+        });
+    }
+
     async update<T = unknown>(contextId: string, input: UpdateInput, options?: MutationOptions): Promise<UpdateResponse<T>> {
         const body = options?.metadata
             ? { updates: Array.isArray(input) ? input : [input], metadata: options.metadata }
@@ -191,6 +615,44 @@ export class UltraContext {
         return this.request<UpdateResponse<T>>(`/contexts/${encodeURIComponent(contextId)}`, {
             method: 'PATCH',
             body,
+            headers: ifMatch(options?.expectedVersion),
+        });
+    }
+
+    async updateMetadata(
+        contextId: string,
+        patch: MetadataPatch,
+        options?: Pick<MutationOptions, 'expectedVersion'>,
+    ): Promise<UpdateMetadataResponse> {
+        return this.request<UpdateMetadataResponse>(`/contexts/${encodeURIComponent(contextId)}/metadata`, {
+            method: 'PATCH',
+            body: patch,
+            headers: ifMatch(options?.expectedVersion),
+        });
+    }
+
+    async splice<T = unknown>(contextId: string, input: SpliceInput, options?: MutationOptions): Promise<SpliceResponse<T>> {
+        return this.request<SpliceResponse<T>>(`/contexts/${encodeURIComponent(contextId)}/splice`, {
+            method: 'POST',
+            body: options?.metadata ? { ...input, metadata: options.metadata } : input,
+            headers: ifMatch(options?.expectedVersion),
+        });
+    }
+
+    async compact<T = unknown>(contextId: string, input: CompactInput, options?: MutationOptions): Promise<CompactResponse<T>> {
+        return this.request<CompactResponse<T>>(`/contexts/${encodeURIComponent(contextId)}/compact`, {
+            method: 'POST',
+            body: options?.metadata ? { ...input, metadata: options.metadata } : input,
+            headers: ifMatch(options?.expectedVersion),
+        });
+    }
+
+    async revert<T = unknown>(contextId: string, input: RevertInput): Promise<RevertResponse<T>> {
+        const { expectedVersion, ...body } = input;
+        return this.request<RevertResponse<T>>(`/contexts/${encodeURIComponent(contextId)}/revert`, {
+            method: 'POST',
+            body,
+            headers: ifMatch(expectedVersion),
         });
     }
 
@@ -208,33 +670,65 @@ export class UltraContext {
             (input as DeletePermanentInput).permanent === true;
 
         if (isPermanent) {
-            const meta = (input as DeletePermanentInput).metadata;
+            const { metadata: meta, purge, expectedVersion } = input as DeletePermanentInput;
             return this.request<PermanentDeleteResponse>(`/contexts/${encodeURIComponent(contextId)}`, {
                 method: 'DELETE',
-                body: meta ? { permanent: true, metadata: meta } : { permanent: true },
+                body: { permanent: true, ...(purge ? { purge } : {}), ...(meta ? { metadata: meta } : {}) },
+                headers: ifMatch(expectedVersion),
             });
         }
 
         return this.request<DeleteResponse<T>>(`/contexts/${encodeURIComponent(contextId)}`, {
             method: 'DELETE',
             body: { ids: input as DeleteInput, metadata: options?.metadata },
+            headers: ifMatch(options?.expectedVersion),
         });
     }
 
-    async deleteMany(ids: string[]): Promise<DeleteManyResponse> {
+    async deleteMany(ids: string[], options?: DeleteManyOptions): Promise<DeleteManyResponse> {
         // 200 (all ok), 207 (partial), 500 (all failed) all carry a results body — surface directly.
         return this.request<DeleteManyResponse>('/contexts/delete-many', {
             method: 'POST',
-            body: { ids },
+            body: options?.purge ? { ids, purge: true } : { ids },
             acceptStatuses: [200, 207, 500],
         });
     }
 
-    private async request<T>(path: string, init: { method: string; body?: unknown; headers?: Record<string, string>; acceptStatuses?: number[] }): Promise<T> {
+    // brings a deleted context back from the trash
+    async restore(contextId: string): Promise<RestoreResponse> {
+        return this.request<RestoreResponse>(`/contexts/${encodeURIComponent(contextId)}/restore`, { method: 'POST' });
+    }
+
+    // mints a short-lived token for a browser or sandboxed agent; needs an apiKey
+    async createToken(input: CreateTokenInput = {}): Promise<CreateTokenResponse> {
+        return this.request<CreateTokenResponse>('/tokens', { method: 'POST', body: input });
+    }
+
+    private async bearerToken(): Promise<string> {
+        if (this.apiKey) return this.apiKey;
+        if (this.token && Date.now() < this.token.refreshAt) return this.token.value;
+
+        this.pendingToken ??= this.fetchToken().finally(() => {
+            this.pendingToken = null;
+        });
+        return this.pendingToken;
+    }
+
+    private async fetchToken(): Promise<string> {
+        const provided = await this.tokenProvider!();
+        const { token, expires_at } = typeof provided === 'string' ? { token: provided, expires_at: undefined } : provided;
+        const expiresAt = expires_at ? Date.parse(expires_at) : NaN;
+        this.token = { value: token, refreshAt: isNaN(expiresAt) ? Infinity : expiresAt - TOKEN_REFRESH_MARGIN_MS };
+        return token;
+    }
+
+    private async request<T>(
+        path: string,
+        init: { method: string; body?: unknown; rawBody?: string; headers?: Record<string, string>; acceptStatuses?: number[] },
+    ): Promise<T> {
         const url = `${this.baseUrl}${path.startsWith('/') ? '' : '/'}${path}`;
 
         const headers: Record<string, string> = {
-            Authorization: `Bearer ${this.apiKey}`,
             ...(this.headers ?? {}),
             ...(init.headers ?? {}),
         };
@@ -243,22 +737,50 @@ export class UltraContext {
         if (init.body !== undefined) {
             headers['Content-Type'] = headers['Content-Type'] ?? 'application/json';
             body = JSON.stringify(init.body);
+        } else if (init.rawBody !== undefined) {
+            // sent as-is; the caller sets Content-Type
+            body = init.rawBody;
         }
 
         const ac = this.timeoutMs ? new AbortController() : undefined;
         const timeout = this.timeoutMs ? setTimeout(() => ac?.abort(), this.timeoutMs) : undefined;
 
         try {
-            const res = await this.fetchFn(url, {
-                method: init.method,
-                headers,
-                body,
-                signal: ac?.signal,
-            });
+            let res: Response;
+            let rateLimitRetries = 0;
+            let refreshedToken = false;
+            // neither a 401 nor a 429 was processed, so even non-idempotent requests are safe to resend
+            while (true) {
+                res = await this.fetchFn(url, {
+                    method: init.method,
+                    headers: { Authorization: `Bearer ${await this.bearerToken()}`, ...headers },
+                    body,
+                    signal: ac?.signal,
+                });
+                // a provided token can stop working before its expiry (revoked key, clock skew)
+                if (res.status === 401 && this.tokenProvider && !refreshedToken) {
+                    await safeReadText(res);
+                    this.token = null;
+                    refreshedToken = true;
+                    continue;
+                }
+                if (res.status !== 429 || rateLimitRetries >= this.maxRateLimitRetries) break;
+                rateLimitRetries++;
+                await safeReadText(res);
+                await sleep(retryAfterMs(res) ?? RATE_LIMIT_RETRY_MS, ac?.signal);
+            }
 
             const accepted = init.acceptStatuses?.includes(res.status) ?? false;
             if (!res.ok && !accepted) {
                 const bodyText = await safeReadText(res);
+                if (res.status === 429) {
+                    throw new UltraContextRateLimitError({ status: res.status, url, bodyText, retryAfterMs: retryAfterMs(res) });
+                }
+                // other 409s (e.g. an Idempotency-Key still in progress) carry no current_version
+                const currentVersion = res.status === 409 ? parseCurrentVersion(bodyText) : undefined;
+                if (currentVersion !== undefined) {
+                    throw new UltraContextConflictError({ status: res.status, url, bodyText, currentVersion });
+                }
                 throw new UltraContextHttpError({ status: res.status, url, bodyText });
             }
 
@@ -273,6 +795,103 @@ export class UltraContext {
     }
 }
 
+function appendMetadataFilters(params: URLSearchParams, input: Pick<ListContextsInput, 'metadata' | 'metadata_contains' | 'metadata_not_contains'>) {
+    for (const [key, condition] of Object.entries(input.metadata ?? {})) {
+        if (typeof condition === 'string') {
+            params.append(`metadata.${key}`, condition);
+            continue;
+        }
+        for (const [op, value] of Object.entries(condition)) {
+            if (value === undefined) continue;
+            params.append(`metadata.${key}[${op}]`, Array.isArray(value) ? value.join(',') : value);
+        }
+    }
+    if (input.metadata_contains) params.set('metadata[contains]', JSON.stringify(input.metadata_contains));
+    if (input.metadata_not_contains) params.set('metadata[not_contains]', JSON.stringify(input.metadata_not_contains));
+}
+
+type ServerSentEvent = { event?: string; id?: string; data?: string; retry?: number };
+
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<ServerSentEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let message: ServerSentEvent = {};
+
+    // not every fetch implementation ends the body when its signal aborts
+    const cancel = () => void reader.cancel().catch(() => undefined);
+    signal?.addEventListener('abort', cancel);
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) return;
+            buffer += decoder.decode(value, { stream: true });
+
+            const lines = buffer.split(/\r\n|\r|\n/);
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                // a blank line dispatches the message; ':' lines are comments (heartbeats)
+                if (line === '') {
+                    if (message.data !== undefined || message.retry !== undefined) yield message;
+                    message = {};
+                    continue;
+                }
+                if (line.startsWith(':')) continue;
+
+                const sep = line.indexOf(':');
+                const field = sep === -1 ? line : line.slice(0, sep);
+                const value = sep === -1 ? '' : line.slice(sep + 1).replace(/^ /, '');
+                if (field === 'event') message.event = value;
+                else if (field === 'id') message.id = value;
+                else if (field === 'data') message.data = message.data === undefined ? value : `${message.data}\n${value}`;
+                else if (field === 'retry' && /^\d+$/.test(value)) message.retry = Number(value);
+            }
+        }
+    } finally {
+        signal?.removeEventListener('abort', cancel);
+        await reader.cancel().catch(() => undefined);
+    }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(done, ms);
+        function done() {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        }
+        signal?.addEventListener('abort', done);
+    });
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+function retryAfterMs(res: Response): number | undefined {
+    const value = res.headers.get('retry-after');
+    if (!value) return undefined;
+    if (/^\d+$/.test(value.trim())) return Number(value.trim()) * 1000;
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+function ifMatch(expectedVersion?: number): Record<string, string> | undefined {
+    return expectedVersion === undefined ? undefined : { 'If-Match': `"${expectedVersion}"` };
+}
+
+function idempotencyKey(key?: string): Record<string, string> | undefined {
+    return key === undefined ? undefined : { 'Idempotency-Key': key };
+}
+
+function parseCurrentVersion(bodyText?: string): number | undefined {
+    try {
+        const parsed = JSON.parse(bodyText ?? '');
+        return typeof parsed?.current_version === 'number' ? parsed.current_version : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
 async function safeReadText(res: Response) {
     try {
         return await res.text();
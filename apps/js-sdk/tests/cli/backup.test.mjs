@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { parseBackupArgs, parseRestoreArgs, readJsonLines } from "../../src/cli/backup.mjs";
+
+describe("parseBackupArgs", () => {
+  it("defaults the output file from the project id", () => {
+    assert.deepEqual(parseBackupArgs(["42"]), { projectId: 42, out: "ultracontext-project-42.ndjson" });
+  });
+
+  it("accepts --out, -o and - for stdout", () => {
+    assert.equal(parseBackupArgs(["42", "--out", "b.ndjson"]).out, "b.ndjson");
+    assert.equal(parseBackupArgs(["-o", "-", "42"]).out, "-");
+  });
+
+  it("rejects a missing or invalid project id", () => {
+    assert.throws(() => parseBackupArgs([]), /project id/);
+    assert.throws(() => parseBackupArgs(["abc"]), /project id/);
+    assert.throws(() => parseBackupArgs(["0"]), /project id/);
+  });
+
+  it("rejects unknown flags and a missing --out value", () => {
+    assert.throws(() => parseBackupArgs(["42", "--force"]), /Unknown argument/);
+    assert.throws(() => parseBackupArgs(["42", "--out"]), /--out requires/);
+  });
+});
+
+describe("parseRestoreArgs", () => {
+  it("takes a project id and a file", () => {
+    assert.deepEqual(parseRestoreArgs(["7", "backup.ndjson"]), { projectId: 7, file: "backup.ndjson" });
+    assert.deepEqual(parseRestoreArgs(["7", "-"]), { projectId: 7, file: "-" });
+  });
+
+  it("requires both arguments", () => {
+    assert.throws(() => parseRestoreArgs([]), /project id/);
+    assert.throws(() => parseRestoreArgs(["7"]), /Missing backup file/);
+    assert.throws(() => parseRestoreArgs(["7", "a", "b"]), /Too many arguments/);
+    assert.throws(() => parseRestoreArgs(["7", "a", "--yes"]), /Unknown argument/);
+  });
+});
+
+describe("readJsonLines", () => {
+  it("parses lines split across chunks", async () => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(encoder.encode('{"type":"progress","nodes":1}\n{"type":"do'));
+        controller.enqueue(encoder.encode('ne","nodes":2}'));
+        controller.close();
+      },
+    });
+
+    const events = [];
+    for await (const event of readJsonLines(body)) events.push(event);
+    assert.deepEqual(events, [{ type: "progress", nodes: 1 }, { type: "done", nodes: 2 }]);
+  });
+});
@@ -18,6 +18,7 @@ export default defineConfig([
       "cli/onboarding": "src/cli/onboarding.mjs",
       "cli/sdk-sync": "src/cli/sdk-sync.mjs",
       "cli/switch": "src/cli/switch.mjs",
+      "cli/backup": "src/cli/backup.mjs",
     },
     outDir: "dist",
     format: "esm",
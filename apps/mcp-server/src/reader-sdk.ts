@@ -7,16 +7,19 @@ export function sdkReader(uc: UltraContext): ContextReader {
   return {
     listContexts: (input) => uc.get(input),
 
-    getMessages: async (id) => {
+    searchMessages: (input) => uc.search(input),
+
+    getMessages: async (id, options) => {
       try {
-        const res = await uc.get(id);
+        const res = await uc.get(id, { tail: options?.tail });
         return {
-          data: res.data.map((m: any, i: number) => ({
+          data: res.data.map((m: any) => ({
             ...m,
             id: m.id,
-            index: i,
+            index: m.index,
             metadata: m.metadata,
           })),
+          total: res.total,
         };
       } catch {
         return null;
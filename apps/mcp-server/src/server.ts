@@ -12,7 +12,7 @@ export function createMcpServer(reader: ContextReader) {
     "list_contexts",
     {
       title: "List Contexts",
-      description: "List recent agent contexts. Filter by source, user_id, host, session_id, or time range.",
+      description: "List recent agent contexts. Filter by source, user_id, host, session_id, or time range. Pass next_cursor back as cursor to fetch the next page.",
       inputSchema: {
         source: z.string().optional().describe("Agent source: claude, codex, or openclaw"),
         user_id: z.string().optional().describe("User identifier"),
@@ -22,11 +22,17 @@ export function createMcpServer(reader: ContextReader) {
         after: z.string().optional().describe("ISO8601 timestamp — only contexts created after this time"),
         before: z.string().optional().describe("ISO8601 timestamp — only contexts created before this time"),
         limit: z.number().optional().describe("Max results (default 10)"),
+        cursor: z.string().optional().describe("Opaque cursor from a previous page's next_cursor"),
+        order: z.enum(["asc", "desc"]).optional().describe("Sort by creation time (default desc, newest first)"),
+        total: z.boolean().optional().describe("Include the total number of matching contexts"),
       },
     },
     async (args) => {
       const res = await reader.listContexts({
         limit: args.limit ?? 10,
+        cursor: args.cursor,
+        order: args.order,
+        total: args.total,
         source: args.source,
         user_id: args.user_id,
         host: args.host,
@@ -35,7 +41,8 @@ export function createMcpServer(reader: ContextReader) {
         after: args.after,
         before: args.before,
       });
-      return { content: [{ type: "text" as const, text: JSON.stringify(res.data, null, 2) }] };
+      const page = { data: res.data, next_cursor: res.next_cursor ?? null, ...(res.total !== undefined && { total: res.total }) };
+      return { content: [{ type: "text" as const, text: JSON.stringify(page, null, 2) }] };
     },
   );
 
@@ -56,6 +63,41 @@ export function createMcpServer(reader: ContextReader) {
     },
   );
 
+  // full-text search across messages
+  mcp.registerTool(
+    "search_messages",
+    {
+      title: "Search Messages",
+      description: "Full-text search over message content across contexts, best matches first. Matched terms in each snippet are wrapped in <mark></mark>. Use get_context_messages with the returned context id to read the surrounding conversation.",
+      inputSchema: {
+        query: z.string().describe("Search terms; supports \"quoted phrases\", OR, and -excluded words"),
+        source: z.string().optional().describe("Agent source: claude, codex, or openclaw"),
+        user_id: z.string().optional().describe("User identifier"),
+        host: z.string().optional().describe("Machine hostname (e.g. Fabios-MacBook-Pro.local)"),
+        project_path: z.string().optional().describe("Project directory path (e.g. /Users/fabio/Code/myapp)"),
+        session_id: z.string().optional().describe("Session identifier"),
+        after: z.string().optional().describe("ISO8601 timestamp — only contexts created after this time"),
+        before: z.string().optional().describe("ISO8601 timestamp — only contexts created before this time"),
+        limit: z.number().optional().describe("Max results (default 10)"),
+      },
+    },
+    async (args) => {
+      const res = await reader.searchMessages({
+        q: args.query,
+        limit: args.limit ?? 10,
+        source: args.source,
+        user_id: args.user_id,
+        host: args.host,
+        project_path: args.project_path,
+        session_id: args.session_id,
+        after: args.after,
+        before: args.before,
+      });
+      if (res.data.length === 0) return { content: [{ type: "text" as const, text: "No matching messages." }] };
+      return { content: [{ type: "text" as const, text: JSON.stringify(res.data, null, 2) }] };
+    },
+  );
+
   // convenience: get recent activity from an agent
   mcp.registerTool(
     "get_recent_activity",
@@ -74,14 +116,14 @@ export function createMcpServer(reader: ContextReader) {
         return { content: [{ type: "text" as const, text: "No recent activity found." }] };
       }
 
-      // fetch its messages
+      // fetch only its last messages
       const ctx = list.data[0];
-      const messages = await reader.getMessages(ctx.id);
+      const limit = args.message_limit ?? 10;
+      const messages = await reader.getMessages(ctx.id, { tail: limit });
       if (!messages) {
         return { content: [{ type: "text" as const, text: "No recent activity found." }] };
       }
 
-      const limit = args.message_limit ?? 10;
       const recent = messages.data.slice(-limit);
 
       const result = {
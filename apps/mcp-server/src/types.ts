@@ -13,8 +13,32 @@ export type ContextMessage = {
   [key: string]: unknown;
 };
 
+export type SearchHit = {
+  context: ContextSummary;
+  message: ContextMessage;
+  snippet: string;
+  rank: number;
+};
+
 export type ContextReader = {
   listContexts(input: {
+    limit?: number;
+    cursor?: string;
+    order?: "asc" | "desc";
+    total?: boolean;
+    source?: string;
+    user_id?: string;
+    host?: string;
+    project_path?: string;
+    session_id?: string;
+    after?: string;
+    before?: string;
+  }): Promise<{ data: ContextSummary[]; next_cursor?: string | null; total?: number }>;
+  // tail: only the last N messages (indexes stay absolute)
+  getMessages(contextId: string, options?: { tail?: number }): Promise<{ data: ContextMessage[]; total?: number } | null>;
+  // full-text search over messages at each context's current head
+  searchMessages(input: {
+    q: string;
     limit?: number;
     source?: string;
     user_id?: string;
@@ -23,6 +47,5 @@ export type ContextReader = {
     session_id?: string;
     after?: string;
     before?: string;
-  }): Promise<{ data: ContextSummary[] }>;
-  getMessages(contextId: string): Promise<{ data: ContextMessage[] } | null>;
+  }): Promise<{ data: SearchHit[] }>;
 };
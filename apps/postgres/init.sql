@@ -15,6 +15,15 @@ CREATE TABLE IF NOT EXISTS api_keys (
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- a rotated key keeps working until expires_at; a revoked key stops at once
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ;
+
+-- NULL grants everything: every scope, every context of the project
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS scopes TEXT[];
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS context_ids TEXT[];
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS metadata_filter JSONB;
+
 CREATE TABLE IF NOT EXISTS nodes (
   id BIGSERIAL PRIMARY KEY,
   public_id TEXT NOT NULL UNIQUE,
@@ -28,6 +37,13 @@ CREATE TABLE IF NOT EXISTS nodes (
   context_id TEXT
 );
 
+-- set on trashed root contexts; they're purged once the restore window passes
+ALTER TABLE nodes ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_nodes_deleted_at
+  ON nodes (deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
 CREATE INDEX IF NOT EXISTS idx_nodes_project_type_context
   ON nodes (project_id, type, context_id);
 
@@ -37,15 +53,229 @@ CREATE INDEX IF NOT EXISTS idx_nodes_context
 CREATE INDEX IF NOT EXISTS idx_nodes_prev
   ON nodes (prev_id);
 
+CREATE INDEX IF NOT EXISTS idx_nodes_parent
+  ON nodes (parent_id);
+
 CREATE INDEX IF NOT EXISTS idx_nodes_created_at
   ON nodes (created_at);
 
 CREATE INDEX IF NOT EXISTS idx_nodes_metadata
   ON nodes USING GIN (metadata);
 
+-- full-text search over every string value in message content
+CREATE INDEX IF NOT EXISTS idx_nodes_content_fts
+  ON nodes USING GIN (jsonb_to_tsvector('english', content, '["string"]'))
+  WHERE type = 'message';
+
 CREATE INDEX IF NOT EXISTS idx_api_keys_project_id
   ON api_keys (project_id);
 
+-- stored responses for Idempotency-Key / per-message idempotency_key replays
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id BIGSERIAL PRIMARY KEY,
+  project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL,
+  key TEXT NOT NULL,
+  fingerprint TEXT NOT NULL,
+  status_code INTEGER,
+  response JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_id, scope, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created_at
+  ON idempotency_keys (created_at);
+
+-- per-project webhook endpoints and their delivery log
+CREATE TABLE IF NOT EXISTS webhooks (
+  id BIGSERIAL PRIMARY KEY,
+  public_id TEXT NOT NULL UNIQUE,
+  project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_project_id
+  ON webhooks (project_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  public_id TEXT NOT NULL UNIQUE,
+  webhook_id BIGINT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id
+  ON webhook_deliveries (webhook_id, id DESC);
+
+-- retry sweep: only pending rows carry a next_attempt_at
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON webhook_deliveries (next_attempt_at)
+  WHERE status = 'pending';
+
+-- per-project retention, applied by the sweeper (server.ts interval / worker.ts cron)
+CREATE TABLE IF NOT EXISTS retention_policies (
+  project_id BIGINT PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  max_age_days INTEGER,
+  metadata JSONB,
+  max_versions INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- destructive and administrative operations; no FK so entries outlive the
+-- project, key or context they describe
+CREATE TABLE IF NOT EXISTS audit_events (
+  id BIGSERIAL PRIMARY KEY,
+  project_id BIGINT,
+  -- the acting key; null for the admin key and the sweeper
+  api_key_id BIGINT,
+  actor TEXT NOT NULL,
+  action TEXT NOT NULL,
+  target_id TEXT,
+  metadata JSONB,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_project_id
+  ON audit_events (project_id, id DESC);
+
+-- root contexts over a version limit, for the Supabase adapter (rpc);
+-- DrizzleAdapter.findContextsOverVersionLimit runs the same query inline
+CREATE OR REPLACE FUNCTION contexts_over_version_limit(
+  p_project_id BIGINT,
+  p_max_versions INTEGER,
+  p_limit INTEGER
+)
+RETURNS TABLE (public_id TEXT, versions INTEGER)
+LANGUAGE sql STABLE AS $$
+  SELECT h.context_id, COUNT(*)::int
+  FROM nodes h
+  WHERE h.project_id = p_project_id
+    AND h.type = 'context'
+    AND h.context_id IS NOT NULL
+  GROUP BY h.context_id
+  HAVING COUNT(*) > p_max_versions
+  ORDER BY 2 DESC, 1
+  LIMIT p_limit;
+$$;
+
+-- re-chains p_public_ids, in order, under p_context_id, for the Supabase adapter
+-- (rpc); DrizzleAdapter.rechainNodes runs the same update inline
+CREATE OR REPLACE FUNCTION rechain_nodes(
+  p_project_id BIGINT,
+  p_context_id TEXT,
+  p_public_ids JSONB
+)
+RETURNS VOID
+LANGUAGE sql AS $$
+  UPDATE nodes SET context_id = p_context_id, prev_id = chain.prev_id
+  FROM (
+    SELECT value AS public_id, lag(value) OVER (ORDER BY idx) AS prev_id
+    FROM jsonb_array_elements_text(p_public_ids) WITH ORDINALITY AS ids(value, idx)
+  ) AS chain
+  WHERE nodes.project_id = p_project_id
+    AND nodes.public_id = chain.public_id
+    AND (nodes.context_id IS DISTINCT FROM p_context_id OR nodes.prev_id IS DISTINCT FROM chain.prev_id);
+$$;
+
+-- points prev_id/parent_id of nodes under p_context_ids from each key of
+-- p_replacements to its value, for the Supabase adapter (rpc);
+-- DrizzleAdapter.replaceNodeReferences runs the same update inline
+CREATE OR REPLACE FUNCTION replace_node_references(
+  p_project_id BIGINT,
+  p_context_ids JSONB,
+  p_replacements JSONB
+)
+RETURNS VOID
+LANGUAGE sql AS $$
+  UPDATE nodes SET
+    prev_id = COALESCE(p_replacements ->> nodes.prev_id, nodes.prev_id),
+    parent_id = COALESCE(p_replacements ->> nodes.parent_id, nodes.parent_id)
+  WHERE nodes.project_id = p_project_id
+    AND nodes.context_id IN (SELECT jsonb_array_elements_text(p_context_ids))
+    AND (p_replacements ? nodes.prev_id OR p_replacements ? nodes.parent_id);
+$$;
+
+-- message search for the Supabase adapter (rpc); DrizzleAdapter.searchMessages
+-- runs the same query inline. p_filters apply to the root context's metadata:
+-- [{ op: contains, value, negate } | { op: in, path, values, negate } | { op: prefix, path, value, negate }]
+-- Dropped first because CREATE OR REPLACE can't rename p_metadata to p_filters.
+DROP FUNCTION IF EXISTS search_messages(BIGINT, TEXT, JSONB, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_messages(
+  p_project_id BIGINT,
+  p_query TEXT,
+  p_filters JSONB DEFAULT '[]'::jsonb,
+  p_after TIMESTAMPTZ DEFAULT NULL,
+  p_before TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  context_id TEXT,
+  context_metadata JSONB,
+  context_created_at TIMESTAMPTZ,
+  message JSONB,
+  rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql STABLE AS $$
+  SELECT
+    r.public_id,
+    r.metadata,
+    r.created_at,
+    to_jsonb(m),
+    ts_rank_cd(jsonb_to_tsvector('english', m.content, '["string"]'), q),
+    ts_headline(
+      'english',
+      (SELECT string_agg(v #>> '{}', ' ') FROM jsonb_path_query(m.content, 'strict $.** ? (@.type() == "string")') AS v),
+      q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  FROM websearch_to_tsquery('english', p_query) AS q,
+    nodes m
+    JOIN nodes h ON h.public_id = m.context_id AND h.type = 'context'
+    JOIN nodes r ON r.public_id = h.context_id
+  WHERE m.project_id = p_project_id
+    AND m.type = 'message'
+    AND jsonb_to_tsvector('english', m.content, '["string"]') @@ q
+    AND r.project_id = p_project_id
+    AND r.type = 'context'
+    AND r.context_id IS NULL
+    AND r.deleted_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_filters) AS f
+      WHERE coalesce(
+        CASE f->>'op'
+          WHEN 'contains' THEN r.metadata @> (f->'value')
+          WHEN 'in' THEN (r.metadata #>> ARRAY(SELECT jsonb_array_elements_text(f->'path')))
+            IN (SELECT jsonb_array_elements_text(f->'values'))
+          WHEN 'prefix' THEN starts_with(r.metadata #>> ARRAY(SELECT jsonb_array_elements_text(f->'path')), f->>'value')
+          WHEN 'ids' THEN r.public_id IN (SELECT jsonb_array_elements_text(f->'values'))
+        END,
+        false
+      ) = coalesce((f->>'negate')::boolean, false)
+    )
+    AND (p_after IS NULL OR r.created_at > p_after)
+    AND (p_before IS NULL OR r.created_at < p_before)
+  ORDER BY 5 DESC, m.created_at DESC, m.id DESC
+  LIMIT p_limit OFFSET p_offset;
+$$;
+
 CREATE OR REPLACE VIEW project_activity_daily
   WITH (security_invoker = on) AS
 WITH node_activity AS (
@@ -55,7 +285,7 @@ WITH node_activity AS (
     DATE_TRUNC('day', n.created_at) AS activity_day,
     COALESCE(NULLIF(n.metadata->>'source', ''), 'unknown') AS source,
     COUNT(*) AS node_count,
-    COUNT(*) FILTER (WHERE n.type <> 'context') AS message_count,
+    COUNT(*) FILTER (WHERE n.type NOT IN ('context', 'tombstone')) AS message_count,
     COUNT(*) FILTER (WHERE n.type = 'context') AS context_count,
     COUNT(*) FILTER (WHERE n.type = 'context' AND n.context_id IS NULL) AS root_context_count,
     MIN(n.created_at) AS first_event_at,
@@ -0,0 +1,84 @@
+-- Converts pre copy-on-write version heads into delta heads.
+--
+-- Before this change every PATCH/DELETE wrote a snapshot head holding a copy of
+-- every message. Those heads stay readable as-is, so this migration is only
+-- needed to reclaim the space. For each legacy head (newest first):
+--   * copies identical to their parent are deleted and every reference to them
+--     (prev_id, parent_id) is pointed at the parent instead
+--   * copies that differ stay as replacement nodes
+--   * messages of the previous head with no copy get a tombstone
+--   * the head is marked {"delta": true}
+--
+-- Unchanged messages take the public_id of their earliest version, so clients
+-- holding message ids from a legacy head should re-read the context afterwards.
+-- Safe to re-run: only heads with exactly '{}' content match the legacy filter.
+-- Converted heads carry {"delta": true} and snapshot heads written since carry
+-- {"snapshot": true}; converting either again would bring back messages their
+-- versions dropped.
+
+BEGIN;
+
+CREATE TEMP TABLE cow_redundant (
+  copy_id TEXT PRIMARY KEY,
+  original_id TEXT NOT NULL
+) ON COMMIT DROP;
+
+DO $$
+DECLARE
+  head RECORD;
+BEGIN
+  FOR head IN
+    SELECT public_id, prev_id, project_id
+    FROM nodes
+    WHERE type = 'context'
+      AND context_id IS NOT NULL
+      AND prev_id IS NOT NULL
+      AND content = '{}'::jsonb
+    ORDER BY created_at DESC, id DESC
+  LOOP
+    TRUNCATE cow_redundant;
+
+    INSERT INTO cow_redundant (copy_id, original_id)
+    SELECT c.public_id, p.public_id
+    FROM nodes c
+    JOIN nodes p ON p.public_id = c.parent_id
+    WHERE c.context_id = head.public_id
+      AND c.type <> 'context'
+      AND p.context_id = head.prev_id
+      AND p.type <> 'context'
+      AND c.content = p.content
+      AND c.metadata = p.metadata;
+
+    INSERT INTO nodes (public_id, project_id, type, context_id, parent_id)
+    SELECT
+      'msg_' || SUBSTRING(MD5(RANDOM()::TEXT || p.public_id) FOR 24),
+      head.project_id,
+      'tombstone',
+      head.public_id,
+      p.public_id
+    FROM nodes p
+    WHERE p.context_id = head.prev_id
+      AND p.type <> 'context'
+      AND NOT EXISTS (
+        SELECT 1 FROM nodes c
+        WHERE c.context_id = head.public_id AND c.parent_id = p.public_id
+      );
+
+    UPDATE nodes n SET prev_id = r.original_id
+    FROM cow_redundant r
+    WHERE n.prev_id = r.copy_id;
+
+    UPDATE nodes n SET parent_id = r.original_id
+    FROM cow_redundant r
+    WHERE n.parent_id = r.copy_id;
+
+    DELETE FROM nodes n
+    USING cow_redundant r
+    WHERE n.public_id = r.copy_id;
+
+    UPDATE nodes SET content = '{"delta": true}'::jsonb
+    WHERE public_id = head.public_id;
+  END LOOP;
+END $$;
+
+COMMIT;
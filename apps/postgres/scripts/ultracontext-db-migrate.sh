@@ -4,6 +4,7 @@ set -euo pipefail
 SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
 POSTGRES_DIR="$(cd "$SCRIPT_DIR/.." && pwd)"
 SCHEMA_FILE="$POSTGRES_DIR/init.sql"
+MIGRATIONS_DIR="$POSTGRES_DIR/migrations"
 
 cd "$POSTGRES_DIR"
 
@@ -43,4 +44,11 @@ fi
 echo "Applying schema to database '$DB_NAME' as user '$DB_USER'..."
 docker compose exec -T postgres psql -v ON_ERROR_STOP=1 -U "$DB_USER" -d "$DB_NAME" < "$SCHEMA_FILE"
 
+# data migrations are idempotent, so they are re-applied in order on every run
+for migration in "$MIGRATIONS_DIR"/*.sql; do
+  [[ -f "$migration" ]] || continue
+  echo "Applying migration $(basename "$migration")..."
+  docker compose exec -T postgres psql -v ON_ERROR_STOP=1 -U "$DB_USER" -d "$DB_NAME" < "$migration"
+done
+
 echo "Migration complete."
@@ -13,6 +13,7 @@ from .types import (
     ListContextsResponse,
     Message,
     PermanentDeleteResponse,
+    RestoreResponse,
     UpdateResponse,
     Version,
 )
@@ -36,6 +37,7 @@ __all__ = [
     "UpdateResponse",
     "DeleteResponse",
     "PermanentDeleteResponse",
+    "RestoreResponse",
     "DeleteManyResult",
     "DeleteManyResponse",
 ]
@@ -14,6 +14,7 @@ from .types import (
     GetContextResponse,
     ListContextsResponse,
     PermanentDeleteResponse,
+    RestoreResponse,
     UpdateResponse,
 )
 
@@ -243,16 +244,18 @@ class UltraContext(_BaseClient):
         ids: Optional[Union[str, int, List[Union[str, int]]]] = None,
         *,
         permanent: bool = False,
+        purge: bool = False,
         metadata: Optional[Dict[str, Any]] = None,
     ) -> Union[DeleteResponse, PermanentDeleteResponse]:
         """
-        Delete messages (soft, versioned) or the entire context (hard, permanent).
+        Delete messages (soft, versioned) or the entire context (trash or purge).
 
         Args:
             context_id: Context ID
             ids: Message ID, index, or list — soft delete (preserved in prior versions)
-            permanent: If True, permanently delete the entire context (irreversible).
-                Requires `ids` to be None.
+            permanent: If True, delete the entire context. It goes to the trash and can
+                be brought back with restore() until `restorable_until`. Requires `ids` to be None.
+            purge: With `permanent=True`, delete the context immediately (irreversible)
             metadata: Audit metadata — version metadata for soft delete, echoed in
                 response for permanent delete
         """
@@ -260,10 +263,14 @@ class UltraContext(_BaseClient):
             if ids is not None:
                 raise ValueError("Cannot pass both `ids` and `permanent=True`")
             body: Optional[Dict[str, Any]] = {"permanent": True}
+            if purge:
+                body["purge"] = True
             if metadata:
                 body["metadata"] = metadata
             return self._request("DELETE", f"/contexts/{quote(context_id, safe='')}", json=body)
 
+        if purge:
+            raise ValueError("`purge=True` requires `permanent=True`")
         if ids is None:
             raise ValueError("Either `ids` (soft delete) or `permanent=True` (hard delete) is required")
 
@@ -274,17 +281,28 @@ class UltraContext(_BaseClient):
 
         return self._request("DELETE", f"/contexts/{quote(context_id, safe='')}", json=body)
 
-    def delete_many(self, ids: List[str]) -> DeleteManyResponse:
+    def delete_many(self, ids: List[str], *, purge: bool = False) -> DeleteManyResponse:
         """
-        Delete multiple contexts permanently (max 100).
+        Delete multiple contexts (max 100). They go to the trash unless `purge=True`.
 
         Status 200 = all succeeded, 207 = partial, 500 = all failed. All three carry a
         results body; this method surfaces the body instead of raising.
 
         Args:
             ids: List of context IDs to delete
+            purge: If True, delete them immediately (irreversible)
         """
-        return self._request("POST", "/contexts/delete-many", json={"ids": ids}, accept_statuses=[200, 207, 500])
+        body: Dict[str, Any] = {"ids": ids, "purge": True} if purge else {"ids": ids}
+        return self._request("POST", "/contexts/delete-many", json=body, accept_statuses=[200, 207, 500])
+
+    def restore(self, context_id: str) -> RestoreResponse:
+        """
+        Restore a deleted context from the trash, while its restore window lasts.
+
+        Args:
+            context_id: Context ID
+        """
+        return self._request("POST", f"/contexts/{quote(context_id, safe='')}/restore")
 
 
 class AsyncUltraContext(_BaseClient):
@@ -449,17 +467,22 @@ class AsyncUltraContext(_BaseClient):
         ids: Optional[Union[str, int, List[Union[str, int]]]] = None,
         *,
         permanent: bool = False,
+        purge: bool = False,
         metadata: Optional[Dict[str, Any]] = None,
     ) -> Union[DeleteResponse, PermanentDeleteResponse]:
-        """Delete messages (soft, versioned) or the entire context (hard, permanent=True)."""
+        """Delete messages (soft, versioned) or the entire context (trash, or purge=True for hard delete)."""
         if permanent:
             if ids is not None:
                 raise ValueError("Cannot pass both `ids` and `permanent=True`")
             body: Optional[Dict[str, Any]] = {"permanent": True}
+            if purge:
+                body["purge"] = True
             if metadata:
                 body["metadata"] = metadata
             return await self._request("DELETE", f"/contexts/{quote(context_id, safe='')}", json=body)
 
+        if purge:
+            raise ValueError("`purge=True` requires `permanent=True`")
         if ids is None:
             raise ValueError("Either `ids` (soft delete) or `permanent=True` (hard delete) is required")
 
@@ -470,6 +493,11 @@ class AsyncUltraContext(_BaseClient):
 
         return await self._request("DELETE", f"/contexts/{quote(context_id, safe='')}", json=body)
 
-    async def delete_many(self, ids: List[str]) -> DeleteManyResponse:
-        """Delete multiple contexts permanently (max 100). 200/207/500 all carry a results body."""
-        return await self._request("POST", "/contexts/delete-many", json={"ids": ids}, accept_statuses=[200, 207, 500])
+    async def delete_many(self, ids: List[str], *, purge: bool = False) -> DeleteManyResponse:
+        """Delete multiple contexts (max 100), to the trash unless purge=True. 200/207/500 all carry a results body."""
+        body: Dict[str, Any] = {"ids": ids, "purge": True} if purge else {"ids": ids}
+        return await self._request("POST", "/contexts/delete-many", json=body, accept_statuses=[200, 207, 500])
+
+    async def restore(self, context_id: str) -> RestoreResponse:
+        """Restore a deleted context from the trash, while its restore window lasts."""
+        return await self._request("POST", f"/contexts/{quote(context_id, safe='')}/restore")
@@ -80,6 +80,17 @@ class PermanentDeleteResponse(TypedDict, total=False):
     deleted: bool
     id: str
     metadata: Optional[Dict[str, Any]]
+    restorable_until: str
+    purged: bool
+
+
+class RestoreResponse(TypedDict):
+    """Response from restore()."""
+
+    id: str
+    metadata: Dict[str, Any]
+    created_at: str
+    version: int
 
 
 class DeleteManyResult(TypedDict, total=False):
@@ -87,6 +98,7 @@ class DeleteManyResult(TypedDict, total=False):
 
     id: str
     deleted: bool
+    restorable_until: str
     error: Optional[str]
 
 
@@ -812,6 +812,8 @@ export async function daemonBoot({ createStore, resolveDbPath }) {
       role: normalized.kind,
       content: { message: normalized.message, event_type: normalized.eventType, timestamp: normalized.timestamp, raw: safeRaw },
       metadata: { source: sourceName, host: cfg.host, user_id: cfg.userId, session_id: normalized.sessionId, event_id: eventId, file_path: filePath, file_offset: lineOffset },
+      // server-side dedupe for retries after network failures
+      idempotency_key: eventId,
     };
 
     await uc.append(sessionContextId, payload);
@@ -904,6 +906,7 @@ export async function daemonBoot({ createStore, resolveDbPath }) {
           role: normalized.kind,
           content: { message: normalized.message, event_type: normalized.eventType, timestamp: normalized.timestamp, raw: safeRaw },
           metadata: { source: sourceName, host: cfg.host, user_id: cfg.userId, session_id: sessionId, event_id: eventId, file_path: filePath, file_offset: lineOffset },
+          idempotency_key: eventId,
         };
       });
 